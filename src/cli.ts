@@ -0,0 +1,220 @@
+#!/usr/bin/env node
+import * as fs from 'fs';
+import * as path from 'path';
+import { analyzeDirectory, loadProjectSettings } from './services/nodeWorkspace';
+import type { CodeItem, WorkspaceAnalysis } from './services/ProjectAnalyzer';
+import { draftReleaseNotes, formatReleaseNotesJson, formatReleaseNotesMarkdown, remoteIssueUrlTemplate } from './services/releaseNotes';
+
+const USAGE = `Usage: documind check [dir] [options]
+       documind release-notes [dir] [options]
+
+check: analyzes documentation coverage of a directory and exits with code 1
+when it is below the threshold.
+
+Options:
+  --format <text|json>   Output format (default: text)
+  --json                 Same as --format json
+  --threshold <percent>  Minimum coverage; defaults to documind.coverage.threshold
+                         in .vscode/settings.json, or 0
+  --limit <n>            Missing docs listed in text output (default: 50)
+  -h, --help             Show this help
+
+release-notes: drafts release notes for a range of the git history, as
+Markdown or, with --json, as JSON for release tooling.
+
+Options:
+  --from <rev>           Start of the range, exclusive (default: the tag before --to)
+  --to <rev>             End of the range (default: HEAD)
+  --issue-url <template> Link for #123 references, {id} standing for the number;
+                         defaults to documind.releaseNotes.issueUrlTemplate, else
+                         the issue page of the origin remote
+  --json                 Output JSON instead of Markdown`;
+
+// Exit codes: 0 passed, 1 below threshold, 2 usage or runtime error
+const EXIT_BELOW_THRESHOLD = 1;
+const EXIT_ERROR = 2;
+
+interface CheckOptions {
+    dir: string;
+    format: 'text' | 'json';
+    threshold?: number;
+    limit: number;
+}
+
+interface ReleaseNotesCliOptions {
+    dir: string;
+    from?: string;
+    to?: string;
+    issueUrlTemplate?: string;
+    json: boolean;
+}
+
+const PRIORITY_ORDER: Record<CodeItem['priority'], number> = { high: 0, medium: 1, low: 2 };
+
+function parseArgs(args: string[]): CheckOptions {
+    const options: CheckOptions = { dir: '.', format: 'text', limit: 50 };
+    const value = (flag: string, index: number) => {
+        if (index >= args.length) throw new Error(`${flag} needs a value`);
+        return args[index];
+    };
+    let dirSet = false;
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i];
+        if (arg === '--json') {
+            options.format = 'json';
+        } else if (arg === '--format') {
+            const format = value(arg, ++i);
+            if (format !== 'text' && format !== 'json') throw new Error(`Unknown format: ${format}`);
+            options.format = format;
+        } else if (arg === '--threshold') {
+            const threshold = Number(value(arg, ++i));
+            if (!Number.isFinite(threshold) || threshold < 0 || threshold > 100) throw new Error('--threshold must be between 0 and 100');
+            options.threshold = threshold;
+        } else if (arg === '--limit') {
+            const limit = Number(value(arg, ++i));
+            if (!Number.isInteger(limit) || limit < 0) throw new Error('--limit must be a non-negative integer');
+            options.limit = limit;
+        } else if (arg.startsWith('-')) {
+            throw new Error(`Unknown option: ${arg}`);
+        } else if (!dirSet) {
+            options.dir = arg;
+            dirSet = true;
+        } else {
+            throw new Error(`Unexpected argument: ${arg}`);
+        }
+    }
+    return options;
+}
+
+function parseReleaseNotesArgs(args: string[]): ReleaseNotesCliOptions {
+    const options: ReleaseNotesCliOptions = { dir: '.', json: false };
+    const value = (flag: string, index: number) => {
+        if (index >= args.length) throw new Error(`${flag} needs a value`);
+        return args[index];
+    };
+    let dirSet = false;
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i];
+        if (arg === '--json') {
+            options.json = true;
+        } else if (arg === '--from') {
+            options.from = value(arg, ++i);
+        } else if (arg === '--to') {
+            options.to = value(arg, ++i);
+        } else if (arg === '--issue-url') {
+            options.issueUrlTemplate = value(arg, ++i);
+        } else if (arg.startsWith('-')) {
+            throw new Error(`Unknown option: ${arg}`);
+        } else if (!dirSet) {
+            options.dir = arg;
+            dirSet = true;
+        } else {
+            throw new Error(`Unexpected argument: ${arg}`);
+        }
+    }
+    return options;
+}
+
+function undocumented(analysis: WorkspaceAnalysis): CodeItem[] {
+    return analysis.missingDocs
+        .filter(item => !item.hasDocumentation)
+        .sort((a, b) => PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority] || a.filePath.localeCompare(b.filePath) || a.lineNumber - b.lineNumber);
+}
+
+function formatText(root: string, analysis: WorkspaceAnalysis, threshold: number, passed: boolean, limit: number): string {
+    const { overall, configs } = analysis.coverageReport;
+    const lines = [
+        `Documentation coverage for ${root}`,
+        `Coverage: ${overall.coverage}% (${overall.documented}/${overall.total} symbols documented; docs are ${analysis.docFileRatio}% of files)`,
+        ...(configs.total > 0 ? [`Config: ${configs.coverage}% (${configs.documented}/${configs.total} env vars, scripts and config files mentioned in docs)`] : []),
+        `Threshold: ${threshold}% - ${passed ? 'passed' : 'FAILED'}`
+    ];
+
+    const missing = undocumented(analysis);
+    if (missing.length > 0) {
+        lines.push('', `Missing docs (${missing.length}):`);
+        for (const item of missing.slice(0, limit)) {
+            lines.push(`  ${path.posix.relative(root, item.filePath)}:${item.lineNumber}  ${item.type} ${item.name}  [${item.priority}]`);
+        }
+        if (missing.length > limit) {
+            lines.push(`  ...and ${missing.length - limit} more`);
+        }
+    }
+
+    if (analysis.docTasks.length > 0) {
+        lines.push('', `Doc tasks (${analysis.docTasks.length}):`);
+        for (const task of analysis.docTasks) {
+            lines.push(`  [${task.type}/${task.priority}] ${task.location ? task.description : task.title}`);
+        }
+    }
+    return lines.join('\n');
+}
+
+function formatJson(root: string, analysis: WorkspaceAnalysis, threshold: number, passed: boolean): string {
+    return JSON.stringify({
+        directory: root,
+        coverage: analysis.coverageReport.overall.coverage,
+        fileCoverage: analysis.docFileRatio,
+        threshold,
+        passed,
+        coverageReport: analysis.coverageReport,
+        missingDocs: undocumented(analysis).map(item => ({
+            file: path.posix.relative(root, item.filePath),
+            line: item.lineNumber,
+            type: item.type,
+            name: item.name,
+            priority: item.priority
+        })),
+        docTasks: analysis.docTasks
+    }, null, 2);
+}
+
+async function check(options: CheckOptions): Promise<number> {
+    const dir = path.resolve(options.dir);
+    if (!fs.existsSync(dir) || !fs.statSync(dir).isDirectory()) {
+        throw new Error(`Not a directory: ${options.dir}`);
+    }
+    const settings = loadProjectSettings(dir);
+    const analysis = await analyzeDirectory(dir, settings);
+    const threshold = options.threshold ?? settings.coverageThreshold ?? 0;
+    const passed = analysis.coverageReport.overall.coverage >= threshold;
+
+    const root = dir.split(path.sep).join('/');
+    console.log(options.format === 'json'
+        ? formatJson(root, analysis, threshold, passed)
+        : formatText(root, analysis, threshold, passed, options.limit));
+    return passed ? 0 : EXIT_BELOW_THRESHOLD;
+}
+
+async function releaseNotes(options: ReleaseNotesCliOptions): Promise<number> {
+    const dir = path.resolve(options.dir);
+    if (!fs.existsSync(dir) || !fs.statSync(dir).isDirectory()) {
+        throw new Error(`Not a directory: ${options.dir}`);
+    }
+    const issueUrlTemplate = options.issueUrlTemplate ?? loadProjectSettings(dir).issueUrlTemplate ?? await remoteIssueUrlTemplate(dir);
+    const notes = await draftReleaseNotes(dir, { from: options.from, to: options.to, issueUrlTemplate });
+    process.stdout.write(options.json ? `${formatReleaseNotesJson(notes)}\n` : formatReleaseNotesMarkdown(notes));
+    return 0;
+}
+
+async function main(argv: string[]): Promise<number> {
+    const [command, ...args] = argv;
+    if (!command || command === '-h' || command === '--help' || args.includes('-h') || args.includes('--help')) {
+        console.log(USAGE);
+        return command ? 0 : EXIT_ERROR;
+    }
+    if (command !== 'check' && command !== 'release-notes') {
+        console.error(`Unknown command: ${command}\n\n${USAGE}`);
+        return EXIT_ERROR;
+    }
+    try {
+        return command === 'release-notes' ? await releaseNotes(parseReleaseNotesArgs(args)) : await check(parseArgs(args));
+    } catch (error) {
+        console.error(`documind: ${error instanceof Error ? error.message : error}`);
+        return EXIT_ERROR;
+    }
+}
+
+main(process.argv.slice(2)).then(code => {
+    process.exitCode = code;
+});
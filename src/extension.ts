@@ -1,10 +1,22 @@
         import * as path from 'path';
 import * as vscode from 'vscode';
+import { AIService } from './services/AIService';
+import { AnalysisCache } from './services/AnalysisCache';
+import { findRequestFlow, formatGraphqlSchema, formatRequestFlow, formatSpecDrift, formatSpecOperations } from './services/apiDocs';
+import { formatArchitectureDiagrams, formatModuleDependencies } from './services/architectureDocs';
 import { ChangeTracker } from './services/ChangeTracker';
+import { suggestCommitMessage } from './services/commitMessages';
+import { CoverageHistory } from './services/CoverageHistory';
+import { MAX_DOCS_PER_SAVE, planDocRefresh } from './services/docSections';
 import { DocsServiceClient } from './services/DocsServiceClient';
-import { draftApiDocsBasic, draftChangelogSinceLastTag } from './services/gitDrafts';
+import { autoGeneratesOnSave, docsFolderOf, docsPath, docsUri, readSettings, resetSettings, saveSettings, type DocumindSettings } from './services/documindSettings';
+import { draftChangelogSinceLastTag, findOtherCommits } from './services/gitDrafts';
 import { MaintenanceService } from './services/MaintenanceService';
-import { WorkspaceAnalyzer, type CodeItem } from './services/WorkspaceAnalyzer';
+import { formatOpenApiYaml } from './services/openApi';
+import { draftReleaseNotes, formatReleaseNotesJson, formatReleaseNotesMarkdown, listTags, remoteIssueUrlTemplate } from './services/releaseNotes';
+import { postNotifications } from './services/webhook';
+import { WorkspaceAnalyzer, type CodeItem, type WorkspaceAnalysis } from './services/WorkspaceAnalyzer';
+import { toRelativePath } from './services/workspaceFiles';
 
 // Global file watcher for automatic updates
 let fileWatcher: vscode.FileSystemWatcher | undefined;
@@ -13,6 +25,10 @@ let fileWatcher: vscode.FileSystemWatcher | undefined;
 let maintenanceService: MaintenanceService;
 let changeTracker: ChangeTracker;
 
+const WEBHOOK_SENT_KEY = 'documind.webhook.sentNotifications';
+// Quiet period after the last save before documind.autoGenerateOnSave regenerates docs
+const AUTO_GENERATE_DELAY = 1500;
+
 /**
  * SECURITY NOTES FOR AI INTEGRATION:
  * - All user input is sanitized to prevent XSS
@@ -36,8 +52,8 @@ export function activate(context: vscode.ExtensionContext) {
     try {
 
     // Initialize services
-    maintenanceService = new MaintenanceService();
     changeTracker = new ChangeTracker(context);
+    maintenanceService = new MaintenanceService(context.secrets, changeTracker);
     
     // Create sample changes for demonstration
     async function createSampleChanges() {
@@ -164,8 +180,10 @@ This document describes the system architecture.
                 status: 'new',
                 actions: notif.actions.map(action => action.label),
                 issue: notif.description,
-                changed: notif.metadata?.pr?.filesChanged?.join(', ') || notif.metadata?.update?.filePath || 'Multiple files',
-                suggested: notif.actions.map(action => action.label).join(', '),
+                changed: notif.metadata?.pr?.filesChanged?.join(', ') || notif.metadata?.drift?.files?.join(', ') || notif.metadata?.missingCommits?.join('; ') || 'Multiple files',
+                suggested: notif.metadata?.drift ? `${notif.metadata.drift.doc} (${notif.metadata.drift.section})`
+                    : notif.metadata?.pr?.suggestedActions?.length ? notif.metadata.pr.suggestedActions.join('; ')
+                    : notif.actions.map(action => action.label).join(', '),
                 type: notif.type,
                 priority: notif.priority,
                 metadata: notif.metadata
@@ -176,6 +194,28 @@ This document describes the system architecture.
                 notifications: notifications
             });
         }
+        updateStatusBar();
+    }
+
+    function sendSettings(webviewView: vscode.WebviewView) {
+        webviewView.webview.postMessage({ command: 'updateSettings', settings: readSettings(getSelectedFolder()) });
+    }
+
+    // Post notifications the webhook has not seen yet; the ids sent are kept per workspace so a reload doesn't repeat them
+    async function announceNotifications() {
+        const folder = getSelectedFolder();
+        const { webhookUrl } = readSettings(folder);
+        if (!folder || !webhookUrl) return;
+        const notifications = maintenanceService.getNotifications();
+        const sent = new Set(context.workspaceState.get<string[]>(WEBHOOK_SENT_KEY, []));
+        const fresh = notifications.filter(notif => !sent.has(notif.id));
+        if (fresh.length === 0) return;
+        try {
+            await postNotifications(webhookUrl, fresh, folder.name);
+            await context.workspaceState.update(WEBHOOK_SENT_KEY, notifications.map(notif => notif.id));
+        } catch (error) {
+            console.error('Error posting notifications to the webhook:', error);
+        }
     }
 
     // Function to send activity data to webview
@@ -200,13 +240,23 @@ This document describes the system architecture.
     // Stub service client (no network calls yet)
     const docsClient = new DocsServiceClient();
     
-    // Workspace analyzer for deep code analysis
-    const workspaceAnalyzer = new WorkspaceAnalyzer();
+    // Workspace analyzer for deep code analysis, backed by a per-file cache in workspace storage
+    const workspaceAnalyzer = new WorkspaceAnalyzer(new AnalysisCache(context.storageUri, vscode.workspace.fs));
+    // Coverage snapshots per commit, for the dashboard trend chart
+    const coverageHistory = new CoverageHistory(context.storageUri);
+    // Folder the dashboard is showing in a multi-root workspace
+    let selectedFolderUri: string | undefined;
+    let dashboardView: vscode.WebviewView | undefined;
     let isGenerating = false;
     let isPaused = false;
     let generationAbortController: AbortController | null = null;
     
 
+    function getSelectedFolder(): vscode.WorkspaceFolder | undefined {
+        const folders = vscode.workspace.workspaceFolders || [];
+        return folders.find(f => f.uri.toString() === selectedFolderUri) || folders[0];
+    }
+
     // Simulate documentation generation with delays and pause/cancel support
     async function simulateDocumentationGeneration(webviewView: vscode.WebviewView, plan: any, docGenerator: any) {
         for (let i = 0; i < plan.files.length; i++) {
@@ -262,29 +312,50 @@ This document describes the system architecture.
         if (workspaceFolders && workspaceFolders.length > 0) {
             fileWatcher = vscode.workspace.createFileSystemWatcher('**/*');
             
-            fileWatcher.onDidCreate(() => {
-                // Debounce updates to avoid too many refreshes
-                setTimeout(() => {
-                    if (webviewView.visible) {
-                        refreshDashboardData(webviewView);
+            // Collect events and apply them in one incremental update after a quiet period
+            const changed = new Map<string, vscode.Uri>();
+            const deleted = new Map<string, vscode.Uri>();
+            let debounceTimer: NodeJS.Timeout | undefined;
+            const scheduleUpdate = () => {
+                if (debounceTimer) clearTimeout(debounceTimer);
+                debounceTimer = setTimeout(async () => {
+                    const changedFiles = Array.from(changed.values());
+                    const deletedFiles = Array.from(deleted.values());
+                    changed.clear();
+                    deleted.clear();
+                    try {
+                        const analysis = await workspaceAnalyzer.updateFiles(changedFiles, deletedFiles, getSelectedFolder());
+                        await recordCoverage(analysis);
+                        if (webviewView.visible) {
+                            webviewView.webview.postMessage({ command: 'updateDashboardStats', stats: analysis });
+                            sendCoverageTrend(webviewView);
+                            sendMaintenanceNotifications(webviewView);
+                            sendActivityData(webviewView);
+                        }
+                    } catch (error) {
+                        console.error('Error updating analysis:', error);
                     }
                 }, 1000);
+            };
+            
+            fileWatcher.onDidCreate(uri => {
+                if (!workspaceAnalyzer.isIncluded(uri)) return;
+                deleted.delete(uri.toString());
+                changed.set(uri.toString(), uri);
+                scheduleUpdate();
             });
             
-            fileWatcher.onDidChange(() => {
-                setTimeout(() => {
-                    if (webviewView.visible) {
-                        refreshDashboardData(webviewView);
-                    }
-                }, 1000);
+            fileWatcher.onDidChange(uri => {
+                if (!workspaceAnalyzer.isIncluded(uri)) return;
+                changed.set(uri.toString(), uri);
+                scheduleUpdate();
             });
             
-            fileWatcher.onDidDelete(() => {
-                setTimeout(() => {
-                    if (webviewView.visible) {
-                        refreshDashboardData(webviewView);
-                    }
-                }, 1000);
+            fileWatcher.onDidDelete(uri => {
+                if (!workspaceAnalyzer.isIncluded(uri)) return;
+                changed.delete(uri.toString());
+                deleted.set(uri.toString(), uri);
+                scheduleUpdate();
             });
         }
     }
@@ -292,11 +363,17 @@ This document describes the system architecture.
     // Refresh dashboard data
     async function refreshDashboardData(webviewView: vscode.WebviewView) {
         try {
-            const analysis = await workspaceAnalyzer.analyzeWorkspace();
+            const analysis = await workspaceAnalyzer.analyzeWorkspace(getSelectedFolder());
+            await recordCoverage(analysis);
+            await refreshStaleDocs(analysis);
+            await refreshPullRequests(analysis);
+            await refreshChangelog();
+            await announceNotifications();
             webviewView.webview.postMessage({
                 command: 'updateDashboardStats',
                 stats: analysis // Use the complete analysis object
             });
+            sendCoverageTrend(webviewView);
             
             // Send maintenance notifications and activity data
             sendMaintenanceNotifications(webviewView);
@@ -309,13 +386,97 @@ This document describes the system architecture.
     // Consolidated workspace analysis using WorkspaceAnalyzer
     async function analyzeWorkspace() {
         try {
-            return await workspaceAnalyzer.analyzeWorkspace();
+            return await workspaceAnalyzer.analyzeWorkspace(getSelectedFolder());
         } catch (error) {
             console.error('Error analyzing workspace:', error);
-            return await workspaceAnalyzer.analyzeWorkspace(); // This will return empty analysis
+            return await workspaceAnalyzer.analyzeWorkspace(getSelectedFolder()); // This will return empty analysis
+        }
+    }
+
+    // Snapshot the analysis against the selected folder's HEAD for the trend chart
+    async function recordCoverage(analysis: WorkspaceAnalysis) {
+        const folder = getSelectedFolder();
+        if (!folder) return;
+        try {
+            await coverageHistory.record(folder, analysis);
+        } catch (error) {
+            console.error('Error recording coverage snapshot:', error);
         }
     }
 
+    // Compare doc sections with the git history of the code they describe
+    async function refreshStaleDocs(analysis: WorkspaceAnalysis) {
+        const folder = getSelectedFolder();
+        if (!folder) return;
+        try {
+            await maintenanceService.refreshStaleDocs(folder, analysis.missingDocs);
+        } catch (error) {
+            console.error('Error checking docs for drift:', error);
+        }
+    }
+
+    // Open pull requests from the code host, and local branches ahead of the main branch
+    async function refreshPullRequests(analysis: WorkspaceAnalysis) {
+        const folder = getSelectedFolder();
+        if (!folder) return;
+        try {
+            await maintenanceService.refreshPullRequests(folder, analysis.missingDocs, analysis.projectStructure.domains);
+        } catch (error) {
+            console.error('Error analyzing pull requests:', error);
+        }
+    }
+
+    // Commits since the last tag that the changelog does not cover yet
+    async function refreshChangelog() {
+        const folder = getSelectedFolder();
+        if (!folder) return;
+        try {
+            await maintenanceService.refreshChangelog(folder);
+        } catch (error) {
+            console.error('Error checking the changelog:', error);
+        }
+    }
+
+    // Write openapi.yaml to the docs folder from the analyzed routes and record it like any other generated doc
+    async function generateOpenApiSpec(): Promise<vscode.Uri | undefined> {
+        const folder = getSelectedFolder();
+        if (!folder) {
+            vscode.window.showErrorMessage('No workspace folder found');
+            return undefined;
+        }
+        const analysis = await analyzeWorkspace();
+        const spec = analysis.projectStructure.openApi;
+        if (!spec) {
+            vscode.window.showWarningMessage('No Express, NestJS or FastAPI routes found to describe.');
+            return undefined;
+        }
+        const docPath = docsPath(folder, 'openapi.yaml');
+        const docUri = vscode.Uri.joinPath(folder.uri, docPath);
+        const content = formatOpenApiYaml(spec);
+        let original: string | undefined;
+        try {
+            original = Buffer.from(await vscode.workspace.fs.readFile(docUri)).toString('utf-8');
+        } catch {
+            await vscode.workspace.fs.createDirectory(docsUri(folder));
+        }
+        if (original === content) return docUri;
+
+        await vscode.workspace.fs.writeFile(docUri, Buffer.from(content, 'utf-8'));
+        const metadata = { docType: 'OpenAPI', reason: `${Object.keys(spec.paths).length} path(s) from route handlers` };
+        if (original === undefined) {
+            await changeTracker.trackFileCreation(docPath, content, metadata, folder);
+        } else {
+            await changeTracker.trackFileModification(docPath, original, content, metadata, folder);
+        }
+        return docUri;
+    }
+
+    async function sendCoverageTrend(webviewView: vscode.WebviewView) {
+        const folder = getSelectedFolder();
+        const snapshots = folder ? await coverageHistory.getSnapshots(folder) : [];
+        webviewView.webview.postMessage({ command: 'updateCoverageTrend', snapshots });
+    }
+
     // Register a view container for the AI chat
     const aiChatProvider = vscode.window.registerWebviewViewProvider('codenection.aiChat', {
         resolveWebviewView(webviewView: vscode.WebviewView) {
@@ -325,9 +486,32 @@ This document describes the system architecture.
                 localResourceRoots: []
             };
             
+            dashboardView = webviewView;
+            
             // Setup file watcher for automatic updates
             setupFileWatcher(webviewView);
             
+            // Include/exclude changes alter the analyzed file set and the docs folder decides which docs are
+            // missing, so both re-run the full analysis; any documind.* change is reflected in the Settings tab
+            context.subscriptions.push(vscode.workspace.onDidChangeConfiguration(e => {
+                if (!e.affectsConfiguration('documind')) return;
+                sendSettings(webviewView);
+                if ((e.affectsConfiguration('documind.analysis') || e.affectsConfiguration('documind.docsFolder')) && webviewView.visible) {
+                    refreshDashboardData(webviewView);
+                }
+            }));
+            
+            // Roots added or removed: fall back to the first folder if the selected one went away
+            context.subscriptions.push(vscode.workspace.onDidChangeWorkspaceFolders(() => {
+                if (!vscode.workspace.workspaceFolders?.some(f => f.uri.toString() === selectedFolderUri)) {
+                    selectedFolderUri = undefined;
+                }
+                setupFileWatcher(webviewView);
+                if (webviewView.visible) {
+                    refreshDashboardData(webviewView);
+                }
+            }));
+            
             webviewView.webview.html = `
                 <!DOCTYPE html>
                 <html>
@@ -390,6 +574,24 @@ This document describes the system architecture.
                             font-weight: 600;
                         }
                         
+                        .overview-header {
+                            display: flex;
+                            align-items: center;
+                            justify-content: space-between;
+                            gap: 8px;
+                        }
+                        
+                        .folder-picker {
+                            margin-bottom: 12px;
+                            max-width: 50%;
+                            background: var(--vscode-input-background);
+                            color: var(--vscode-input-foreground);
+                            border: 1px solid var(--vscode-input-border);
+                            border-radius: 6px;
+                            padding: 2px 4px;
+                            font-size: 12px;
+                        }
+                        
                         .stats-grid {
                             display: grid;
                             grid-template-columns: repeat(auto-fit, minmax(120px, 1fr));
@@ -1685,6 +1887,29 @@ This document describes the system architecture.
                             margin-bottom: 4px;
                         }
                         
+                        .coverage-trend {
+                            margin-bottom: 12px;
+                        }
+                        
+                        .coverage-trend h4 {
+                            margin: 0;
+                            flex: 1;
+                            font-size: 14px;
+                            font-weight: 600;
+                        }
+                        
+                        .coverage-trend .breakdown-chart {
+                            flex-direction: column;
+                            align-items: stretch;
+                        }
+                        
+                        .trend-axis {
+                            display: flex;
+                            justify-content: space-between;
+                            font-size: 10px;
+                            color: var(--vscode-descriptionForeground);
+                        }
+                        
                         .doc-tasks-header {
                             display: flex;
                             align-items: center;
@@ -1890,7 +2115,10 @@ This document describes the system architecture.
                     </div>
                     <div class="dashboard-container tab-panel active" id="dashboardContainer" data-panel="dashboard">
                         <div class="project-overview">
-                            <h3>📊 Project Overview</h3>
+                            <div class="overview-header">
+                                <h3>📊 Project Overview</h3>
+                                <select id="folderPicker" class="folder-picker" title="Workspace folder" style="display:none;"></select>
+                            </div>
                             <div class="stats-grid">
                                 <div class="stat-card">
                                     <div class="stat-icon">📁</div>
@@ -1918,6 +2146,7 @@ This document describes the system architecture.
                                     <div class="stat-info">
                                         <div class="stat-number" id="docCoverage">0%</div>
                                         <div class="stat-label">Doc Coverage</div>
+                                        <div class="stat-label" id="docFileRatio"></div>
                                     </div>
                                 </div>
                             </div>
@@ -1944,6 +2173,16 @@ This document describes the system architecture.
                             </div>
                         </div>
                         
+                        <div class="coverage-trend">
+                            <div class="doc-tasks-header">
+                                <h4>📉 Coverage Trend</h4>
+                                <button class="action-btn" id="backfillCoverageHistory" title="Analyze past commits to fill in the trend">Backfill</button>
+                            </div>
+                            <div class="breakdown-chart" id="coverageTrendChart">
+                                <!-- Coverage per commit will be drawn here -->
+                            </div>
+                        </div>
+                        
                         <div class="insights-grid">
                             <div class="file-breakdown">
                                 <div class="breakdown-header">
@@ -1954,6 +2193,15 @@ This document describes the system architecture.
                                 </div>
                             </div>
 
+                            <div class="file-breakdown">
+                                <div class="breakdown-header">
+                                    <h4>🎯 Coverage Breakdown</h4>
+                                </div>
+                                <div class="breakdown-chart" id="coverageChart">
+                                    <!-- Coverage per domain and directory will be generated here -->
+                                </div>
+                            </div>
+
                             <div class="doc-tasks">
                                 <div class="doc-tasks-header">
                                     <h4>🧩 Doc Tasks</h4>
@@ -2025,7 +2273,7 @@ This document describes the system architecture.
                         </div>
                         <div class="stat-card" style="flex-direction:column; align-items:stretch; gap:10px;">
                             <div class="settings-item">
-                                <span class="settings-label">Enable Automation Mode (detect doc drift and propose fixes)</span>
+                                <span class="settings-label">Enable Automation Mode (let Documind update generated doc sections on its own)</span>
                                 <label class="toggle-switch">
                                     <input type="checkbox" id="enableAutomation" />
                                     <span class="toggle-slider"></span>
@@ -2040,7 +2288,7 @@ This document describes the system architecture.
                             </label>
                             <label style="display:flex; align-items:center; gap:8px;">
                                 <span style="min-width:140px;">Slack/Webhook URL</span>
-                                <input id="webhookUrl" type="text" placeholder="https://hooks.slack.com/... (placeholder)" 
+                                <input id="webhookUrl" type="text" placeholder="https://hooks.slack.com/services/..." 
                                     style="flex:1; background:var(--vscode-input-background); color:var(--vscode-input-foreground); border:1px solid var(--vscode-input-border); border-radius:6px; padding:6px;" />
                             </label>
                             <label style="display:flex; align-items:center; gap:8px;">
@@ -2380,6 +2628,15 @@ This document describes the system architecture.
                         const statusBarNotifications = document.getElementById('statusBarNotifications');
                         const saveSettingsBtn = document.getElementById('saveSettings');
                         const resetSettingsBtn = document.getElementById('resetSettings');
+
+                        function applySettings(settings){
+                            if (enableAutomation) enableAutomation.checked = !!settings.enableAutomation;
+                            if (automationBehavior) automationBehavior.value = settings.automationBehavior;
+                            if (webhookUrl) webhookUrl.value = settings.webhookUrl;
+                            if (docsFolder) docsFolder.value = settings.docsFolder;
+                            if (autoGenerateOnSave) autoGenerateOnSave.checked = !!settings.autoGenerateOnSave;
+                            if (statusBarNotifications) statusBarNotifications.checked = !!settings.statusBarNotifications;
+                        }
                         
                         // Streaming UI elements
                         const generationProgress = document.getElementById('generationProgress');
@@ -2412,20 +2669,7 @@ This document describes the system architecture.
                         }
                         
                         // Placeholder notifications data (will be replaced with real data from extension)
-                        const notifications = [
-                            { id: 'pr-1024', title: 'PR #1024: Update API endpoints', desc: 'Potential doc changes detected in user-service.', status: 'new', actions: ['View PR', 'Suggest doc update'],
-                              issue: 'Potential doc changes detected in user-service.',
-                              changed: 'user-service/routes.ts, docs/api.md',
-                              suggested: 'user-service.md, API Overview' },
-                            { id: 'stale-README', title: 'README may be stale', desc: 'README references old scripts; diff suggests changes.', status: 'new', actions: ['Open README', 'Generate update'],
-                              issue: 'README references old scripts; diff suggests changes.',
-                              changed: 'scripts/build-old.sh (referenced), package.json scripts: build, dev',
-                              suggested: 'README setup steps, scripts section' },
-                            { id: 'changelog', title: 'Changelog missing entries', desc: '3 commits without changelog notes.', status: 'seen', actions: ['Generate changelog'],
-                              issue: '3 commits without changelog notes.',
-                              changed: 'feat: add notifications; fix: doc tasks style; chore: deps tidy',
-                              suggested: 'Changelog entries for the above commits' }
-                        ];
+                        const notifications = [];
 
                         // Placeholder activity entries (will be replaced with real data from ChangeTracker)
                         const activities = [];
@@ -2769,10 +3013,10 @@ This document describes the system architecture.
                             
                             if (projectHealth) {
                                 const coverage = stats.projectStructure?.coverage || stats.docCoverage || 0;
-                                if (coverage >= 20) {
+                                if (coverage >= 70) {
                                     projectHealth.textContent = 'Good';
                                     projectHealth.className = 'overview-value health-good';
-                                } else if (coverage >= 10) {
+                                } else if (coverage >= 40) {
                                     projectHealth.textContent = 'Warning';
                                     projectHealth.className = 'overview-value health-warning';
                                 } else {
@@ -2871,7 +3115,29 @@ This document describes the system architecture.
                         }
                         
                         // Update dashboard stats
+                        // Only shown in multi-root workspaces; lists every root and marks the analyzed one
+                        function updateFolderPicker(stats) {
+                            const picker = document.getElementById('folderPicker');
+                            const folders = stats.workspaceFolders || [];
+                            picker.style.display = folders.length > 1 ? '' : 'none';
+                            picker.innerHTML = '';
+                            folders.forEach(folder => {
+                                const option = document.createElement('option');
+                                option.value = folder.uri;
+                                option.textContent = folder.name;
+                                picker.appendChild(option);
+                            });
+                            if (stats.workspaceFolder) {
+                                picker.value = stats.workspaceFolder.uri;
+                            }
+                        }
+                        
+                        document.getElementById('folderPicker').addEventListener('change', (e) => {
+                            vscode.postMessage({ command: 'selectWorkspaceFolder', uri: e.target.value });
+                        });
+                        
                         function updateDashboardStats(stats) {
+                            updateFolderPicker(stats);
                             document.getElementById('totalFiles').textContent = stats.projectStructure?.totalFiles || stats.totalFiles || 0;
                             document.getElementById('docFiles').textContent = stats.projectStructure?.docFiles || stats.docFiles || 0;
                             document.getElementById('codeFiles').textContent = stats.projectStructure?.codeFiles || stats.codeFiles || 0;
@@ -2879,6 +3145,14 @@ This document describes the system architecture.
                             // Ensure we don't add duplicate % symbols
                             const coverageText = typeof coverage === 'string' ? coverage : coverage + '%';
                             document.getElementById('docCoverage').textContent = coverageText;
+                            const overall = stats.coverageReport?.overall;
+                            const configs = stats.coverageReport?.configs;
+                            document.getElementById('docCoverage').title = overall
+                                ? overall.documented + ' of ' + overall.total + ' symbols documented (weighted by priority and visibility)'
+                                    + (configs && configs.total > 0 ? '; ' + configs.documented + ' of ' + configs.total + ' env vars, scripts and config files mentioned in docs, not counted here' : '')
+                                : '';
+                            const fileRatio = stats.projectStructure?.fileCoverage ?? stats.docFileRatio;
+                            document.getElementById('docFileRatio').textContent = fileRatio !== undefined ? 'Docs: ' + fileRatio + '% of files' : '';
                             
                             // Project details are now integrated into the main project overview section
                             
@@ -2887,6 +3161,7 @@ This document describes the system architecture.
                             
                             // Update breakdown chart
                             updateBreakdownChart(stats);
+                            updateCoverageBreakdown(stats);
 
                             // Update doc tasks list
                             const list = document.getElementById('docTasksList');
@@ -2897,7 +3172,7 @@ This document describes the system architecture.
                                     list.innerHTML = stats.docTasks.slice(0, 20).map((task, idx) => {
                                         const priorityClass = task.priority === 'high' ? 'priority-high' : task.priority === 'medium' ? 'priority-medium' : 'priority-low';
                                         const typeIcon = task.type === 'missing' ? '📝' : '🔄';
-                                        const actionText = task.type === 'missing' ? 'Generate' : 'Update';
+                                        const actionText = task.type === 'missing' ? 'Generate' : task.location ? 'Open' : 'Update';
                                         
                                         return '<div class="task-card ' + priorityClass + '">'
                                             + '<div class="task-header">'
@@ -2996,6 +3271,87 @@ This document describes the system architecture.
                             });
                         }
                         
+                        // Coverage over commits as an SVG line; one point per snapshot, oldest on the left
+                        function renderCoverageTrend(snapshots) {
+                            const chart = document.getElementById('coverageTrendChart');
+                            if (!snapshots || snapshots.length === 0) {
+                                chart.innerHTML = '<div>No history yet. Analyze the project or backfill past commits.</div>';
+                                return;
+                            }
+
+                            const width = 300, height = 80, pad = 4;
+                            const step = snapshots.length > 1 ? (width - pad * 2) / (snapshots.length - 1) : 0;
+                            const points = snapshots.map((snap, i) => {
+                                const x = snapshots.length > 1 ? pad + i * step : width / 2;
+                                const y = pad + (100 - snap.coverage) / 100 * (height - pad * 2);
+                                return { x, y, snap };
+                            });
+                            const line = points.map(p => p.x.toFixed(1) + ',' + p.y.toFixed(1)).join(' ');
+                            const dots = points.map(p => {
+                                const s = p.snap;
+                                const title = s.commit.slice(0, 7) + ' • ' + new Date(s.commitDate).toLocaleDateString()
+                                    + '&#10;Coverage: ' + s.coverage + '% (docs ' + s.fileCoverage + '% of files)'
+                                    + '&#10;Missing docs: ' + s.missingDocs.high + ' high, ' + s.missingDocs.medium + ' medium, ' + s.missingDocs.low + ' low'
+                                    + '&#10;Doc tasks: ' + s.docTasks;
+                                return '<circle cx="' + p.x.toFixed(1) + '" cy="' + p.y.toFixed(1) + '" r="2.5" fill="var(--vscode-charts-blue, #3794ff)"><title>' + title + '</title></circle>';
+                            }).join('');
+
+                            const first = snapshots[0];
+                            const last = snapshots[snapshots.length - 1];
+                            chart.innerHTML = '<svg viewBox="0 0 ' + width + ' ' + height + '" preserveAspectRatio="none" style="width:100%; height:' + height + 'px;">'
+                                + '<line x1="0" y1="' + (height / 2) + '" x2="' + width + '" y2="' + (height / 2) + '" stroke="var(--vscode-input-border)" stroke-dasharray="2,2" />'
+                                + '<polyline points="' + line + '" fill="none" stroke="var(--vscode-charts-blue, #3794ff)" stroke-width="1.5" />'
+                                + dots
+                                + '</svg>'
+                                + '<div class="trend-axis">'
+                                + '<span>' + new Date(first.commitDate).toLocaleDateString() + ' (' + first.coverage + '%)</span>'
+                                + '<span>' + snapshots.length + ' commit(s)</span>'
+                                + '<span>' + new Date(last.commitDate).toLocaleDateString() + ' (' + last.coverage + '%)</span>'
+                                + '</div>';
+                        }
+                        
+                        function updateCoverageBreakdown(stats) {
+                            const chart = document.getElementById('coverageChart');
+                            const report = stats.coverageReport;
+                            if (!report || report.overall.total === 0) {
+                                chart.innerHTML = '<div>No code symbols found in workspace</div>';
+                                return;
+                            }
+
+                            const groups = [['By Domain', report.byDomain], ['By Directory', report.byDirectory]];
+                            const parts = groups.map(([label, entries], groupIdx) => {
+                                const rows = Object.entries(entries)
+                                    .sort((a, b) => a[1].coverage - b[1].coverage)
+                                    .map(([name, entry]) => {
+                                        let shown = name;
+                                        if (shown.length > 24) {
+                                            shown = '…' + shown.slice(-22);
+                                        }
+                                        return '<div class="breakdown-item" title="' + name + '">'
+                                            + '<span class="badge">' + shown + '</span>'
+                                            + '<div class="breakdown-bar" style="max-width:60%; width:' + entry.coverage + '%;"></div>'
+                                            + '<span class="badge">' + entry.coverage + '% (' + entry.documented + '/' + entry.total + ')</span>'
+                                            + '</div>';
+                                    }).join('');
+                                return '<div class="breakdown-group">'
+                                    + '<div class="breakdown-group-header" data-group="coverage-' + groupIdx + '">'
+                                    + '<strong>' + label + '</strong>'
+                                    + '<span class="badge">' + Object.keys(entries).length + '</span>'
+                                    + '</div>'
+                                    + '<div class="breakdown-items" id="items-coverage-' + groupIdx + '">' + rows + '</div>'
+                                    + '</div>';
+                            });
+                            chart.innerHTML = '<ul class="breakdown-list">' + parts.join('') + '</ul>';
+
+                            chart.querySelectorAll('.breakdown-group-header').forEach((el)=>{
+                                el.addEventListener('click', ()=>{
+                                    const itemsEl = document.getElementById('items-' + el.getAttribute('data-group'));
+                                    if (!itemsEl) return;
+                                    itemsEl.style.display = itemsEl.style.display === 'block' ? 'none' : 'block';
+                                });
+                            });
+                        }
+                        
                         function addUserMessage(text) {
                             // Remove welcome message
                             const welcomeMsg = chatContainer.querySelector('.welcome-message');
@@ -3165,6 +3521,10 @@ This document describes the system architecture.
                             vscode.postMessage({ command: 'analyzeProject' });
                         });
                         
+                        document.getElementById('backfillCoverageHistory').addEventListener('click', () => {
+                            vscode.postMessage({ command: 'backfillCoverageHistory' });
+                        });
+                        
                         document.getElementById('generateAllMissingDocs').addEventListener('click', () => {
                             vscode.postMessage({ command: 'generateAllMissingDocs' });
                         });
@@ -3228,39 +3588,20 @@ This document describes the system architecture.
                                 if (el) el.addEventListener('click', ()=>renderActivity(fn));
                             });
 
-                            // Settings persistence (session-only)
-                            const state = vscode.getState() || {};
-                            function loadSettings(){
-                                if (enableAutomation) enableAutomation.checked = !!state.enableAutomation;
-                                if (automationBehavior) automationBehavior.value = state.automationBehavior || 'suggest';
-                                if (webhookUrl) webhookUrl.value = state.webhookUrl || '';
-                                if (docsFolder) docsFolder.value = state.docsFolder || 'docs/';
-                                if (autoGenerateOnSave) autoGenerateOnSave.checked = !!state.autoGenerateOnSave;
-                                if (statusBarNotifications) statusBarNotifications.checked = state.statusBarNotifications !== false;
-                            }
+                            // Settings live in the documind.* configuration; the extension sends them back as updateSettings
                             function saveSettings(){
-                                const newState = {
-                                    ...state,
-                                    enableAutomation: enableAutomation ? enableAutomation.checked : false,
-                                    automationBehavior: automationBehavior ? automationBehavior.value : 'suggest',
-                                    webhookUrl: webhookUrl ? webhookUrl.value : '',
-                                    docsFolder: docsFolder ? docsFolder.value : 'docs/',
-                                    autoGenerateOnSave: autoGenerateOnSave ? autoGenerateOnSave.checked : false,
-                                    statusBarNotifications: statusBarNotifications ? statusBarNotifications.checked : true
-                                };
-                                vscode.setState(newState);
-                                vscode.postMessage({ command: 'saveSettings', settings: { 
-                                    enableAutomation: newState.enableAutomation, 
-                                    automationBehavior: newState.automationBehavior,
-                                    webhookUrl: newState.webhookUrl,
-                                    docsFolder: newState.docsFolder,
-                                    autoGenerateOnSave: newState.autoGenerateOnSave,
-                                    statusBarNotifications: newState.statusBarNotifications
+                                vscode.postMessage({ command: 'saveSettings', settings: {
+                                    enableAutomation: enableAutomation ? enableAutomation.checked : undefined,
+                                    automationBehavior: automationBehavior ? automationBehavior.value : undefined,
+                                    webhookUrl: webhookUrl ? webhookUrl.value : undefined,
+                                    docsFolder: docsFolder ? docsFolder.value : undefined,
+                                    autoGenerateOnSave: autoGenerateOnSave ? autoGenerateOnSave.checked : undefined,
+                                    statusBarNotifications: statusBarNotifications ? statusBarNotifications.checked : undefined
                                 }});
                             }
                             if (saveSettingsBtn) saveSettingsBtn.addEventListener('click', saveSettings);
-                            if (resetSettingsBtn) resetSettingsBtn.addEventListener('click', ()=>{ vscode.setState({}); loadSettings(); });
-                            loadSettings();
+                            if (resetSettingsBtn) resetSettingsBtn.addEventListener('click', ()=>{ vscode.postMessage({ command: 'resetSettings' }); });
+                            vscode.postMessage({ command: 'loadSettings' });
                             tabs.forEach(t=>t.addEventListener('click', ()=>activate(t)));
                             
                             // Initialize file input button visibility based on active tab
@@ -3387,6 +3728,8 @@ This document describes the system architecture.
                                 notifications.push(...message.notifications);
                                 renderNotifications();
                                 renderNotificationsFull();
+                            } else if (message.command === 'updateCoverageTrend') {
+                                renderCoverageTrend(message.snapshots);
                             } else if (message.command === 'updateActivities') {
                                 console.log('Updating activities:', message.activities); // Debug log
                                 // Update the activities array with new data
@@ -3430,6 +3773,8 @@ This document describes the system architecture.
                                 // Project overview will be updated by auto-refresh, no need to update manually
                             } else if (message.command === 'switchTab') {
                                 switchToTab(message.tabName || 'dashboard');
+                            } else if (message.command === 'updateSettings') {
+                                applySettings(message.settings);
                             }
                         });
                     </script>
@@ -3543,25 +3888,23 @@ This document describes the system architecture.
             }
             
             async function generateDocumentationFile(docType: string, fileName: string) {
-                const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+                const workspaceFolder = getSelectedFolder();
                 if (!workspaceFolder) {
                     throw new Error('No workspace folder found');
                 }
                 
                 // Get real workspace analysis data
-                const { WorkspaceAnalyzer } = await import('./services/WorkspaceAnalyzer');
-                const analyzer = new WorkspaceAnalyzer();
-                const analysis = await analyzer.analyzeWorkspace();
+                const analysis = await workspaceAnalyzer.analyzeWorkspace(workspaceFolder);
                 
                 // Determine file path
                 const isRootFile = ['README.md', 'CONTRIBUTING.md', 'CHANGELOG.md'].includes(fileName);
                 const filePath = isRootFile ? 
                     vscode.Uri.joinPath(workspaceFolder.uri, fileName) :
-                    vscode.Uri.joinPath(workspaceFolder.uri, 'docs', fileName);
+                    docsUri(workspaceFolder, fileName);
                 
                 // Ensure docs directory exists for non-root files
                 if (!isRootFile) {
-                    const docsDir = vscode.Uri.joinPath(workspaceFolder.uri, 'docs');
+                    const docsDir = docsUri(workspaceFolder);
                     try {
                         await vscode.workspace.fs.stat(docsDir);
                     } catch {
@@ -3694,7 +4037,7 @@ This document describes the system architecture.
                     content += `- **Total Files**: ${structure.totalFiles}\n`;
                     content += `- **Code Files**: ${structure.codeFiles}\n`;
                     content += `- **Documentation Files**: ${structure.docFiles}\n`;
-                    content += `- **Documentation Coverage**: ${structure.coverage}%\n`;
+                    content += `- **Documentation Coverage**: ${structure.coverage}% of symbols (docs are ${structure.fileCoverage}% of files)\n`;
                 }
                 
                 return content;
@@ -3717,15 +4060,20 @@ This document describes the system architecture.
                 // API endpoints based on detected domains and code items
                 content += `## Endpoints\n\n`;
                 
-                // Group endpoints by domain
-                if (structure?.domains && structure.domains.length > 0) {
+                // Group endpoints by domain, unless a hand-written spec is the reference
+                if (structure?.apiSpecs) {
+                    content += formatSpecOperations(structure.apiSpecs, structure.requestFlows || []);
+                    content += formatSpecDrift(structure.apiSpecs);
+                } else if (structure?.domains && structure.domains.length > 0) {
                     structure.domains.forEach((domain: any) => {
-                        if (domain.type === 'api' || domain.endpoints.length > 0) {
+                        // GraphQL operations and types are listed in their own section below
+                        const endpoints = domain.endpoints.filter((endpoint: any) => !endpoint.graphql);
+                        if ((domain.type === 'api' && domain.endpoints.length === 0) || endpoints.length > 0) {
                             content += `### ${domain.name}\n\n`;
                             content += `${domain.description}\n\n`;
                             
-                            if (domain.endpoints.length > 0) {
-                                domain.endpoints.forEach((endpoint: any) => {
+                            if (endpoints.length > 0) {
+                                endpoints.forEach((endpoint: any) => {
                                     content += `#### ${endpoint.name}\n`;
                                     if (endpoint.signature) {
                                         content += `\`\`\`\n${endpoint.signature}\n\`\`\`\n`;
@@ -3743,6 +4091,10 @@ This document describes the system architecture.
                                         content += `**Returns:** \`${endpoint.returnType}\`\n`;
                                     }
                                     content += `\n`;
+                                    const flow = structure.requestFlows && findRequestFlow(structure.requestFlows, endpoint);
+                                    if (flow) {
+                                        content += formatRequestFlow(flow);
+                                    }
                                 });
                             } else {
                                 content += `*No specific endpoints detected for this domain.*\n\n`;
@@ -3750,6 +4102,9 @@ This document describes the system architecture.
                         }
                     });
                 }
+                if (structure?.domains) {
+                    content += formatGraphqlSchema(structure.domains.flatMap((domain: any) => domain.endpoints), structure.requestFlows || []);
+                }
                 
                 // General API information
                 content += `## Authentication\n\n`;
@@ -3859,6 +4214,12 @@ This document describes the system architecture.
                     });
                 }
                 
+                // Module dependencies from the import graph
+                if (structure?.dependencyGraph) {
+                    content += formatArchitectureDiagrams(structure);
+                    content += formatModuleDependencies(structure.dependencyGraph);
+                }
+                
                 // Data flow
                 content += `## Data Flow\n\n`;
                 content += `1. **User Input** - Users interact with the frontend interface\n`;
@@ -3949,7 +4310,7 @@ This document describes the system architecture.
                     content += `- **Total Files:** ${structure.totalFiles}\n`;
                     content += `- **Code Files:** ${structure.codeFiles}\n`;
                     content += `- **Documentation Files:** ${structure.docFiles}\n`;
-                    content += `- **Documentation Coverage:** ${structure.coverage}%\n`;
+                    content += `- **Documentation Coverage:** ${structure.coverage}% of symbols (docs are ${structure.fileCoverage}% of files)\n`;
                     content += `- **Domains:** ${structure.domains.length}\n`;
                 }
                 
@@ -4402,27 +4763,29 @@ When external AI services are integrated:
             async function getRealDocumentationContent(docType: string): Promise<string> {
                 const docTypeMap = {
                     'readme': 'README.md',
-                    'api': 'docs/API.md', 
-                    'architecture': 'docs/ARCHITECTURE.md',
-                    'setup': 'docs/SETUP.md',
+                    'api': 'API.md', 
+                    'architecture': 'ARCHITECTURE.md',
+                    'setup': 'SETUP.md',
                     'contributing': 'CONTRIBUTING.md',
                     'changelog': 'CHANGELOG.md',
-                    'auth': 'docs/AUTHENTICATION.md',
-                    'authentication': 'docs/AUTHENTICATION.md',
-                    'user management': 'docs/USER_MANAGEMENT.md',
-                    'user-management': 'docs/USER_MANAGEMENT.md',
-                    'api routes': 'docs/API_ROUTES.md',
-                    'api-routes': 'docs/API_ROUTES.md'
+                    'auth': 'AUTHENTICATION.md',
+                    'authentication': 'AUTHENTICATION.md',
+                    'user management': 'USER_MANAGEMENT.md',
+                    'user-management': 'USER_MANAGEMENT.md',
+                    'api routes': 'API_ROUTES.md',
+                    'api-routes': 'API_ROUTES.md'
                 };
                 
                 const fileName = docTypeMap[docType as keyof typeof docTypeMap];
                 if (!fileName) return '';
                 
                 try {
-                    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+                    const workspaceFolder = getSelectedFolder();
                     if (!workspaceFolder) return '';
                     
-                    const filePath = vscode.Uri.joinPath(workspaceFolder.uri, fileName);
+                    // Root files stay at the top of the folder; the rest live in documind.docsFolder
+                    const isRootFile = ['README.md', 'CONTRIBUTING.md', 'CHANGELOG.md'].includes(fileName);
+                    const filePath = isRootFile ? vscode.Uri.joinPath(workspaceFolder.uri, fileName) : docsUri(workspaceFolder, fileName);
                     const fileContent = await vscode.workspace.fs.readFile(filePath);
                     return Buffer.from(fileContent).toString('utf-8');
                 } catch (error) {
@@ -4432,13 +4795,10 @@ When external AI services are integrated:
             
             async function analyzeCodebaseForArchitecture(): Promise<string> {
                 try {
-                    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+                    const workspaceFolder = getSelectedFolder();
                     if (!workspaceFolder) return '';
                     
-                    // Get workspace analyzer
-                    const { WorkspaceAnalyzer } = await import('./services/WorkspaceAnalyzer');
-                    const analyzer = new WorkspaceAnalyzer();
-                    const analysis = await analyzer.analyzeWorkspace();
+                    const analysis = await workspaceAnalyzer.analyzeWorkspace(workspaceFolder);
                     
                     if (!analysis.projectStructure) return '';
                     
@@ -4454,6 +4814,16 @@ When external AI services are integrated:
                     if (structure.architecture) {
                         architectureInfo += `**Architecture Pattern**: ${structure.architecture}\n\n`;
                     }
+
+                    // Import graph summary
+                    const graph = structure.dependencyGraph;
+                    if (graph.modules.length > 0) {
+                        architectureInfo += `**Module Graph**: ${graph.modules.length} modules, ${graph.dependencies.length} dependencies, ${graph.cycles.length} cycle${graph.cycles.length === 1 ? '' : 's'}\n`;
+                        if (graph.entryPoints.length > 0) {
+                            architectureInfo += `**Entry Points**: ${graph.entryPoints.join(', ')}\n`;
+                        }
+                        architectureInfo += `\n`;
+                    }
                     
                     // Components
                     architectureInfo += `**System Components**:\n`;
@@ -4478,7 +4848,7 @@ When external AI services are integrated:
             
             async function analyzeCodebaseForAPI(): Promise<string> {
                 try {
-                    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+                    const workspaceFolder = getSelectedFolder();
                     if (!workspaceFolder) return '';
                     
                     // Simple API route detection
@@ -4709,7 +5079,7 @@ When external AI services are integrated:
                 }
                 
                 // SECURITY: Only allow specific commands
-                const allowedCommands = ['chat', 'insertToFile', 'replaceSelection', 'uploadFile', 'analyzeProject', 'generateReadme', 'generateApiDocs', 'generateChangelog', 'generateAllMissingDocs', 'pauseGeneration', 'resumeGeneration', 'cancelGeneration', 'docTaskAction', 'notificationAction', 'activityAction', 'saveSettings', 'generationStart', 'generationProgress', 'generationComplete', 'generationError', 'generationPaused', 'generationResumed', 'generationCancelled', 'switchTab', 'updateNotifications', 'updateActivities'];
+                const allowedCommands = ['chat', 'insertToFile', 'replaceSelection', 'uploadFile', 'analyzeProject', 'selectWorkspaceFolder', 'backfillCoverageHistory', 'generateReadme', 'generateApiDocs', 'generateChangelog', 'generateAllMissingDocs', 'pauseGeneration', 'resumeGeneration', 'cancelGeneration', 'docTaskAction', 'notificationAction', 'activityAction', 'loadSettings', 'saveSettings', 'resetSettings', 'generationStart', 'generationProgress', 'generationComplete', 'generationError', 'generationPaused', 'generationResumed', 'generationCancelled', 'switchTab', 'updateNotifications', 'updateActivities'];
                 if (!allowedCommands.includes(message.command)) {
                     console.warn('Blocked unauthorized command:', message.command);
                     return;
@@ -4794,24 +5164,29 @@ When external AI services are integrated:
                 } else if (message.command === 'uploadFile') {
                     // Handle file upload (placeholder for now)
                     vscode.window.showInformationMessage('File upload feature coming soon! This will integrate with RAG services.');
+                } else if (message.command === 'selectWorkspaceFolder') {
+                    selectedFolderUri = message.uri;
+                    await refreshDashboardData(webviewView);
+                } else if (message.command === 'backfillCoverageHistory') {
+                    await vscode.commands.executeCommand('codenection.backfillCoverageHistory');
                 } else if (message.command === 'analyzeProject') {
                     // Analyze current workspace
                     const stats = await analyzeWorkspace();
+                    await recordCoverage(stats);
                     webviewView.webview.postMessage({
                         command: 'updateDashboardStats',
                         stats: stats
                     });
+                    sendCoverageTrend(webviewView);
                 } else if (message.command === 'generateReadme') {
                     // Local placeholder: generate simple draft via client
                     const draft = await docsClient.generateDocumentationDraft({ filePath: 'WORKSPACE', tone: 'neutral', format: 'md' });
                     await showDraftInNewEditor('README.DRAFT.md', draft);
                 } else if (message.command === 'generateApiDocs') {
-                    // Local-only draft
-                    const md = await draftApiDocsBasic();
-                    await showDraftInNewEditor('API.DRAFT.md', md);
+                    await vscode.commands.executeCommand('codenection.generateOpenApiSpec');
                 } else if (message.command === 'generateChangelog') {
                     // Local git-based draft
-                    const md = await draftChangelogSinceLastTag();
+                    const md = await draftChangelogSinceLastTag(getSelectedFolder());
                     await showDraftInNewEditor('CHANGELOG.DRAFT.md', md);
                 } else if (message.command === 'generateAllMissingDocs') {
                     // Generate only the files that are actually in the Doc Tasks list
@@ -4820,9 +5195,9 @@ When external AI services are integrated:
                         isPaused = false;
                         generationAbortController = new AbortController();
                         
-                        // Get current doc tasks (only missing/outdated files)
+                        // Get current doc tasks (only missing/outdated files); stale references need a manual fix
                         const stats = await analyzeWorkspace();
-                        const tasks = stats.docTasks || [];
+                        const tasks = (stats.docTasks || []).filter(task => !task.location);
                         
                         if (tasks.length === 0) {
                             webviewView.webview.postMessage({ 
@@ -4866,7 +5241,7 @@ When external AI services are integrated:
                             }
                             
                             const task = tasks[i];
-                            const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+                            const workspaceFolder = getSelectedFolder();
                             if (!workspaceFolder) continue;
                             
                             // Generate the file directly with simple logic
@@ -4878,54 +5253,55 @@ When external AI services are integrated:
                                 content = `# ${workspaceFolder.name}\n\n> Project overview and getting started guide\n\n## Overview\n\nDescribe your project here.\n\n## Installation\n\n\`\`\`bash\nnpm install\n\`\`\`\n\n## Usage\n\n\`\`\`bash\nnpm start\n\`\`\`\n\n## Contributing\n\nSee CONTRIBUTING.md for guidelines.\n`;
                             } else if (task.title.includes('API.md') || task.title.includes('API Documentation')) {
                                 // Create docs directory if it doesn't exist
-                                const docsDir = vscode.Uri.joinPath(workspaceFolder.uri, 'docs');
+                                const docsDir = docsUri(workspaceFolder);
                                 try {
                                     await vscode.workspace.fs.stat(docsDir);
                                 } catch {
                                     await vscode.workspace.fs.createDirectory(docsDir);
                                 }
-                                docPath = vscode.Uri.joinPath(workspaceFolder.uri, 'docs', 'API.md');
-                                content = `# API Documentation\n\n> API endpoints, parameters, and examples\n\n## Overview\n\nThis document describes the API endpoints available in this project.\n\n## Endpoints\n\n### GET /api/health\n\nHealth check endpoint.\n\n**Response:**\n\`\`\`json\n{\n  "status": "ok"\n}\n\`\`\`\n`;
+                                docPath = docsUri(workspaceFolder, 'API.md');
+                                // The routes detected in code, or the operations of a hand-written spec
+                                content = generateApiContent(stats);
                             } else if (task.title.includes('ARCHITECTURE.md')) {
-                                const docsDir = vscode.Uri.joinPath(workspaceFolder.uri, 'docs');
+                                const docsDir = docsUri(workspaceFolder);
                                 try {
                                     await vscode.workspace.fs.stat(docsDir);
                                 } catch {
                                     await vscode.workspace.fs.createDirectory(docsDir);
                                 }
-                                docPath = vscode.Uri.joinPath(workspaceFolder.uri, 'docs', 'ARCHITECTURE.md');
+                                docPath = docsUri(workspaceFolder, 'ARCHITECTURE.md');
                                 content = `# Architecture\n\n> System architecture and design decisions\n\n## Overview\n\nThis document describes the overall architecture of the system.\n\n## Components\n\n- **Frontend**: User interface components\n- **Backend**: API and business logic\n- **Database**: Data storage layer\n\n## Design Decisions\n\n- Explain key architectural choices\n`;
                             } else if (task.title.includes('SETUP.md')) {
-                                const docsDir = vscode.Uri.joinPath(workspaceFolder.uri, 'docs');
+                                const docsDir = docsUri(workspaceFolder);
                                 try {
                                     await vscode.workspace.fs.stat(docsDir);
                                 } catch {
                                     await vscode.workspace.fs.createDirectory(docsDir);
                                 }
-                                docPath = vscode.Uri.joinPath(workspaceFolder.uri, 'docs', 'SETUP.md');
+                                docPath = docsUri(workspaceFolder, 'SETUP.md');
                                 content = `# Development Setup\n\n> Environment setup and configuration\n\n## Prerequisites\n\n- Node.js 18+\n- npm or yarn\n\n## Setup Steps\n\n1. Clone the repository\n2. Install dependencies: \`npm install\`\n3. Configure environment variables\n4. Run the development server: \`npm run dev\`\n`;
                             } else if (task.title.includes('CHANGELOG.md')) {
                                 docPath = vscode.Uri.joinPath(workspaceFolder.uri, 'CHANGELOG.md');
                                 content = `# Changelog\n\n> Version history and release notes\n\n## [Unreleased]\n\n### Added\n- Initial project setup\n\n### Changed\n- \n\n### Fixed\n- \n`;
                             } else if (task.title.includes('CONTRIBUTING.md')) {
-                                const docsDir = vscode.Uri.joinPath(workspaceFolder.uri, 'docs');
+                                const docsDir = docsUri(workspaceFolder);
                                 try {
                                     await vscode.workspace.fs.stat(docsDir);
                                 } catch {
                                     await vscode.workspace.fs.createDirectory(docsDir);
                                 }
-                                docPath = vscode.Uri.joinPath(workspaceFolder.uri, 'docs', 'CONTRIBUTING.md');
+                                docPath = docsUri(workspaceFolder, 'CONTRIBUTING.md');
                                 content = `# Contributing\n\n> Guidelines for contributing to this project\n\n## Getting Started\n\n1. Fork the repository\n2. Create a feature branch\n3. Make your changes\n4. Submit a pull request\n\n## Code Style\n\n- Follow existing code conventions\n- Add tests for new features\n- Update documentation as needed\n`;
                             } else {
                                 // Domain-specific documentation
                                 const docName = task.title.replace('Create ', '').replace('Update ', '');
-                                const docsDir = vscode.Uri.joinPath(workspaceFolder.uri, 'docs');
+                                const docsDir = docsUri(workspaceFolder);
                                 try {
                                     await vscode.workspace.fs.stat(docsDir);
                                 } catch {
                                     await vscode.workspace.fs.createDirectory(docsDir);
                                 }
-                                docPath = vscode.Uri.joinPath(workspaceFolder.uri, 'docs', docName);
+                                docPath = docsUri(workspaceFolder, docName);
                                 content = `# ${docName.replace('.md', '')}\n\n> ${task.description}\n\n## Overview\n\nDescribe this domain/module here.\n\n## Components\n\n- List key components\n\n## Usage\n\n\`\`\`typescript\n// Example usage\n\`\`\`\n`;
                             }
                             
@@ -4940,7 +5316,7 @@ When external AI services are integrated:
                             await changeTracker.trackFileCreation(relativePath, content, {
                                 taskTitle: task.title,
                                 docType: task.title.includes('API') ? 'API' : task.title.includes('ARCHITECTURE') ? 'Architecture' : task.title.includes('SETUP') ? 'Setup' : task.title.includes('CONTRIBUTING') ? 'Contributing' : 'Documentation'
-                            });
+                            }, workspaceFolder);
                             
                             // Debug: Log what we just created
                             console.log(`Generated file: ${docPath.toString()}`);
@@ -5059,9 +5435,17 @@ When external AI services are integrated:
                         const tasks = stats.docTasks || [];
                         const task = tasks[message.index];
                         if (!task) { vscode.window.showWarningMessage('Task not found.'); return; }
+                        const folder = getSelectedFolder();
+                        if (task.location && folder) {
+                            // A stale reference is fixed by hand; regenerating would throw away the doc
+                            const document = await vscode.workspace.openTextDocument(vscode.Uri.joinPath(folder.uri, task.location.file));
+                            const line = document.lineAt(Math.min(task.location.line, document.lineCount) - 1);
+                            await vscode.window.showTextDocument(document, { selection: line.range });
+                            return;
+                        }
                         if (message.action === 'generate') {
                             // Generate the file directly with simple logic
-                            const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+                            const workspaceFolder = getSelectedFolder();
                             if (!workspaceFolder) {
                                 vscode.window.showErrorMessage('No workspace folder found.');
                                 return;
@@ -5075,54 +5459,55 @@ When external AI services are integrated:
                                 content = `# ${workspaceFolder.name}\n\n> Project overview and getting started guide\n\n## Overview\n\nDescribe your project here.\n\n## Installation\n\n\`\`\`bash\nnpm install\n\`\`\`\n\n## Usage\n\n\`\`\`bash\nnpm start\n\`\`\`\n\n## Contributing\n\nSee CONTRIBUTING.md for guidelines.\n`;
                             } else if (task.title.includes('API.md') || task.title.includes('API Documentation')) {
                                 // Create docs directory if it doesn't exist
-                                const docsDir = vscode.Uri.joinPath(workspaceFolder.uri, 'docs');
+                                const docsDir = docsUri(workspaceFolder);
                                 try {
                                     await vscode.workspace.fs.stat(docsDir);
                                 } catch {
                                     await vscode.workspace.fs.createDirectory(docsDir);
                                 }
-                                docPath = vscode.Uri.joinPath(workspaceFolder.uri, 'docs', 'API.md');
-                                content = `# API Documentation\n\n> API endpoints, parameters, and examples\n\n## Overview\n\nThis document describes the API endpoints available in this project.\n\n## Endpoints\n\n### GET /api/health\n\nHealth check endpoint.\n\n**Response:**\n\`\`\`json\n{\n  "status": "ok"\n}\n\`\`\`\n`;
+                                docPath = docsUri(workspaceFolder, 'API.md');
+                                // The routes detected in code, or the operations of a hand-written spec
+                                content = generateApiContent(stats);
                             } else if (task.title.includes('ARCHITECTURE.md')) {
-                                const docsDir = vscode.Uri.joinPath(workspaceFolder.uri, 'docs');
+                                const docsDir = docsUri(workspaceFolder);
                                 try {
                                     await vscode.workspace.fs.stat(docsDir);
                                 } catch {
                                     await vscode.workspace.fs.createDirectory(docsDir);
                                 }
-                                docPath = vscode.Uri.joinPath(workspaceFolder.uri, 'docs', 'ARCHITECTURE.md');
+                                docPath = docsUri(workspaceFolder, 'ARCHITECTURE.md');
                                 content = `# Architecture\n\n> System architecture and design decisions\n\n## Overview\n\nThis document describes the overall architecture of the system.\n\n## Components\n\n- **Frontend**: User interface components\n- **Backend**: API and business logic\n- **Database**: Data storage layer\n\n## Design Decisions\n\n- Explain key architectural choices\n`;
                             } else if (task.title.includes('SETUP.md')) {
-                                const docsDir = vscode.Uri.joinPath(workspaceFolder.uri, 'docs');
+                                const docsDir = docsUri(workspaceFolder);
                                 try {
                                     await vscode.workspace.fs.stat(docsDir);
                                 } catch {
                                     await vscode.workspace.fs.createDirectory(docsDir);
                                 }
-                                docPath = vscode.Uri.joinPath(workspaceFolder.uri, 'docs', 'SETUP.md');
+                                docPath = docsUri(workspaceFolder, 'SETUP.md');
                                 content = `# Development Setup\n\n> Environment setup and configuration\n\n## Prerequisites\n\n- Node.js 18+\n- npm or yarn\n\n## Setup Steps\n\n1. Clone the repository\n2. Install dependencies: \`npm install\`\n3. Configure environment variables\n4. Run the development server: \`npm run dev\`\n`;
                             } else if (task.title.includes('CHANGELOG.md')) {
                                 docPath = vscode.Uri.joinPath(workspaceFolder.uri, 'CHANGELOG.md');
                                 content = `# Changelog\n\n> Version history and release notes\n\n## [Unreleased]\n\n### Added\n- Initial project setup\n\n### Changed\n- \n\n### Fixed\n- \n`;
                             } else if (task.title.includes('CONTRIBUTING.md')) {
-                                const docsDir = vscode.Uri.joinPath(workspaceFolder.uri, 'docs');
+                                const docsDir = docsUri(workspaceFolder);
                                 try {
                                     await vscode.workspace.fs.stat(docsDir);
                                 } catch {
                                     await vscode.workspace.fs.createDirectory(docsDir);
                                 }
-                                docPath = vscode.Uri.joinPath(workspaceFolder.uri, 'docs', 'CONTRIBUTING.md');
+                                docPath = docsUri(workspaceFolder, 'CONTRIBUTING.md');
                                 content = `# Contributing\n\n> Guidelines for contributing to this project\n\n## Getting Started\n\n1. Fork the repository\n2. Create a feature branch\n3. Make your changes\n4. Submit a pull request\n\n## Code Style\n\n- Follow existing code conventions\n- Add tests for new features\n- Update documentation as needed\n`;
                             } else {
                                 // Domain-specific documentation
                                 const docName = task.title.replace('Create ', '').replace('Update ', '');
-                                const docsDir = vscode.Uri.joinPath(workspaceFolder.uri, 'docs');
+                                const docsDir = docsUri(workspaceFolder);
                                 try {
                                     await vscode.workspace.fs.stat(docsDir);
                                 } catch {
                                     await vscode.workspace.fs.createDirectory(docsDir);
                                 }
-                                docPath = vscode.Uri.joinPath(workspaceFolder.uri, 'docs', docName);
+                                docPath = docsUri(workspaceFolder, docName);
                                 content = `# ${docName.replace('.md', '')}\n\n> ${task.description}\n\n## Overview\n\nDescribe this domain/module here.\n\n## Components\n\n- List key components\n\n## Usage\n\n\`\`\`typescript\n// Example usage\n\`\`\`\n`;
                             }
                             
@@ -5134,7 +5519,7 @@ When external AI services are integrated:
                             await changeTracker.trackFileCreation(relativePath, content, {
                                 taskTitle: task.title,
                                 docType: task.title.includes('API') ? 'API' : task.title.includes('ARCHITECTURE') ? 'Architecture' : task.title.includes('SETUP') ? 'Setup' : task.title.includes('CONTRIBUTING') ? 'Contributing' : 'Documentation'
-                            });
+                            }, workspaceFolder);
                             
                             // Debug: Log what we just created
                             console.log(`Generated file: ${docPath.toString()}`);
@@ -5174,8 +5559,8 @@ When external AI services are integrated:
                         const actionMap: { [key: string]: string } = {
                             'View PR': 'viewPR',
                             'Suggest doc update': 'suggestDocUpdate',
-                            'Open README': 'openDocument',
-                            'Generate update': 'generateUpdate',
+                            'Open doc': 'openDocument',
+                            'View commits': 'viewDrift',
                             'Generate changelog': 'generateChangelog'
                         };
                         
@@ -5185,13 +5570,16 @@ When external AI services are integrated:
                         if (actionId === 'viewPR') {
                             await maintenanceService.viewPR(id);
                         } else if (actionId === 'suggestDocUpdate') {
-                            await maintenanceService.suggestDocUpdate(id);
+                            await maintenanceService.suggestDocUpdate(id, getSelectedFolder());
                         } else if (actionId === 'openDocument') {
-                            await maintenanceService.openDocument('README.md');
-                        } else if (actionId === 'generateUpdate') {
-                            await maintenanceService.generateUpdate('README.md');
+                            const drift = maintenanceService.getStaleDoc(id);
+                            await maintenanceService.openDocument(drift?.doc || 'README.md', getSelectedFolder(), drift?.line);
+                        } else if (actionId === 'viewDrift') {
+                            await maintenanceService.viewDrift(id);
                         } else if (actionId === 'generateChangelog') {
-                            await maintenanceService.generateChangelog();
+                            if (await maintenanceService.generateChangelog(getSelectedFolder())) {
+                                sendActivityData(webviewView);
+                            }
                         } else {
                             vscode.window.showInformationMessage(`Notification action: ${action} on ${id}`);
                         }
@@ -5224,8 +5612,24 @@ When external AI services are integrated:
                     } catch (error) {
                         vscode.window.showErrorMessage(`Error handling activity action: ${error}`);
                     }
+                } else if (message.command === 'loadSettings') {
+                    sendSettings(webviewView);
                 } else if (message.command === 'saveSettings') {
-                    vscode.window.showInformationMessage('Settings saved (session only).');
+                    try {
+                        // The configuration listener refreshes the dashboard and sends the settings back
+                        await saveSettings(message.settings as Partial<DocumindSettings>, getSelectedFolder());
+                        vscode.window.showInformationMessage('Settings saved.');
+                    } catch (error) {
+                        vscode.window.showErrorMessage(`Failed to save settings: ${error instanceof Error ? error.message : error}`);
+                        sendSettings(webviewView);
+                    }
+                } else if (message.command === 'resetSettings') {
+                    try {
+                        await resetSettings(getSelectedFolder());
+                        vscode.window.showInformationMessage('Settings reset to their defaults.');
+                    } catch (error) {
+                        vscode.window.showErrorMessage(`Failed to reset settings: ${error instanceof Error ? error.message : error}`);
+                    }
                 }
             });
         }
@@ -5233,7 +5637,7 @@ When external AI services are integrated:
     context.subscriptions.push(aiChatProvider);
 
     async function showDraftInNewEditor(defaultName: string, content: string) {
-        const folder = vscode.workspace.workspaceFolders?.[0];
+        const folder = getSelectedFolder();
         const target = folder
             ? folder.uri.with({ path: path.posix.join(folder.uri.path, defaultName) })
             : vscode.Uri.parse(`untitled:${defaultName}`);
@@ -5328,6 +5732,96 @@ When external AI services are integrated:
     statusBarItem.show();
     context.subscriptions.push(statusBarItem);
 
+    // With documind.statusBarNotifications on, the item also counts the maintenance notifications
+    function updateStatusBar() {
+        const notifications = readSettings(getSelectedFolder()).statusBarNotifications ? maintenanceService.getNotifications() : [];
+        statusBarItem.text = notifications.length > 0 ? `$(comment-discussion) Documind AI $(bell) ${notifications.length}` : '$(comment-discussion) Documind AI';
+        statusBarItem.tooltip = notifications.length > 0
+            ? `Focus Documind AI\n\n${notifications.map(notif => `• ${notif.title}`).join('\n')}`
+            : 'Focus Documind AI';
+    }
+    updateStatusBar();
+    context.subscriptions.push(vscode.workspace.onDidChangeConfiguration(e => {
+        if (e.affectsConfiguration('documind.statusBarNotifications')) updateStatusBar();
+    }));
+
+    // documind.autoGenerateOnSave: saved code files are re-analyzed on their own and the generated doc sections
+    // covering them regenerated, once saving has been quiet for a moment so a burst of saves makes one update
+    const savedFiles = new Map<string, vscode.Uri>();
+    let autoGenerateTimer: NodeJS.Timeout | undefined;
+    let autoGenerating: Promise<void> = Promise.resolve();
+    context.subscriptions.push(vscode.workspace.onDidSaveTextDocument(document => {
+        const folder = vscode.workspace.getWorkspaceFolder(document.uri);
+        if (!folder || !autoGeneratesOnSave(readSettings(folder))) return;
+        if (!workspaceAnalyzer.isAnalyzable(document.uri) || !workspaceAnalyzer.isIncluded(document.uri)) return;
+        savedFiles.set(document.uri.toString(), document.uri);
+        if (autoGenerateTimer) clearTimeout(autoGenerateTimer);
+        autoGenerateTimer = setTimeout(() => {
+            autoGenerateTimer = undefined;
+            const files = Array.from(savedFiles.values());
+            savedFiles.clear();
+            // One run at a time, so two runs never propose changes to the same doc from the same original
+            autoGenerating = autoGenerating
+                .then(() => regenerateDocsForSaves(files))
+                // A failed run must not stop the ones after it
+                .catch(error => console.error('Error regenerating docs after save:', error));
+        }, AUTO_GENERATE_DELAY);
+    }));
+
+    async function regenerateDocsForSaves(files: vscode.Uri[]) {
+        const byFolder = new Map<string, { folder: vscode.WorkspaceFolder; files: vscode.Uri[] }>();
+        for (const file of files) {
+            const folder = vscode.workspace.getWorkspaceFolder(file);
+            if (!folder) continue;
+            const entry = byFolder.get(folder.uri.toString()) || { folder, files: [] };
+            entry.files.push(file);
+            byFolder.set(folder.uri.toString(), entry);
+        }
+
+        let changed = false;
+        for (const { folder, files: folderFiles } of byFolder.values()) {
+            const settings = readSettings(folder);
+            if (!autoGeneratesOnSave(settings)) continue;
+            try {
+                const analysis = await workspaceAnalyzer.updateFiles(folderFiles, [], folder);
+                const savedPaths = folderFiles.map(file => toRelativePath(folder, file));
+                const plan = await planDocRefresh(analysis.projectStructure, savedPaths, docsFolderOf(folder), async relativePath => {
+                    try {
+                        return Buffer.from(await vscode.workspace.fs.readFile(vscode.Uri.joinPath(folder.uri, relativePath))).toString('utf-8');
+                    } catch {
+                        return undefined;
+                    }
+                });
+
+                for (const refresh of plan.refreshes) {
+                    const metadata = {
+                        docType: refresh.doc.split('/').pop()?.replace(/\.md$/, ''),
+                        reason: `${refresh.sections.join(', ')} regenerated after saving ${savedPaths.join(', ')}`
+                    };
+                    if (settings.automationBehavior === 'suggest') {
+                        // Saving again without code changes proposes the same update; keep the one already pending
+                        if (changeTracker.getPending(refresh.doc, folder)?.newContent === refresh.updated) continue;
+                        changeTracker.discardPending(refresh.doc, folder);
+                        await changeTracker.trackFileModification(refresh.doc, refresh.original, refresh.updated, metadata, folder, 'pending');
+                    } else {
+                        await vscode.workspace.fs.writeFile(vscode.Uri.joinPath(folder.uri, refresh.doc), Buffer.from(refresh.updated, 'utf-8'));
+                        await changeTracker.trackFileModification(refresh.doc, refresh.original, refresh.updated, metadata, folder);
+                    }
+                    changed = true;
+                }
+                if (plan.skipped.length > 0) {
+                    vscode.window.setStatusBarMessage(
+                        `Documind: ${plan.skipped.length} more doc(s) need updating (${MAX_DOCS_PER_SAVE} per save): ${plan.skipped.join(', ')}`, 10000);
+                }
+            } catch (error) {
+                console.error('Error regenerating docs after save:', error);
+            }
+        }
+        if (changed && dashboardView?.visible) {
+            sendActivityData(dashboardView);
+        }
+    }
+
     // Focus AI Chat command: reveal secondary side bar + our view
     const focusChat = vscode.commands.registerCommand('codenection.focusChat', async () => {
         // Focus the primary Activity Bar container, then the view
@@ -5479,12 +5973,161 @@ When external AI services are integrated:
         vscode.commands.executeCommand('workbench.action.openSettings', '@ext:codenection-ai-docs');
     });
 
+    const backfillCoverageHistoryCommand = vscode.commands.registerCommand('codenection.backfillCoverageHistory', async () => {
+        const folder = getSelectedFolder();
+        if (!folder) {
+            vscode.window.showErrorMessage('No workspace folder found');
+            return;
+        }
+        const input = await vscode.window.showInputBox({
+            prompt: 'How many past commits should be analyzed?',
+            value: '20',
+            validateInput: value => /^[1-9]\d*$/.test(value) ? undefined : 'Enter a positive number'
+        });
+        if (!input) return;
+
+        try {
+            const added = await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: 'Backfilling coverage history',
+                cancellable: true
+            }, (progress, token) => coverageHistory.backfill(folder, parseInt(input, 10), progress, token));
+            vscode.window.showInformationMessage(added > 0 ? `Added ${added} coverage snapshot(s).` : 'Coverage history is already up to date.');
+            if (dashboardView) {
+                sendCoverageTrend(dashboardView);
+            }
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to backfill coverage history: ${error instanceof Error ? error.message : error}`);
+        }
+    });
+
+    const generateOpenApiSpecCommand = vscode.commands.registerCommand('codenection.generateOpenApiSpec', async () => {
+        try {
+            const docUri = await generateOpenApiSpec();
+            if (docUri) {
+                await vscode.window.showTextDocument(await vscode.workspace.openTextDocument(docUri));
+            }
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to generate OpenAPI spec: ${error instanceof Error ? error.message : error}`);
+        }
+    });
+
+    const draftReleaseNotesCommand = vscode.commands.registerCommand('codenection.draftReleaseNotes', async () => {
+        const folder = getSelectedFolder();
+        if (!folder) {
+            vscode.window.showErrorMessage('Open a workspace folder first.');
+            return;
+        }
+        const cwd = folder.uri.fsPath;
+        const tags = await listTags(cwd);
+        const to = await vscode.window.showQuickPick(
+            [{ label: 'HEAD', description: 'Unreleased changes' }, ...tags.map(tag => ({ label: tag, description: '' }))],
+            { placeHolder: 'Release notes up to' });
+        if (!to) return;
+        const older = to.label === 'HEAD' ? tags : tags.slice(tags.indexOf(to.label) + 1);
+        const from = await vscode.window.showQuickPick(
+            [...older.map((tag, index) => ({ label: tag, description: index === 0 ? 'Previous tag' : '' })), { label: 'First commit', description: 'The whole history' }],
+            { placeHolder: 'Release notes since' });
+        if (!from) return;
+        try {
+            const issueUrlTemplate = vscode.workspace.getConfiguration('documind.releaseNotes', folder.uri).get<string>('issueUrlTemplate', '')
+                || await remoteIssueUrlTemplate(cwd);
+            const notes = await draftReleaseNotes(cwd, { from: from.label === 'First commit' ? '' : from.label, to: to.label, issueUrlTemplate });
+            await vscode.window.showTextDocument(await vscode.workspace.openTextDocument({ content: formatReleaseNotesMarkdown(notes), language: 'markdown' }), { preview: false });
+            const choice = await vscode.window.showInformationMessage(`Release notes drafted from ${notes.commitCount} commit(s).`, 'Open JSON');
+            if (choice === 'Open JSON') {
+                await vscode.window.showTextDocument(await vscode.workspace.openTextDocument({ content: formatReleaseNotesJson(notes), language: 'json' }), { preview: false });
+            }
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to draft release notes: ${error instanceof Error ? error.message : error}`);
+        }
+    });
+
+    const setCodeHostTokenCommand = vscode.commands.registerCommand('codenection.setCodeHostToken', async () => {
+        const folder = getSelectedFolder();
+        if (!folder) {
+            vscode.window.showErrorMessage('Open a workspace folder first.');
+            return;
+        }
+        await maintenanceService.setCodeHostToken(folder);
+        if (dashboardView) {
+            await refreshDashboardData(dashboardView);
+        }
+    });
+
+    const suggestCommitMessageCommand = vscode.commands.registerCommand('codenection.suggestCommitMessage', async () => {
+        const folder = getSelectedFolder();
+        if (!folder) {
+            vscode.window.showErrorMessage('Open a workspace folder first.');
+            return;
+        }
+        try {
+            const analysis = await analyzeWorkspace();
+            const suggestion = await vscode.window.withProgress(
+                { location: vscode.ProgressLocation.SourceControl, title: 'Suggesting a commit message' },
+                () => suggestCommitMessage(folder.uri.fsPath, analysis.projectStructure.domains, new AIService()));
+
+            // Fill the Source Control input box of the repository the folder belongs to
+            interface GitRepository { rootUri: vscode.Uri; inputBox: { value: string } }
+            const git = vscode.extensions.getExtension('vscode.git');
+            const api = git ? (git.isActive ? git.exports : await git.activate()).getAPI(1) : undefined;
+            const repositories: GitRepository[] = api?.repositories || [];
+            const repository = repositories.find(repo => folder.uri.fsPath.startsWith(repo.rootUri.fsPath));
+            if (repository) {
+                repository.inputBox.value = suggestion.message;
+                await vscode.commands.executeCommand('workbench.view.scm');
+                vscode.window.showInformationMessage(`Commit message suggested${suggestion.source === 'heuristic' ? ' from the staged files' : ''}: ${suggestion.message}`);
+            } else {
+                await vscode.env.clipboard.writeText(suggestion.message);
+                vscode.window.showInformationMessage(`Copied to the clipboard: ${suggestion.message}`);
+            }
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to suggest a commit message: ${error instanceof Error ? error.message : error}`);
+        }
+    });
+
+    const checkCommitMessagesCommand = vscode.commands.registerCommand('codenection.checkCommitMessages', async () => {
+        const folder = getSelectedFolder();
+        if (!folder) {
+            vscode.window.showErrorMessage('Open a workspace folder first.');
+            return;
+        }
+        try {
+            const count = 50;
+            const flagged = await findOtherCommits(folder.uri.fsPath, count);
+            if (flagged.length === 0) {
+                vscode.window.showInformationMessage(`The last ${count} commits all follow Conventional Commits.`);
+                return;
+            }
+            const cell = (text: string) => text.replace(/\|/g, '\\|');
+            const content = [
+                '# Commit Message Check',
+                '',
+                `${flagged.length} of the last ${count} commits would land under \`other\` in the changelog draft.`,
+                '',
+                '| Commit | Subject | Problem |',
+                '|--------|---------|---------|',
+                ...flagged.map(commit => `| ${commit.shortHash} | ${cell(commit.subject)} | ${cell(commit.reason)} |`),
+                ''
+            ].join('\n');
+            await vscode.window.showTextDocument(await vscode.workspace.openTextDocument({ content, language: 'markdown' }), { preview: false });
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to check commit messages: ${error instanceof Error ? error.message : error}`);
+        }
+    });
+
     context.subscriptions.push(
         openChatCommand,
         uploadDocumentCommand,
         askAboutSelectionCommand,
         searchDocsCommand,
-        configureAICommand
+        configureAICommand,
+        backfillCoverageHistoryCommand,
+        generateOpenApiSpecCommand,
+        draftReleaseNotesCommand,
+        setCodeHostTokenCommand,
+        suggestCommitMessageCommand,
+        checkCommitMessagesCommand
     );
     
     // Add file watcher to subscriptions for proper cleanup
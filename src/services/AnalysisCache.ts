@@ -0,0 +1,108 @@
+import * as crypto from 'crypto';
+import * as path from 'path';
+import type * as vscode from 'vscode';
+import type { FileAnalysis } from './ProjectAnalyzer';
+
+// Bump whenever extractor output changes shape so stale entries are discarded
+const CACHE_VERSION = 11;
+const CACHE_FILE = 'analysis-cache.json';
+
+interface CacheEntry {
+    mtime: number;
+    size: number;
+    hash: string;
+    analysis: FileAnalysis;
+}
+
+/**
+ * Per-file analysis results persisted in the extension's workspace storage.
+ * Entries are reused while a file's mtime and size are unchanged, and re-keyed
+ * without re-parsing when only the mtime moved but the content hash did not.
+ * Files are read through `fs`, `vscode.workspace.fs` in the extension.
+ */
+export class AnalysisCache {
+    private entries = new Map<string, CacheEntry>();
+    private loaded = false;
+    private dirty = false;
+
+    constructor(private readonly storageUri: vscode.Uri | undefined, private readonly fs: vscode.FileSystem) {}
+
+    public async getOrCompute(file: vscode.Uri, compute: (content: Uint8Array) => Promise<FileAnalysis>): Promise<FileAnalysis> {
+        await this.load();
+        const key = file.toString();
+        const stat = await this.fs.stat(file);
+        const entry = this.entries.get(key);
+        if (entry && entry.mtime === stat.mtime && entry.size === stat.size) {
+            return entry.analysis;
+        }
+
+        const content = await this.fs.readFile(file);
+        const hash = crypto.createHash('sha1').update(content).digest('hex');
+        if (entry && entry.hash === hash) {
+            entry.mtime = stat.mtime;
+            entry.size = stat.size;
+            this.dirty = true;
+            return entry.analysis;
+        }
+
+        const analysis = await compute(content);
+        this.entries.set(key, { mtime: stat.mtime, size: stat.size, hash, analysis });
+        this.dirty = true;
+        return analysis;
+    }
+
+    /** Drops the entry of `file`, or of every file under it when it was a directory. */
+    public delete(file: vscode.Uri): void {
+        const key = file.toString();
+        const prefix = key.replace(/\/?$/, '/');
+        for (const cached of this.entries.keys()) {
+            if (cached === key || cached.startsWith(prefix)) {
+                this.entries.delete(cached);
+                this.dirty = true;
+            }
+        }
+    }
+
+    /** Drops entries under `folder` for files that are no longer part of it. */
+    public retainOnly(files: vscode.Uri[], folder: vscode.Uri): void {
+        const keep = new Set(files.map(f => f.toString()));
+        const prefix = folder.toString().replace(/\/?$/, '/');
+        for (const key of this.entries.keys()) {
+            if (key.startsWith(prefix) && !keep.has(key)) {
+                this.entries.delete(key);
+                this.dirty = true;
+            }
+        }
+    }
+
+    public async save(): Promise<void> {
+        if (!this.dirty || !this.storageUri) return;
+        try {
+            await this.fs.createDirectory(this.storageUri);
+            const payload = JSON.stringify({ version: CACHE_VERSION, entries: Object.fromEntries(this.entries) });
+            await this.fs.writeFile(this.cacheFile(this.storageUri), new TextEncoder().encode(payload));
+            this.dirty = false;
+        } catch (error) {
+            console.error('Error saving analysis cache:', error);
+        }
+    }
+
+    private async load(): Promise<void> {
+        if (this.loaded) return;
+        this.loaded = true;
+        if (!this.storageUri) return;
+        try {
+            const raw = await this.fs.readFile(this.cacheFile(this.storageUri));
+            const parsed = JSON.parse(Buffer.from(raw).toString('utf-8'));
+            if (parsed.version === CACHE_VERSION) {
+                this.entries = new Map(Object.entries(parsed.entries as Record<string, CacheEntry>));
+            }
+        } catch {
+            // No cache yet (first run) or unreadable - start empty
+        }
+    }
+
+    private cacheFile(storageUri: vscode.Uri): vscode.Uri {
+        return storageUri.with({ path: path.posix.join(storageUri.path, CACHE_FILE) });
+    }
+}
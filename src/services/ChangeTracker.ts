@@ -10,6 +10,8 @@ export interface ChangeRecord {
     title: string;
     description: string;
     filePath: string;
+    // URI of the workspace folder `filePath` is relative to
+    workspaceFolder?: string;
     timestamp: Date;
     originalContent?: string;
     newContent?: string;
@@ -64,15 +66,17 @@ export class ChangeTracker {
         }
     }
 
-    public async trackFileCreation(filePath: string, content: string, metadata?: any): Promise<ChangeRecord> {
+    // A `pending` change is only proposed: the file is written when the change is applied
+    public async trackFileCreation(filePath: string, content: string, metadata?: any, workspaceFolder?: vscode.WorkspaceFolder, status: ChangeRecord['status'] = 'applied'): Promise<ChangeRecord> {
         const change: ChangeRecord = {
             id: this.generateId(),
             type: 'file_created',
             action: 'auto',
-            status: 'applied',
+            status,
             title: `Created ${this.getFileName(filePath)}`,
             description: `Generated new documentation file: ${this.getFileName(filePath)}`,
             filePath,
+            workspaceFolder: (workspaceFolder || vscode.workspace.workspaceFolders?.[0])?.uri.toString(),
             timestamp: new Date(),
             newContent: content,
             metadata: {
@@ -87,15 +91,16 @@ export class ChangeTracker {
         return change;
     }
 
-    public async trackFileModification(filePath: string, originalContent: string, newContent: string, metadata?: any): Promise<ChangeRecord> {
+    public async trackFileModification(filePath: string, originalContent: string, newContent: string, metadata?: any, workspaceFolder?: vscode.WorkspaceFolder, status: ChangeRecord['status'] = 'applied'): Promise<ChangeRecord> {
         const change: ChangeRecord = {
             id: this.generateId(),
             type: 'file_modified',
             action: 'auto',
-            status: 'applied',
+            status,
             title: `Updated ${this.getFileName(filePath)}`,
             description: `Modified documentation file: ${this.getFileName(filePath)}`,
             filePath,
+            workspaceFolder: (workspaceFolder || vscode.workspace.workspaceFolders?.[0])?.uri.toString(),
             timestamp: new Date(),
             originalContent,
             newContent,
@@ -112,7 +117,7 @@ export class ChangeTracker {
         return change;
     }
 
-    public async trackContentGeneration(docType: string, content: string, filePath: string, metadata?: any): Promise<ChangeRecord> {
+    public async trackContentGeneration(docType: string, content: string, filePath: string, metadata?: any, workspaceFolder?: vscode.WorkspaceFolder): Promise<ChangeRecord> {
         const change: ChangeRecord = {
             id: this.generateId(),
             type: 'content_generated',
@@ -121,6 +126,7 @@ export class ChangeTracker {
             title: `Generated ${docType} documentation`,
             description: `AI-generated ${docType} documentation content`,
             filePath,
+            workspaceFolder: (workspaceFolder || vscode.workspace.workspaceFolders?.[0])?.uri.toString(),
             timestamp: new Date(),
             newContent: content,
             metadata: {
@@ -136,7 +142,7 @@ export class ChangeTracker {
         return change;
     }
 
-    public async trackManualAction(title: string, description: string, filePath: string, originalContent?: string, newContent?: string): Promise<ChangeRecord> {
+    public async trackManualAction(title: string, description: string, filePath: string, originalContent?: string, newContent?: string, workspaceFolder?: vscode.WorkspaceFolder): Promise<ChangeRecord> {
         const change: ChangeRecord = {
             id: this.generateId(),
             type: originalContent && newContent ? 'file_modified' : 'content_updated',
@@ -145,6 +151,7 @@ export class ChangeTracker {
             title,
             description,
             filePath,
+            workspaceFolder: (workspaceFolder || vscode.workspace.workspaceFolders?.[0])?.uri.toString(),
             timestamp: new Date(),
             originalContent,
             newContent,
@@ -176,6 +183,22 @@ export class ChangeTracker {
         return this.changes.find(change => change.id === id);
     }
 
+    // The latest proposal still pending for a file, if any
+    public getPending(filePath: string, workspaceFolder?: vscode.WorkspaceFolder): ChangeRecord | undefined {
+        const folder = (workspaceFolder || vscode.workspace.workspaceFolders?.[0])?.uri.toString();
+        return this.changes.find(change => change.status === 'pending' && change.filePath === filePath && change.workspaceFolder === folder);
+    }
+
+    // Drops the proposals still pending for a file, before a fresher one takes their place
+    public discardPending(filePath: string, workspaceFolder?: vscode.WorkspaceFolder): void {
+        const folder = (workspaceFolder || vscode.workspace.workspaceFolders?.[0])?.uri.toString();
+        const remaining = this.changes.filter(change => !(change.status === 'pending' && change.filePath === filePath && change.workspaceFolder === folder));
+        if (remaining.length !== this.changes.length) {
+            this.changes = remaining;
+            this.saveChanges();
+        }
+    }
+
     public async viewDiff(changeId: string): Promise<void> {
         const change = this.getChangeById(changeId);
         if (!change) {
@@ -243,19 +266,12 @@ ${change.metadata ? JSON.stringify(change.metadata, null, 2) : 'None'}`;
         }
 
         try {
-            const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-            if (!workspaceFolder) {
+            const target = this.resolveTarget(change);
+            if (!target) {
                 vscode.window.showErrorMessage('No workspace folder found');
                 return false;
             }
-
-            // Handle both relative and absolute paths
-            let filePath = change.filePath;
-            if (filePath.startsWith(workspaceFolder.uri.fsPath)) {
-                // If it's an absolute path, make it relative
-                filePath = filePath.replace(workspaceFolder.uri.fsPath + path.sep, '').replace(/\\/g, '/');
-            }
-            
+            const { workspaceFolder, filePath } = target;
             const uri = vscode.Uri.joinPath(workspaceFolder.uri, filePath);
             
             if (change.type === 'file_created' || change.type === 'content_generated') {
@@ -295,19 +311,12 @@ ${change.metadata ? JSON.stringify(change.metadata, null, 2) : 'None'}`;
         }
 
         try {
-            const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-            if (!workspaceFolder) {
+            const target = this.resolveTarget(change);
+            if (!target) {
                 vscode.window.showErrorMessage('No workspace folder found');
                 return false;
             }
-
-            // Handle both relative and absolute paths
-            let filePath = change.filePath;
-            if (filePath.startsWith(workspaceFolder.uri.fsPath)) {
-                // If it's an absolute path, make it relative
-                filePath = filePath.replace(workspaceFolder.uri.fsPath + path.sep, '').replace(/\\/g, '/');
-            }
-            
+            const { workspaceFolder, filePath } = target;
             const uri = vscode.Uri.joinPath(workspaceFolder.uri, filePath);
 
             if (change.type === 'file_created' || change.type === 'content_generated') {
@@ -334,6 +343,26 @@ ${change.metadata ? JSON.stringify(change.metadata, null, 2) : 'None'}`;
         }
     }
 
+    /**
+     * Finds the workspace folder a change belongs to - the recorded one, else the
+     * folder containing an absolute path, else the first - and the path within it.
+     */
+    private resolveTarget(change: ChangeRecord): { workspaceFolder: vscode.WorkspaceFolder; filePath: string } | undefined {
+        const folders = vscode.workspace.workspaceFolders || [];
+        const workspaceFolder = folders.find(f => f.uri.toString() === change.workspaceFolder)
+            || folders.find(f => change.filePath.startsWith(f.uri.fsPath + path.sep))
+            || folders[0];
+        if (!workspaceFolder) return undefined;
+
+        // Handle both relative and absolute paths
+        let filePath = change.filePath;
+        if (filePath.startsWith(workspaceFolder.uri.fsPath)) {
+            // If it's an absolute path, make it relative
+            filePath = filePath.replace(workspaceFolder.uri.fsPath + path.sep, '').replace(/\\/g, '/');
+        }
+        return { workspaceFolder, filePath };
+    }
+
     private generateId(): string {
         return crypto.randomBytes(8).toString('hex');
     }
@@ -0,0 +1,151 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { readCommit, runGit } from './git';
+import { WorkspaceAnalysis, WorkspaceAnalyzer } from './WorkspaceAnalyzer';
+
+const HISTORY_VERSION = 1;
+const HISTORY_FILE = 'coverage-history.json';
+// Per folder, oldest snapshots are dropped beyond this
+const MAX_SNAPSHOTS = 500;
+
+export interface CoverageSnapshot {
+    commit: string;
+    /** Committer date of `commit`, ISO 8601. */
+    commitDate: string;
+    /** When the analysis ran. */
+    timestamp: string;
+    coverage: number;
+    fileCoverage: number;
+    missingDocs: { high: number; medium: number; low: number };
+    docTasks: number;
+}
+
+/**
+ * Coverage snapshots keyed by workspace folder, one per commit, persisted in
+ * the extension's workspace storage.
+ */
+export class CoverageHistory {
+    private snapshots: Record<string, CoverageSnapshot[]> = {};
+    private loaded = false;
+
+    constructor(private readonly storageUri: vscode.Uri | undefined) {}
+
+    /** Snapshots an analysis against the folder's current HEAD; re-analyzing the same commit replaces its snapshot. */
+    public async record(folder: vscode.WorkspaceFolder, analysis: WorkspaceAnalysis): Promise<CoverageSnapshot | undefined> {
+        const head = await readCommit(folder.uri.fsPath);
+        if (!head) return undefined;
+        const snapshot = toSnapshot(head.hash, head.date, analysis);
+        await this.add(folder, [snapshot]);
+        return snapshot;
+    }
+
+    /** Snapshots of a folder, oldest commit first. */
+    public async getSnapshots(folder: vscode.WorkspaceFolder): Promise<CoverageSnapshot[]> {
+        await this.load();
+        return this.snapshots[folder.uri.toString()] || [];
+    }
+
+    /**
+     * Analyzes the last `count` first-parent commits that have no snapshot yet
+     * by checking each one out in a temporary worktree. Only the folder's own
+     * part of the repository is analyzed, as `record` does. Returns how many were added.
+     */
+    public async backfill(
+        folder: vscode.WorkspaceFolder,
+        count: number,
+        progress?: vscode.Progress<{ message?: string; increment?: number }>,
+        token?: vscode.CancellationToken
+    ): Promise<number> {
+        const cwd = folder.uri.fsPath;
+        const known = new Set((await this.getSnapshots(folder)).map(s => s.commit));
+        const log = await runGit(['log', '--first-parent', `-n${count}`, '--format=%H%x09%cI', 'HEAD'], cwd);
+        const commits = log.split('\n').filter(Boolean)
+            .map(line => line.split('\t'))
+            .filter(([hash]) => !known.has(hash));
+        if (commits.length === 0) return 0;
+
+        // The folder may be a subdirectory of the repository (monorepos, multi-root workspaces)
+        const prefix = await runGit(['rev-parse', '--show-prefix'], cwd);
+        const worktree = fs.mkdtempSync(path.join(os.tmpdir(), 'documind-history-'));
+        const root = path.join(worktree, prefix);
+        const added: CoverageSnapshot[] = [];
+        try {
+            await runGit(['worktree', 'add', '--detach', worktree, commits[0][0]], cwd);
+            // Analyze without the shared cache so past versions do not evict current entries
+            const analyzer = new WorkspaceAnalyzer();
+            const worktreeFolder: vscode.WorkspaceFolder = { uri: vscode.Uri.file(root), name: folder.name, index: folder.index };
+            for (const [hash, date] of commits) {
+                if (token?.isCancellationRequested) break;
+                progress?.report({ message: hash.slice(0, 7), increment: 100 / commits.length });
+                await runGit(['checkout', '--detach', '--force', hash], worktree);
+                // Commits from before the folder existed have nothing to measure
+                if (!fs.existsSync(root)) continue;
+                const analysis = await analyzer.analyzeWorkspace(worktreeFolder);
+                added.push(toSnapshot(hash, date, analysis));
+            }
+        } finally {
+            await runGit(['worktree', 'remove', '--force', worktree], cwd).catch(() => {
+                fs.rmSync(worktree, { recursive: true, force: true });
+                return runGit(['worktree', 'prune'], cwd).catch(() => '');
+            });
+        }
+
+        await this.add(folder, added);
+        return added.length;
+    }
+
+    private async add(folder: vscode.WorkspaceFolder, snapshots: CoverageSnapshot[]): Promise<void> {
+        await this.load();
+        const key = folder.uri.toString();
+        const replaced = new Set(snapshots.map(s => s.commit));
+        const merged = (this.snapshots[key] || []).filter(s => !replaced.has(s.commit)).concat(snapshots);
+        merged.sort((a, b) => a.commitDate.localeCompare(b.commitDate) || a.timestamp.localeCompare(b.timestamp));
+        this.snapshots[key] = merged.slice(-MAX_SNAPSHOTS);
+        await this.save();
+    }
+
+    private async save(): Promise<void> {
+        if (!this.storageUri) return;
+        try {
+            await vscode.workspace.fs.createDirectory(this.storageUri);
+            const payload = JSON.stringify({ version: HISTORY_VERSION, snapshots: this.snapshots });
+            await vscode.workspace.fs.writeFile(vscode.Uri.joinPath(this.storageUri, HISTORY_FILE), new TextEncoder().encode(payload));
+        } catch (error) {
+            console.error('Error saving coverage history:', error);
+        }
+    }
+
+    private async load(): Promise<void> {
+        if (this.loaded) return;
+        this.loaded = true;
+        if (!this.storageUri) return;
+        try {
+            const raw = await vscode.workspace.fs.readFile(vscode.Uri.joinPath(this.storageUri, HISTORY_FILE));
+            const parsed = JSON.parse(Buffer.from(raw).toString('utf-8'));
+            if (parsed.version === HISTORY_VERSION) {
+                this.snapshots = parsed.snapshots;
+            }
+        } catch {
+            // No history yet - start empty
+        }
+    }
+}
+
+function toSnapshot(commit: string, commitDate: string, analysis: WorkspaceAnalysis): CoverageSnapshot {
+    const undocumented = analysis.missingDocs.filter(item => !item.hasDocumentation);
+    return {
+        commit,
+        commitDate,
+        timestamp: new Date().toISOString(),
+        coverage: analysis.projectStructure.coverage,
+        fileCoverage: analysis.projectStructure.fileCoverage,
+        missingDocs: {
+            high: undocumented.filter(item => item.priority === 'high').length,
+            medium: undocumented.filter(item => item.priority === 'medium').length,
+            low: undocumented.filter(item => item.priority === 'low').length
+        },
+        docTasks: analysis.docTasks.length
+    };
+}
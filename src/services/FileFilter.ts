@@ -0,0 +1,100 @@
+import ignore, { Ignore } from 'ignore';
+import { minimatch } from 'minimatch';
+import * as path from 'path';
+
+export const IGNORE_FILE_NAMES = ['.gitignore', '.documindignore'];
+
+export const DEFAULT_INCLUDE = ['**/*'];
+export const DEFAULT_EXCLUDE = [
+    '**/node_modules/**',
+    '**/.git/**',
+    '**/out/**',
+    '**/dist/**',
+    '**/build/**',
+    '**/coverage/**',
+    '**/vendor/**',
+    '**/*.min.js',
+    '**/*.map'
+];
+
+export interface FileFilterOptions {
+    include?: string[];
+    exclude?: string[];
+    /** Contents of ignore files keyed by their workspace-relative path (e.g. `packages/a/.gitignore`). */
+    ignoreFiles?: Record<string, string>;
+}
+
+/**
+ * Decides which workspace-relative paths take part in analysis: they must
+ * match an include glob, no exclude glob, and not be ignored by any
+ * `.gitignore` / `.documindignore` in their ancestry.
+ */
+export class FileFilter {
+    public readonly include: string[];
+    public readonly exclude: string[];
+    private readonly ignorer: Ignore;
+
+    constructor(options: FileFilterOptions = {}) {
+        this.include = options.include && options.include.length > 0 ? options.include : DEFAULT_INCLUDE;
+        this.exclude = options.exclude ?? DEFAULT_EXCLUDE;
+        this.ignorer = ignore();
+        for (const [ignoreFile, content] of Object.entries(options.ignoreFiles || {})) {
+            this.addIgnoreFile(ignoreFile, content);
+        }
+    }
+
+    /** Adds the rules of an ignore file, given its workspace-relative path. */
+    public addIgnoreFile(relativePath: string, content: string): void {
+        this.ignorer.add(rebaseIgnoreRules(content, path.posix.dirname(relativePath.replace(/\\/g, '/'))));
+    }
+
+    public matches(relativePath: string): boolean {
+        const normalized = relativePath.replace(/\\/g, '/').replace(/^\.\//, '');
+        if (!normalized || normalized.startsWith('../')) return false;
+        if (!this.include.some(glob => minimatch(normalized, glob, { dot: true }))) return false;
+        if (this.exclude.some(glob => minimatch(normalized, glob, { dot: true }))) return false;
+        return !this.ignorer.ignores(normalized);
+    }
+
+    /**
+     * Whether a whole directory is excluded or ignored, so a file walk can skip
+     * it without listing its contents.
+     */
+    public excludesDirectory(relativeDir: string): boolean {
+        const normalized = relativeDir.replace(/\\/g, '/').replace(/^\.\//, '').replace(/\/$/, '');
+        if (!normalized) return false;
+        // Probe with a file inside the directory: matches globs like `**/node_modules/**`, not `**/*.map`
+        const probe = `${normalized}/.documind-probe`;
+        return this.exclude.some(glob => minimatch(probe, glob, { dot: true })) || this.ignorer.ignores(`${normalized}/`);
+    }
+
+    /** Brace-joined globs in the form `findFiles` and file watchers accept. */
+    public static toGlob(globs: string[]): string {
+        return globs.length === 1 ? globs[0] : `{${globs.join(',')}}`;
+    }
+}
+
+/**
+ * Rewrites the rules of a nested ignore file so they apply relative to the
+ * workspace root, which is the only base the `ignore` package understands.
+ */
+function rebaseIgnoreRules(content: string, dir: string): string[] {
+    const rules: string[] = [];
+    for (const rawLine of content.split(/\r?\n/)) {
+        const line = rawLine.trim();
+        if (!line || line.startsWith('#')) continue;
+        if (dir === '.' || dir === '') {
+            rules.push(line);
+            continue;
+        }
+
+        const negated = line.startsWith('!');
+        let pattern = negated ? line.slice(1) : line;
+        // A slash anywhere but the end anchors the pattern to the ignore file's directory
+        const anchored = pattern.replace(/\/$/, '').includes('/');
+        pattern = pattern.replace(/^\//, '');
+        const rebased = anchored ? `${dir}/${pattern}` : `${dir}/**/${pattern}`;
+        rules.push((negated ? '!' : '') + rebased);
+    }
+    return rules;
+}
@@ -1,8 +1,18 @@
 import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { analyzeBranches, describePullRequests } from './branchAnalysis';
+import type { ChangeRecord, ChangeTracker } from './ChangeTracker';
+import { ChangelogBullet, mergeChangelog, missingEntries, PendingRelease, planRelease } from './changelog';
+import { CodeHostKind, CodeHostProvider, CodeHostRemote, createCodeHost, parseRemote } from './codeHosts/codeHost';
+import { DocDrift, findDocDrift } from './docDrift';
+import { runGit } from './git';
+import type { CodeItem, ProjectDomain } from './ProjectAnalyzer';
 
 export interface GitHubPR {
     id: string;
-    number: number;
+    /** Pull request number; absent for a local branch without one. */
+    number?: number;
     title: string;
     description: string;
     author: string;
@@ -10,22 +20,17 @@ export interface GitHubPR {
     filesChanged: string[];
     docImpact: 'high' | 'medium' | 'low';
     suggestedActions: string[];
-}
-
-export interface DocumentUpdate {
-    filePath: string;
-    currentContent: string;
-    suggestedContent: string;
-    reason: string;
-    priority: 'high' | 'medium' | 'low';
-}
-
-export interface ChangelogEntry {
-    version: string;
-    date: string;
-    type: 'added' | 'changed' | 'fixed' | 'removed';
-    description: string;
-    commits: string[];
+    /** Web page of the pull request on its code host. */
+    url?: string;
+    /** The branch with the changes and the one it is compared against. */
+    branch?: string;
+    baseBranch?: string;
+    /** Commit subjects since the merge base, oldest first. */
+    commits?: string[];
+    /** Project domains the changed files belong to. */
+    domains?: string[];
+    /** Docs the changes already update. */
+    docsChanged?: string[];
 }
 
 export interface MaintenanceNotification {
@@ -50,69 +55,12 @@ export interface NotificationAction {
 export class MaintenanceService {
     private notifications: MaintenanceNotification[] = [];
     private prs: GitHubPR[] = [];
-    private documentUpdates: DocumentUpdate[] = [];
+    private staleDocs: DocDrift[] = [];
+    private release?: PendingRelease;
+    // Bullets of `release` that CHANGELOG.md does not have yet
+    private unlogged: ChangelogBullet[] = [];
 
-    constructor() {
-        this.initializeSampleData();
-    }
-
-    private initializeSampleData() {
-        // Sample GitHub PRs
-        this.prs = [
-            {
-                id: 'pr-1024',
-                number: 1024,
-                title: 'Update API endpoints',
-                description: 'Added new user authentication endpoints and updated existing API structure',
-                author: 'john.doe',
-                status: 'open',
-                filesChanged: ['src/api/user-service.ts', 'src/routes/auth.ts', 'src/middleware/auth.ts'],
-                docImpact: 'high',
-                suggestedActions: ['Update API documentation', 'Update authentication guide', 'Update changelog']
-            },
-            {
-                id: 'pr-1021',
-                number: 1021,
-                title: 'Refactor database models',
-                description: 'Restructured database models for better performance and added new indexes',
-                author: 'jane.smith',
-                status: 'merged',
-                filesChanged: ['src/models/user.ts', 'src/models/product.ts', 'src/database/migrations/'],
-                docImpact: 'medium',
-                suggestedActions: ['Update database documentation', 'Update setup guide']
-            }
-        ];
-
-        // Sample document updates
-        this.documentUpdates = [
-            {
-                filePath: 'README.md',
-                currentContent: `# Project Name
-
-## Installation
-\`\`\`bash
-npm install
-npm run start
-\`\`\`
-
-## Usage
-Run the application with the old command.`,
-                suggestedContent: `# Project Name
-
-## Installation
-\`\`\`bash
-npm install
-npm run dev
-\`\`\`
-
-## Usage
-Run the application with the new development command.`,
-                reason: 'README references old scripts; diff suggests changes.',
-                priority: 'medium'
-            }
-        ];
-
-        // Generate notifications
+    constructor(private readonly secrets?: vscode.SecretStorage, private readonly changeTracker?: ChangeTracker) {
         this.generateNotifications();
     }
 
@@ -123,10 +71,12 @@ Run the application with the new development command.`,
         this.prs.forEach(pr => {
             if (pr.status === 'open' && pr.docImpact !== 'low') {
                 this.notifications.push({
-                    id: `pr-${pr.number}`,
+                    id: pr.id,
                     type: 'pr',
-                    title: `PR #${pr.number}: ${pr.title}`,
-                    description: `Potential doc changes detected in ${pr.filesChanged[0]}.`,
+                    title: `${prLabel(pr)}: ${pr.title}`,
+                    description: pr.suggestedActions.length > 0
+                        ? `${pr.suggestedActions[0]}.${pr.suggestedActions.length > 1 ? ` ${pr.suggestedActions.length - 1} more suggestion(s).` : ''}`
+                        : `Potential doc changes detected in ${pr.filesChanged[0]}.`,
                     priority: pr.docImpact,
                     actions: [
                         {
@@ -150,60 +100,60 @@ Run the application with the new development command.`,
             }
         });
 
-        // Stale document notifications
-        this.documentUpdates.forEach(update => {
+        // Doc sections whose code changed after they were last edited
+        this.staleDocs.forEach(drift => {
+            const lastEdited = drift.lastEdit.date.split('T')[0];
             this.notifications.push({
-                id: `stale-${update.filePath.replace(/[^a-zA-Z0-9]/g, '-')}`,
+                id: staleDocId(drift),
                 type: 'stale_doc',
-                title: `${update.filePath} may be stale`,
-                description: update.reason,
-                priority: update.priority,
+                title: `${drift.doc} § ${drift.section} may be stale`,
+                description: `Last edited ${lastEdited}; since then ${drift.commits.length} commit(s) changed ${drift.linesChanged} lines in ${drift.files.join(', ')}.`,
+                priority: drift.linesChanged >= 200 ? 'high' : drift.linesChanged >= 60 ? 'medium' : 'low',
                 actions: [
                     {
                         id: 'open-doc',
-                        label: 'Open README',
+                        label: 'Open doc',
                         type: 'open',
                         command: 'openDocument',
                         icon: '📖'
                     },
                     {
-                        id: 'generate-update',
-                        label: 'Generate update',
-                        type: 'generate',
-                        command: 'generateUpdate',
-                        icon: '🔄'
+                        id: 'view-drift',
+                        label: 'View commits',
+                        type: 'view',
+                        command: 'viewDrift',
+                        icon: '🔍'
                     }
                 ],
-                metadata: { update },
+                metadata: { drift },
                 timestamp: new Date()
             });
         });
 
-        // Changelog notifications
-        this.notifications.push({
-            id: 'changelog-missing',
-            type: 'changelog',
-            title: 'Changelog missing entries',
-            description: '3 commits without changelog notes.',
-            priority: 'low',
-            actions: [
-                {
-                    id: 'generate-changelog',
-                    label: 'Generate changelog',
-                    type: 'generate',
-                    command: 'generateChangelog',
-                    icon: '📋'
-                }
-            ],
-            metadata: { 
-                missingCommits: [
-                    'feat: Add user authentication',
-                    'fix: Resolve database connection issue',
-                    'docs: Update API documentation'
-                ]
-            },
-            timestamp: new Date()
-        });
+        // Commits since the last tag that CHANGELOG.md does not mention
+        if (this.release && this.unlogged.length > 0) {
+            const release = this.release;
+            const since = release.previousTag ? `since ${release.previousTag}` : 'in this repository';
+            const missingCommits = release.commits.filter(commit => this.unlogged.some(bullet => bullet.shortHash === commit.shortHash)).map(commit => commit.subject);
+            this.notifications.push({
+                id: 'changelog-missing',
+                type: 'changelog',
+                title: 'Changelog missing entries',
+                description: `${missingCommits.length} commit(s) ${since} without changelog notes; next version ${release.version}${release.bump ? ` (${release.bump})` : ''}.`,
+                priority: release.bump === 'major' ? 'high' : release.bump === 'minor' ? 'medium' : 'low',
+                actions: [
+                    {
+                        id: 'generate-changelog',
+                        label: 'Generate changelog',
+                        type: 'generate',
+                        command: 'generateChangelog',
+                        icon: '📋'
+                    }
+                ],
+                metadata: { missingCommits, version: release.version, bump: release.bump },
+                timestamp: new Date()
+            });
+        }
     }
 
     public getNotifications(): MaintenanceNotification[] {
@@ -221,33 +171,145 @@ Run the application with the new development command.`,
         return this.prs.find(pr => pr.id === id);
     }
 
-    public getDocumentUpdates(): DocumentUpdate[] {
-        return this.documentUpdates;
+    /**
+     * Recomputes the PR notifications from the open pull requests on the
+     * code host, when one is configured, and from the local branches ahead of
+     * the main branch that have none. A code host that cannot be reached
+     * leaves the local branches.
+     */
+    public async refreshPullRequests(folder: vscode.WorkspaceFolder, items: CodeItem[], domains: ProjectDomain[]): Promise<void> {
+        const root = folder.uri.fsPath;
+        let remote: GitHubPR[] = [];
+        try {
+            const host = await this.codeHostFor(folder);
+            if (host) remote = await describePullRequests(root, await host.listOpenPullRequests(), items, domains);
+        } catch (error) {
+            console.error('Error fetching pull requests from the code host:', error);
+        }
+        const remoteBranches = new Set(remote.map(pr => pr.branch));
+        const local = (await analyzeBranches(root, items, domains)).filter(pr => !remoteBranches.has(pr.branch));
+        this.prs = [...remote, ...local];
+        this.generateNotifications();
+    }
+
+    /** Recomputes the changelog notification from the commits since the last tag. */
+    public async refreshChangelog(folder: vscode.WorkspaceFolder): Promise<void> {
+        const root = folder.uri.fsPath;
+        this.release = await planRelease(root, await readPackageVersion(root));
+        const changelog = await fs.promises.readFile(path.join(root, 'CHANGELOG.md'), 'utf-8').catch(() => '');
+        this.unlogged = missingEntries(changelog, this.release);
+        this.generateNotifications();
+    }
+
+    /** Asks for an access token for the folder's code host and keeps it in secret storage; an empty one removes it. */
+    public async setCodeHostToken(folder: vscode.WorkspaceFolder): Promise<void> {
+        if (!this.secrets) return;
+        const remote = await this.remoteFor(folder);
+        if (!remote) {
+            vscode.window.showErrorMessage('No GitHub, GitLab or Gitea remote found. Set documind.codeHost.provider for self-hosted instances.');
+            return;
+        }
+        const origin = new URL(remote.apiUrl).origin;
+        const token = await vscode.window.showInputBox({
+            prompt: `Access token for ${remote.kind} at ${origin} (leave empty to remove the stored one)`,
+            password: true,
+            ignoreFocusOut: true
+        });
+        if (token === undefined) return;
+        if (!token.trim()) {
+            await this.secrets.delete(tokenKey(remote));
+            vscode.window.showInformationMessage(`Removed the access token for ${origin}.`);
+            return;
+        }
+        await this.secrets.store(tokenKey(remote), token.trim());
+        const config = vscode.workspace.getConfiguration('documind.codeHost');
+        if (config.get<boolean>('fetchPullRequests', false)) {
+            vscode.window.showInformationMessage(`Saved the access token for ${origin}.`);
+            return;
+        }
+        const choice = await vscode.window.showInformationMessage(
+            `Saved the access token for ${origin}. Fetch open pull requests from it whenever the dashboard refreshes?`,
+            'Fetch pull requests'
+        );
+        if (choice === 'Fetch pull requests') {
+            await config.update('fetchPullRequests', true, vscode.ConfigurationTarget.Global);
+        }
+    }
+
+    /**
+     * The code host of the folder's git remote, never in an untrusted
+     * workspace. Dashboard refreshes (`requireToken` false) only fetch once
+     * the user turned on `documind.codeHost.fetchPullRequests`, and then with
+     * a stored token or an explicit `documind.codeHost.apiUrl`, so that public
+     * repositories are not polled anonymously.
+     */
+    private async codeHostFor(folder: vscode.WorkspaceFolder, requireToken = false): Promise<CodeHostProvider | undefined> {
+        if (!vscode.workspace.isTrusted) return undefined;
+        const config = vscode.workspace.getConfiguration('documind.codeHost', folder.uri);
+        if (!requireToken && !config.get<boolean>('fetchPullRequests', false)) return undefined;
+        const remote = await this.remoteFor(folder);
+        if (!remote) return undefined;
+        const token = await this.secrets?.get(tokenKey(remote));
+        if (!token && (requireToken || !config.get<string>('apiUrl', ''))) return undefined;
+        return createCodeHost(remote, token);
+    }
+
+    private async remoteFor(folder: vscode.WorkspaceFolder): Promise<CodeHostRemote | undefined> {
+        const config = vscode.workspace.getConfiguration('documind.codeHost', folder.uri);
+        const provider = config.get<CodeHostKind | 'auto' | 'none'>('provider', 'auto');
+        if (provider === 'none') return undefined;
+        let url: string;
+        try {
+            url = await runGit(['remote', 'get-url', config.get<string>('remote', 'origin')], folder.uri.fsPath);
+        } catch {
+            return undefined;
+        }
+        return parseRemote(url, provider, config.get<string>('apiUrl', '') || undefined);
+    }
+
+    public getStaleDocs(): DocDrift[] {
+        return this.staleDocs;
+    }
+
+    /** The drift behind a `stale_doc` notification. */
+    public getStaleDoc(notificationId: string): DocDrift | undefined {
+        return this.staleDocs.find(drift => staleDocId(drift) === notificationId);
+    }
+
+    /**
+     * Recomputes the stale doc notifications from git history: doc sections
+     * whose referenced code changed significantly after they were last edited.
+     */
+    public async refreshStaleDocs(folder: vscode.WorkspaceFolder, items: CodeItem[]): Promise<void> {
+        this.staleDocs = await findDocDrift(folder.uri.fsPath, items);
+        this.generateNotifications();
     }
 
     public async viewPR(prId: string): Promise<void> {
         const pr = this.getPRById(prId);
         if (!pr) return;
 
-        // Simulate opening PR in browser
-        const prUrl = `https://github.com/your-org/your-repo/pull/${pr.number}`;
-        await vscode.env.openExternal(vscode.Uri.parse(prUrl));
-        
-        // Show PR details in a new editor
-        const content = `# PR #${pr.number}: ${pr.title}
+        if (pr.url) {
+            await vscode.env.openExternal(vscode.Uri.parse(pr.url));
+            return;
+        }
+
+        const content = `# ${prLabel(pr)}: ${pr.title}
 
 **Author:** ${pr.author}
-**Status:** ${pr.status}
+**Status:** ${pr.status}${pr.branch ? `
+**Branch:** \`${pr.branch}\` → \`${pr.baseBranch}\`` : ''}
 **Description:** ${pr.description}
-
+**Documentation Impact:** ${pr.docImpact.toUpperCase()}
+${pr.commits?.length ? `
+## Commits
+${pr.commits.map(commit => `- ${commit}`).join('\n')}
+` : ''}
 ## Files Changed
-${pr.filesChanged.map(file => `- ${file}`).join('\n')}
+${pr.filesChanged.map(file => `- ${file}${pr.docsChanged?.includes(file) ? ' (doc)' : ''}`).join('\n')}
 
 ## Suggested Documentation Actions
-${pr.suggestedActions.map(action => `- ${action}`).join('\n')}
-
-## PR URL
-${prUrl}`;
+${pr.suggestedActions.length > 0 ? pr.suggestedActions.map(action => `- ${action}`).join('\n') : '- None; the changes do not touch documented code'}`;
 
         const doc = await vscode.workspace.openTextDocument({
             content,
@@ -256,153 +318,102 @@ ${prUrl}`;
         await vscode.window.showTextDocument(doc, { preview: false });
     }
 
-    public async openDocument(filePath: string): Promise<void> {
-        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+    public async openDocument(filePath: string, folder?: vscode.WorkspaceFolder, line?: number): Promise<void> {
+        const workspaceFolder = folder || vscode.workspace.workspaceFolders?.[0];
         if (!workspaceFolder) return;
 
         const uri = vscode.Uri.joinPath(workspaceFolder.uri, filePath);
         try {
             const doc = await vscode.workspace.openTextDocument(uri);
-            await vscode.window.showTextDocument(doc, { preview: false });
+            const position = new vscode.Position(Math.max(0, Math.min((line ?? 1) - 1, doc.lineCount - 1)), 0);
+            await vscode.window.showTextDocument(doc, { preview: false, selection: new vscode.Range(position, position) });
         } catch (error) {
             vscode.window.showErrorMessage(`Could not open ${filePath}: ${error}`);
         }
     }
 
-    public async generateUpdate(filePath: string): Promise<void> {
-        const update = this.documentUpdates.find(u => u.filePath === filePath);
-        if (!update) return;
+    public async viewDrift(notificationId: string): Promise<void> {
+        const drift = this.getStaleDoc(notificationId);
+        if (!drift) return;
 
-        // Show diff between current and suggested content
-        const diffContent = this.generateDiff(update.currentContent, update.suggestedContent);
-        
-        const doc = await vscode.workspace.openTextDocument({
-            content: `# Document Update: ${filePath}
-
-## Reason for Update
-${update.reason}
-
-## Suggested Changes
-\`\`\`diff
-${diffContent}
-\`\`\`
-
-## Actions
-- [ ] Review changes
-- [ ] Apply update
-- [ ] Reject update
-
-## Current Content
-\`\`\`markdown
-${update.currentContent}
-\`\`\`
-
-## Suggested Content
-\`\`\`markdown
-${update.suggestedContent}
-\`\`\``,
-            language: 'markdown'
-        });
-        
-        await vscode.window.showTextDocument(doc, { preview: false });
-    }
+        const rows = drift.commits.map(commit =>
+            `| \`${commit.hash.slice(0, 7)}\` | ${commit.date.split('T')[0]} | ${commit.author} | ${commit.subject.replace(/\|/g, '\\|')} | ${commit.files.join(', ')} | +${commit.added} −${commit.deleted} |`);
+        const content = `# Drift: ${drift.doc} § ${drift.section}
 
-    public async generateChangelog(): Promise<void> {
-        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-        if (!workspaceFolder) return;
+The section (line ${drift.line}) was last edited in \`${drift.lastEdit.hash.slice(0, 7)}\` on ${drift.lastEdit.date.split('T')[0]}.
+Since then the code it references changed in ${drift.commits.length} commit(s), ${drift.linesChanged} lines in all.
 
-        const changelogPath = vscode.Uri.joinPath(workspaceFolder.uri, 'CHANGELOG.md');
-        
-        // Generate changelog entries
-        const entries: ChangelogEntry[] = [
-            {
-                version: '1.2.0',
-                date: new Date().toISOString().split('T')[0],
-                type: 'added',
-                description: 'Add user authentication system',
-                commits: ['feat: Add user authentication', 'feat: Add JWT token handling']
-            },
-            {
-                version: '1.1.1',
-                date: new Date().toISOString().split('T')[0],
-                type: 'fixed',
-                description: 'Resolve database connection issues',
-                commits: ['fix: Resolve database connection issue']
-            }
-        ];
+## Referenced Files
+${drift.files.map(file => `- ${file}`).join('\n')}
+
+## Commits Since the Last Edit
+| Commit | Date | Author | Subject | Files | Lines |
+|---|---|---|---|---|---|
+${rows.join('\n')}`;
 
-        const changelogContent = this.generateChangelogContent(entries);
-        
         const doc = await vscode.workspace.openTextDocument({
-            content: changelogContent,
+            content,
             language: 'markdown'
         });
-        
         await vscode.window.showTextDocument(doc, { preview: false });
     }
 
-    private generateDiff(oldContent: string, newContent: string): string {
-        // Simple diff generation (in a real implementation, you'd use a proper diff library)
-        const oldLines = oldContent.split('\n');
-        const newLines = newContent.split('\n');
-        
-        let diff = '';
-        const maxLines = Math.max(oldLines.length, newLines.length);
-        
-        for (let i = 0; i < maxLines; i++) {
-            const oldLine = oldLines[i] || '';
-            const newLine = newLines[i] || '';
-            
-            if (oldLine !== newLine) {
-                if (oldLine) diff += `- ${oldLine}\n`;
-                if (newLine) diff += `+ ${newLine}\n`;
-            } else {
-                diff += `  ${oldLine}\n`;
-            }
+    /**
+     * Adds a release for the Conventional Commits since the last tag to
+     * CHANGELOG.md, with the version their semver bump calls for. The merged
+     * file is recorded as a pending change to review and apply; nothing is
+     * written until then.
+     */
+    public async generateChangelog(folder?: vscode.WorkspaceFolder): Promise<ChangeRecord | undefined> {
+        const workspaceFolder = folder || vscode.workspace.workspaceFolders?.[0];
+        if (!workspaceFolder) return undefined;
+
+        const root = workspaceFolder.uri.fsPath;
+        const release = await planRelease(root, await readPackageVersion(root));
+        const changelogPath = vscode.Uri.joinPath(workspaceFolder.uri, 'CHANGELOG.md');
+        let original: string | undefined;
+        try {
+            original = Buffer.from(await vscode.workspace.fs.readFile(changelogPath)).toString('utf-8');
+        } catch {
+            // No changelog yet; the release starts one
+        }
+        if (missingEntries(original || '', release).length === 0) {
+            const since = release.previousTag ? `since ${release.previousTag}` : 'so far';
+            vscode.window.showInformationMessage(`CHANGELOG.md already covers the changes ${since}.`);
+            return undefined;
         }
-        
-        return diff;
-    }
-
-    private generateChangelogContent(entries: ChangelogEntry[]): string {
-        let content = `# Changelog
-
-All notable changes to this project will be documented in this file.
-
-The format is based on [Keep a Changelog](https://keepachangelog.com/en/1.0.0/),
-and this project adheres to [Semantic Versioning](https://semver.org/spec/v2.0.0.html).
-
-`;
-
-        entries.forEach(entry => {
-            content += `## [${entry.version}] - ${entry.date}\n\n`;
-            content += `### ${entry.type.charAt(0).toUpperCase() + entry.type.slice(1)}\n`;
-            content += `- ${entry.description}\n\n`;
-            
-            if (entry.commits.length > 0) {
-                content += `**Commits:**\n`;
-                entry.commits.forEach(commit => {
-                    content += `- ${commit}\n`;
-                });
-                content += '\n';
-            }
-        });
 
-        return content;
+        const content = mergeChangelog(original, release);
+        if (!this.changeTracker) {
+            const doc = await vscode.workspace.openTextDocument({ content, language: 'markdown' });
+            await vscode.window.showTextDocument(doc, { preview: false });
+            return undefined;
+        }
+        const metadata = {
+            docType: 'Changelog',
+            reason: `${release.version}${release.bump ? ` (${release.bump} bump)` : ''} from ${release.commits.length} conventional commit(s)${release.previousTag ? ` since ${release.previousTag}` : ''}`
+        };
+        const change = original === undefined
+            ? await this.changeTracker.trackFileCreation('CHANGELOG.md', content, metadata, workspaceFolder, 'pending')
+            : await this.changeTracker.trackFileModification('CHANGELOG.md', original, content, metadata, workspaceFolder, 'pending');
+        await this.changeTracker.viewDiff(change.id);
+        vscode.window.showInformationMessage(`CHANGELOG.md for ${release.version} is ready for review; apply it from Recent Activity.`);
+        return change;
     }
 
-    public async suggestDocUpdate(prId: string): Promise<void> {
+    public async suggestDocUpdate(prId: string, folder?: vscode.WorkspaceFolder): Promise<void> {
         const pr = this.getPRById(prId);
         if (!pr) return;
 
         const suggestions = pr.suggestedActions.map(action => `- ${action}`).join('\n');
         
-        const content = `# Documentation Update Suggestions for PR #${pr.number}
+        const content = `# Documentation Update Suggestions for ${prLabel(pr)}
 
 ## PR Details
 **Title:** ${pr.title}
 **Author:** ${pr.author}
-**Files Changed:** ${pr.filesChanged.length} files
+**Files Changed:** ${pr.filesChanged.length} files${pr.domains?.length ? `
+**Domains:** ${pr.domains.join(', ')}` : ''}
 
 ## Suggested Documentation Updates
 ${suggestions}
@@ -425,5 +436,44 @@ ${pr.filesChanged.map(file => `- ${file}`).join('\n')}`;
         });
         
         await vscode.window.showTextDocument(doc, { preview: false });
+
+        const workspaceFolder = folder || vscode.workspace.workspaceFolders?.[0];
+        if (pr.number === undefined || pr.suggestedActions.length === 0 || !workspaceFolder) return;
+        const host = await this.codeHostFor(workspaceFolder, true);
+        if (!host) return;
+        const choice = await vscode.window.showInformationMessage(`Post these suggestions to ${prLabel(pr)} as a review comment?`, 'Post comment');
+        if (choice !== 'Post comment') return;
+        try {
+            await host.postReviewComment(pr.number, `**Documentation suggestions** (${pr.docImpact} impact)\n\n${suggestions}`);
+            vscode.window.showInformationMessage(`Posted the suggestions to ${prLabel(pr)}.`);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Could not post to ${prLabel(pr)}: ${error instanceof Error ? error.message : error}`);
+        }
+    }
+}
+
+function prLabel(pr: GitHubPR): string {
+    return pr.number !== undefined ? `PR #${pr.number}` : `Branch ${pr.branch}`;
+}
+
+async function readPackageVersion(root: string): Promise<string | undefined> {
+    try {
+        const manifest = JSON.parse(await fs.promises.readFile(path.join(root, 'package.json'), 'utf-8'));
+        return typeof manifest.version === 'string' ? manifest.version : undefined;
+    } catch {
+        return undefined;
     }
 }
+
+/**
+ * Tokens are stored per API origin rather than per remote host, so pointing
+ * `documind.codeHost.apiUrl` at another server never sends it a token that
+ * was saved for the real one.
+ */
+function tokenKey(remote: CodeHostRemote): string {
+    return `documind.codeHost.token.${remote.kind}.${new URL(remote.apiUrl).origin}`;
+}
+
+function staleDocId(drift: DocDrift): string {
+    return `stale-${drift.doc}-${drift.line}`.replace(/[^a-zA-Z0-9-]/g, '-');
+}
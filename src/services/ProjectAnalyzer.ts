@@ -0,0 +1,728 @@
+import * as path from 'path';
+import { ApiSpecComparison, compareWithSpecs, describeSpecDrift, findApiSpecs } from './apiSpecs';
+import { buildDependencyGraph, DependencyGraph, describeArchitecture, emptyDependencyGraph } from './dependencyGraph';
+import { computeCoverage, CoverageReport } from './docCoverage';
+import { findStaleReferences } from './docReferences';
+import { DetectedFramework, describeFrameworks, detectEcosystems, detectFrameworks, Ecosystem } from './frameworkDetection';
+import { buildOpenApiDocument, OpenApiDocument } from './openApi';
+import { RequestFlow, traceRequestFlows } from './requestFlows';
+import { describeConfigFile, extractConfigSymbols, isConfigFile } from './extractors/configExtractor';
+import { extractGraphqlSymbols, GraphqlDefinition } from './extractors/graphqlExtractor';
+import { ExtractedSymbol, extractTypeScriptSchemas, extractTypeScriptSymbols } from './extractors/typescriptExtractor';
+import { extractVueSymbols } from './extractors/vueExtractor';
+import { extractPythonSchemas, extractPythonSymbols } from './extractors/pythonExtractor';
+import { extractGoSymbols } from './extractors/goExtractor';
+import { extractJavaSymbols } from './extractors/javaExtractor';
+import { extractRustSymbols } from './extractors/rustExtractor';
+import { scanImports } from './extractors/importScanner';
+import type { HttpOperation, SchemaDefinition } from './extractors/apiShapes';
+
+export interface CodeItem {
+    type: 'function' | 'class' | 'interface' | 'api' | 'config' | 'component';
+    name: string;
+    filePath: string;
+    lineNumber: number;
+    signature?: string;
+    description?: string;
+    parameters?: Array<{name: string, type: string, description?: string}>;
+    returnType?: string;
+    visibility?: 'public' | 'protected' | 'private';
+    exported?: boolean;
+    priority: 'high' | 'medium' | 'low';
+    hasDocumentation: boolean;
+    suggestedDocPath: string;
+    /** Callees named in the body of a function or route handler, as written. */
+    calls?: string[];
+    /** Declared class of the receivers in `calls` (`svc` → UserService), where the file names one. */
+    receivers?: Record<string, string>;
+    /** Parameters, body and responses of an API route. */
+    http?: HttpOperation;
+    /** The GraphQL operation or type an API item stands for. */
+    graphql?: GraphqlDefinition;
+    /** For an API item: the function item of the same file that handles it, by name. */
+    handler?: string;
+}
+
+export interface DocTask {
+    type: 'missing' | 'outdated';
+    title: string;
+    description: string;
+    priority: 'high' | 'medium' | 'low';
+    suggestedAction: string;
+    /** For a stale reference: the folder-relative doc and the line that mentions it. */
+    location?: { file: string; line: number };
+}
+
+export interface ProjectDomain {
+    name: string;
+    type: 'api' | 'service' | 'component' | 'utility' | 'config';
+    files: string[];
+    endpoints: CodeItem[];
+    classes: CodeItem[];
+    functions: CodeItem[];
+    description: string;
+    priority: 'high' | 'medium' | 'low';
+    coverage: number;
+}
+
+export interface ProjectStructure {
+    /** Summary label of `frameworks`, e.g. `React + Express`. */
+    framework: string;
+    frameworks: DetectedFramework[];
+    ecosystems: Ecosystem[];
+    /** Label derived from `dependencyGraph`, e.g. `Layered Architecture`. */
+    architecture: string;
+    dependencyGraph: DependencyGraph;
+    /** One per API route: the calls its handler makes through services to data access. */
+    requestFlows: RequestFlow[];
+    /** OpenAPI 3 description of the HTTP routes; absent when the project serves none. */
+    openApi?: OpenApiDocument;
+    /** Hand-written OpenAPI/Swagger specs found in the project, compared with the routes in code. */
+    apiSpecs?: ApiSpecComparison;
+    hasFrontend: boolean;
+    hasBackend: boolean;
+    hasDatabase: boolean;
+    hasTests: boolean;
+    domains: ProjectDomain[];
+    totalFiles: number;
+    codeFiles: number;
+    docFiles: number;
+    // Weighted share of documented symbols; `fileCoverage` is the plain docs-to-files ratio
+    coverage: number;
+    fileCoverage: number;
+}
+
+export interface WorkspaceAnalysis {
+    projectStructure: ProjectStructure;
+    missingDocs: CodeItem[];
+    byPriority: {
+        high: CodeItem[];
+        medium: CodeItem[];
+        low: CodeItem[];
+    };
+    byType: {
+        functions: CodeItem[];
+        classes: CodeItem[];
+        interfaces: CodeItem[];
+        apis: CodeItem[];
+        configs: CodeItem[];
+        components: CodeItem[];
+    };
+    fileTypes: { [key: string]: number };
+    docTasks: DocTask[];
+    totalFiles: number;
+    docFiles: number;
+    codeFiles: number;
+    docCoverage: number;
+    docFileRatio: number;
+    coverageReport: CoverageReport;
+    workspaceFolder?: { name: string; uri: string };
+    workspaceFolders?: Array<{ name: string; uri: string }>;
+}
+
+/** A project folder as the analyzer sees it, independent of how files are listed and read. */
+export interface ProjectSource {
+    /** Absolute POSIX path of the folder; code item paths are resolved against it. */
+    root: string;
+    /** Folder-relative POSIX paths of the files that passed the analysis filter. */
+    files: string[];
+    /** File content, or undefined when the file does not exist. */
+    readFile(relativePath: string): Promise<Uint8Array | undefined>;
+    /** Code items already extracted for a file. */
+    itemsFor(relativePath: string): CodeItem[];
+    /** Import specifiers already scanned for a file. */
+    importsFor(relativePath: string): string[];
+    /** Data shapes (interfaces, DTOs, models) already extracted for a file. */
+    schemasFor(relativePath: string): SchemaDefinition[];
+    /** Folder-relative POSIX path generated docs live in (`documind.docsFolder`); `docs` when unset, '' for the folder itself. */
+    docsFolder?: string;
+}
+
+export const DEFAULT_DOCS_FOLDER = 'docs';
+
+/**
+ * Turns a `documind.docsFolder` value into a folder-relative POSIX path
+ * without slashes at either end: `./docs/` becomes `docs`, `.` becomes ''.
+ * Empty values mean `docs`; paths leaving the folder give undefined.
+ */
+export function normalizeDocsFolder(value: string | undefined): string | undefined {
+    if (!value || !value.trim()) return DEFAULT_DOCS_FOLDER;
+    const normalized = path.posix.normalize(value.trim().replace(/\\/g, '/')).replace(/\/+$/, '');
+    if (normalized === '.') return '';
+    if (path.posix.isAbsolute(normalized) || /^[A-Za-z]:/.test(normalized) || normalized === '..' || normalized.startsWith('../')) {
+        return undefined;
+    }
+    return normalized;
+}
+
+/** What a single file contributes to the analysis; cached per file. */
+export interface FileAnalysis {
+    items: CodeItem[];
+    /** Module specifiers as written in the file's imports. */
+    imports: string[];
+    /** Data shapes declared in the file, referenced by name from route request/response types. */
+    schemas?: SchemaDefinition[];
+}
+
+/**
+ * Editor-independent analysis: symbol extraction per file and the project-wide
+ * structure, coverage and doc tasks built from it. Shared by the extension and
+ * the CLI.
+ */
+export class ProjectAnalyzer {
+    private readonly codeExtensions = ['.ts', '.tsx', '.js', '.jsx', '.vue', '.py', '.java', '.go', '.rs', '.cs', '.php', '.rb', '.swift', '.kt', '.graphql', '.gql'];
+    private readonly docExtensions = ['.md', '.txt', '.rst', '.adoc'];
+    private readonly typeScriptExtensions = ['.ts', '.tsx', '.js', '.jsx'];
+    private readonly languageExtractors: Record<string, (text: string, fileName: string) => ExtractedSymbol[]> = {
+        '.py': extractPythonSymbols,
+        '.go': extractGoSymbols,
+        '.java': extractJavaSymbols,
+        '.rs': extractRustSymbols,
+        '.graphql': text => extractGraphqlSymbols(text),
+        '.gql': text => extractGraphqlSymbols(text)
+    };
+
+    public async analyze(source: ProjectSource): Promise<WorkspaceAnalysis> {
+        // Collect code items for documentation gaps
+        const codeItems = source.files.flatMap(file => mergeRouteHandlers(source.itemsFor(file)));
+        const specs = await findApiSpecs(source);
+        const apiSpecs = specs.length > 0 ? compareWithSpecs(source, specs) : undefined;
+        const missingDocs = this.markSpecifiedRoutes(source, await this.markDocumentedConfigs(source, codeItems), apiSpecs);
+        const coverageReport = computeCoverage(missingDocs, {
+            relativePath: item => path.posix.relative(source.root, item.filePath),
+            domainOf: relativePath => this.extractDomainName(relativePath)
+        });
+
+        // Analyze project structure
+        const projectStructure = await this.analyzeProjectStructure(source, coverageReport, apiSpecs);
+
+        // Categorize by priority and type
+        const byPriority = this.categorizeByPriority(missingDocs);
+        const byType = this.categorizeByType(missingDocs);
+
+        // Also include file types and doc tasks for compatibility
+        const fileTypes: { [key: string]: number } = {};
+        const docTasks: DocTask[] = [];
+        
+        for (const file of source.files) {
+            const ext = path.extname(file).toLowerCase().substring(1);
+            if (ext) {
+                fileTypes[ext] = (fileTypes[ext] || 0) + 1;
+            }
+        }
+        
+        // Generate industry-standard documentation tasks
+        await this.generateDocumentationTasks(source, projectStructure.domains, docTasks, apiSpecs);
+
+        return {
+            projectStructure,
+            missingDocs,
+            byPriority,
+            byType,
+            fileTypes,
+            docTasks,
+            totalFiles: projectStructure.totalFiles,
+            docFiles: projectStructure.docFiles,
+            codeFiles: projectStructure.codeFiles,
+            docCoverage: projectStructure.coverage,
+            docFileRatio: projectStructure.fileCoverage,
+            coverageReport
+        };
+    }
+
+    /** Whether a file is parsed for code items at all. */
+    public isAnalyzable(filePath: string): boolean {
+        return this.codeExtensions.includes(path.extname(filePath).toLowerCase()) || isConfigFile(filePath);
+    }
+
+    /** Code items and imports of one file; `filePath` is absolute and only used for naming. */
+    public analyzeFile(filePath: string, content: Uint8Array): FileAnalysis {
+        try {
+            const text = Buffer.from(content).toString('utf-8');
+            const schemas = this.extractSchemas(filePath, text);
+            return { items: this.extractItems(filePath, text), imports: scanImports(text, filePath), ...(schemas.length > 0 ? { schemas } : {}) };
+        } catch (error) {
+            console.error(`Error analyzing file ${filePath}:`, error);
+            return { items: [], imports: [] };
+        }
+    }
+
+    private extractSchemas(filePath: string, text: string): SchemaDefinition[] {
+        const ext = path.extname(filePath).toLowerCase();
+        if (this.typeScriptExtensions.includes(ext) && !isConfigFile(filePath)) return extractTypeScriptSchemas(text, filePath);
+        if (ext === '.py') return extractPythonSchemas(text);
+        return [];
+    }
+
+    private extractItems(filePath: string, text: string): CodeItem[] {
+        const ext = path.extname(filePath).toLowerCase();
+
+        if (ext === '.vue') {
+            return extractVueSymbols(text, filePath).map(symbol => this.toCodeItem(symbol, filePath));
+        }
+        if (this.typeScriptExtensions.includes(ext)) {
+            const symbols = extractTypeScriptSymbols(text, filePath);
+            if (isConfigFile(filePath)) {
+                symbols.unshift(describeConfigFile(text, path.basename(filePath)));
+            }
+            return symbols.map(symbol => this.toCodeItem(symbol, filePath));
+        }
+        if (isConfigFile(filePath)) {
+            return extractConfigSymbols(text, filePath).map(symbol => this.toCodeItem(symbol, filePath));
+        }
+
+        // Languages without an extractor (C#, PHP, Ruby...) still count as code files
+        const extractor = this.languageExtractors[ext];
+        return extractor ? extractor(text, filePath).map(symbol => this.toCodeItem(symbol, filePath)) : [];
+    }
+
+    private toCodeItem(symbol: ExtractedSymbol, filePath: string): CodeItem {
+        const typeByKind: Record<ExtractedSymbol['kind'], CodeItem['type']> = {
+            function: 'function',
+            method: 'function',
+            class: 'class',
+            interface: 'interface',
+            type: 'interface',
+            enum: 'interface',
+            route: 'api',
+            component: 'component',
+            env: 'config',
+            script: 'config',
+            configFile: 'config'
+        };
+        const type = typeByKind[symbol.kind];
+
+        return {
+            type,
+            name: symbol.name,
+            filePath,
+            lineNumber: symbol.lineNumber,
+            signature: symbol.signature,
+            description: symbol.documentation || undefined,
+            parameters: symbol.parameters,
+            returnType: symbol.returnType,
+            visibility: symbol.visibility,
+            exported: symbol.exported,
+            priority: this.determineSymbolPriority(symbol, type),
+            hasDocumentation: symbol.hasDocumentation,
+            suggestedDocPath: this.getSuggestedDocPath(filePath, symbol.name),
+            calls: symbol.calls && symbol.calls.length > 0 ? symbol.calls : undefined,
+            receivers: symbol.receivers,
+            http: symbol.http,
+            graphql: symbol.graphql,
+            handler: symbol.handler
+        };
+    }
+
+    /**
+     * Priority from a symbol's place in the code rather than its name: routes
+     * and resolvers are the public API, other exported, non-private symbols
+     * the module API, and the rest internals.
+     */
+    private determineSymbolPriority(symbol: ExtractedSymbol, type: CodeItem['type']): CodeItem['priority'] {
+        if (type === 'api') return 'high';
+        // Env vars are runtime surface a deployer has to know about; scripts and tool configs less so
+        if (symbol.kind === 'env') return 'medium';
+        if (symbol.kind === 'script' || symbol.kind === 'configFile') return 'low';
+        return symbol.exported && symbol.visibility !== 'private' ? 'medium' : 'low';
+    }
+
+    /**
+     * Config items rarely carry inline comments; they count as documented when
+     * any Markdown file in the workspace mentions them.
+     */
+    private async markDocumentedConfigs(source: ProjectSource, items: CodeItem[]): Promise<CodeItem[]> {
+        if (!items.some(item => item.type === 'config' && !item.hasDocumentation)) return items;
+
+        let docsText = '';
+        for (const file of source.files) {
+            if (path.extname(file).toLowerCase() !== '.md') continue;
+            const content = await source.readFile(file);
+            // Unreadable doc files simply don't count as documentation
+            if (content) docsText += Buffer.from(content).toString('utf-8') + '\n';
+        }
+
+        // Copy rather than mutate: items may be shared with the analysis cache
+        return items.map(item => {
+            if (item.type !== 'config' || item.hasDocumentation) return item;
+            const scriptName = item.name.replace(/^npm run /, '');
+            const mentions = item.name.startsWith('npm run ')
+                ? [item.name, `yarn ${scriptName}`, `pnpm ${scriptName}`, `pnpm run ${scriptName}`]
+                : [item.name];
+            return { ...item, hasDocumentation: mentions.some(mention => wholeWord(mention).test(docsText)) };
+        });
+    }
+
+    /**
+     * Routes an OpenAPI/Swagger spec describes are documented by it; the
+     * operation summary stands in for a missing doc comment.
+     */
+    private markSpecifiedRoutes(source: ProjectSource, items: CodeItem[], apiSpecs: ApiSpecComparison | undefined): CodeItem[] {
+        if (!apiSpecs || apiSpecs.matched.length === 0) return items;
+        const operations = new Map(apiSpecs.matched.map(match => [`${match.file}:${match.line}:${match.route}`, match.operation]));
+        return items.map(item => {
+            if (item.type !== 'api') return item;
+            const operation = operations.get(`${path.posix.relative(source.root, item.filePath)}:${item.lineNumber}:${item.name}`);
+            if (!operation) return item;
+            return { ...item, hasDocumentation: true, description: item.description || operation.summary || operation.description };
+        });
+    }
+
+    private getSuggestedDocPath(filePath: string, itemName: string): string {
+        const dir = path.dirname(filePath);
+        const baseName = path.basename(filePath, path.extname(filePath));
+        return path.join(dir, `${baseName}.${itemName}.md`);
+    }
+
+    private categorizeByPriority(items: CodeItem[]) {
+        return {
+            high: items.filter(item => item.priority === 'high'),
+            medium: items.filter(item => item.priority === 'medium'),
+            low: items.filter(item => item.priority === 'low')
+        };
+    }
+
+    private categorizeByType(items: CodeItem[]) {
+        return {
+            functions: items.filter(item => item.type === 'function'),
+            classes: items.filter(item => item.type === 'class'),
+            interfaces: items.filter(item => item.type === 'interface'),
+            apis: items.filter(item => item.type === 'api'),
+            configs: items.filter(item => item.type === 'config'),
+            components: items.filter(item => item.type === 'component')
+        };
+    }
+
+    private async analyzeProjectStructure(source: ProjectSource, coverageReport: CoverageReport, apiSpecs?: ApiSpecComparison): Promise<ProjectStructure> {
+        const files = this.absolutePaths(source);
+        const frameworks = await detectFrameworks(source);
+        const dependencyGraph = await buildDependencyGraph(source);
+        const architecture = describeArchitecture(dependencyGraph);
+        const hasFrontend = this.hasFrontend(files) || frameworks.some(f => f.category === 'frontend' || f.category === 'fullstack');
+        const hasBackend = this.hasBackend(files) || frameworks.some(f => f.category === 'backend' || f.category === 'fullstack');
+        const hasDatabase = this.hasDatabase(files);
+        const hasTests = this.hasTests(files);
+        
+        const domains = await this.identifyDomains(source, coverageReport);
+        
+        const totalFiles = files.length;
+        const codeFiles = files.filter(f => this.codeExtensions.includes(path.extname(f).toLowerCase())).length;
+        const docFiles = files.filter(f => this.docExtensions.includes(path.extname(f).toLowerCase())).length;
+        const fileCoverage = totalFiles > 0 ? Math.round((docFiles / totalFiles) * 100) : 0;
+
+        return {
+            framework: describeFrameworks(frameworks),
+            frameworks,
+            ecosystems: detectEcosystems(source.files),
+            architecture,
+            dependencyGraph,
+            requestFlows: traceRequestFlows(source, dependencyGraph),
+            openApi: await buildOpenApiDocument(source, dependencyGraph),
+            apiSpecs,
+            hasFrontend,
+            hasBackend,
+            hasDatabase,
+            hasTests,
+            domains,
+            totalFiles,
+            codeFiles,
+            docFiles,
+            coverage: coverageReport.overall.coverage,
+            fileCoverage
+        };
+    }
+
+    private hasFrontend(files: string[]): boolean {
+        return files.some(f => 
+            f.includes('src/') && 
+            (f.endsWith('.tsx') || f.endsWith('.jsx') || f.endsWith('.vue'))
+        );
+    }
+
+    private hasBackend(files: string[]): boolean {
+        return files.some(f => 
+            f.includes('api/') || 
+            f.includes('server/') || 
+            f.includes('routes/') ||
+            f.includes('controllers/')
+        );
+    }
+
+    private hasDatabase(files: string[]): boolean {
+        return files.some(f => 
+            f.includes('models/') || 
+            f.includes('schema/') || 
+            f.includes('migrations/') ||
+            f.endsWith('.sql')
+        );
+    }
+
+    private hasTests(files: string[]): boolean {
+        return files.some(f => 
+            f.includes('test/') || 
+            f.includes('__tests__/') || 
+            f.endsWith('.test.ts') || 
+            f.endsWith('.spec.ts')
+        );
+    }
+
+    private async identifyDomains(source: ProjectSource, coverageReport: CoverageReport): Promise<ProjectDomain[]> {
+        const domainMap = new Map<string, ProjectDomain>();
+
+        for (const relativePath of source.files) {
+            const ext = path.extname(relativePath).toLowerCase();
+            if (!this.codeExtensions.includes(ext)) continue;
+
+            const domainName = this.extractDomainName(relativePath);
+            
+            if (!domainMap.has(domainName)) {
+                domainMap.set(domainName, {
+                    name: domainName,
+                    type: this.determineDomainType(relativePath),
+                    files: [],
+                    endpoints: [],
+                    classes: [],
+                    functions: [],
+                    description: this.generateDomainDescription(domainName),
+                    priority: this.determineDomainPriority(domainName),
+                    coverage: coverageReport.byDomain[domainName]?.coverage ?? 0
+                });
+            }
+
+            const domain = domainMap.get(domainName)!;
+            domain.files.push(relativePath);
+
+            // Reuse the items collected for this file instead of re-parsing it
+            const codeItems = mergeRouteHandlers(source.itemsFor(relativePath));
+            domain.endpoints.push(...codeItems.filter(item => item.type === 'api'));
+            domain.classes.push(...codeItems.filter(item => item.type === 'class'));
+            domain.functions.push(...codeItems.filter(item => item.type === 'function'));
+        }
+
+        return Array.from(domainMap.values());
+    }
+
+    private extractDomainName(filePath: string): string {
+        const parts = filePath.split('/');
+        
+        // Look for common domain indicators
+        if (parts.includes('auth') || parts.includes('authentication')) return 'Authentication';
+        if (parts.includes('user') || parts.includes('users')) return 'User Management';
+        if (parts.includes('product') || parts.includes('products')) return 'Product Management';
+        if (parts.includes('order') || parts.includes('orders')) return 'Order Management';
+        if (parts.includes('payment') || parts.includes('payments')) return 'Payment Processing';
+        if (parts.includes('notification') || parts.includes('notifications')) return 'Notifications';
+        if (parts.includes('admin') || parts.includes('administration')) return 'Administration';
+        if (parts.includes('api') || parts.includes('routes')) return 'API Routes';
+        if (parts.includes('service') || parts.includes('services')) return 'Business Services';
+        if (parts.includes('util') || parts.includes('utils')) return 'Utilities';
+        if (parts.includes('config') || parts.includes('configuration')) return 'Configuration';
+        
+        // Default to directory name
+        return parts[parts.length - 2] || 'Core';
+    }
+
+    private determineDomainType(filePath: string): ProjectDomain['type'] {
+        if (filePath.includes('api/') || filePath.includes('routes/')) return 'api';
+        if (filePath.includes('service/') || filePath.includes('services/')) return 'service';
+        if (filePath.includes('component/') || filePath.includes('components/')) return 'component';
+        if (filePath.includes('util/') || filePath.includes('utils/')) return 'utility';
+        if (filePath.includes('config/') || filePath.includes('configuration/')) return 'config';
+        return 'service';
+    }
+
+    private generateDomainDescription(domainName: string): string {
+        const descriptions: Record<string, string> = {
+            'Authentication': 'User authentication, authorization, and security management',
+            'User Management': 'User profiles, registration, and account management',
+            'Product Management': 'Product catalog, inventory, and product-related operations',
+            'Order Management': 'Order processing, fulfillment, and order tracking',
+            'Payment Processing': 'Payment gateway integration and transaction handling',
+            'Notifications': 'Email, SMS, and push notification services',
+            'Administration': 'Admin panel, user management, and system administration',
+            'API Routes': 'REST API endpoints and route handlers',
+            'Business Services': 'Core business logic and service layer',
+            'Utilities': 'Helper functions, common utilities, and shared code',
+            'Configuration': 'Application configuration and environment settings',
+            'Core': 'Core application functionality and main components'
+        };
+        
+        return descriptions[domainName] || `Core functionality for ${domainName.toLowerCase()}`;
+    }
+
+    private determineDomainPriority(domainName: string): 'high' | 'medium' | 'low' {
+        const highPriority = ['Authentication', 'User Management', 'API Routes', 'Core'];
+        const mediumPriority = ['Product Management', 'Order Management', 'Payment Processing', 'Business Services'];
+        
+        if (highPriority.includes(domainName)) return 'high';
+        if (mediumPriority.includes(domainName)) return 'medium';
+        return 'low';
+    }
+
+    private async generateDocumentationTasks(source: ProjectSource, domains: ProjectDomain[], docTasks: DocTask[], apiSpecs?: ApiSpecComparison): Promise<void> {
+        const docsFolder = source.docsFolder ?? DEFAULT_DOCS_FOLDER;
+        // Check for missing core documentation files
+        const coreDocs = [
+            { name: 'README.md', priority: 'high' as const, description: 'Project overview, setup instructions, and getting started guide' },
+            { name: 'API.md', priority: 'high' as const, description: 'API documentation with endpoints, parameters, and examples' },
+            { name: 'ARCHITECTURE.md', priority: 'medium' as const, description: 'System architecture, components, and design decisions' },
+            { name: 'SETUP.md', priority: 'medium' as const, description: 'Development environment setup and configuration' },
+            { name: 'CHANGELOG.md', priority: 'low' as const, description: 'Version history and release notes' },
+            { name: 'CONTRIBUTING.md', priority: 'low' as const, description: 'Guidelines for contributing to the project' }
+        ];
+
+        for (const doc of coreDocs) {
+            // Determine if file should be in root or docs directory
+            const isRootFile = ['README.md', 'CHANGELOG.md'].includes(doc.name);
+            const docPath = isRootFile ? doc.name : path.posix.join(docsFolder, doc.name);
+            try {
+                // Existing docs are checked for stale references below
+                await this.readDocument(source, docPath);
+            } catch {
+                // File doesn't exist; an OpenAPI/Swagger spec already documents the endpoints
+                if (doc.name === 'API.md' && apiSpecs) continue;
+                docTasks.push({
+                    type: 'missing',
+                    title: `Create ${doc.name}`,
+                    description: doc.description,
+                    priority: doc.priority,
+                    suggestedAction: `Generate ${doc.name}`
+                });
+            }
+        }
+
+        // Check for domain-specific documentation
+        for (const domain of domains) {
+            if (domain.priority === 'high') {
+                const domainDocName = `${domain.name.toUpperCase()}.md`;
+                const domainDocPath = path.posix.join(docsFolder, domainDocName);
+                
+                try {
+                    await this.readDocument(source, domainDocPath);
+                } catch {
+                    docTasks.push({
+                        type: 'missing',
+                        title: `Create ${domainDocName}`,
+                        description: `Documentation for ${domain.name} domain with ${domain.files.length} files`,
+                        priority: 'medium',
+                        suggestedAction: `Generate ${domainDocName}`
+                    });
+                }
+            }
+        }
+
+        // Check for API documentation if backend exists
+        const hasBackend = this.hasBackend(this.absolutePaths(source));
+        if (hasBackend) {
+            try {
+                await this.readDocument(source, path.posix.join(docsFolder, 'API.md'));
+            } catch {
+                if (!apiSpecs) {
+                    docTasks.push({
+                        type: 'missing',
+                        title: 'Create API Documentation',
+                        description: 'Comprehensive API documentation with endpoints, schemas, and examples',
+                        priority: 'high',
+                        suggestedAction: 'Generate API Documentation'
+                    });
+                }
+            }
+        }
+
+        // Docs go stale when what they mention is renamed or removed
+        for (const reference of await findStaleReferences(source)) {
+            const core = coreDocs.find(doc => doc.name === path.posix.basename(reference.file));
+            docTasks.push({
+                type: 'outdated',
+                title: `Update ${reference.file}`,
+                description: `${reference.file}:${reference.line}: ${reference.reason}`,
+                priority: core?.priority ?? 'medium',
+                suggestedAction: `Fix line ${reference.line} of ${reference.file}`,
+                location: { file: reference.file, line: reference.line }
+            });
+        }
+
+        // Routes and spec operations that don't line up mean the spec or the code moved on
+        const drift = apiSpecs && describeSpecDrift(apiSpecs);
+        if (drift && !docTasks.some(task => task.title === 'Update API Documentation')) {
+            docTasks.push({
+                type: 'outdated',
+                title: 'Update API Documentation',
+                description: `API spec and code disagree: ${drift}`,
+                priority: 'high',
+                suggestedAction: 'Update API Documentation'
+            });
+        }
+    }
+
+    /** Reads a folder-relative doc as text; throws when it does not exist. */
+    private async readDocument(source: ProjectSource, relativePath: string): Promise<string> {
+        const content = await source.readFile(relativePath);
+        if (!content) {
+            throw new Error(`${relativePath} not found`);
+        }
+        return Buffer.from(content).toString('utf-8');
+    }
+
+    private absolutePaths(source: ProjectSource): string[] {
+        return source.files.map(file => path.posix.join(source.root, file));
+    }
+}
+
+export function emptyAnalysis(): WorkspaceAnalysis {
+    return {
+        projectStructure: {
+            framework: 'Unknown',
+            frameworks: [],
+            ecosystems: [],
+            architecture: 'Monolithic',
+            dependencyGraph: emptyDependencyGraph(),
+            requestFlows: [],
+            hasFrontend: false,
+            hasBackend: false,
+            hasDatabase: false,
+            hasTests: false,
+            domains: [],
+            totalFiles: 0,
+            codeFiles: 0,
+            docFiles: 0,
+            coverage: 0,
+            fileCoverage: 0
+        },
+        missingDocs: [],
+        byPriority: { high: [], medium: [], low: [] },
+        byType: { functions: [], classes: [], interfaces: [], apis: [], configs: [], components: [] },
+        fileTypes: {},
+        docTasks: [],
+        totalFiles: 0,
+        docFiles: 0,
+        codeFiles: 0,
+        docCoverage: 0,
+        docFileRatio: 0,
+        coverageReport: { overall: { coverage: 0, documented: 0, total: 0 }, byDomain: {}, byDirectory: {}, configs: { coverage: 0, documented: 0, total: 0 } }
+    };
+}
+
+/**
+ * A route and the function or method of the same file that handles it are
+ * one thing to document: the handler is left out, and its doc comment
+ * counts for the route.
+ */
+function mergeRouteHandlers(items: CodeItem[]): CodeItem[] {
+    const functions = new Map(items.filter(item => item.type === 'function').map(item => [item.name, item]));
+    const handlers = new Set<CodeItem>();
+    const merged = items.map(item => {
+        const handler = item.type === 'api' && item.handler ? functions.get(item.handler) : undefined;
+        if (!handler) return item;
+        handlers.add(handler);
+        return !item.hasDocumentation && handler.hasDocumentation
+            ? { ...item, hasDocumentation: true, description: item.description || handler.description }
+            : item;
+    });
+    return merged.filter(item => !handlers.has(item));
+}
+
+/** Matches `name` where it is not part of a longer identifier (`PORT` in "REPORT", `API_URL` in "API_URL_V2"). */
+function wholeWord(name: string): RegExp {
+    return new RegExp(`(?<![\\w$-])${name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(?![\\w$-])`);
+}
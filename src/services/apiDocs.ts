@@ -0,0 +1,277 @@
+import { ApiSpecComparison, SpecOperation, specOperationName } from './apiSpecs';
+import { GraphqlDefinition, GraphqlField, isGraphqlOperation } from './extractors/graphqlExtractor';
+import { createIdFactory, mermaidBlock, mermaidLabel } from './mermaid';
+import type { CodeItem, ProjectDomain } from './ProjectAnalyzer';
+import type { FlowCall, RequestFlow } from './requestFlows';
+
+/** The traced flow of an endpoint item; flows carry folder-relative paths, items absolute ones. */
+export function findRequestFlow(flows: RequestFlow[], endpoint: CodeItem): RequestFlow | undefined {
+    return flows.find(flow => flow.route === endpoint.name && flow.line === endpoint.lineNumber &&
+        (endpoint.filePath === flow.file || endpoint.filePath.endsWith('/' + flow.file)));
+}
+
+/** REST endpoints of a domain; GraphQL operations are documented in their own section. */
+export function restEndpoints(domain: ProjectDomain): CodeItem[] {
+    return domain.endpoints.filter(endpoint => !endpoint.graphql);
+}
+
+/**
+ * A domain's section of API.md: its REST endpoints with their request flows,
+ * then its classes, closed by a rule. Empty when the domain has no REST
+ * endpoints.
+ */
+export function formatApiDomainSection(domain: ProjectDomain, flows: RequestFlow[]): string {
+    const endpoints = restEndpoints(domain);
+    if (endpoints.length === 0) return '';
+    let content = `## ${domain.name}\n\n`;
+    content += `${domain.description}\n\n`;
+
+    content += `### Endpoints\n\n`;
+    for (const endpoint of endpoints) {
+        content += `#### ${endpoint.name}\n\n`;
+        content += `\`\`\`\n${endpoint.signature}\n\`\`\`\n\n`;
+        content += `**File**: \`${endpoint.filePath}\`\n`;
+        content += `**Line**: ${endpoint.lineNumber}\n\n`;
+        const flow = findRequestFlow(flows, endpoint);
+        if (flow) {
+            content += formatRequestFlow(flow);
+        }
+    }
+
+    if (domain.classes.length > 0) {
+        content += `### Classes\n\n`;
+        for (const cls of domain.classes) {
+            content += `#### ${cls.name}\n\n`;
+            content += `\`\`\`\n${cls.signature}\n\`\`\`\n\n`;
+        }
+    }
+
+    return content + `---\n\n`;
+}
+
+/**
+ * The "Request flow" part of an endpoint's API docs: a sequence diagram from
+ * the client through the handler, services and data access the route reaches.
+ */
+export function formatRequestFlow(flow: RequestFlow): string {
+    if (flow.calls.length === 0) {
+        return `_Handled in \`${flow.file}\` without calls into services or data access._\n\n`;
+    }
+    let content = `**Request flow**\n\n`;
+    content += mermaidBlock(sequenceDiagram(flow));
+    const files = flow.participants.filter(p => p.file).map(p => `\`${p.name}\` (${p.layer}, \`${p.file}\`)`);
+    content += `Participants: ${files.join(', ')}\n\n`;
+    return content;
+}
+
+/**
+ * Endpoint reference rendered from hand-written OpenAPI/Swagger specs,
+ * grouped by tag. Operations implemented in code link to their handler and
+ * show its request flow.
+ */
+export function formatSpecOperations(comparison: ApiSpecComparison, flows: RequestFlow[]): string {
+    let content = `_Rendered from ${comparison.specs.map(spec => `\`${spec.file}\`${spec.version ? ` (v${spec.version})` : ''}`).join(', ')}._\n\n`;
+    const byTag = new Map<string, SpecOperation[]>();
+    for (const operation of comparison.specs.flatMap(spec => spec.operations)) {
+        const tag = operation.tags[0] || 'Other';
+        byTag.set(tag, [...(byTag.get(tag) || []), operation]);
+    }
+
+    for (const [tag, operations] of byTag) {
+        content += `### ${tag}\n\n`;
+        for (const operation of operations) {
+            content += `#### ${specOperationName(operation)}${operation.deprecated ? ' (deprecated)' : ''}\n\n`;
+            if (operation.summary) content += `${operation.summary}\n\n`;
+            if (operation.description && operation.description !== operation.summary) content += `${operation.description}\n\n`;
+            if (operation.parameters.length > 0) {
+                content += `| Parameter | In | Type | Required | Description |\n|---|---|---|---|---|\n`;
+                for (const parameter of operation.parameters) {
+                    content += `| \`${parameter.name}\` | ${parameter.in} | \`${cell(parameter.type)}\` | ${parameter.required ? 'yes' : 'no'} | ${cell(parameter.description || '')} |\n`;
+                }
+                content += `\n`;
+            }
+            if (operation.requestBody) content += `**Request body**: \`${operation.requestBody}\`\n\n`;
+            if (operation.responses.length > 0) {
+                content += `**Responses**\n\n`;
+                for (const response of operation.responses) {
+                    const type = response.type ? ` \`${response.type}\`` : '';
+                    content += `- \`${response.status}\`${type}${response.description ? ` - ${response.description}` : ''}\n`;
+                }
+                content += `\n`;
+            }
+            const handler = comparison.matched.find(match => match.operation === operation);
+            if (handler) {
+                content += `**Handler**: \`${handler.file}:${handler.line}\`\n\n`;
+                const flow = flows.find(f => f.route === handler.route && f.file === handler.file && f.line === handler.line);
+                if (flow) content += formatRequestFlow(flow);
+            }
+        }
+    }
+    return content;
+}
+
+/** Routes in code the specs leave out, and spec operations with no route behind them. */
+export function formatSpecDrift(comparison: ApiSpecComparison): string {
+    let content = `## Spec Coverage\n\n`;
+    if (comparison.missingFromSpec.length === 0 && comparison.missingFromCode.length === 0) {
+        return content + `All ${comparison.matched.length} route(s) found in code are described by the spec, and every operation in it is implemented.\n\n`;
+    }
+    if (comparison.missingFromSpec.length > 0) {
+        content += `### In code, missing from the spec\n\n`;
+        for (const route of comparison.missingFromSpec) {
+            content += `- \`${route.route}\` (\`${route.file}:${route.line}\`)\n`;
+        }
+        content += `\n`;
+    }
+    if (comparison.missingFromCode.length > 0) {
+        content += `### In the spec, not found in code\n\n`;
+        for (const operation of comparison.missingFromCode) {
+            content += `- \`${specOperationName(operation)}\`${operation.operationId ? ` (${operation.operationId})` : ''}\n`;
+        }
+        content += `\n`;
+    }
+    return content;
+}
+
+const GRAPHQL_SECTIONS: Array<[string, Array<GraphqlDefinition['kind']>]> = [
+    ['Queries', ['query']],
+    ['Mutations', ['mutation']],
+    ['Subscriptions', ['subscription']],
+    ['Types', ['type', 'interface', 'input', 'enum', 'union', 'scalar']]
+];
+
+/**
+ * The "GraphQL" part of the API docs: operations with their arguments and
+ * return types, then the schema's types with their fields. A definition found
+ * both in SDL and in code is listed once, preferring the one with a
+ * description. Empty when the project has no GraphQL schema.
+ */
+export function formatGraphqlSchema(items: CodeItem[], flows: RequestFlow[]): string {
+    const definitions = new Map<string, CodeItem & { graphql: GraphqlDefinition }>();
+    for (const item of items) {
+        if (!item.graphql) continue;
+        const key = `${item.graphql.kind} ${item.graphql.name}`;
+        const existing = definitions.get(key);
+        if (!existing || (!existing.description && item.description)) definitions.set(key, { ...item, graphql: item.graphql });
+    }
+    if (definitions.size === 0) return '';
+
+    let content = `## GraphQL
+
+`;
+    for (const [title, kinds] of GRAPHQL_SECTIONS) {
+        const section = Array.from(definitions.values()).filter(item => kinds.includes(item.graphql.kind));
+        if (section.length === 0) continue;
+        content += `### ${title}
+
+`;
+        for (const item of section) {
+            const definition = item.graphql;
+            const operation = isGraphqlOperation(definition);
+            const heading = operation ? definition.name : `${definition.kind} ${definition.name}`;
+            content += `#### ${heading}${definition.deprecated ? ' (deprecated)' : ''}
+
+`;
+            if (item.signature) content += `\`\`\`graphql
+${item.signature}
+\`\`\`
+
+`;
+            if (item.description) content += `${item.description}
+
+`;
+            if (definition.deprecated) content += `_Deprecated: ${definition.deprecated}_
+
+`;
+            if (operation) {
+                if (definition.arguments.length > 0) {
+                    content += `| Argument | Type | Default | Description |
+|---|---|---|---|
+`;
+                    for (const arg of definition.arguments) {
+                        content += `| \`${arg.name}\` | \`${cell(arg.type)}\` | ${arg.defaultValue !== undefined ? `\`${cell(arg.defaultValue)}\`` : ''} | ${cell(arg.description || '')} |
+`;
+                    }
+                    content += `
+`;
+                }
+                if (definition.returnType) content += `**Returns**: \`${definition.returnType}\`
+
+`;
+            } else {
+                content += graphqlFields(definition);
+            }
+            content += `**Defined in**: \`${item.filePath}:${item.lineNumber}\`
+
+`;
+            const flow = operation ? findRequestFlow(flows, item) : undefined;
+            if (flow && flow.calls.length > 0) content += formatRequestFlow(flow);
+        }
+    }
+    return content;
+}
+
+function graphqlFields(definition: GraphqlDefinition): string {
+    if (definition.fields.length === 0) return '';
+    if (definition.kind === 'union') return `**Members**: ${definition.fields.map(field => `\`${field.name}\``).join(', ')}
+
+`;
+    if (definition.kind === 'enum') {
+        let content = `| Value | Description |
+|---|---|
+`;
+        for (const value of definition.fields) content += `| \`${value.name}\` | ${fieldDescription(value)} |
+`;
+        return content + `
+`;
+    }
+    let content = `| Field | Type | Description |
+|---|---|---|
+`;
+    for (const field of definition.fields) {
+        const args = field.arguments.length > 0 ? `(${field.arguments.map(arg => `${arg.name}: ${arg.type}`).join(', ')})` : '';
+        const defaultValue = field.defaultValue !== undefined ? ` = ${field.defaultValue}` : '';
+        content += `| \`${cell(field.name + args)}\` | \`${cell(field.type + defaultValue)}\` | ${fieldDescription(field)} |
+`;
+    }
+    return content + `
+`;
+}
+
+function fieldDescription(field: GraphqlField): string {
+    const deprecated = field.deprecated ? `_Deprecated: ${field.deprecated}_` : '';
+    return cell([field.description || '', deprecated].filter(Boolean).join(' '));
+}
+
+/** Table cell text; pipes and line breaks would end the cell or row. */
+function cell(text: string): string {
+    return text.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+}
+
+function sequenceDiagram(flow: RequestFlow): string[] {
+    const id = createIdFactory('p');
+    const lines = ['sequenceDiagram', '    actor Client'];
+    for (const participant of flow.participants) {
+        lines.push(`    participant ${id(participant.name)} as ${mermaidLabel(participant.name)}`);
+    }
+    const handler = id(flow.participants[0].name);
+    lines.push(`    Client->>${handler}: ${message(flow.route)}`);
+    const emit = (call: FlowCall) => {
+        const from = id(call.from);
+        const to = id(call.to);
+        lines.push(`    ${from}->>${to}: ${message(call.call)}()`);
+        call.calls.forEach(emit);
+        // Calls within one participant have nothing to return across
+        if (from !== to) {
+            lines.push(`    ${to}-->>${from}: ${message(call.returns || 'result')}`);
+        }
+    };
+    flow.calls.forEach(emit);
+    lines.push(`    ${handler}-->>Client: response`);
+    return lines;
+}
+
+/** Message text; `;` and `#` end or escape a Mermaid statement. */
+function message(text: string): string {
+    return mermaidLabel(text.replace(/#/g, '').replace(/;/g, ','));
+}
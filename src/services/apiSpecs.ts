@@ -0,0 +1,275 @@
+import * as path from 'path';
+import { toOpenApiPath } from './extractors/apiShapes';
+import { httpRouteOf } from './openApi';
+import type { ProjectSource } from './ProjectAnalyzer';
+import { parseYaml } from './yaml';
+
+export interface SpecParameter {
+    name: string;
+    in: string;
+    required: boolean;
+    /** Readable type, e.g. `string`, `Pet[]`, `integer (int64)`. */
+    type: string;
+    description?: string;
+}
+
+export interface SpecResponse {
+    status: string;
+    description?: string;
+    type?: string;
+}
+
+/** One operation of a hand-written OpenAPI 3 or Swagger 2 spec. */
+export interface SpecOperation {
+    /** Upper-case, like the method of route items. */
+    method: string;
+    /** The path as the spec writes it, without the server base path. */
+    path: string;
+    /** Path prefix from `servers[0].url` (OpenAPI 3) or `basePath` (Swagger 2); empty when there is none. */
+    basePath: string;
+    operationId?: string;
+    summary?: string;
+    description?: string;
+    tags: string[];
+    deprecated: boolean;
+    parameters: SpecParameter[];
+    requestBody?: string;
+    responses: SpecResponse[];
+}
+
+export interface ApiSpec {
+    /** Folder-relative path of the spec file. */
+    file: string;
+    title?: string;
+    version?: string;
+    operations: SpecOperation[];
+}
+
+/** A route found in code, by its item name and folder-relative location. */
+export interface SpecRoute {
+    route: string;
+    file: string;
+    line: number;
+}
+
+/** How the routes in code line up with the operations the specs describe. */
+export interface ApiSpecComparison {
+    specs: ApiSpec[];
+    /** Code routes together with the spec operation that documents them. */
+    matched: Array<SpecRoute & { operation: SpecOperation }>;
+    /** Routes in code that no spec describes. */
+    missingFromSpec: SpecRoute[];
+    /** Spec operations no route in code implements. */
+    missingFromCode: SpecOperation[];
+}
+
+const SPEC_EXTENSIONS = ['.json', '.yaml', '.yml'];
+// Common JSON/YAML files that are never API specs; skipped without reading them
+const NOT_SPECS = /(^|\/)(package(-lock)?\.json|tsconfig[^/]*\.json|jsconfig\.json|composer(\.lock|\.json)|\.eslintrc[^/]*|\.prettierrc[^/]*|docker-compose[^/]*|pnpm-lock\.yaml|\.gitlab-ci\.yml|\.travis\.yml|codecov\.yml|mkdocs\.yml)$|(^|\/)\.github\//;
+const SPEC_MARKER = /^\s*["']?(openapi|swagger)["']?\s*:\s*["']?[23]\./m;
+const MAX_SPEC_SIZE = 5 * 1024 * 1024;
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'];
+
+/**
+ * OpenAPI 3 and Swagger 2 documents among the project's JSON and YAML files.
+ * Files are recognised by their `openapi:`/`swagger:` version field, so specs
+ * are found whatever they are named; unparseable ones are skipped.
+ */
+export async function findApiSpecs(source: ProjectSource): Promise<ApiSpec[]> {
+    const specs: ApiSpec[] = [];
+    for (const file of source.files) {
+        if (!SPEC_EXTENSIONS.includes(path.posix.extname(file).toLowerCase()) || NOT_SPECS.test(file)) continue;
+        const content = await source.readFile(file);
+        if (!content || content.length > MAX_SPEC_SIZE) continue;
+        const text = Buffer.from(content).toString('utf-8');
+        if (!SPEC_MARKER.test(text.slice(0, 4096))) continue;
+        try {
+            const spec = parseApiSpec(file, file.endsWith('.json') ? JSON.parse(text) : parseYaml(text));
+            if (spec) specs.push(spec);
+        } catch (error) {
+            console.error(`Error reading API spec ${file}:`, error);
+        }
+    }
+    return specs;
+}
+
+/** The operations of a parsed spec document; undefined when it is not one. */
+export function parseApiSpec(file: string, document: unknown): ApiSpec | undefined {
+    if (!isObject(document) || !isObject(document.paths) || !(document.openapi || document.swagger)) return undefined;
+    const info = isObject(document.info) ? document.info : {};
+    const basePath = specBasePath(document);
+    const operations: SpecOperation[] = [];
+
+    for (const [specPath, rawPathItem] of Object.entries(document.paths)) {
+        const pathItem = resolve(document, rawPathItem);
+        if (!isObject(pathItem)) continue;
+        const shared = Array.isArray(pathItem.parameters) ? pathItem.parameters : [];
+        for (const method of HTTP_METHODS) {
+            const operation = pathItem[method];
+            if (!isObject(operation)) continue;
+            const own = Array.isArray(operation.parameters) ? operation.parameters : [];
+            const parameters = new Map<string, SpecParameter>();
+            let requestBody: string | undefined;
+            // Operation parameters override path-level ones with the same name and location
+            for (const raw of [...shared, ...own]) {
+                const parameter = resolve(document, raw);
+                if (!isObject(parameter) || typeof parameter.name !== 'string') continue;
+                if (parameter.in === 'body') {
+                    requestBody = typeOf(document, parameter.schema);
+                } else if (parameter.in === 'formData') {
+                    requestBody = 'form data';
+                } else {
+                    parameters.set(`${parameter.in}:${parameter.name}`, {
+                        name: parameter.name,
+                        in: String(parameter.in),
+                        required: parameter.required === true || parameter.in === 'path',
+                        type: typeOf(document, parameter.schema || parameter),
+                        ...(typeof parameter.description === 'string' ? { description: parameter.description } : {})
+                    });
+                }
+            }
+            const body = resolve(document, operation.requestBody);
+            if (isObject(body)) requestBody = typeOf(document, contentSchema(body)) || 'object';
+
+            const responses: SpecResponse[] = [];
+            for (const [status, rawResponse] of Object.entries(isObject(operation.responses) ? operation.responses : {})) {
+                const response = resolve(document, rawResponse);
+                if (!isObject(response)) continue;
+                const schema = response.schema || contentSchema(response);
+                responses.push({
+                    status,
+                    ...(typeof response.description === 'string' ? { description: response.description } : {}),
+                    ...(schema ? { type: typeOf(document, schema) } : {})
+                });
+            }
+
+            operations.push({
+                method: method.toUpperCase(),
+                path: specPath,
+                basePath,
+                ...(typeof operation.operationId === 'string' ? { operationId: operation.operationId } : {}),
+                ...(typeof operation.summary === 'string' ? { summary: operation.summary.trim() } : {}),
+                ...(typeof operation.description === 'string' ? { description: operation.description.trim() } : {}),
+                tags: Array.isArray(operation.tags) ? operation.tags.map(String) : [],
+                deprecated: operation.deprecated === true,
+                parameters: Array.from(parameters.values()),
+                ...(requestBody ? { requestBody } : {}),
+                responses
+            });
+        }
+    }
+
+    return {
+        file,
+        ...(typeof info.title === 'string' ? { title: info.title } : {}),
+        ...(info.version !== undefined ? { version: String(info.version) } : {}),
+        operations
+    };
+}
+
+/**
+ * Matches every HTTP route in code against the operations of the specs by
+ * method and path, ignoring parameter names. A route also matches when the
+ * spec's path includes the server base path or a mount prefix the code does
+ * not show (`/users` in a router mounted at `/api`), as long as that suffix
+ * match is unambiguous.
+ */
+export function compareWithSpecs(source: ProjectSource, specs: ApiSpec[]): ApiSpecComparison {
+    const operations = specs.flatMap(spec => spec.operations);
+    const implemented = new Set<SpecOperation>();
+    const comparison: ApiSpecComparison = { specs, matched: [], missingFromSpec: [], missingFromCode: [] };
+
+    for (const file of source.files) {
+        for (const item of source.itemsFor(file)) {
+            const route = httpRouteOf(item);
+            if (!route) continue;
+            const codePath = normalizePath(route.path);
+            const candidates = operations.filter(op => op.method === route.method);
+            const exact = candidates.filter(op => normalizePath(op.path) === codePath || normalizePath(op.basePath + op.path) === codePath);
+            const suffix = codePath === '/' ? [] : candidates.filter(op => normalizePath(op.basePath + op.path).endsWith(codePath));
+            const operation = exact[0] || (suffix.length === 1 ? suffix[0] : undefined);
+            const specRoute = { route: item.name, file, line: item.lineNumber };
+            if (operation) {
+                implemented.add(operation);
+                comparison.matched.push({ ...specRoute, operation });
+            } else {
+                comparison.missingFromSpec.push(specRoute);
+            }
+        }
+    }
+    comparison.missingFromCode = operations.filter(op => !implemented.has(op));
+    return comparison;
+}
+
+/** One-line summary of the drift between code and spec, for doc tasks and notices. */
+export function describeSpecDrift(comparison: ApiSpecComparison): string {
+    const files = comparison.specs.map(spec => spec.file).join(', ');
+    const parts: string[] = [];
+    if (comparison.missingFromSpec.length > 0) parts.push(`${comparison.missingFromSpec.length} route(s) in code are not in ${files}`);
+    if (comparison.missingFromCode.length > 0) parts.push(`${comparison.missingFromCode.length} operation(s) in ${files} have no route in code`);
+    return parts.join('; ');
+}
+
+/** `GET /v1/pets/{petId}`: the operation as a client calls it. */
+export function specOperationName(operation: SpecOperation): string {
+    return `${operation.method} ${operation.basePath}${operation.path}`;
+}
+
+/** Path with parameter names dropped so `/users/:id` and `/users/{userId}` compare equal. */
+function normalizePath(routePath: string): string {
+    const normalized = toOpenApiPath(routePath).replace(/\{[^}]*\}/g, '{}').replace(/\/+$/, '');
+    return normalized || '/';
+}
+
+function specBasePath(document: Record<string, unknown>): string {
+    let base = '';
+    if (typeof document.basePath === 'string') {
+        base = document.basePath;
+    } else if (Array.isArray(document.servers) && isObject(document.servers[0]) && typeof document.servers[0].url === 'string') {
+        // Server URLs may be absolute, relative, or contain `{variables}` that URL parsing rejects
+        const url = document.servers[0].url;
+        base = url.match(/^[a-z][\w+.-]*:\/\/[^/]*(\/.*)?$/i)?.[1] ?? (url.startsWith('/') ? url : '');
+    }
+    return base.replace(/\/+$/, '');
+}
+
+/** The schema of the JSON body, or of the first media type when there is no JSON one. */
+function contentSchema(holder: Record<string, unknown>): unknown {
+    if (!isObject(holder.content)) return undefined;
+    const media = holder.content['application/json'] || Object.values(holder.content)[0];
+    return isObject(media) ? media.schema : undefined;
+}
+
+/** A readable type for a schema: referenced names, `T[]` for arrays, enums as unions. */
+function typeOf(document: Record<string, unknown>, schema: unknown, depth = 0): string {
+    if (!isObject(schema) || depth > 5) return 'object';
+    if (typeof schema.$ref === 'string') return schema.$ref.split('/').pop() || 'object';
+    if (schema.type === 'array') return `${typeOf(document, schema.items, depth + 1)}[]`;
+    if (Array.isArray(schema.enum) && schema.enum.length > 0 && schema.enum.length <= 6) {
+        return schema.enum.map(value => JSON.stringify(value)).join(' | ');
+    }
+    for (const [key, separator] of [['allOf', ' & '], ['oneOf', ' | '], ['anyOf', ' | ']] as const) {
+        const parts = schema[key];
+        if (Array.isArray(parts) && parts.length > 0) return parts.map(part => typeOf(document, part, depth + 1)).join(separator);
+    }
+    if (typeof schema.type === 'string') return schema.format ? `${schema.type} (${schema.format})` : schema.type;
+    return 'object';
+}
+
+/** Follows local `$ref`s (`#/components/parameters/Limit`) to what they point at. */
+function resolve(document: Record<string, unknown>, value: unknown): unknown {
+    let current = value;
+    for (let depth = 0; depth < 5 && isObject(current) && typeof current.$ref === 'string' && current.$ref.startsWith('#/'); depth++) {
+        let target: unknown = document;
+        for (const segment of current.$ref.slice(2).split('/')) {
+            const key = segment.replace(/~1/g, '/').replace(/~0/g, '~');
+            target = isObject(target) ? target[key] : undefined;
+        }
+        current = target;
+    }
+    return current;
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,270 @@
+import type { DependencyGraph } from './dependencyGraph';
+import { createIdFactory, mermaidBlock, mermaidLabel } from './mermaid';
+import type { CodeItem, ProjectDomain, ProjectStructure } from './ProjectAnalyzer';
+
+// Long dependency tables stop being readable; the busiest edges come first
+const MAX_DEPENDENCY_ROWS = 40;
+// Diagrams past these sizes render as hairballs
+const MAX_DIAGRAM_MODULES = 40;
+const MAX_DOMAIN_FILES = 6;
+const MAX_CLASSES = 12;
+const MAX_MEMBERS = 10;
+const CLASS_DIAGRAM_DOMAINS = 3;
+
+// The diagram section is regenerated in place between these markers when the code changes
+export const DIAGRAMS_START = '<!-- documind:diagrams:start -->';
+export const DIAGRAMS_END = '<!-- documind:diagrams:end -->';
+
+/**
+ * The "Module Dependencies" section of ARCHITECTURE.md: entry points, layers,
+ * module-to-module imports, package boundaries and cycles from the import graph.
+ */
+export function formatModuleDependencies(graph: DependencyGraph): string {
+    let content = `## Module Dependencies\n\n`;
+    if (graph.modules.length === 0) {
+        content += `No module imports were found in the analyzed files.\n\n`;
+        return content;
+    }
+
+    const layerCount = graph.modules.reduce((max, m) => Math.max(max, m.layer + 1), 0);
+    content += `Derived from the import statements of ${graph.modules.reduce((sum, m) => sum + m.files, 0)} source files: `;
+    content += `${graph.modules.length} modules (directories) in ${layerCount} layer${layerCount === 1 ? '' : 's'}, `;
+    content += `with ${graph.dependencies.length} dependencies between them.\n\n`;
+
+    if (graph.entryPoints.length > 0) {
+        content += `### Entry Points\n\n`;
+        for (const entry of graph.entryPoints) {
+            content += `- \`${entry}\`\n`;
+        }
+        content += `\n`;
+    }
+
+    content += `### Layers\n\n`;
+    content += `Each module only depends on modules in lower layers; layer 0 depends on nothing else in the project.\n\n`;
+    content += `| Layer | Modules |\n|-------|---------|\n`;
+    for (let layer = layerCount - 1; layer >= 0; layer--) {
+        const modules = graph.modules.filter(m => m.layer === layer).map(m => `\`${m.name}\``);
+        content += `| ${layer}${layer === layerCount - 1 && layer > 0 ? ' (top)' : ''} | ${modules.join(', ')} |\n`;
+    }
+    content += `\n`;
+
+    if (graph.dependencies.length > 0) {
+        content += `### Dependencies\n\n`;
+        content += `| Module | Depends on | Imports |\n|--------|------------|---------|\n`;
+        const rows = graph.dependencies.slice().sort((a, b) => b.imports - a.imports || a.from.localeCompare(b.from));
+        for (const dep of rows.slice(0, MAX_DEPENDENCY_ROWS)) {
+            content += `| \`${dep.from}\` | \`${dep.to}\` | ${dep.imports} |\n`;
+        }
+        if (rows.length > MAX_DEPENDENCY_ROWS) {
+            content += `\n...and ${rows.length - MAX_DEPENDENCY_ROWS} more dependencies.\n`;
+        }
+        content += `\n`;
+    }
+
+    if (graph.packages.length > 1) {
+        content += `### Package Boundaries\n\n`;
+        for (const pkg of graph.packages) {
+            content += `- **${pkg.root === '.' ? '(root)' : pkg.root}** (\`${pkg.manifest}\`): ${pkg.modules.length} module${pkg.modules.length === 1 ? '' : 's'}`;
+            content += pkg.dependsOn.length > 0 ? `, imports from ${pkg.dependsOn.map(root => `\`${root}\``).join(', ')}\n` : `, self-contained\n`;
+        }
+        content += `\n`;
+    }
+
+    content += `### Dependency Cycles\n\n`;
+    if (graph.cycles.length === 0) {
+        content += `No cycles between modules.\n\n`;
+    } else {
+        content += `These modules import each other, so none of them can be changed or reused in isolation:\n\n`;
+        for (const cycle of graph.cycles) {
+            content += `- ${cycle.map(name => `\`${name}\``).join(' ↔ ')}\n`;
+        }
+        content += `\n`;
+    }
+    return content;
+}
+
+/**
+ * The generated "Diagrams" section of ARCHITECTURE.md: system overview, module
+ * dependencies, domain-to-file map and class diagrams of the largest domains,
+ * wrapped in markers so it can be refreshed without touching hand-written text.
+ */
+export function formatArchitectureDiagrams(structure: ProjectStructure): string {
+    let content = `${DIAGRAMS_START}\n## Diagrams\n\n`;
+    content += `_Generated from code analysis and refreshed when the code changes; edits inside this section are overwritten._\n\n`;
+
+    content += `### System Overview\n\n`;
+    content += mermaidBlock(systemOverviewDiagram(structure));
+
+    if (structure.dependencyGraph.dependencies.length > 0) {
+        content += `### Module Dependencies\n\n`;
+        content += mermaidBlock(moduleDependencyDiagram(structure.dependencyGraph));
+    }
+
+    const domains = structure.domains.filter(domain => domain.files.length > 0);
+    if (domains.length > 0) {
+        content += `### Domains\n\n`;
+        content += mermaidBlock(domainFileDiagram(domains));
+    }
+
+    const largest = domains.filter(domain => domain.classes.length > 0)
+        .sort((a, b) => b.classes.length - a.classes.length || a.name.localeCompare(b.name))
+        .slice(0, CLASS_DIAGRAM_DOMAINS);
+    for (const domain of largest) {
+        content += `### Classes: ${domain.name}\n\n`;
+        content += mermaidBlock(classDiagram(domain));
+    }
+
+    return content + `${DIAGRAMS_END}\n\n`;
+}
+
+/**
+ * `document` with its diagram section replaced by a fresh one (the same
+ * string when nothing changed), or undefined when the document has no
+ * generated section to replace.
+ */
+export function replaceArchitectureDiagrams(document: string, structure: ProjectStructure): string | undefined {
+    const start = document.indexOf(DIAGRAMS_START);
+    const end = document.indexOf(DIAGRAMS_END, start);
+    if (start === -1 || end === -1) return undefined;
+    const diagrams = formatArchitectureDiagrams(structure);
+    // Unchanged diagrams leave the document as it is, blank lines included
+    if (document.slice(start, end + DIAGRAMS_END.length) === diagrams.trimEnd()) return document;
+    const after = document.slice(end + DIAGRAMS_END.length).replace(/^\n*/, '');
+    return document.slice(0, start) + diagrams + after;
+}
+
+function systemOverviewDiagram(structure: ProjectStructure): string[] {
+    const tier = (category: 'frontend' | 'backend') => {
+        const framework = structure.frameworks.find(f => f.category === category) || structure.frameworks.find(f => f.category === 'fullstack');
+        return framework ? ` (${framework.name})` : '';
+    };
+    const lines = ['flowchart LR'];
+    const nodes: string[] = [];
+    if (structure.hasFrontend) nodes.push(`    frontend["${mermaidLabel(`Frontend${tier('frontend')}`)}"]`);
+    if (structure.hasBackend) nodes.push(`    backend["${mermaidLabel(`Backend${tier('backend')}`)}"]`);
+    if (structure.hasDatabase) nodes.push(`    database[("Database")]`);
+    if (nodes.length === 0) nodes.push(`    app["${mermaidLabel(structure.framework === 'Unknown' ? 'Application' : structure.framework)}"]`);
+    lines.push(...nodes);
+    const ids = nodes.map(node => node.trim().split('[')[0]);
+    for (let i = 1; i < ids.length; i++) {
+        lines.push(`    ${ids[i - 1]} <--> ${ids[i]}`);
+    }
+    return lines;
+}
+
+function moduleDependencyDiagram(graph: DependencyGraph): string[] {
+    const id = createIdFactory('m');
+    // Keep the modules involved in the most imports when the graph is too big to draw
+    const involvement = new Map<string, number>();
+    for (const dep of graph.dependencies) {
+        involvement.set(dep.from, (involvement.get(dep.from) || 0) + dep.imports);
+        involvement.set(dep.to, (involvement.get(dep.to) || 0) + dep.imports);
+    }
+    const shown = new Set(Array.from(involvement.keys())
+        .sort((a, b) => involvement.get(b)! - involvement.get(a)! || a.localeCompare(b))
+        .slice(0, MAX_DIAGRAM_MODULES));
+    const inCycle = new Set(graph.cycles.flat());
+
+    const lines = ['flowchart TD'];
+    const modules = graph.modules.filter(m => shown.has(m.name));
+    const node = (name: string) => `${id(name)}["${mermaidLabel(name === '.' ? '(root)' : name)}"]`;
+    if (graph.packages.length > 1) {
+        for (const pkg of graph.packages) {
+            const members = modules.filter(m => m.package === pkg.root);
+            if (members.length === 0) continue;
+            lines.push(`    subgraph ${id(`package ${pkg.root}`)}["${mermaidLabel(pkg.root === '.' ? '(root package)' : pkg.root)}"]`);
+            members.forEach(m => lines.push(`        ${node(m.name)}`));
+            lines.push('    end');
+        }
+        modules.filter(m => !graph.packages.some(pkg => pkg.root === m.package)).forEach(m => lines.push(`    ${node(m.name)}`));
+    } else {
+        modules.forEach(m => lines.push(`    ${node(m.name)}`));
+    }
+    for (const dep of graph.dependencies) {
+        if (shown.has(dep.from) && shown.has(dep.to)) {
+            lines.push(`    ${id(dep.from)} -->|${dep.imports}| ${id(dep.to)}`);
+        }
+    }
+    if (modules.some(m => inCycle.has(m.name))) {
+        lines.push('    classDef cycle stroke:#d9534f,stroke-width:2px');
+        lines.push(`    class ${modules.filter(m => inCycle.has(m.name)).map(m => id(m.name)).join(',')} cycle`);
+    }
+    return lines;
+}
+
+function domainFileDiagram(domains: ProjectDomain[]): string[] {
+    const id = createIdFactory('d');
+    const lines = ['flowchart LR'];
+    for (const domain of domains) {
+        const domainId = id(`domain ${domain.name}`);
+        lines.push(`    ${domainId}(["${mermaidLabel(`${domain.name} (${domain.type})`)}"])`);
+        for (const file of domain.files.slice(0, MAX_DOMAIN_FILES)) {
+            lines.push(`    ${domainId} --> ${id(file)}["${mermaidLabel(file)}"]`);
+        }
+        if (domain.files.length > MAX_DOMAIN_FILES) {
+            lines.push(`    ${domainId} --> ${id(`more ${domain.name}`)}["${domain.files.length - MAX_DOMAIN_FILES} more files"]`);
+        }
+    }
+    return lines;
+}
+
+function classDiagram(domain: ProjectDomain): string[] {
+    const id = createIdFactory('c');
+    const lines = ['classDiagram'];
+    const classes = domain.classes.slice(0, MAX_CLASSES);
+    const shown = new Set(classes.map(item => item.name));
+    const relations: string[] = [];
+
+    for (const item of classes) {
+        lines.push(`    class ${id(item.name)}["${mermaidLabel(item.name)}"] {`);
+        const members = domain.functions.filter(fn => fn.name.startsWith(item.name + '.') && !fn.name.slice(item.name.length + 1).includes('.'));
+        for (const member of members.slice(0, MAX_MEMBERS)) {
+            lines.push(`        ${formatMember(member, item.name)}`);
+        }
+        if (members.length > MAX_MEMBERS) {
+            lines.push(`        ...${members.length - MAX_MEMBERS} more()`);
+        }
+        lines.push('    }');
+
+        const { extendsNames, implementsNames } = parseHeritage(item.signature || '');
+        for (const base of extendsNames) {
+            relations.push(`    ${id(base)} <|-- ${id(item.name)}`);
+            if (!shown.has(base)) relations.unshift(`    class ${id(base)}["${mermaidLabel(base)}"]`);
+            shown.add(base);
+        }
+        for (const contract of implementsNames) {
+            relations.push(`    ${id(contract)} <|.. ${id(item.name)}`);
+            if (!shown.has(contract)) relations.unshift(`    class ${id(contract)}["${mermaidLabel(contract)}"]`);
+            shown.add(contract);
+        }
+    }
+    return [...lines, ...relations];
+}
+
+function formatMember(member: CodeItem, className: string): string {
+    const marker = member.visibility === 'private' ? '-' : member.visibility === 'protected' ? '#' : '+';
+    const name = member.name.slice(className.length + 1).replace(/\W/g, '_');
+    const params = (member.parameters || []).map(p => p.name.replace(/[^\w.]/g, '')).join(', ');
+    // Mermaid writes generics as `List~T~` and has no syntax for unions or inline object types
+    const returnType = member.returnType ? ' ' + member.returnType
+        .replace(/\{[^{}]*\}/g, 'object')
+        .replace(/\s*\|\s*/g, ' or ')
+        .replace(/</g, '~').replace(/>/g, '~')
+        .replace(/[^\w~\[\]., ]/g, '') : '';
+    return `${marker}${name}(${params})${returnType}`;
+}
+
+/** Base classes and interfaces named in a class declaration, for TS/Java `extends`/`implements` and Python `class A(B)`. */
+function parseHeritage(signature: string): { extendsNames: string[]; implementsNames: string[] } {
+    const names = (list: string | undefined) => (list || '').split(',')
+        .map(name => name.trim().replace(/<.*$/, '').replace(/\(.*$/, ''))
+        .filter(name => /^[\w.]+$/.test(name) && name !== 'object');
+    const python = signature.match(/^class\s+\w+\s*\(([^)]*)\)/);
+    if (python) {
+        return { extendsNames: names(python[1].replace(/\w+\s*=\s*[\w.]+/g, '')), implementsNames: [] };
+    }
+    return {
+        extendsNames: names(signature.match(/\bextends\s+(.+?)(?:\s+implements\b|\s*\{|$)/)?.[1]),
+        implementsNames: names(signature.match(/\bimplements\s+(.+?)(?:\s*\{|$)/)?.[1])
+    };
+}
@@ -0,0 +1,221 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { DocSectionReference, findDocSections } from './docDrift';
+import { isMaintainedDoc } from './docReferences';
+import { findMainBranch, runGit } from './git';
+import type { GitHubPR } from './MaintenanceService';
+import type { CodeItem, ProjectDomain } from './ProjectAnalyzer';
+import type { FileChange, RemotePullRequest } from './codeHosts/codeHost';
+
+const MAX_BRANCHES = 20;
+// Beyond this many of one kind, an action list stops being a to-do list
+const MAX_ACTIONS_PER_KIND = 5;
+const TEST_FILE = /(^|\/)(__tests__|tests?|spec)\/|\.(test|spec)\.[^/]+$/;
+const CHANGELOG = /(^|\/)CHANGELOG(\.md)?$/i;
+
+/** What a set of changes means for the docs. */
+interface DocAssessment {
+    docImpact: GitHubPR['docImpact'];
+    suggestedActions: string[];
+    domains: string[];
+    docsChanged: string[];
+}
+
+/**
+ * Describes each local branch that is ahead of the main branch the way a
+ * pull request would be: the files changed since the merge base, how much
+ * documentation they affect, and which docs to update. Everything is read
+ * from the local repository; branches already merged are left out, and so
+ * is everything outside a git repository.
+ */
+export async function analyzeBranches(root: string, items: CodeItem[], domains: ProjectDomain[]): Promise<GitHubPR[]> {
+    const base = await findMainBranch(root);
+    if (!base) return [];
+    let refs: string;
+    try {
+        refs = await runGit(['for-each-ref', '--sort=-committerdate', `--count=${MAX_BRANCHES + 1}`, '--format=%(refname:short)%09%(authorname)', 'refs/heads'], root);
+    } catch {
+        return [];
+    }
+    const sections = await findDocSections(root, items);
+    const prs: GitHubPR[] = [];
+    for (const line of refs.split('\n').filter(Boolean)) {
+        const [branch, author] = line.split('\t');
+        if (branch === base) continue;
+        const pr = await analyzeBranch(root, branch, base, author, items, domains, sections);
+        if (pr) prs.push(pr);
+        if (prs.length === MAX_BRANCHES) break;
+    }
+    return prs;
+}
+
+/** Open pull requests from a code host, assessed against the local checkout like branches are. */
+export async function describePullRequests(root: string, pulls: RemotePullRequest[], items: CodeItem[], domains: ProjectDomain[]): Promise<GitHubPR[]> {
+    const sections = await findDocSections(root, items);
+    const prs: GitHubPR[] = [];
+    for (const pull of pulls) {
+        const assessment = await assessChanges(root, pull.changes, items, domains, sections);
+        prs.push({
+            id: `pr-${pull.number}`,
+            number: pull.number,
+            title: pull.title,
+            description: pull.description,
+            author: pull.author,
+            status: 'open',
+            filesChanged: pull.changes.map(change => change.file),
+            ...assessment,
+            url: pull.url,
+            branch: pull.branch,
+            baseBranch: pull.baseBranch
+        });
+    }
+    return prs;
+}
+
+async function analyzeBranch(
+    root: string,
+    branch: string,
+    base: string,
+    author: string,
+    items: CodeItem[],
+    domains: ProjectDomain[],
+    sections: DocSectionReference[]
+): Promise<GitHubPR | undefined> {
+    let mergeBase: string;
+    let subjects: string[];
+    let changes: FileChange[];
+    try {
+        mergeBase = await runGit(['merge-base', base, branch], root);
+        subjects = (await runGit(['log', '--no-merges', '--reverse', '--format=%s', `${mergeBase}..${branch}`], root)).split('\n').filter(Boolean);
+        changes = parseNameStatus(await runGit(['diff', '--name-status', '--no-renames', '-z', mergeBase, branch], root));
+    } catch {
+        return undefined;
+    }
+    if (subjects.length === 0 || changes.length === 0) return undefined;
+
+    const assessment = await assessChanges(root, changes, items, domains, sections);
+    return {
+        id: `branch-${branch.replace(/[^a-zA-Z0-9-]/g, '-')}`,
+        title: subjects.length === 1 ? subjects[0] : branch,
+        description: `${subjects.length} commit(s) ahead of ${base}, ${changes.length} file(s) changed${assessment.domains.length > 0 ? ` in ${assessment.domains.join(', ')}` : ''}.`,
+        author,
+        status: 'open',
+        filesChanged: changes.map(change => change.file),
+        ...assessment,
+        branch,
+        baseBranch: base,
+        commits: subjects
+    };
+}
+
+/**
+ * Rates how much documentation `changes` affect and lists concrete updates:
+ * API routes, doc sections that reference changed code, undocumented exports,
+ * new files and the changelog.
+ */
+async function assessChanges(
+    root: string,
+    changes: FileChange[],
+    items: CodeItem[],
+    domains: ProjectDomain[],
+    sections: DocSectionReference[]
+): Promise<DocAssessment> {
+    const changed = new Set(changes.map(change => change.file));
+    const docsChanged = changes.filter(change => isMaintainedDoc(change.file) && !CHANGELOG.test(change.file)).map(change => change.file);
+    const codeChanges = changes.filter(change => isCodeChange(change.file));
+    const codeFiles = new Set(codeChanges.map(change => change.file));
+
+    const itemsByFile = new Map<string, CodeItem[]>();
+    for (const item of items) {
+        const file = path.posix.relative(root.replace(/\\/g, '/'), item.filePath.replace(/\\/g, '/'));
+        if (!codeFiles.has(file)) continue;
+        itemsByFile.set(file, [...(itemsByFile.get(file) || []), item]);
+    }
+    const touchedItems = Array.from(itemsByFile.values()).flat();
+    const routes = touchedItems.filter(item => item.type === 'api');
+    const undocumented = touchedItems.filter(item => item.exported !== false && !item.hasDocumentation && item.type !== 'config');
+    const touchedDomains = domains.filter(domain => domain.files.some(file => codeFiles.has(file)));
+    // Sections whose code changed on the branch while their doc did not
+    const pendingSections = sections.filter(section =>
+        !changed.has(section.doc) && section.files.some(file => codeFiles.has(file)));
+
+    const actions: string[] = [];
+    const routeFiles = Array.from(new Set(routes.map(route => relative(root, route.filePath))));
+    if (routes.length > 0 && !docsChanged.some(doc => /api/i.test(doc))) {
+        actions.push(`Update API documentation for ${listOf(routes.map(route => route.name))} (${routeFiles.join(', ')})`);
+    }
+    for (const section of pendingSections.slice(0, MAX_ACTIONS_PER_KIND)) {
+        const referenced = section.files.filter(file => codeFiles.has(file));
+        const deleted = referenced.filter(file => changes.some(change => change.file === file && change.status === 'deleted'));
+        actions.push(`Review ${section.doc} § ${section.section} (line ${section.line}): ${deleted.length > 0
+            ? `references ${deleted.join(', ')}, deleted on this branch`
+            : `describes ${referenced.join(', ')}`}`);
+    }
+    if (pendingSections.length > MAX_ACTIONS_PER_KIND) {
+        actions.push(`Review ${pendingSections.length - MAX_ACTIONS_PER_KIND} more doc section(s) that reference the changed files`);
+    }
+    if (pendingSections.length === 0 && docsChanged.length === 0) {
+        // No doc points at the changed code, so name the areas it belongs to
+        for (const domain of touchedDomains.filter(domain => domain.priority === 'high')) {
+            actions.push(`Update the ${domain.name} documentation`);
+        }
+    }
+    if (undocumented.length > 0) {
+        actions.push(`Add doc comments to ${listOf(undocumented.map(item => item.name))} in the changed files`);
+    }
+    const added = codeChanges.filter(change => change.status === 'added' && !itemsByFile.has(change.file));
+    for (const change of added.slice(0, MAX_ACTIONS_PER_KIND)) {
+        actions.push(`Document the new file ${change.file}`);
+    }
+    if (codeChanges.length > 0 && !changes.some(change => CHANGELOG.test(change.file)) && await hasChangelog(root)) {
+        actions.push('Add a changelog entry');
+    }
+
+    const highDomain = touchedDomains.some(domain => domain.priority === 'high');
+    const docImpact: GitHubPR['docImpact'] =
+        codeChanges.length === 0 ? 'low'
+        : (routes.length > 0 && docsChanged.length === 0) || (highDomain && pendingSections.length > 0) ? 'high'
+        : pendingSections.length > 0 || undocumented.length > 0 || added.length > 0 ? 'medium'
+        : 'low';
+
+    return {
+        docImpact,
+        suggestedActions: actions,
+        domains: touchedDomains.map(domain => domain.name),
+        docsChanged
+    };
+}
+
+/** `git diff --name-status -z` output: a status letter and a path per change. */
+function parseNameStatus(output: string): FileChange[] {
+    const parts = output.split('\0').filter(Boolean);
+    const changes: FileChange[] = [];
+    for (let i = 0; i + 1 < parts.length; i += 2) {
+        const status = parts[i][0] === 'A' ? 'added' : parts[i][0] === 'D' ? 'deleted' : 'modified';
+        changes.push({ status, file: parts[i + 1] });
+    }
+    return changes;
+}
+
+/** Source changes that can affect docs: not docs, tests or the changelog themselves. */
+function isCodeChange(file: string): boolean {
+    return !isMaintainedDoc(file) && !CHANGELOG.test(file) && !TEST_FILE.test(file) && !/\.(txt|rst|adoc)$/i.test(file);
+}
+
+async function hasChangelog(root: string): Promise<boolean> {
+    try {
+        await fs.promises.access(path.join(root, 'CHANGELOG.md'));
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+function relative(root: string, filePath: string): string {
+    return path.posix.relative(root.replace(/\\/g, '/'), filePath.replace(/\\/g, '/'));
+}
+
+function listOf(names: string[]): string {
+    const unique = Array.from(new Set(names));
+    return unique.length <= 3 ? unique.join(', ') : `${unique.slice(0, 3).join(', ')} and ${unique.length - 3} more`;
+}
@@ -0,0 +1,300 @@
+import { runGit } from './git';
+
+/** A commit subject in the Conventional Commits form `type(scope)!: description`. */
+export interface ConventionalCommit {
+    hash: string;
+    shortHash: string;
+    author: string;
+    /** Author date, `YYYY-MM-DD`. */
+    date: string;
+    subject: string;
+    type: string;
+    scope?: string;
+    description: string;
+    /** Marked with `!` or a `BREAKING CHANGE:` footer. */
+    breaking: boolean;
+    /** Text of the `BREAKING CHANGE:` footers. */
+    breakingNotes: string[];
+}
+
+/** A commit whose subject does not follow Conventional Commits. */
+export interface PlainCommit {
+    hash: string;
+    shortHash: string;
+    author: string;
+    date: string;
+    subject: string;
+}
+
+export type SemverBump = 'major' | 'minor' | 'patch';
+
+export type ChangelogSection = 'Added' | 'Changed' | 'Deprecated' | 'Removed' | 'Fixed' | 'Security';
+
+/** The release the commits since the last tag add up to. */
+export interface PendingRelease {
+    previousTag?: string;
+    previousVersion?: string;
+    version: string;
+    /** Undefined for a first release, which takes the package version as it is. */
+    bump?: SemverBump;
+    /** `YYYY-MM-DD` */
+    date: string;
+    commits: ConventionalCommit[];
+    /** Commits left out of the changelog because their type cannot be told. */
+    unconventional: PlainCommit[];
+    /** Changelog bullets by Keep a Changelog section; commits that are not user-facing have none. */
+    entries: Partial<Record<ChangelogSection, ChangelogBullet[]>>;
+}
+
+export interface ChangelogBullet {
+    text: string;
+    shortHash: string;
+}
+
+const SECTION_ORDER: ChangelogSection[] = ['Added', 'Changed', 'Deprecated', 'Removed', 'Fixed', 'Security'];
+const CONVENTIONAL_SUBJECT = /^([a-zA-Z]+)(?:\(([^)]*)\))?(!)?:\s+(.+)$/;
+const BREAKING_FOOTER = /^BREAKING[ -]CHANGE:\s*(.*)$/;
+// A footer token starts the next footer: `Refs: #12`, `Reviewed-by: …`, `Fixes #3`
+const FOOTER_TOKEN = /^([\w-]+|BREAKING CHANGE)(:\s| #)/;
+const VERSION = /(\d+)\.(\d+)\.(\d+)/;
+const RECORD = '\x1e';
+const FIELD = '\x1f';
+
+export const CHANGELOG_HEADER = `# Changelog
+
+All notable changes to this project will be documented in this file.
+
+The format is based on [Keep a Changelog](https://keepachangelog.com/en/1.0.0/),
+and this project adheres to [Semantic Versioning](https://semver.org/spec/v2.0.0.html).
+`;
+
+/** Undefined when the subject is not a Conventional Commit. */
+export function parseConventionalCommit(subject: string, body = ''): Pick<ConventionalCommit, 'type' | 'scope' | 'description' | 'breaking' | 'breakingNotes'> | undefined {
+    const match = subject.trim().match(CONVENTIONAL_SUBJECT);
+    if (!match) return undefined;
+    const breakingNotes: string[] = [];
+    let inNote = false;
+    for (const line of body.split('\n')) {
+        const footer = line.match(BREAKING_FOOTER);
+        if (footer) {
+            breakingNotes.push(footer[1].trim());
+            inNote = true;
+        } else if (inNote && line.trim() && !FOOTER_TOKEN.test(line)) {
+            // A footer's text continues until a blank line or the next footer
+            breakingNotes[breakingNotes.length - 1] = `${breakingNotes[breakingNotes.length - 1]} ${line.trim()}`.trim();
+        } else {
+            inNote = false;
+        }
+    }
+    return {
+        type: match[1].toLowerCase(),
+        scope: match[2]?.trim() || undefined,
+        description: match[4].trim(),
+        breaking: !!match[3] || breakingNotes.length > 0,
+        breakingNotes: breakingNotes.filter(Boolean)
+    };
+}
+
+/** The most recent tag reachable from HEAD, or undefined when there is none. */
+export async function findLastTag(cwd: string): Promise<string | undefined> {
+    try {
+        return await runGit(['describe', '--tags', '--abbrev=0'], cwd) || undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+/** Non-merge commits after `since` (all of history without it), oldest first; the latest `limit` when given. */
+export async function readCommits(cwd: string, since?: string, until = 'HEAD', limit?: number): Promise<Array<PlainCommit & { body: string }>> {
+    const format = ['%H', '%h', '%an', '%ad', '%s', '%b'].join('%x1f') + '%x1e';
+    const range = since ? `${since}..${until}` : until;
+    // `--reverse` applies after `-n`, so the limit keeps the newest commits
+    const output = await runGit(['log', '--no-merges', '--reverse', ...(limit ? [`-n${limit}`] : []), '--date=short', `--format=${format}`, range], cwd);
+    return output.split(RECORD).map(record => record.replace(/^\n/, '')).filter(Boolean).map(record => {
+        const [hash, shortHash, author, date, subject, body = ''] = record.split(FIELD);
+        return { hash, shortHash, author, date, subject, body };
+    });
+}
+
+/**
+ * The release the commits since the last tag call for. `packageVersion` is
+ * the version a first release takes, and the base when the last tag holds no
+ * semver version; it defaults to 0.1.0.
+ */
+export async function planRelease(cwd: string, packageVersion?: string, today = new Date()): Promise<PendingRelease> {
+    const previousTag = await findLastTag(cwd);
+    const commits: ConventionalCommit[] = [];
+    const unconventional: PlainCommit[] = [];
+    for (const commit of await readCommits(cwd, previousTag)) {
+        const parsed = parseConventionalCommit(commit.subject, commit.body);
+        const { body, ...summary } = commit;
+        if (parsed) commits.push({ ...summary, ...parsed });
+        else unconventional.push(summary);
+    }
+    const tagVersion = previousTag?.match(VERSION)?.[0];
+    const previousVersion = tagVersion || (previousTag ? packageVersion : undefined);
+    const bump = previousVersion ? bumpFor(commits, unconventional.length > 0) : undefined;
+    return {
+        previousTag,
+        previousVersion,
+        version: previousVersion && bump ? nextVersion(previousVersion, bump) : packageVersion?.match(VERSION)?.[0] || '0.1.0',
+        bump,
+        date: today.toISOString().split('T')[0],
+        commits,
+        unconventional,
+        entries: changelogEntries(commits)
+    };
+}
+
+/** Breaking changes bump major, features minor, anything else patch; undefined when nothing changed. */
+export function bumpFor(commits: ConventionalCommit[], otherChanges = false): SemverBump | undefined {
+    if (commits.some(commit => commit.breaking)) return 'major';
+    if (commits.some(commit => commit.type === 'feat')) return 'minor';
+    return commits.length > 0 || otherChanges ? 'patch' : undefined;
+}
+
+/** Before 1.0.0 a breaking change only bumps minor, as semver leaves 0.x free to change. */
+export function nextVersion(version: string, bump: SemverBump): string {
+    const match = version.match(VERSION);
+    if (!match) return version;
+    const [major, minor, patch] = match.slice(1).map(Number);
+    if (bump === 'major') return major === 0 ? `0.${minor + 1}.0` : `${major + 1}.0.0`;
+    if (bump === 'minor') return `${major}.${minor + 1}.0`;
+    return `${major}.${minor}.${patch + 1}`;
+}
+
+/** Commits grouped into Keep a Changelog sections; docs, tests and chores stay out unless breaking. */
+export function changelogEntries(commits: ConventionalCommit[]): Partial<Record<ChangelogSection, ChangelogBullet[]>> {
+    const entries: Partial<Record<ChangelogSection, ChangelogBullet[]>> = {};
+    for (const commit of commits) {
+        const section = sectionFor(commit);
+        if (!section) continue;
+        const scope = commit.scope ? `**${commit.scope}:** ` : '';
+        const breaking = commit.breaking ? `**BREAKING:** ` : '';
+        const notes = commit.breakingNotes.map(note => `\n  ${note}`).join('');
+        (entries[section] = entries[section] || []).push({
+            text: `- ${breaking}${scope}${commit.description} (${commit.shortHash})${notes}`,
+            shortHash: commit.shortHash
+        });
+    }
+    return entries;
+}
+
+function sectionFor(commit: ConventionalCommit): ChangelogSection | undefined {
+    switch (commit.type) {
+        case 'feat':
+            return 'Added';
+        case 'fix':
+            return commit.scope === 'security' ? 'Security' : 'Fixed';
+        case 'security':
+            return 'Security';
+        case 'perf':
+        case 'refactor':
+        case 'revert':
+            return 'Changed';
+        case 'deprecate':
+            return 'Deprecated';
+        case 'remove':
+            return 'Removed';
+        default:
+            return commit.breaking ? 'Changed' : undefined;
+    }
+}
+
+/** Bullets of the release that `changelog` does not mention yet, matched by short hash. */
+export function missingEntries(changelog: string, release: PendingRelease): ChangelogBullet[] {
+    return Object.values(release.entries).flat().filter(bullet => bullet && !changelog.includes(bullet.shortHash)) as ChangelogBullet[];
+}
+
+/**
+ * Adds the release to a Keep a Changelog file without touching what is
+ * already there. Entries under `## [Unreleased]` move into the new release
+ * next to the generated ones, which are skipped when the file already
+ * mentions their commit. A release whose version already has a section is
+ * merged into it. The Unreleased heading stays, empty, for the next round.
+ */
+export function mergeChangelog(existing: string | undefined, release: PendingRelease): string {
+    const lines = (existing && existing.trim() ? existing : CHANGELOG_HEADER).replace(/\r\n/g, '\n').split('\n');
+    const generated = new Map<string, string[]>();
+    for (const section of SECTION_ORDER) {
+        const bullets = (release.entries[section] || []).filter(bullet => !lines.some(line => line.includes(bullet.shortHash)));
+        if (bullets.length > 0) generated.set(section, bullets.map(bullet => bullet.text));
+    }
+
+    const headings = lines.map((line, index) => ({ line, index })).filter(({ line }) => /^## /.test(line));
+    const bodyEnd = (start: number) => headings.find(heading => heading.index > start)?.index ?? trailingLinks(lines);
+    const escaped = release.version.replace(/\./g, '\\.');
+    const current = headings.find(({ line }) => new RegExp(`^## \\[?v?${escaped}\\]?(\\s|$)`).test(line));
+    const unreleased = headings.find(({ line }) => /^## \[?unreleased\]?/i.test(line));
+
+    if (current) {
+        const end = bodyEnd(current.index);
+        const merged = mergeBodies(parseBody(lines.slice(current.index + 1, end)), generated);
+        return joinLines([...lines.slice(0, current.index + 1), '', ...merged, ...lines.slice(end)]);
+    }
+
+    const heading = `## [${release.version}] - ${release.date}`;
+    if (unreleased) {
+        const end = bodyEnd(unreleased.index);
+        const merged = mergeBodies(parseBody(lines.slice(unreleased.index + 1, end)), generated);
+        return joinLines([...lines.slice(0, unreleased.index + 1), '', heading, '', ...merged, ...lines.slice(end)]);
+    }
+    const firstRelease = headings[0]?.index ?? trailingLinks(lines);
+    const merged = mergeBodies(parseBody([]), generated);
+    return joinLines([...lines.slice(0, firstRelease), ...(firstRelease > 0 && lines[firstRelease - 1].trim() ? [''] : []), heading, '', ...merged, ...lines.slice(firstRelease)]);
+}
+
+interface ChangelogBody {
+    /** Lines before the first `###` heading. */
+    intro: string[];
+    sections: Map<string, string[]>;
+}
+
+function parseBody(lines: string[]): ChangelogBody {
+    const body: ChangelogBody = { intro: [], sections: new Map() };
+    let current: string[] = body.intro;
+    for (const line of lines) {
+        const heading = line.match(/^###\s+(.+?)\s*$/);
+        if (heading) {
+            current = body.sections.get(heading[1]) || [];
+            body.sections.set(heading[1], current);
+        } else {
+            current.push(line);
+        }
+    }
+    return body;
+}
+
+/** Known sections in Keep a Changelog order, hand-written entries first; other sections keep their place after them. */
+function mergeBodies(body: ChangelogBody, generated: Map<string, string[]>): string[] {
+    const trim = (lines: string[]) => {
+        const copy = [...lines];
+        while (copy.length && !copy[0].trim()) copy.shift();
+        while (copy.length && !copy[copy.length - 1].trim()) copy.pop();
+        return copy;
+    };
+    const out: string[] = [];
+    const intro = trim(body.intro);
+    if (intro.length) out.push(...intro, '');
+    const names = [...SECTION_ORDER, ...Array.from(body.sections.keys()).filter(name => !(SECTION_ORDER as string[]).includes(name))];
+    for (const name of names) {
+        const entries = [...trim(body.sections.get(name) || []), ...(generated.get(name) || [])];
+        if (entries.length === 0) continue;
+        out.push(`### ${name}`, ...entries, '');
+    }
+    return out;
+}
+
+/** Start of the link reference definitions (`[1.0.0]: https://…`) that end a changelog. */
+function trailingLinks(lines: string[]): number {
+    let start = lines.length;
+    for (let i = lines.length - 1; i >= 0; i--) {
+        if (/^\[[^\]]+\]:\s*\S+/.test(lines[i])) start = i;
+        else if (lines[i].trim()) break;
+    }
+    return start;
+}
+
+function joinLines(lines: string[]): string {
+    return lines.join('\n').replace(/\s*$/, '\n');
+}
@@ -0,0 +1,126 @@
+import { GiteaHost } from './giteaHost';
+import { GitHubHost } from './githubHost';
+import { GitLabHost } from './gitlabHost';
+import { defaultFetch, FetchLike } from './http';
+
+export type CodeHostKind = 'github' | 'gitlab' | 'gitea';
+
+/** Where a repository lives on its code host. */
+export interface CodeHostRemote {
+    kind: CodeHostKind;
+    /** Host of the web UI, e.g. `github.com`. */
+    host: string;
+    /** Owner path; GitLab groups may nest (`group/subgroup`). */
+    owner: string;
+    repo: string;
+    /** REST API base URL without a trailing slash; tokens are stored per origin of it. */
+    apiUrl: string;
+}
+
+export interface FileChange {
+    status: 'added' | 'modified' | 'deleted';
+    /** Repository-relative path. */
+    file: string;
+}
+
+/** An open pull request (merge request on GitLab) as the code host reports it. */
+export interface RemotePullRequest {
+    number: number;
+    title: string;
+    description: string;
+    author: string;
+    /** Web page of the pull request. */
+    url: string;
+    branch: string;
+    baseBranch: string;
+    /** Renames are reported as a deletion and an addition, like `git diff --no-renames`. */
+    changes: FileChange[];
+}
+
+export interface CodeHostProvider {
+    readonly remote: CodeHostRemote;
+    /** The most recently updated open pull requests, with their changed files. */
+    listOpenPullRequests(): Promise<RemotePullRequest[]>;
+    /** Posts `body` as a review comment on the pull request (a note on a GitLab merge request). */
+    postReviewComment(number: number, body: string): Promise<void>;
+}
+
+/**
+ * Reads the code host and repository from a git remote URL, in either the
+ * `git@host:owner/repo.git` or the `https://host/owner/repo` form. The host
+ * name tells the kind unless `kind` names it; self-hosted instances under
+ * other names need it. `apiUrl` overrides the API address, e.g. for GitHub
+ * Enterprise or a local stand-in; one that is not an http(s) URL gives
+ * undefined.
+ */
+export function parseRemote(url: string, kind: CodeHostKind | 'auto' = 'auto', apiUrl?: string): CodeHostRemote | undefined {
+    if (apiUrl && !isHttpUrl(apiUrl)) return undefined;
+    let host: string;
+    let repoPath: string;
+    let secure = true;
+    const scp = url.match(/^(?:[^@/]+@)?([^:/]+):(?!\/)(.+)$/);
+    if (scp) {
+        host = scp[1];
+        repoPath = scp[2];
+    } else {
+        let parsed: URL;
+        try {
+            parsed = new URL(url);
+        } catch {
+            return undefined;
+        }
+        // The SSH port says nothing about where the web UI and API listen
+        host = /^https?:$/.test(parsed.protocol) ? parsed.host : parsed.hostname;
+        secure = parsed.protocol !== 'http:';
+        repoPath = decodeURIComponent(parsed.pathname);
+    }
+    const segments = repoPath.replace(/\.git\/?$/, '').split('/').filter(Boolean);
+    if (!host || segments.length < 2) return undefined;
+    const resolved = kind !== 'auto' ? kind : kindOf(host);
+    if (!resolved) return undefined;
+    const web = `${secure ? 'https' : 'http'}://${host}`;
+    return {
+        kind: resolved,
+        host,
+        owner: segments.slice(0, -1).join('/'),
+        repo: segments[segments.length - 1],
+        apiUrl: (apiUrl || defaultApiUrl(resolved, host, web)).replace(/\/+$/, '')
+    };
+}
+
+export function createCodeHost(remote: CodeHostRemote, token?: string, fetch: FetchLike = defaultFetch()): CodeHostProvider {
+    switch (remote.kind) {
+        case 'github':
+            return new GitHubHost(remote, fetch, token);
+        case 'gitlab':
+            return new GitLabHost(remote, fetch, token);
+        case 'gitea':
+            return new GiteaHost(remote, fetch, token);
+    }
+}
+
+function isHttpUrl(url: string): boolean {
+    try {
+        return /^https?:$/.test(new URL(url).protocol);
+    } catch {
+        return false;
+    }
+}
+
+function kindOf(host: string): CodeHostKind | undefined {
+    if (/github/i.test(host)) return 'github';
+    if (/gitlab/i.test(host)) return 'gitlab';
+    if (/gitea|codeberg|forgejo/i.test(host)) return 'gitea';
+    return undefined;
+}
+
+function defaultApiUrl(kind: CodeHostKind, host: string, web: string): string {
+    switch (kind) {
+        case 'github':
+            return host === 'github.com' ? 'https://api.github.com' : `${web}/api/v3`;
+        case 'gitlab':
+            return `${web}/api/v4`;
+        case 'gitea':
+            return `${web}/api/v1`;
+    }
+}
@@ -0,0 +1,33 @@
+import type { CodeHostProvider, CodeHostRemote, RemotePullRequest } from './codeHost';
+import { changedFiles, PullRequestFilePayload, PullRequestPayload } from './githubHost';
+import { FetchLike, requestJson } from './http';
+
+const MAX_PULL_REQUESTS = 30;
+
+/** Gitea, Forgejo and Codeberg, whose pull request API mirrors GitHub's. */
+export class GiteaHost implements CodeHostProvider {
+    constructor(readonly remote: CodeHostRemote, private readonly fetch: FetchLike, private readonly token?: string) {}
+
+    public async listOpenPullRequests(): Promise<RemotePullRequest[]> {
+        const pulls = await this.request<PullRequestPayload[]>(`/pulls?state=open&sort=recentupdate&limit=${MAX_PULL_REQUESTS}`);
+        return Promise.all(pulls.map(async pull => ({
+            number: pull.number,
+            title: pull.title,
+            description: pull.body || '',
+            author: pull.user?.login || 'unknown',
+            url: pull.html_url,
+            branch: pull.head?.ref || '',
+            baseBranch: pull.base?.ref || '',
+            changes: changedFiles(await this.request<PullRequestFilePayload[]>(`/pulls/${pull.number}/files?limit=100`))
+        })));
+    }
+
+    public async postReviewComment(number: number, body: string): Promise<void> {
+        await this.request<unknown>(`/pulls/${number}/reviews`, 'POST', { body, event: 'COMMENT' });
+    }
+
+    private request<T>(path: string, method?: string, body?: unknown): Promise<T> {
+        const { apiUrl, owner, repo } = this.remote;
+        return requestJson<T>(this.fetch, `${apiUrl}/repos/${owner}/${repo}${path}`, this.token ? { Authorization: `token ${this.token}` } : {}, method, body);
+    }
+}
@@ -0,0 +1,68 @@
+import type { CodeHostProvider, CodeHostRemote, FileChange, RemotePullRequest } from './codeHost';
+import { FetchLike, requestJson } from './http';
+
+const MAX_PULL_REQUESTS = 30;
+
+/** The fields read from a pull request; Gitea's API returns the same ones. */
+export interface PullRequestPayload {
+    number: number;
+    title: string;
+    body?: string | null;
+    user?: { login: string } | null;
+    html_url: string;
+    head?: { ref: string };
+    base?: { ref: string };
+}
+
+/** An entry of a pull request's `files`. */
+export interface PullRequestFilePayload {
+    filename: string;
+    status: string;
+    previous_filename?: string;
+}
+
+/** GitHub and GitHub Enterprise, through the REST API. */
+export class GitHubHost implements CodeHostProvider {
+    constructor(readonly remote: CodeHostRemote, private readonly fetch: FetchLike, private readonly token?: string) {}
+
+    public async listOpenPullRequests(): Promise<RemotePullRequest[]> {
+        const pulls = await this.request<PullRequestPayload[]>(`/pulls?state=open&sort=updated&direction=desc&per_page=${MAX_PULL_REQUESTS}`);
+        return Promise.all(pulls.map(async pull => ({
+            number: pull.number,
+            title: pull.title,
+            description: pull.body || '',
+            author: pull.user?.login || 'unknown',
+            url: pull.html_url,
+            branch: pull.head?.ref || '',
+            baseBranch: pull.base?.ref || '',
+            changes: changedFiles(await this.request<PullRequestFilePayload[]>(`/pulls/${pull.number}/files?per_page=100`))
+        })));
+    }
+
+    public async postReviewComment(number: number, body: string): Promise<void> {
+        await this.request<unknown>(`/pulls/${number}/reviews`, 'POST', { body, event: 'COMMENT' });
+    }
+
+    private request<T>(path: string, method?: string, body?: unknown): Promise<T> {
+        const { apiUrl, owner, repo } = this.remote;
+        return requestJson<T>(this.fetch, `${apiUrl}/repos/${owner}/${repo}${path}`, {
+            Accept: 'application/vnd.github+json',
+            'X-GitHub-Api-Version': '2022-11-28',
+            ...(this.token ? { Authorization: `Bearer ${this.token}` } : {})
+        }, method, body);
+    }
+}
+
+/** The `files` of a GitHub or Gitea pull request; both report renames with `previous_filename`. */
+export function changedFiles(files: PullRequestFilePayload[]): FileChange[] {
+    const changes: FileChange[] = [];
+    for (const file of files) {
+        if (file.status === 'renamed' && file.previous_filename) {
+            changes.push({ status: 'deleted', file: file.previous_filename }, { status: 'added', file: file.filename });
+        } else {
+            const status = file.status === 'added' ? 'added' : file.status === 'removed' || file.status === 'deleted' ? 'deleted' : 'modified';
+            changes.push({ status, file: file.filename });
+        }
+    }
+    return changes;
+}
@@ -0,0 +1,65 @@
+import type { CodeHostProvider, CodeHostRemote, FileChange, RemotePullRequest } from './codeHost';
+import { FetchLike, requestJson } from './http';
+
+const MAX_MERGE_REQUESTS = 30;
+
+/** The fields read from a merge request. */
+interface MergeRequestPayload {
+    iid: number;
+    title: string;
+    description?: string | null;
+    author?: { username: string } | null;
+    web_url: string;
+    source_branch?: string;
+    target_branch?: string;
+}
+
+/** An entry of a merge request's `diffs`. */
+interface MergeRequestDiffPayload {
+    old_path: string;
+    new_path: string;
+    new_file?: boolean;
+    renamed_file?: boolean;
+    deleted_file?: boolean;
+}
+
+/** GitLab.com and self-managed GitLab; merge requests stand in for pull requests. */
+export class GitLabHost implements CodeHostProvider {
+    constructor(readonly remote: CodeHostRemote, private readonly fetch: FetchLike, private readonly token?: string) {}
+
+    public async listOpenPullRequests(): Promise<RemotePullRequest[]> {
+        const requests = await this.request<MergeRequestPayload[]>(`/merge_requests?state=opened&order_by=updated_at&per_page=${MAX_MERGE_REQUESTS}`);
+        return Promise.all(requests.map(async request => ({
+            number: request.iid,
+            title: request.title,
+            description: request.description || '',
+            author: request.author?.username || 'unknown',
+            url: request.web_url,
+            branch: request.source_branch || '',
+            baseBranch: request.target_branch || '',
+            changes: diffChanges(await this.request<MergeRequestDiffPayload[]>(`/merge_requests/${request.iid}/diffs?per_page=100`))
+        })));
+    }
+
+    public async postReviewComment(number: number, body: string): Promise<void> {
+        await this.request<unknown>(`/merge_requests/${number}/notes`, 'POST', { body });
+    }
+
+    private request<T>(path: string, method?: string, body?: unknown): Promise<T> {
+        const { apiUrl, owner, repo } = this.remote;
+        const project = encodeURIComponent(`${owner}/${repo}`);
+        return requestJson<T>(this.fetch, `${apiUrl}/projects/${project}${path}`, this.token ? { 'PRIVATE-TOKEN': this.token } : {}, method, body);
+    }
+}
+
+function diffChanges(diffs: MergeRequestDiffPayload[]): FileChange[] {
+    const changes: FileChange[] = [];
+    for (const diff of diffs) {
+        if (diff.renamed_file) {
+            changes.push({ status: 'deleted', file: diff.old_path }, { status: 'added', file: diff.new_path });
+        } else {
+            changes.push({ status: diff.new_file ? 'added' : diff.deleted_file ? 'deleted' : 'modified', file: diff.deleted_file ? diff.old_path : diff.new_path });
+        }
+    }
+    return changes;
+}
@@ -0,0 +1,45 @@
+/** The subset of `fetch` the providers use, so tests and older runtimes can pass their own. */
+export type FetchLike = (url: string, init?: {
+    method?: string;
+    headers?: Record<string, string>;
+    body?: string;
+}) => Promise<{
+    ok: boolean;
+    status: number;
+    statusText: string;
+    json(): Promise<unknown>;
+    text(): Promise<string>;
+}>;
+
+/** A code host request that failed, with the HTTP status when there was a response. */
+export class CodeHostError extends Error {
+    constructor(message: string, readonly status?: number) {
+        super(message);
+        this.name = 'CodeHostError';
+    }
+}
+
+export function defaultFetch(): FetchLike {
+    const fetch = (globalThis as typeof globalThis & { fetch?: FetchLike }).fetch;
+    if (!fetch) throw new CodeHostError('This runtime has no fetch; code host requests need Node 18 or later');
+    return fetch;
+}
+
+/** Sends a JSON request and returns the parsed response body, taken to be a `T` as the API documents it. */
+export async function requestJson<T>(fetch: FetchLike, url: string, headers: Record<string, string>, method = 'GET', body?: unknown): Promise<T> {
+    let response: Awaited<ReturnType<FetchLike>>;
+    try {
+        response = await fetch(url, {
+            method,
+            headers: { Accept: 'application/json', ...headers, ...(body !== undefined ? { 'Content-Type': 'application/json' } : {}) },
+            ...(body !== undefined ? { body: JSON.stringify(body) } : {})
+        });
+    } catch (error) {
+        throw new CodeHostError(`${method} ${url} failed: ${error instanceof Error ? error.message : error}`);
+    }
+    if (!response.ok) {
+        const detail = (await response.text().catch(() => '')).slice(0, 200);
+        throw new CodeHostError(`${method} ${url} returned ${response.status} ${response.statusText}${detail ? `: ${detail}` : ''}`, response.status);
+    }
+    return (response.status === 204 ? undefined : await response.json()) as T;
+}
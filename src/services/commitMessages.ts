@@ -0,0 +1,119 @@
+import * as path from 'path';
+import type { AIService } from './AIService';
+import { parseConventionalCommit } from './changelog';
+import type { FileChange } from './codeHosts/codeHost';
+import { runGit } from './git';
+import type { ProjectDomain } from './ProjectAnalyzer';
+
+export interface CommitSuggestion {
+    message: string;
+    type: string;
+    scope?: string;
+    /** `ai` when the configured provider wrote the subject, `heuristic` when it came from the staged files alone. */
+    source: 'ai' | 'heuristic';
+    files: FileChange[];
+}
+
+const MAX_SUBJECT = 72;
+const MAX_PATCH = 12000;
+const STATUS: Record<string, FileChange['status']> = { A: 'added', D: 'deleted' };
+
+const SYSTEM_PROMPT = `You write git commit messages in the Conventional Commits format.
+Reply with the subject line only: type(scope): summary. Use one of feat, fix, docs, refactor, test, chore, perf, build, ci.
+Keep it under ${MAX_SUBJECT} characters, in the imperative mood, lowercase after the colon, with no trailing period.`;
+
+/**
+ * Proposes a Conventional Commit subject for what is staged in `cwd`. The
+ * scope is the domain most staged files belong to; type and summary come
+ * from the configured AI provider when it answers with a parseable subject,
+ * otherwise from the kinds of files staged.
+ */
+export async function suggestCommitMessage(cwd: string, domains: ProjectDomain[], ai?: AIService): Promise<CommitSuggestion> {
+    const files = await readStagedChanges(cwd);
+    if (files.length === 0) {
+        throw new Error('Nothing is staged; stage the changes to describe first');
+    }
+    const scope = scopeFor(files, domains);
+    const heuristic = heuristicMessage(files, scope);
+
+    if (ai && ai.getProvider() !== 'mock') {
+        const patch = await runGit(['diff', '--cached', '--no-color', '--no-ext-diff'], cwd);
+        const response = await ai.generateResponse({
+            query: [
+                `Staged files:\n${files.map(change => `${change.status} ${change.file}`).join('\n')}`,
+                scope ? `Scope to use: ${scope}` : 'Leave the scope out unless one is obvious.',
+                `Diff:\n${patch.length > MAX_PATCH ? `${patch.slice(0, MAX_PATCH)}\n[diff truncated]` : patch}`
+            ].join('\n\n'),
+            context: [],
+            systemPrompt: SYSTEM_PROMPT
+        });
+        // A failing provider falls back to the mock one, whose text never parses as a subject
+        const subject = response.provider === 'mock' ? undefined : firstSubject(response.content);
+        if (subject) {
+            return { message: subject.message, type: subject.type, scope: subject.scope, source: 'ai', files };
+        }
+    }
+    return { ...heuristic, source: 'heuristic', files };
+}
+
+async function readStagedChanges(cwd: string): Promise<FileChange[]> {
+    const output = await runGit(['diff', '--cached', '--name-status', '--no-renames', '-z'], cwd);
+    const fields = output.split('\0').filter(Boolean);
+    const changes: FileChange[] = [];
+    for (let i = 0; i + 1 < fields.length; i += 2) {
+        changes.push({ status: STATUS[fields[i][0]] || 'modified', file: fields[i + 1] });
+    }
+    return changes;
+}
+
+/** The slug of the domain holding most of the staged files, if one holds at least half of them. */
+function scopeFor(files: FileChange[], domains: ProjectDomain[]): string | undefined {
+    let best: { domain: ProjectDomain; count: number } | undefined;
+    for (const domain of domains) {
+        const owned = new Set(domain.files.map(file => file.split(path.sep).join('/')));
+        const count = files.filter(change => owned.has(change.file)).length;
+        if (count > 0 && (!best || count > best.count)) best = { domain, count };
+    }
+    if (!best || best.count * 2 < files.length) return undefined;
+    return best.domain.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || undefined;
+}
+
+function heuristicMessage(files: FileChange[], scope?: string): { message: string; type: string; scope?: string } {
+    const paths = files.map(change => change.file);
+    const every = (test: (file: string) => boolean) => paths.every(test);
+    const isTest = (file: string) => /(^|\/)(tests?|__tests__|spec)\/|\.(test|spec)\.[^/]+$|_test\.(go|py)$/.test(file);
+
+    let type: string;
+    if (every(file => /\.(md|mdx|rst|txt)$/i.test(file) || file.startsWith('docs/'))) type = 'docs';
+    else if (every(isTest)) type = 'test';
+    else if (every(file => file.startsWith('.github/workflows/') || /^\.(gitlab-ci|travis)\.ya?ml$/.test(file))) type = 'ci';
+    else if (every(file => /(^|\/)(package(-lock)?\.json|yarn\.lock|pnpm-lock\.yaml|requirements[^/]*\.txt|go\.(mod|sum)|Cargo\.(toml|lock))$/.test(file))) type = 'build';
+    else if (files.some(change => change.status === 'added' && !isTest(change.file))) type = 'feat';
+    else if (every(file => /(^|\/)(\.[^/]+|[^/]*config[^/]*)$/i.test(file))) type = 'chore';
+    else type = 'refactor';
+
+    const verb = files.every(change => change.status === 'added') ? 'add'
+        : files.every(change => change.status === 'deleted') ? 'remove'
+        : 'update';
+    const names = [...new Set(paths.map(file => path.posix.basename(file).replace(/\.[^.]+$/, '')))];
+    const what = names.length <= 2 ? names.join(' and ') : `${names.slice(0, 2).join(', ')} and ${names.length - 2} more`;
+
+    const prefix = `${type}${scope ? `(${scope})` : ''}: `;
+    return { message: truncate(`${prefix}${verb} ${what}`), type, scope };
+}
+
+/** The first line of a reply that parses as a Conventional Commit subject, stripped of quotes and list markers. */
+function firstSubject(content: string): { message: string; type: string; scope?: string } | undefined {
+    for (const raw of content.split('\n')) {
+        const line = raw.trim().replace(/^([-*]|\d+\.)\s+/, '').replace(/^[`"']+|[`"']+$/g, '').replace(/\.$/, '');
+        const commit = parseConventionalCommit(line, '');
+        if (commit) {
+            return { message: truncate(line), type: commit.type, scope: commit.scope };
+        }
+    }
+    return undefined;
+}
+
+function truncate(subject: string): string {
+    return subject.length <= MAX_SUBJECT ? subject : subject.slice(0, MAX_SUBJECT + 1).replace(/\s+\S*$/, '');
+}
@@ -0,0 +1,375 @@
+import * as path from 'path';
+import type { ProjectSource } from './ProjectAnalyzer';
+
+/** A directory of code files, the unit the architecture is described in. */
+export interface GraphModule {
+    name: string;
+    files: number;
+    /** 0 for modules that depend on nothing else in the project, growing towards entry points. */
+    layer: number;
+    /** Root of the package (manifest directory) the module belongs to. */
+    package: string;
+}
+
+export interface ModuleDependency {
+    from: string;
+    to: string;
+    /** Number of file-level imports behind the dependency. */
+    imports: number;
+}
+
+export interface PackageBoundary {
+    root: string;
+    manifest: string;
+    modules: string[];
+    /** Other packages this one imports from by path. */
+    dependsOn: string[];
+}
+
+export interface DependencyGraph {
+    /** Project files each code file imports, resolved from its import specifiers. */
+    files: Record<string, string[]>;
+    modules: GraphModule[];
+    dependencies: ModuleDependency[];
+    /** Groups of modules that import each other in a loop. */
+    cycles: string[][];
+    entryPoints: string[];
+    packages: PackageBoundary[];
+}
+
+const CODE_FILE = /\.(ts|tsx|js|jsx|mjs|cjs|vue|py|go|java|kt|rs)$/;
+const SCRIPT_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs', '.vue', '.d.ts'];
+const TEST_FILE = /(^|\/)(tests?|__tests__|spec)\/|\.(test|spec)\.\w+$|_test\.(go|py)$|(^|\/)test_\w+\.py$/;
+const MANIFESTS = ['package.json', 'pyproject.toml', 'setup.py', 'requirements.txt', 'go.mod', 'Cargo.toml', 'pom.xml', 'build.gradle', 'build.gradle.kts'];
+const ENTRY_STEMS = ['main', 'app', 'server', 'cli', 'extension', '__main__', 'manage', 'wsgi', 'asgi'];
+
+export function emptyDependencyGraph(): DependencyGraph {
+    return { files: {}, modules: [], dependencies: [], cycles: [], entryPoints: [], packages: [] };
+}
+
+/**
+ * Builds the project's import graph from the specifiers scanned per file:
+ * file-level edges, their roll-up into directory modules, and the layers,
+ * cycles, entry points and package boundaries derived from those.
+ */
+export async function buildDependencyGraph(source: ProjectSource): Promise<DependencyGraph> {
+    const codeFiles = source.files.filter(file => CODE_FILE.test(file) && !file.endsWith('.d.ts') && !TEST_FILE.test(file));
+    const resolver = await ImportResolver.create(source, codeFiles);
+
+    const files: Record<string, string[]> = {};
+    for (const file of codeFiles) {
+        const targets = new Set<string>();
+        for (const specifier of source.importsFor(file)) {
+            resolver.resolve(file, specifier).forEach(target => target !== file && targets.add(target));
+        }
+        files[file] = Array.from(targets).sort();
+    }
+
+    const packages = findPackages(source.files);
+    const packageOf = (dir: string) => packages.find(pkg => containsDir(pkg.root, dir))?.root ?? '.';
+    const moduleOf = (file: string) => path.posix.dirname(file);
+
+    // Roll file edges up into module edges
+    const weights = new Map<string, number>();
+    const moduleFiles = new Map<string, number>();
+    for (const file of codeFiles) {
+        const from = moduleOf(file);
+        moduleFiles.set(from, (moduleFiles.get(from) || 0) + 1);
+        for (const target of files[file]) {
+            const to = moduleOf(target);
+            if (to === from) continue;
+            const key = `${from}\n${to}`;
+            weights.set(key, (weights.get(key) || 0) + 1);
+        }
+    }
+    const dependencies: ModuleDependency[] = Array.from(weights, ([key, imports]) => {
+        const [from, to] = key.split('\n');
+        return { from, to, imports };
+    }).sort((a, b) => a.from.localeCompare(b.from) || a.to.localeCompare(b.to));
+
+    const moduleNames = Array.from(moduleFiles.keys()).sort();
+    const components = stronglyConnected(moduleNames, dependencies);
+    const layers = assignLayers(moduleNames, dependencies, components);
+
+    for (const pkg of packages) {
+        pkg.modules = moduleNames.filter(name => packageOf(name) === pkg.root);
+        const targets = new Set<string>();
+        for (const dep of dependencies) {
+            if (pkg.modules.includes(dep.from) && packageOf(dep.to) !== pkg.root) targets.add(packageOf(dep.to));
+        }
+        pkg.dependsOn = Array.from(targets).sort();
+    }
+
+    return {
+        files,
+        modules: moduleNames.map(name => ({ name, files: moduleFiles.get(name)!, layer: layers.get(name)!, package: packageOf(name) })),
+        dependencies,
+        cycles: components.filter(component => component.length > 1),
+        entryPoints: await findEntryPoints(source, codeFiles, files, packages),
+        packages: packages.filter(pkg => pkg.modules.length > 0)
+    };
+}
+
+/**
+ * Names the architecture the graph shows: several packages deployed on their
+ * own are microservices, controllers depending on models is MVC, and an
+ * acyclic stack of at least three module layers is a layered architecture.
+ */
+export function describeArchitecture(graph: DependencyGraph): string {
+    if (graph.packages.length >= 2) {
+        const independent = graph.packages.every(pkg => pkg.dependsOn.length === 0);
+        const servers = graph.packages.filter(pkg => graph.entryPoints.some(entry =>
+            pkg.modules.includes(path.posix.dirname(entry)) && /(^|\/)(main|app|server|manage|wsgi|asgi)\.\w+$/.test(entry)));
+        return independent && servers.length >= 2 ? 'Microservices' : 'Modular Monorepo';
+    }
+
+    const lastSegment = (name: string) => path.posix.basename(name).toLowerCase();
+    const controllers = graph.modules.filter(m => /^(controllers?|views?|routes?|handlers?)$/.test(lastSegment(m.name))).map(m => m.name);
+    const models = graph.modules.filter(m => /^(models?|entities|schemas?)$/.test(lastSegment(m.name))).map(m => m.name);
+    if (graph.dependencies.some(dep => controllers.includes(dep.from) && models.includes(dep.to))) {
+        return 'MVC';
+    }
+
+    const layerCount = graph.modules.reduce((max, m) => Math.max(max, m.layer + 1), 0);
+    const cyclic = graph.cycles.reduce((sum, cycle) => sum + cycle.length, 0);
+    if (layerCount >= 3 && cyclic <= graph.modules.length * 0.2) {
+        return 'Layered Architecture';
+    }
+    return 'Monolithic';
+}
+
+function findPackages(files: string[]): PackageBoundary[] {
+    const packages = new Map<string, PackageBoundary>();
+    for (const file of files) {
+        const baseName = path.posix.basename(file);
+        if (!MANIFESTS.includes(baseName)) continue;
+        const root = path.posix.dirname(file);
+        if (!packages.has(root)) packages.set(root, { root, manifest: file, modules: [], dependsOn: [] });
+    }
+    // Deepest first, so a module belongs to its innermost package
+    const depth = (root: string) => root === '.' ? 0 : root.split('/').length;
+    return Array.from(packages.values()).sort((a, b) => depth(b.root) - depth(a.root) || a.root.localeCompare(b.root));
+}
+
+function containsDir(root: string, dir: string): boolean {
+    return root === '.' || dir === root || dir.startsWith(root + '/');
+}
+
+/**
+ * Files nothing else imports that look like where execution starts: `main`,
+ * `server`, `cli` and the like, `index` files at a package root, and the
+ * `main`/`bin` targets of package.json.
+ */
+async function findEntryPoints(source: ProjectSource, codeFiles: string[], files: Record<string, string[]>, packages: PackageBoundary[]): Promise<string[]> {
+    const imported = new Set(Object.values(files).flat());
+    const declared = new Set<string>();
+    for (const pkg of packages.filter(p => path.posix.basename(p.manifest) === 'package.json')) {
+        const content = await source.readFile(pkg.manifest);
+        if (!content) continue;
+        try {
+            const manifest = JSON.parse(Buffer.from(content).toString('utf-8'));
+            const bins = typeof manifest.bin === 'string' ? [manifest.bin] : Object.values(manifest.bin || {});
+            // Built outputs (`out/cli.js`) usually come from a same-named source file
+            [manifest.main, ...bins].filter((value): value is string => typeof value === 'string')
+                .forEach(value => declared.add(`${pkg.root}\n${path.posix.basename(value).replace(/\.\w+$/, '')}`));
+        } catch {
+            // Malformed package.json: no declared entry points
+        }
+    }
+
+    return codeFiles.filter(file => {
+        if (imported.has(file)) return false;
+        const stem = path.posix.basename(file).replace(/\.\w+$/, '');
+        const dir = path.posix.dirname(file);
+        const pkgRoot = packages.find(p => containsDir(p.root, dir))?.root ?? '.';
+        if (declared.has(`${pkgRoot}\n${stem}`)) return true;
+        if (ENTRY_STEMS.includes(stem) || (stem === 'lib' && file.endsWith('.rs'))) return true;
+        return stem === 'index' && (dir === pkgRoot || dir === path.posix.join(pkgRoot, 'src'));
+    }).sort();
+}
+
+/** Tarjan's algorithm; every module ends up in exactly one component. */
+function stronglyConnected(nodes: string[], edges: ModuleDependency[]): string[][] {
+    const adjacency = new Map<string, string[]>(nodes.map(node => [node, []]));
+    edges.forEach(edge => adjacency.get(edge.from)?.push(edge.to));
+
+    let counter = 0;
+    const index = new Map<string, number>();
+    const lowLink = new Map<string, number>();
+    const stack: string[] = [];
+    const onStack = new Set<string>();
+    const components: string[][] = [];
+
+    const visit = (node: string) => {
+        index.set(node, counter);
+        lowLink.set(node, counter);
+        counter++;
+        stack.push(node);
+        onStack.add(node);
+        for (const next of adjacency.get(node) || []) {
+            if (!index.has(next)) {
+                visit(next);
+                lowLink.set(node, Math.min(lowLink.get(node)!, lowLink.get(next)!));
+            } else if (onStack.has(next)) {
+                lowLink.set(node, Math.min(lowLink.get(node)!, index.get(next)!));
+            }
+        }
+        if (lowLink.get(node) === index.get(node)) {
+            const component: string[] = [];
+            let member: string;
+            do {
+                member = stack.pop()!;
+                onStack.delete(member);
+                component.push(member);
+            } while (member !== node);
+            components.push(component.sort());
+        }
+    };
+    nodes.forEach(node => index.has(node) || visit(node));
+    return components;
+}
+
+/** Longest dependency chain below each module, with cycles collapsed into one layer. */
+function assignLayers(nodes: string[], edges: ModuleDependency[], components: string[][]): Map<string, number> {
+    const componentOf = new Map<string, number>();
+    components.forEach((component, i) => component.forEach(node => componentOf.set(node, i)));
+    const dependsOn = components.map(() => new Set<number>());
+    for (const edge of edges) {
+        const from = componentOf.get(edge.from)!;
+        const to = componentOf.get(edge.to);
+        if (to !== undefined && to !== from) dependsOn[from].add(to);
+    }
+
+    // Tarjan emits components in reverse topological order: dependencies come first
+    const componentLayer: number[] = [];
+    components.forEach((_, i) => {
+        componentLayer[i] = Math.max(-1, ...Array.from(dependsOn[i], dep => componentLayer[dep])) + 1;
+    });
+    return new Map(nodes.map(node => [node, componentLayer[componentOf.get(node)!]]));
+}
+
+/** Maps import specifiers to project files, per language. */
+class ImportResolver {
+    private readonly fileSet: Set<string>;
+    private readonly filesByDir = new Map<string, string[]>();
+    /** Dotted-module suffix (`app/models/user`) to files, for Python and JVM imports. */
+    private readonly bySuffix = new Map<string, string[]>();
+
+    private constructor(files: string[], private readonly goModules: Array<{ root: string; path: string }>, private readonly crateRoots: string[]) {
+        this.fileSet = new Set(files);
+        for (const file of files) {
+            const dir = path.posix.dirname(file);
+            if (!this.filesByDir.has(dir)) this.filesByDir.set(dir, []);
+            this.filesByDir.get(dir)!.push(file);
+
+            if (/\.(py|java|kt)$/.test(file)) {
+                const segments = file.replace(/(\/__init__)?\.\w+$/, '').split('/');
+                for (let i = 0; i < segments.length; i++) {
+                    const suffix = segments.slice(i).join('/');
+                    if (!this.bySuffix.has(suffix)) this.bySuffix.set(suffix, []);
+                    this.bySuffix.get(suffix)!.push(file);
+                }
+            }
+        }
+    }
+
+    static async create(source: ProjectSource, files: string[]): Promise<ImportResolver> {
+        const goModules: Array<{ root: string; path: string }> = [];
+        const crateRoots: string[] = [];
+        for (const file of source.files) {
+            const baseName = path.posix.basename(file);
+            if (baseName === 'go.mod') {
+                const content = await source.readFile(file);
+                const modulePath = content && Buffer.from(content).toString('utf-8').match(/^module\s+(\S+)/m)?.[1];
+                if (modulePath) goModules.push({ root: path.posix.dirname(file), path: modulePath });
+            } else if (baseName === 'Cargo.toml') {
+                crateRoots.push(path.posix.join(path.posix.dirname(file), 'src'));
+            }
+        }
+        return new ImportResolver(files, goModules, crateRoots);
+    }
+
+    resolve(from: string, specifier: string): string[] {
+        const ext = path.posix.extname(from);
+        if (SCRIPT_EXTENSIONS.includes(ext)) return this.resolveScript(from, specifier);
+        if (ext === '.py') return this.resolvePython(from, specifier);
+        if (ext === '.go') return this.resolveGo(specifier);
+        if (ext === '.java' || ext === '.kt') return this.resolveDotted(specifier.split('.'));
+        if (ext === '.rs') return this.resolveRust(from, specifier);
+        return [];
+    }
+
+    private resolveScript(from: string, specifier: string): string[] {
+        let base: string;
+        if (specifier.startsWith('.')) {
+            base = path.posix.join(path.posix.dirname(from), specifier);
+        } else if (/^[@~]\//.test(specifier)) {
+            // The `@/` alias of Vue and Nuxt templates points at src/
+            base = path.posix.join('src', specifier.slice(2));
+        } else {
+            return [];
+        }
+        // TypeScript ESM imports name the emitted `.js` file
+        const stripped = base.replace(/\.(js|jsx|mjs|cjs)$/, '');
+        const candidates = [base, ...SCRIPT_EXTENSIONS.map(e => stripped + e), ...SCRIPT_EXTENSIONS.map(e => `${stripped}/index${e}`)];
+        const match = candidates.find(candidate => this.fileSet.has(candidate));
+        return match ? [match] : [];
+    }
+
+    private resolvePython(from: string, specifier: string): string[] {
+        const relative = specifier.match(/^(\.+)(.*)$/);
+        if (relative) {
+            let dir = path.posix.dirname(from);
+            for (let i = 1; i < relative[1].length; i++) dir = path.posix.dirname(dir);
+            const modulePath = relative[2] ? path.posix.join(dir, relative[2].replace(/\./g, '/')) : dir;
+            return [`${modulePath}.py`, `${modulePath}/__init__.py`].filter(candidate => this.fileSet.has(candidate)).slice(0, 1);
+        }
+        return this.resolveDotted(specifier.split('.'));
+    }
+
+    /** `a.b.C`: the longest prefix that names a module file, closest to the root. */
+    private resolveDotted(segments: string[]): string[] {
+        for (let length = segments.length; length > 0; length--) {
+            const matches = this.bySuffix.get(segments.slice(0, length).join('/'));
+            if (matches && matches.length > 0) {
+                return [matches.slice().sort((a, b) => a.split('/').length - b.split('/').length || a.localeCompare(b))[0]];
+            }
+        }
+        // Wildcard imports name a package directory
+        const dir = segments.join('/');
+        return Array.from(this.filesByDir.entries()).find(([name]) => name === dir || name.endsWith('/' + dir))?.[1] || [];
+    }
+
+    private resolveGo(specifier: string): string[] {
+        for (const module of this.goModules) {
+            if (specifier !== module.path && !specifier.startsWith(module.path + '/')) continue;
+            const dir = path.posix.normalize(path.posix.join(module.root, specifier.slice(module.path.length)));
+            return (this.filesByDir.get(dir) || []).filter(file => file.endsWith('.go'));
+        }
+        return [];
+    }
+
+    private resolveRust(from: string, specifier: string): string[] {
+        const segments = specifier.split('::');
+        let dir: string | undefined;
+        if (segments[0] === 'crate') {
+            dir = this.crateRoots.find(root => from.startsWith(root + '/'));
+            segments.shift();
+        } else if (segments[0] === 'self' || segments[0] === 'super') {
+            const stem = path.posix.basename(from, '.rs');
+            dir = ['mod', 'lib', 'main'].includes(stem) ? path.posix.dirname(from) : path.posix.join(path.posix.dirname(from), stem);
+            while (segments[0] === 'self' || segments[0] === 'super') {
+                if (segments.shift() === 'super') dir = path.posix.dirname(dir);
+            }
+        }
+        if (dir === undefined) return [];
+
+        // `use crate::a::b::Item`: the item name is not a file, so try the longest module path first
+        for (let length = segments.length; length > 0; length--) {
+            const modulePath = path.posix.join(dir, ...segments.slice(0, length));
+            const match = [`${modulePath}.rs`, `${modulePath}/mod.rs`].find(candidate => this.fileSet.has(candidate));
+            if (match) return [match];
+        }
+        return [];
+    }
+}
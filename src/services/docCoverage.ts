@@ -0,0 +1,112 @@
+import * as path from 'path';
+import type { CodeItem } from './ProjectAnalyzer';
+
+export interface CoverageStats {
+    /** Weighted share of documented symbols, 0-100. */
+    coverage: number;
+    documented: number;
+    total: number;
+}
+
+export interface CoverageReport {
+    overall: CoverageStats;
+    byDomain: Record<string, CoverageStats>;
+    byDirectory: Record<string, CoverageStats>;
+    /**
+     * Env vars, scripts and config files, unweighted. They count as documented
+     * when a doc mentions them rather than by a comment, so they are kept out
+     * of the symbol figures above.
+     */
+    configs: CoverageStats;
+}
+
+export interface CoverageOptions {
+    /** Path of an item relative to the workspace folder. */
+    relativePath(item: CodeItem): string;
+    /** Domain a relative path belongs to, if domains are tracked. */
+    domainOf?(relativePath: string): string;
+}
+
+const PRIORITY_WEIGHTS: Record<CodeItem['priority'], number> = { high: 3, medium: 2, low: 1 };
+
+/**
+ * How much a symbol counts towards coverage: routes outweigh the module API,
+ * which outweighs internals, and private or protected members count for less
+ * than public ones.
+ */
+export function symbolWeight(item: Pick<CodeItem, 'priority' | 'exported' | 'visibility'>): number {
+    let weight = PRIORITY_WEIGHTS[item.priority] ?? 1;
+    if (item.visibility === 'private') weight *= 0.25;
+    else if (item.visibility === 'protected') weight *= 0.5;
+    // Extractors that cannot tell exports apart leave `exported` unset; treat those as public
+    if (item.exported === false) weight *= 0.5;
+    return weight;
+}
+
+/** Weighted documentation coverage of code items, overall and per domain and directory, with config items on their own. */
+export function computeCoverage(items: CodeItem[], options: CoverageOptions): CoverageReport {
+    const overall = new CoverageAccumulator();
+    const configs = new CoverageAccumulator(() => 1);
+    const byDomain = new Map<string, CoverageAccumulator>();
+    const byDirectory = new Map<string, CoverageAccumulator>();
+    const bucket = (map: Map<string, CoverageAccumulator>, key: string) => {
+        if (!map.has(key)) map.set(key, new CoverageAccumulator());
+        return map.get(key)!;
+    };
+
+    for (const item of items) {
+        if (item.type === 'config') {
+            configs.add(item);
+            continue;
+        }
+        const relativePath = options.relativePath(item).replace(/\\/g, '/');
+        const directory = path.posix.dirname(relativePath);
+        overall.add(item);
+        bucket(byDirectory, directory === '' ? '.' : directory).add(item);
+        if (options.domainOf) {
+            bucket(byDomain, options.domainOf(relativePath)).add(item);
+        }
+    }
+
+    return {
+        overall: overall.toStats(),
+        byDomain: toRecord(byDomain),
+        byDirectory: toRecord(byDirectory),
+        configs: configs.toStats()
+    };
+}
+
+class CoverageAccumulator {
+    private documentedWeight = 0;
+    private totalWeight = 0;
+    private documented = 0;
+    private total = 0;
+
+    constructor(private readonly weigh: (item: CodeItem) => number = symbolWeight) {}
+
+    add(item: CodeItem): void {
+        const weight = this.weigh(item);
+        this.total++;
+        this.totalWeight += weight;
+        if (item.hasDocumentation) {
+            this.documented++;
+            this.documentedWeight += weight;
+        }
+    }
+
+    toStats(): CoverageStats {
+        return {
+            coverage: this.totalWeight > 0 ? Math.round((this.documentedWeight / this.totalWeight) * 100) : 0,
+            documented: this.documented,
+            total: this.total
+        };
+    }
+}
+
+function toRecord(map: Map<string, CoverageAccumulator>): Record<string, CoverageStats> {
+    const record: Record<string, CoverageStats> = {};
+    for (const key of Array.from(map.keys()).sort()) {
+        record[key] = map.get(key)!.toStats();
+    }
+    return record;
+}
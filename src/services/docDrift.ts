@@ -0,0 +1,269 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { isMaintainedDoc } from './docReferences';
+import { runGit } from './git';
+import type { CodeItem } from './ProjectAnalyzer';
+
+export interface DriftCommit {
+    hash: string;
+    /** Committer date, ISO 8601. */
+    date: string;
+    author: string;
+    subject: string;
+    /** The section's code files this commit touched. */
+    files: string[];
+    added: number;
+    deleted: number;
+}
+
+/** A doc section whose code has moved on since the section was last edited. */
+export interface DocDrift {
+    /** Folder-relative path of the doc. */
+    doc: string;
+    /** Heading text; the doc name for text above the first heading. */
+    section: string;
+    /** Line of the heading, 1-based. */
+    line: number;
+    /** The newest commit among the section's lines according to `git blame`. */
+    lastEdit: { hash: string; date: string };
+    /** Code files the section references, folder-relative. */
+    files: string[];
+    /** Commits after `lastEdit` that changed those files, newest first. */
+    commits: DriftCommit[];
+    linesChanged: number;
+}
+
+export interface DocDriftOptions {
+    /** Added plus deleted lines in the referenced files that count as significant drift. */
+    minChangedLines?: number;
+}
+
+interface DocSection {
+    heading: string;
+    start: number;
+    end: number;
+    files: Set<string>;
+}
+
+const DEFAULT_MIN_CHANGED_LINES = 20;
+const UNCOMMITTED = /^0{40}$/;
+const INLINE_CODE = /(`+)([^`]+?)\1/g;
+const LINK_TARGET = /!?\[[^\]]*\]\(\s*<?([^)\s>]+)>?(?:\s+"[^"]*")?\s*\)/g;
+
+/**
+ * Finds doc sections that fell behind their code. Each section of a tracked
+ * Markdown doc is mapped to the code files it references (paths, links and
+ * the symbols named in inline code, looked up in `items`); `git blame` tells
+ * when the section was last edited, and `git log` which commits changed those
+ * files since. Sections with uncommitted edits are being worked on and are
+ * skipped, as is everything outside a git repository.
+ */
+export async function findDocDrift(root: string, items: CodeItem[], options: DocDriftOptions = {}): Promise<DocDrift[]> {
+    let tracked: string[];
+    try {
+        tracked = (await runGit(['ls-files', '-z'], root)).split('\0').filter(Boolean);
+    } catch {
+        return [];
+    }
+    const files = new Set(tracked);
+    const symbols = symbolFiles(root, items, files);
+    const minChangedLines = options.minChangedLines ?? DEFAULT_MIN_CHANGED_LINES;
+    // Sections that reference the same files since the same commit share one `git log`
+    const logs = new Map<string, Promise<DriftCommit[]>>();
+    const drift: DocDrift[] = [];
+
+    for (const doc of tracked.filter(isMaintainedDoc)) {
+        let text: string;
+        let blame: BlameLine[];
+        try {
+            text = await fs.promises.readFile(path.join(root, doc), 'utf-8');
+            blame = parseBlame(await runGit(['blame', '--line-porcelain', '--', doc], root));
+        } catch {
+            continue;
+        }
+        for (const section of splitSections(doc, text, files, symbols)) {
+            if (section.files.size === 0) continue;
+            const lines = blame.slice(section.start - 1, section.end);
+            if (lines.length === 0 || lines.some(line => UNCOMMITTED.test(line.hash))) continue;
+            const lastEdit = lines.reduce((newest, line) => line.time > newest.time ? line : newest);
+            const sectionFiles = Array.from(section.files).sort();
+            const key = `${lastEdit.hash}\0${sectionFiles.join('\0')}`;
+            if (!logs.has(key)) logs.set(key, commitsSince(root, lastEdit.hash, sectionFiles));
+            const commits = await logs.get(key)!;
+            const linesChanged = commits.reduce((sum, commit) => sum + commit.added + commit.deleted, 0);
+            if (commits.length === 0 || linesChanged < minChangedLines) continue;
+            drift.push({
+                doc,
+                section: section.heading || path.posix.basename(doc),
+                line: section.start,
+                lastEdit: { hash: lastEdit.hash, date: new Date(lastEdit.time * 1000).toISOString() },
+                files: sectionFiles,
+                commits,
+                linesChanged
+            });
+        }
+    }
+    return drift.sort((a, b) => b.linesChanged - a.linesChanged);
+}
+
+/** A doc section and the code files it references. */
+export interface DocSectionReference {
+    doc: string;
+    section: string;
+    line: number;
+    files: string[];
+}
+
+/**
+ * The sections of each tracked Markdown doc that reference code, mapped the
+ * same way as for `findDocDrift`. Empty outside a git repository.
+ */
+export async function findDocSections(root: string, items: CodeItem[]): Promise<DocSectionReference[]> {
+    let tracked: string[];
+    try {
+        tracked = (await runGit(['ls-files', '-z'], root)).split('\0').filter(Boolean);
+    } catch {
+        return [];
+    }
+    const files = new Set(tracked);
+    const symbols = symbolFiles(root, items, files);
+    const references: DocSectionReference[] = [];
+    for (const doc of tracked.filter(isMaintainedDoc)) {
+        let text: string;
+        try {
+            text = await fs.promises.readFile(path.join(root, doc), 'utf-8');
+        } catch {
+            continue;
+        }
+        for (const section of splitSections(doc, text, files, symbols)) {
+            if (section.files.size === 0) continue;
+            references.push({
+                doc,
+                section: section.heading || path.posix.basename(doc),
+                line: section.start,
+                files: Array.from(section.files).sort()
+            });
+        }
+    }
+    return references;
+}
+
+interface BlameLine {
+    hash: string;
+    /** Committer time, seconds since the epoch. */
+    time: number;
+}
+
+/** One entry per line of the file, from `git blame --line-porcelain`. */
+function parseBlame(output: string): BlameLine[] {
+    const lines: BlameLine[] = [];
+    let hash = '';
+    let time = 0;
+    for (const line of output.split('\n')) {
+        const header = line.match(/^([0-9a-f]{40}) \d+ \d+/);
+        if (header) hash = header[1];
+        else if (line.startsWith('committer-time ')) time = Number(line.slice('committer-time '.length));
+        else if (line.startsWith('\t')) lines.push({ hash, time });
+    }
+    return lines;
+}
+
+/** Sections by heading, each with the tracked code files its text points at. */
+function splitSections(doc: string, text: string, files: Set<string>, symbols: Map<string, string[]>): DocSection[] {
+    const sections: DocSection[] = [];
+    let current: DocSection = { heading: '', start: 1, end: 0, files: new Set() };
+    let fence: string | undefined;
+    const lines = text.split('\n');
+    lines.forEach((line, index) => {
+        const fenceMatch = line.match(/^\s*(`{3,}|~{3,})/);
+        if (fenceMatch && (!fence || fenceMatch[1].startsWith(fence))) {
+            fence = fence ? undefined : fenceMatch[1];
+            return;
+        }
+        const heading = !fence && line.match(/^#{1,6}\s+(.+?)\s*#*\s*$/);
+        if (heading) {
+            current.end = index;
+            sections.push(current);
+            current = { heading: heading[1], start: index + 1, end: 0, files: new Set() };
+            return;
+        }
+        if (fence) return;
+        const add = (file: string | undefined) => {
+            if (file && file !== doc && !isMaintainedDoc(file)) current.files.add(file);
+        };
+        for (const match of line.matchAll(LINK_TARGET)) add(trackedFile(doc, match[1].replace(/[?#].*$/, ''), files));
+        for (const match of line.matchAll(INLINE_CODE)) {
+            const code = match[2].trim();
+            const file = trackedFile(doc, code.replace(/:\d+(:\d+)?$/, ''), files);
+            add(file);
+            const name = file ? undefined : symbolName(code);
+            if (name) (symbols.get(name) ?? symbols.get(name.split('.')[0]))?.forEach(add);
+        }
+    });
+    current.end = lines.length;
+    sections.push(current);
+    return sections;
+}
+
+/** A path relative to the doc or the project root, if it names a tracked file. */
+function trackedFile(doc: string, target: string, files: Set<string>): string | undefined {
+    if (!target || /^([a-z][\w+.-]*:|#|\/)/i.test(target)) return undefined;
+    const candidates = [path.posix.normalize(path.posix.join(path.posix.dirname(doc), target)), path.posix.normalize(target)];
+    return candidates.find(candidate => files.has(candidate));
+}
+
+/** `UserService.create()` → `UserService.create`; undefined for code that is not a symbol. */
+function symbolName(code: string): string | undefined {
+    const match = code.match(/^(?:new\s+)?([A-Za-z_$][\w$]*(?:\.[A-Za-z_$][\w$]*)*)(\(.*\))?$/);
+    return match ? match[1] : undefined;
+}
+
+/**
+ * Files declaring each project symbol, by full name (`UserService.create`)
+ * and by owner (`UserService`). Names declared in more than three files are
+ * too common to tell where a doc points.
+ */
+function symbolFiles(root: string, items: CodeItem[], tracked: Set<string>): Map<string, string[]> {
+    const byName = new Map<string, Set<string>>();
+    for (const item of items) {
+        if (item.type === 'config') continue;
+        const file = path.posix.relative(root.replace(/\\/g, '/'), item.filePath.replace(/\\/g, '/'));
+        if (!tracked.has(file)) continue;
+        for (const name of new Set([item.name, item.name.split('.')[0]])) {
+            const declared = byName.get(name) || new Set<string>();
+            declared.add(file);
+            byName.set(name, declared);
+        }
+    }
+    const symbols = new Map<string, string[]>();
+    for (const [name, declared] of byName) {
+        if (declared.size <= 3) symbols.set(name, Array.from(declared));
+    }
+    return symbols;
+}
+
+/** Commits after `since` touching any of `files`, with their line counts in those files. */
+async function commitsSince(root: string, since: string, files: string[]): Promise<DriftCommit[]> {
+    let output: string;
+    try {
+        output = await runGit(['log', '--no-merges', '--format=%x1e%H%x09%cI%x09%an%x09%s', '--numstat', `${since}..HEAD`, '--', ...files], root);
+    } catch {
+        return [];
+    }
+    const commits: DriftCommit[] = [];
+    for (const record of output.split('\x1e').filter(part => part.trim())) {
+        const [header, ...stats] = record.split('\n');
+        const [hash, date, author, ...subject] = header.split('\t');
+        const commit: DriftCommit = { hash, date, author, subject: subject.join('\t'), files: [], added: 0, deleted: 0 };
+        for (const stat of stats) {
+            const [added, deleted, file] = stat.split('\t');
+            if (!file) continue;
+            // Binary files show `-` for their line counts
+            commit.added += Number(added) || 0;
+            commit.deleted += Number(deleted) || 0;
+            commit.files.push(file);
+        }
+        commits.push(commit);
+    }
+    return commits;
+}
@@ -0,0 +1,321 @@
+import * as path from 'path';
+import { toOpenApiPath } from './extractors/apiShapes';
+import { httpRouteOf } from './openApi';
+import type { ProjectSource } from './ProjectAnalyzer';
+
+/** Something a Markdown doc mentions that the project no longer has. */
+export interface StaleReference {
+    /** Folder-relative path of the doc. */
+    file: string;
+    line: number;
+    /** The reference as written, e.g. `createUser()` or `npm run lint`. */
+    reference: string;
+    kind: 'identifier' | 'file' | 'script' | 'command' | 'route';
+    /** Why it counts as stale, for the doc task. */
+    reason: string;
+}
+
+const DOC_EXTENSIONS = ['.md', '.mdx'];
+const TEXT_DOC_EXTENSIONS = ['.md', '.mdx', '.txt', '.rst', '.adoc'];
+// Release history is meant to mention what has since been removed
+const HISTORY_DOCS = /(^|\/)(CHANGELOG|CHANGES|HISTORY|RELEASES?|RELEASE[-_]NOTES|LICENSE|NOTICE)[^/]*$/i;
+// Build output and dependencies are not part of the tree but are fine to mention
+const GENERATED_DIRS = /^(\.\/)?(node_modules|dist|build|out|coverage|vendor|target|bin|obj|\.git|\.venv|venv|__pycache__)(\/|$)/;
+const SHELL_LANGUAGES = ['', 'bash', 'sh', 'shell', 'console', 'zsh', 'terminal', 'powershell', 'ps1', 'cmd', 'bat'];
+const MAX_SOURCE_SIZE = 1024 * 1024;
+const ROUTE_MENTION = /\b(GET|POST|PUT|PATCH|DELETE|HEAD|OPTIONS)\s+(\/[^\s`)\]|,*<>"']*)/g;
+const INLINE_CODE = /(`+)([^`]+?)\1/g;
+const LINK_TARGET = /!?\[[^\]]*\]\(\s*<?([^)\s>]+)>?(?:\s+"[^"]*")?\s*\)/g;
+// npm/yarn/pnpm subcommands that are not package scripts
+const PACKAGE_MANAGER_COMMANDS = new Set([
+    'add', 'audit', 'bin', 'cache', 'ci', 'config', 'create', 'dedupe', 'dlx', 'exec', 'explain', 'global', 'help', 'i', 'import', 'info',
+    'init', 'install', 'link', 'list', 'login', 'logout', 'ls', 'outdated', 'pack', 'patch', 'prune', 'publish', 'rebuild', 'remove', 'rm',
+    'root', 'search', 'set', 'setup', 'store', 'unlink', 'up', 'update', 'upgrade', 'version', 'why', 'workspace', 'workspaces', 'x'
+]);
+
+interface ProjectFacts {
+    files: Set<string>;
+    /** Every identifier-like word in the project's code and config files. */
+    words: Set<string>;
+    routes: string[];
+    /** Targets of the top-level Makefile; undefined when there is none, so `make` lines are not checked. */
+    makeTargets?: Set<string>;
+    /** package.json scripts by folder, filled in as commands are checked. */
+    scripts: Map<string, Map<string, string> | undefined>;
+    source: ProjectSource;
+}
+
+/**
+ * Checks what the project's Markdown docs mention against the code as it is
+ * now: identifiers in inline code (`createUser()`, `UserService`), file
+ * paths in inline code and links, npm/yarn/pnpm scripts, make targets and
+ * script files in shell snippets, and `GET /path` routes. A reference is
+ * stale when nothing in the project matches it any more. Changelogs are
+ * skipped since they describe the past on purpose.
+ */
+export async function findStaleReferences(source: ProjectSource): Promise<StaleReference[]> {
+    const docs = source.files.filter(isMaintainedDoc);
+    if (docs.length === 0) return [];
+    const facts = await collectFacts(source);
+    const stale: StaleReference[] = [];
+    for (const doc of docs) {
+        const content = await source.readFile(doc);
+        if (!content) continue;
+        stale.push(...await checkDocument(doc, Buffer.from(content).toString('utf-8'), facts));
+    }
+    return stale;
+}
+
+/** Markdown docs meant to describe the code as it is now; changelogs and licenses are not. */
+export function isMaintainedDoc(file: string): boolean {
+    return DOC_EXTENSIONS.includes(path.posix.extname(file).toLowerCase()) && !HISTORY_DOCS.test(file);
+}
+
+async function collectFacts(source: ProjectSource): Promise<ProjectFacts> {
+    const words = new Set<string>();
+    const routes: string[] = [];
+    for (const file of source.files) {
+        for (const item of source.itemsFor(file)) {
+            const route = httpRouteOf(item);
+            if (route) routes.push(`${route.method} ${normalizeRoute(route.path)}`);
+        }
+        if (TEXT_DOC_EXTENSIONS.includes(path.posix.extname(file).toLowerCase())) continue;
+        const content = await source.readFile(file);
+        if (!content || content.length > MAX_SOURCE_SIZE || content.subarray(0, 1024).includes(0)) continue;
+        for (const word of Buffer.from(content).toString('utf-8').match(/[A-Za-z_$][\w$]*/g) || []) words.add(word);
+    }
+    const makefile = await source.readFile('Makefile') || await source.readFile('makefile') || await source.readFile('GNUmakefile');
+    return { files: new Set(source.files), words, routes, scripts: new Map(), ...(makefile ? { makeTargets: makeTargets(Buffer.from(makefile).toString('utf-8')) } : {}), source };
+}
+
+async function checkDocument(doc: string, text: string, facts: ProjectFacts): Promise<StaleReference[]> {
+    const stale: StaleReference[] = [];
+    const seen = new Set<string>();
+    const report = (line: number, reference: string, kind: StaleReference['kind'], reason: string) => {
+        const key = `${line}:${reference}`;
+        if (seen.has(key)) return;
+        seen.add(key);
+        stale.push({ file: doc, line, reference, kind, reason });
+    };
+    let fence: { marker: string; language: string; shell: { cwd: string } } | undefined;
+
+    const lines = text.split(/\r?\n/);
+    for (let index = 0; index < lines.length; index++) {
+        const line = lines[index];
+        const lineNumber = index + 1;
+        const fenceMatch = line.match(/^\s*(`{3,}|~{3,})\s*([\w+-]*)/);
+        if (fenceMatch && (!fence || fenceMatch[1].startsWith(fence.marker))) {
+            fence = fence ? undefined : { marker: fenceMatch[1], language: fenceMatch[2].toLowerCase(), shell: { cwd: path.posix.dirname(doc) } };
+            continue;
+        }
+        if (fence) {
+            // Code samples are full of local names; only shell snippets and route listings are checked
+            if (SHELL_LANGUAGES.includes(fence.language)) {
+                for (const problem of await checkCommand(line, fence.shell, facts)) report(lineNumber, problem.reference, problem.kind, problem.reason);
+            }
+            checkRoutes(line, facts, (reference, reason) => report(lineNumber, reference, 'route', reason));
+            continue;
+        }
+
+        checkRoutes(line, facts, (reference, reason) => report(lineNumber, reference, 'route', reason));
+        for (const match of line.matchAll(LINK_TARGET)) {
+            const target = match[1];
+            if (/^([a-z][\w+.-]*:|#|\/\/)/i.test(target)) continue;
+            const file = decodeLinkTarget(target.replace(/[?#].*$/, ''));
+            if (file && !await fileExists(resolveDocPath(doc, file), facts)) report(lineNumber, target, 'file', `links to \`${file}\`, which does not exist`);
+        }
+        for (const match of line.matchAll(INLINE_CODE)) {
+            const code = match[2].trim();
+            if (looksLikeCommand(code)) {
+                for (const problem of await checkCommand(code, { cwd: path.posix.dirname(doc) }, facts)) report(lineNumber, problem.reference, problem.kind, problem.reason);
+                continue;
+            }
+            const file = filePathIn(code, facts.source.root);
+            if (file) {
+                // Paths into folders the project does not have are examples or generated output
+                const candidates = [file, resolveDocPath(doc, file)].filter(candidate => hasFolder(candidate.split('/')[0], facts));
+                if (candidates.length > 0 && !(await Promise.all(candidates.map(candidate => fileExists(candidate, facts)))).some(Boolean)) {
+                    report(lineNumber, code, 'file', `\`${file}\` does not exist`);
+                }
+                continue;
+            }
+            const missing = missingIdentifier(code, facts);
+            if (missing) report(lineNumber, code, 'identifier', `\`${missing}\` is not defined anywhere in the code`);
+        }
+    }
+    return stale;
+}
+
+/** `GET /users/:id` mentions that match no route in code; skipped for projects without HTTP routes. */
+function checkRoutes(line: string, facts: ProjectFacts, report: (reference: string, reason: string) => void): void {
+    if (facts.routes.length === 0) return;
+    for (const match of line.matchAll(ROUTE_MENTION)) {
+        const route = `${match[1]} ${normalizeRoute(match[2].replace(/[?#].*$/, '').replace(/[.:]+$/, ''))}`;
+        // Docs often add the mount prefix a router does not show, or leave out one the code has
+        const known = facts.routes.some(code => code === route || (code.startsWith(match[1] + ' ') && (code.endsWith(route.slice(match[1].length + 1)) || route.endsWith(code.slice(match[1].length + 1)))));
+        if (!known) report(`${match[1]} ${match[2]}`, `\`${match[1]} ${match[2]}\` matches no route in the code`);
+    }
+}
+
+interface CommandProblem {
+    reference: string;
+    kind: 'script' | 'command';
+    reason: string;
+}
+
+/**
+ * Package scripts, make targets and script files a shell line runs. `shell`
+ * carries the working directory across the lines of a snippet, starting at
+ * the doc's folder, so `cd web && npm run dev` checks `web/package.json`.
+ */
+async function checkCommand(line: string, shell: { cwd: string }, facts: ProjectFacts): Promise<CommandProblem[]> {
+    const problems: CommandProblem[] = [];
+    const text = line.trim().replace(/^(\$|>|PS>)\s+/, '').replace(/(^|\s+)#.*$/, '');
+    for (const command of text.split(/\s*(?:&&|\|\||;|\|)\s*/)) {
+        const words = command.trim().split(/\s+/).filter(word => !/^\w+=/.test(word));
+        const [tool, first, second] = words;
+        if (!tool) continue;
+
+        if (tool === 'cd') {
+            shell.cwd = first && !/^[~$\/]/.test(first) ? path.posix.normalize(path.posix.join(shell.cwd, first)) : '.';
+        } else if (['npm', 'yarn', 'pnpm', 'bun'].includes(tool) && first && !first.startsWith('-')) {
+            const scripts = await packageScripts(shell.cwd, facts);
+            let script: string | undefined;
+            if (first === 'run' || first === 'run-script') script = second;
+            else if (tool === 'npm') script = ['test', 't', 'start', 'stop', 'restart'].includes(first) ? ({ t: 'test' } as Record<string, string>)[first] || first : undefined;
+            else if (!PACKAGE_MANAGER_COMMANDS.has(first)) script = first;
+            // `npm start` falls back to `node server.js`
+            const fallback = script === 'start' && tool === 'npm' && facts.files.has(path.posix.join(shell.cwd, 'server.js'));
+            if (scripts && script && !script.startsWith('-') && !scripts.has(script) && !fallback) {
+                problems.push({ reference: command.trim(), kind: 'script', reason: `\`${command.trim()}\`: package.json has no \`${script}\` script` });
+            }
+        } else if (tool === 'make' && first && !first.startsWith('-') && !first.includes('=')) {
+            if (shell.cwd === '.' && facts.makeTargets && !facts.makeTargets.has(first)) {
+                problems.push({ reference: command.trim(), kind: 'command', reason: `\`${command.trim()}\`: the Makefile has no \`${first}\` target` });
+            }
+        } else {
+            const script = ['node', 'ts-node', 'tsx', 'deno', 'python', 'python3', 'bash', 'sh', 'ruby', 'php', 'go'].includes(tool)
+                ? (tool === 'go' ? (first === 'run' ? second : undefined) : words.slice(1).find(word => !word.startsWith('-')))
+                : tool.startsWith('./') ? tool : undefined;
+            if (script && /\.\w+$|^\.\//.test(script) && !/[*$<>{}]/.test(script)) {
+                // Docs in subfolders often still mean commands run from the project root
+                const file = path.posix.normalize(path.posix.join(shell.cwd, script));
+                if (!await fileExists(file, facts) && !await fileExists(path.posix.normalize(script), facts)) {
+                    problems.push({ reference: command.trim(), kind: 'command', reason: `\`${command.trim()}\`: \`${file}\` does not exist` });
+                }
+            }
+        }
+    }
+    return problems;
+}
+
+function looksLikeCommand(code: string): boolean {
+    return /^(\$\s+)?(npm|yarn|pnpm|bun|make|node|ts-node|tsx|deno|python3?|bash|sh|ruby|php|go run)\s/.test(code) || /^\.\/\S+/.test(code);
+}
+
+/** Scripts of the package.json closest to a folder; undefined outside a Node package. */
+async function packageScripts(dir: string, facts: ProjectFacts): Promise<Map<string, string> | undefined> {
+    if (facts.scripts.has(dir)) return facts.scripts.get(dir);
+    let scripts: Map<string, string> | undefined;
+    const content = await facts.source.readFile(dir === '.' ? 'package.json' : `${dir}/package.json`);
+    if (content) {
+        try {
+            const declared = JSON.parse(Buffer.from(content).toString('utf-8')).scripts;
+            scripts = new Map(Object.entries(typeof declared === 'object' && declared ? declared : {}).map(([name, value]) => [name, String(value)]));
+        } catch {
+            scripts = undefined;
+        }
+    } else if (dir !== '.' && !dir.startsWith('..')) {
+        scripts = await packageScripts(path.posix.dirname(dir), facts);
+    }
+    facts.scripts.set(dir, scripts);
+    return scripts;
+}
+
+function makeTargets(makefile: string): Set<string> {
+    const targets = new Set<string>();
+    for (const match of makefile.matchAll(/^([\w./%-]+(?:[ \t]+[\w./%-]+)*)[ \t]*::?(?!=)/gm)) {
+        match[1].split(/\s+/).forEach(target => targets.add(target));
+    }
+    return targets;
+}
+
+/**
+ * A file path in inline code: `src/app.ts` or `docs/`, with any `:line`
+ * suffix dropped. Undefined for anything else, including URLs, globs,
+ * placeholders and paths outside the project. Bare file names are left
+ * alone: docs mention `requirements.txt` or `pom.xml` as kinds of file as
+ * often as actual ones.
+ */
+function filePathIn(code: string, root: string): string | undefined {
+    let candidate = code.replace(/:\d+(:\d+)?$/, '');
+    if (candidate.startsWith(root + '/')) candidate = candidate.slice(root.length + 1);
+    if (/\s|[*?<>{}[\]$%|]|^[a-z][\w+.-]*:|^(\/|~|\.\.\/)/i.test(candidate)) return undefined;
+    const segments = candidate.replace(/^\.\//, '').split('/');
+    const last = segments[segments.length - 1];
+    if (segments.length > 1 && segments.slice(0, -1).every(segment => /^[\w.@-]+$/.test(segment)) && (last === '' || /^[\w.@-]+\.[A-Za-z0-9]+$/.test(last))) {
+        return candidate.replace(/^\.\//, '');
+    }
+    return undefined;
+}
+
+async function fileExists(file: string, facts: ProjectFacts): Promise<boolean> {
+    const normalized = path.posix.normalize(file).replace(/^\.\//, '');
+    if (normalized.startsWith('../') || GENERATED_DIRS.test(normalized)) return true;
+    if (normalized.endsWith('/')) {
+        return Array.from(facts.files).some(known => known.startsWith(normalized));
+    }
+    if (facts.files.has(normalized)) return true;
+    if (!normalized.includes('/') && Array.from(facts.files).some(known => known.endsWith('/' + normalized))) return true;
+    if (Array.from(facts.files).some(known => known.startsWith(normalized + '/'))) return true;
+    return (await facts.source.readFile(normalized)) !== undefined;
+}
+
+function hasFolder(folder: string, facts: ProjectFacts): boolean {
+    return Array.from(facts.files).some(file => file.startsWith(folder + '/'));
+}
+
+function resolveDocPath(doc: string, target: string): string {
+    return path.posix.normalize(path.posix.join(path.posix.dirname(doc), target));
+}
+
+function decodeLinkTarget(target: string): string {
+    try {
+        return decodeURIComponent(target);
+    } catch {
+        return target;
+    }
+}
+
+/**
+ * The identifier an inline code span names that the code does not have:
+ * calls (`createUser()`), member paths (`UserService.create`), and
+ * camelCase, PascalCase, snake_case or CONSTANT_CASE names. Plain words and
+ * anything else are left alone.
+ */
+function missingIdentifier(code: string, facts: ProjectFacts): string | undefined {
+    if (facts.words.size === 0) return undefined;
+    const call = code.match(/^(?:new\s+)?([A-Za-z_$][\w$]*(?:\.[A-Za-z_$][\w$]*)*)\(.*\)$/);
+    const name = call ? call[1] : /^[A-Za-z_$][\w$]*(\.[A-Za-z_$][\w$]*)*$/.test(code) ? code : undefined;
+    if (!name) return undefined;
+    const segments = name.split('.');
+    const owner = segments[0];
+    const member = segments[segments.length - 1];
+    // Plain words (`users`, `Node.js`, `JSON.parse`) are too ambiguous to check unless called
+    if (!call && !segments.some(isDistinctiveIdentifier)) return undefined;
+    if (!facts.words.has(member)) return name;
+    // Owners are only checked when they look like a project type, not `JSON` or `os`
+    if (segments.length > 1 && /^[A-Z][a-z0-9]+[A-Z]\w*$/.test(owner) && !facts.words.has(owner)) return owner;
+    return undefined;
+}
+
+/** Names unlikely to be ordinary words: `createUser`, `UserService`, `get_user`, `API_KEY`. */
+function isDistinctiveIdentifier(word: string): boolean {
+    return /^[a-z]+[A-Z]\w*$/.test(word) || /^[A-Z][a-z0-9]+[A-Z]\w*$/.test(word) || /^[a-z]+(_[a-z0-9]+)+$/.test(word) || /^[A-Z][A-Z0-9]*(_[A-Z0-9]+)+$/.test(word);
+}
+
+/** Route path with parameter names and trailing slashes dropped so `/users/:id` and `/users/{userId}` compare equal. */
+function normalizeRoute(routePath: string): string {
+    const normalized = toOpenApiPath(routePath).replace(/\{[^}]*\}/g, '{}').replace(/\/+$/, '');
+    return normalized || '/';
+}
@@ -0,0 +1,181 @@
+import * as path from 'path';
+import { formatApiDomainSection, restEndpoints } from './apiDocs';
+import { replaceArchitectureDiagrams } from './architectureDocs';
+import type { CodeItem, ProjectDomain, ProjectStructure } from './ProjectAnalyzer';
+
+/** Docs regenerated per save at most; the rest wait for the next save or a full generation. */
+export const MAX_DOCS_PER_SAVE = 3;
+
+/** A generated doc with some of its sections regenerated. */
+export interface DocRefresh {
+    /** Folder-relative POSIX path. */
+    doc: string;
+    /** Headings of the regenerated sections. */
+    sections: string[];
+    original: string;
+    updated: string;
+}
+
+export interface DocRefreshPlan {
+    refreshes: DocRefresh[];
+    /** Docs that were out of date too, but over the per-save cap. */
+    skipped: string[];
+}
+
+/**
+ * The `##` sections of a generated domain doc that come from the analysis,
+ * in order; sections without items are left out. Usage examples and other
+ * hand-written sections are not among them.
+ */
+export function formatDomainSections(domain: ProjectDomain): Array<{ heading: string; content: string }> {
+    const sections: Array<{ heading: string; content: string }> = [];
+    const items = (heading: string, list: CodeItem[], fence: string, withLocation: boolean) => {
+        if (list.length === 0) return;
+        let content = `## ${heading}\n\n`;
+        for (const item of list) {
+            content += `### ${item.name}\n\n`;
+            content += `\`\`\`${fence}\n${item.signature}\n\`\`\`\n\n`;
+            if (withLocation) {
+                content += `**File**: \`${item.filePath}\`\n`;
+                content += `**Line**: ${item.lineNumber}\n\n`;
+            } else if (item.description) {
+                content += `${item.description}\n\n`;
+            }
+        }
+        sections.push({ heading, content });
+    };
+    items('Classes', domain.classes, 'typescript', false);
+    items('Functions', domain.functions, 'typescript', false);
+    items('API Endpoints', domain.endpoints, '', true);
+    if (domain.files.length > 0) {
+        sections.push({ heading: 'Files', content: `## Files\n\n${domain.files.map(file => `- \`${file}\`\n`).join('')}\n` });
+    }
+    return sections;
+}
+
+/** File name of a domain's generated doc, as suggested by its "Create …" doc task. */
+export function domainDocName(domain: ProjectDomain): string {
+    return `${domain.name.toUpperCase()}.md`;
+}
+
+/**
+ * `document` with its `## heading` section (up to the next `#` or `##`
+ * heading outside a code fence) replaced by `content`, which brings its own
+ * heading; an empty `content` removes the section. Undefined when the
+ * document has no such section.
+ */
+export function replaceSection(document: string, heading: string, content: string): string | undefined {
+    const range = sectionRange(document, heading);
+    return range && document.slice(0, range.start) + content + document.slice(range.end);
+}
+
+/**
+ * Works out which generated docs cover the saved files and regenerates those
+ * sections only:
+ * - API.md: the section of each domain that holds a saved file or whose text
+ *   names one of the saved files' classes or functions;
+ * - each such domain's own doc: its Classes, Functions, API Endpoints and
+ *   Files sections;
+ * - ARCHITECTURE.md: the generated diagrams, when a saved file is in a domain.
+ * Docs are recognized as generated by their title, so hand-written ones with
+ * the same name are left alone, and only sections already present are
+ * replaced. At most `limit` docs change per call.
+ */
+export async function planDocRefresh(
+    structure: ProjectStructure,
+    savedFiles: string[],
+    docsFolder: string,
+    readDoc: (relativePath: string) => Promise<string | undefined>,
+    limit = MAX_DOCS_PER_SAVE
+): Promise<DocRefreshPlan> {
+    const saved = new Set(savedFiles);
+    const isSaved = (item: CodeItem) => savedFiles.some(file => item.filePath === file || item.filePath.endsWith(`/${file}`));
+    const savedDomains = structure.domains.filter(domain => domain.files.some(file => saved.has(file)));
+    const symbols = [...new Set(structure.domains
+        .flatMap(domain => [...domain.classes, ...domain.functions])
+        .filter(item => isSaved(item) && item.name.length >= 3)
+        .map(item => item.name))];
+    const mentionsSymbol = (text: string) => symbols.some(name => new RegExp(`\\b${name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`).test(text));
+    const affected = (domain: ProjectDomain, text: string) => savedDomains.includes(domain) || mentionsSymbol(text);
+
+    const candidates: DocRefresh[] = [];
+    const refresh = (doc: string, original: string, apply: (text: string, sections: string[]) => string) => {
+        const sections: string[] = [];
+        const updated = apply(original, sections);
+        if (updated !== original) candidates.push({ doc, sections, original, updated });
+    };
+
+    const apiDoc = path.posix.join(docsFolder, 'API.md');
+    const api = structure.apiSpecs ? undefined : await readDoc(apiDoc);
+    if (api !== undefined && api.startsWith('# API Documentation')) {
+        refresh(apiDoc, api, (text, sections) => {
+            for (const domain of structure.domains) {
+                // API.md has fixed sections too (Authentication, Error Handling); domain sections open with the domain's description
+                const current = sectionText(text, domain.name);
+                if (current === undefined || !current.startsWith(`## ${domain.name}\n\n${domain.description}`) || !affected(domain, current)) continue;
+                const replaced = replaceSection(text, domain.name, formatApiDomainSection(domain, structure.requestFlows));
+                if (replaced !== undefined && replaced !== text) {
+                    text = replaced;
+                    sections.push(restEndpoints(domain).length > 0 ? domain.name : `${domain.name} (removed)`);
+                }
+            }
+            return text;
+        });
+    }
+
+    for (const domain of structure.domains) {
+        const doc = path.posix.join(docsFolder, domainDocName(domain));
+        const original = savedDomains.includes(domain) || symbols.length > 0 ? await readDoc(doc) : undefined;
+        if (original === undefined || !original.startsWith(`# ${domain.name.toUpperCase()}\n`) || !affected(domain, original)) continue;
+        const fresh = formatDomainSections(domain);
+        refresh(doc, original, (text, sections) => {
+            for (const heading of ['Classes', 'Functions', 'API Endpoints', 'Files']) {
+                const replaced = replaceSection(text, heading, fresh.find(section => section.heading === heading)?.content || '');
+                if (replaced !== undefined && replaced !== text) {
+                    text = replaced;
+                    sections.push(heading);
+                }
+            }
+            return text;
+        });
+    }
+
+    if (savedDomains.length > 0) {
+        const architectureDoc = path.posix.join(docsFolder, 'ARCHITECTURE.md');
+        const architecture = await readDoc(architectureDoc);
+        if (architecture !== undefined) {
+            refresh(architectureDoc, architecture, (text, sections) => {
+                const replaced = replaceArchitectureDiagrams(text, structure);
+                if (replaced === undefined || replaced === text) return text;
+                sections.push('Diagrams');
+                return replaced;
+            });
+        }
+    }
+
+    return { refreshes: candidates.slice(0, limit), skipped: candidates.slice(limit).map(candidate => candidate.doc) };
+}
+
+/** The text of a `##` section, heading included, or undefined when there is none. */
+function sectionText(document: string, heading: string): string | undefined {
+    const range = sectionRange(document, heading);
+    return range && document.slice(range.start, range.end);
+}
+
+/** Character offsets of the first `## heading` section, from its heading to the next `#`/`##` heading or the end. */
+function sectionRange(document: string, heading: string): { start: number; end: number } | undefined {
+    let start = -1;
+    let offset = 0;
+    let fenced = false;
+    for (const line of document.split('\n')) {
+        const lineStart = offset;
+        offset += line.length + 1;
+        if (/^\s*(```|~~~)/.test(line)) fenced = !fenced;
+        if (fenced) continue;
+        const match = line.match(/^(#{1,2})\s+(.*?)\s*#*\s*$/);
+        if (!match) continue;
+        if (start !== -1) return { start, end: lineStart };
+        if (match[1] === '##' && match[2] === heading) start = lineStart;
+    }
+    return start === -1 ? undefined : { start, end: document.length };
+}
@@ -0,0 +1,102 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { DEFAULT_DOCS_FOLDER, normalizeDocsFolder } from './ProjectAnalyzer';
+
+/** The dashboard's Settings tab, stored as `documind.*` configuration. */
+export interface DocumindSettings {
+    /** Off, Documind never updates docs on its own, whatever `autoGenerateOnSave` says. */
+    enableAutomation: boolean;
+    /** `suggest` records automatic updates as pending changes; `auto-apply` writes them. */
+    automationBehavior: 'suggest' | 'auto-apply';
+    /** Incoming webhook (Slack and compatible) that new notifications are posted to; empty for none. */
+    webhookUrl: string;
+    /** As typed, e.g. `docs/`; see `docsFolderOf` for the normalized path. */
+    docsFolder: string;
+    autoGenerateOnSave: boolean;
+    statusBarNotifications: boolean;
+}
+
+export const SETTINGS_DEFAULTS: DocumindSettings = {
+    enableAutomation: false,
+    automationBehavior: 'suggest',
+    webhookUrl: '',
+    docsFolder: `${DEFAULT_DOCS_FOLDER}/`,
+    autoGenerateOnSave: false,
+    statusBarNotifications: true
+};
+
+// Settings that can differ per folder of a multi-root workspace ("scope": "resource" in package.json)
+const FOLDER_SCOPED = new Set<keyof DocumindSettings>(['enableAutomation', 'automationBehavior', 'docsFolder', 'autoGenerateOnSave']);
+
+export function readSettings(folder?: vscode.WorkspaceFolder): DocumindSettings {
+    const config = vscode.workspace.getConfiguration('documind', folder?.uri);
+    return {
+        enableAutomation: config.get<boolean>('enableAutomation', SETTINGS_DEFAULTS.enableAutomation),
+        automationBehavior: config.get<string>('automationBehavior') === 'auto-apply' ? 'auto-apply' : 'suggest',
+        webhookUrl: config.get<string>('webhookUrl', SETTINGS_DEFAULTS.webhookUrl).trim(),
+        docsFolder: config.get<string>('docsFolder', SETTINGS_DEFAULTS.docsFolder),
+        autoGenerateOnSave: config.get<boolean>('autoGenerateOnSave', SETTINGS_DEFAULTS.autoGenerateOnSave),
+        statusBarNotifications: config.get<boolean>('statusBarNotifications', SETTINGS_DEFAULTS.statusBarNotifications)
+    };
+}
+
+/**
+ * Writes the settings that differ from what is in effect. They go to the
+ * workspace settings, or the folder's own in a multi-root workspace where the
+ * setting allows it; with no folder open, to the user settings. Invalid values
+ * are rejected before anything is written.
+ */
+export async function saveSettings(values: Partial<DocumindSettings>, folder?: vscode.WorkspaceFolder): Promise<void> {
+    if (values.automationBehavior !== undefined && !['suggest', 'auto-apply'].includes(values.automationBehavior)) {
+        throw new Error(`Unknown automation behavior: ${values.automationBehavior}`);
+    }
+    if (values.webhookUrl && !/^https?:\/\/[^\s/]+/.test(values.webhookUrl.trim())) {
+        throw new Error('The webhook URL must start with http:// or https://');
+    }
+    if (values.docsFolder !== undefined && normalizeDocsFolder(values.docsFolder) === undefined) {
+        throw new Error(`The docs folder must be inside the workspace folder: ${values.docsFolder}`);
+    }
+
+    const config = vscode.workspace.getConfiguration('documind', folder?.uri);
+    const current = readSettings(folder);
+    for (const key of Object.keys(SETTINGS_DEFAULTS) as Array<keyof DocumindSettings>) {
+        const value = values[key];
+        if (value === undefined || value === current[key]) continue;
+        await config.update(key, typeof value === 'string' ? value.trim() : value, targetFor(key, folder));
+    }
+}
+
+/** Removes the settings from where `saveSettings` writes them, so the defaults (or user settings) apply again. */
+export async function resetSettings(folder?: vscode.WorkspaceFolder): Promise<void> {
+    const config = vscode.workspace.getConfiguration('documind', folder?.uri);
+    for (const key of Object.keys(SETTINGS_DEFAULTS) as Array<keyof DocumindSettings>) {
+        await config.update(key, undefined, targetFor(key, folder));
+    }
+}
+
+/** Whether saving code files regenerates the doc sections covering them: opted into, and automation not switched off. */
+export function autoGeneratesOnSave(settings: DocumindSettings): boolean {
+    return settings.enableAutomation && settings.autoGenerateOnSave;
+}
+
+/** The folder-relative POSIX path generated docs go to; '' when they go in the folder itself. */
+export function docsFolderOf(folder?: vscode.WorkspaceFolder): string {
+    return normalizeDocsFolder(readSettings(folder).docsFolder) ?? DEFAULT_DOCS_FOLDER;
+}
+
+/** Folder-relative path of a generated doc, e.g. `docs/API.md`. */
+export function docsPath(folder: vscode.WorkspaceFolder | undefined, fileName: string): string {
+    return path.posix.join(docsFolderOf(folder), fileName);
+}
+
+export function docsUri(folder: vscode.WorkspaceFolder, fileName?: string): vscode.Uri {
+    return vscode.Uri.joinPath(folder.uri, ...[docsFolderOf(folder), fileName || ''].filter(Boolean));
+}
+
+function targetFor(key: keyof DocumindSettings, folder?: vscode.WorkspaceFolder): vscode.ConfigurationTarget {
+    const folders = vscode.workspace.workspaceFolders || [];
+    if (folders.length === 0) return vscode.ConfigurationTarget.Global;
+    return folder && folders.length > 1 && FOLDER_SCOPED.has(key)
+        ? vscode.ConfigurationTarget.WorkspaceFolder
+        : vscode.ConfigurationTarget.Workspace;
+}
@@ -0,0 +1,193 @@
+/**
+ * Request/response shapes recorded by the extractors for HTTP routes and the
+ * data types they use, in the OpenAPI 3.0 vocabulary. Types declared in other
+ * files are left as `$ref: 'Name'` and resolved when the spec is assembled.
+ */
+
+/** The JSON Schema subset OpenAPI 3.0 understands. */
+export interface SchemaObject {
+    type?: 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object';
+    format?: string;
+    /** Name of a schema declared somewhere in the project; becomes a `#/components/schemas` reference. */
+    $ref?: string;
+    properties?: Record<string, SchemaObject>;
+    required?: string[];
+    items?: SchemaObject;
+    enum?: Array<string | number>;
+    nullable?: boolean;
+    minimum?: number;
+    maximum?: number;
+    minLength?: number;
+    maxLength?: number;
+    additionalProperties?: boolean | SchemaObject;
+    description?: string;
+}
+
+export interface HttpParameter {
+    name: string;
+    in: 'path' | 'query' | 'header';
+    required: boolean;
+    schema: SchemaObject;
+}
+
+export interface HttpResponse {
+    status: number;
+    schema?: SchemaObject;
+}
+
+/** What a route handler takes and returns, as far as its code says. */
+export interface HttpOperation {
+    parameters: HttpParameter[];
+    /** A `$ref` here whose schema is expanded into individual query parameters, e.g. `@Query() filter: ListUsersDto`. */
+    queryObject?: SchemaObject;
+    requestBody?: SchemaObject;
+    responses: HttpResponse[];
+}
+
+/** A data shape declared in a file: interface, DTO class, zod or pydantic model. */
+export interface SchemaDefinition {
+    name: string;
+    schema: SchemaObject;
+    lineNumber: number;
+}
+
+const PRIMITIVES: Record<string, SchemaObject> = {
+    string: { type: 'string' },
+    str: { type: 'string' },
+    String: { type: 'string' },
+    number: { type: 'number' },
+    float: { type: 'number' },
+    Decimal: { type: 'number' },
+    double: { type: 'number' },
+    Double: { type: 'number' },
+    int: { type: 'integer' },
+    Integer: { type: 'integer' },
+    long: { type: 'integer', format: 'int64' },
+    Long: { type: 'integer', format: 'int64' },
+    bigint: { type: 'integer', format: 'int64' },
+    boolean: { type: 'boolean' },
+    bool: { type: 'boolean' },
+    Boolean: { type: 'boolean' },
+    Date: { type: 'string', format: 'date-time' },
+    datetime: { type: 'string', format: 'date-time' },
+    date: { type: 'string', format: 'date' },
+    UUID: { type: 'string', format: 'uuid' },
+    EmailStr: { type: 'string', format: 'email' },
+    HttpUrl: { type: 'string', format: 'uri' },
+    any: {},
+    unknown: {},
+    Any: {},
+    object: { type: 'object' },
+    dict: { type: 'object' },
+    Dict: { type: 'object' },
+    Record: { type: 'object' },
+    Object: { type: 'object' }
+};
+
+const ARRAY_WRAPPERS = ['Array', 'ReadonlyArray', 'list', 'List', 'Sequence', 'set', 'Set', 'Iterable'];
+// Wrappers that say nothing about the payload itself
+const TRANSPARENT_WRAPPERS = ['Promise', 'Observable', 'Awaitable', 'ResponseEntity', 'Mono', 'Annotated', 'Required', 'Readonly', 'Partial'];
+
+/**
+ * Schema for a type as written in TypeScript or Python annotations:
+ * primitives map to JSON types, arrays and optionals are unwrapped, and any
+ * other name becomes a `$ref` to be resolved against the project's schemas.
+ */
+export function schemaForType(typeText: string | undefined): SchemaObject {
+    let text = (typeText || '').trim();
+    if (!text) return {};
+
+    // `X | None`, `X | undefined`, `Optional[X]`
+    const union = splitUnion(text).filter(part => !['null', 'undefined', 'None', 'void'].includes(part));
+    if (union.length === 0) return {};
+    if (union.length > 1) {
+        const literals = union.map(part => part.match(/^['"](.*)['"]$/)?.[1]);
+        if (literals.every(literal => literal !== undefined)) return { type: 'string', enum: literals as string[] };
+        return {};
+    }
+    text = union[0];
+
+    if (text.endsWith('[]')) return { type: 'array', items: schemaForType(text.slice(0, -2)) };
+    const generic = text.match(/^([\w.]+)\s*[<\[](.*)[>\]]$/);
+    if (generic) {
+        const wrapper = generic[1].split('.').pop()!;
+        const args = splitTypeArguments(generic[2]);
+        if (ARRAY_WRAPPERS.includes(wrapper)) return { type: 'array', items: schemaForType(args[0]) };
+        if (TRANSPARENT_WRAPPERS.includes(wrapper) || wrapper === 'Optional') return schemaForType(args[0]);
+        if (wrapper === 'Literal') return { type: 'string', enum: args.map(arg => arg.replace(/^['"]|['"]$/g, '')) };
+        if (['Record', 'Dict', 'dict', 'Map', 'Mapping'].includes(wrapper)) {
+            return { type: 'object', additionalProperties: schemaForType(args[1]) };
+        }
+        return schemaForType(wrapper);
+    }
+    if (/^['"].*['"]$/.test(text)) return { type: 'string', enum: [text.slice(1, -1)] };
+    if (/^\{/.test(text)) return { type: 'object' };
+
+    const name = text.split('.').pop()!;
+    if (PRIMITIVES[name]) return { ...PRIMITIVES[name] };
+    return /^[A-Z]\w*$/.test(name) ? { $ref: name } : {};
+}
+
+/**
+ * Route path in OpenAPI form (`/users/{id}`) from Express `:id`, Flask
+ * `<int:id>` and FastAPI/Spring `{id}` styles.
+ */
+export function toOpenApiPath(routePath: string): string {
+    const converted = routePath
+        .replace(/:(\w+)\??/g, '{$1}')
+        .replace(/<(?:\w+:)?(\w+)>/g, '{$1}')
+        .replace(/\{(\w+):[^}]*\}/g, '{$1}');
+    return converted.startsWith('/') ? converted : '/' + converted;
+}
+
+/** Names of the `{param}` segments of an OpenAPI path. */
+export function pathParameterNames(openApiPath: string): string[] {
+    return Array.from(openApiPath.matchAll(/\{(\w+)\}/g), match => match[1]);
+}
+
+/** Type of a Flask path converter (`<int:id>`), when the route declares one. */
+export function pathConverterSchema(routePath: string, name: string): SchemaObject | undefined {
+    const converter = routePath.match(new RegExp(`<(\\w+):${name}>`))?.[1];
+    if (converter === 'int') return { type: 'integer' };
+    if (converter === 'float') return { type: 'number' };
+    if (converter === 'uuid') return { type: 'string', format: 'uuid' };
+    return converter ? { type: 'string' } : undefined;
+}
+
+function splitUnion(text: string): string[] {
+    const optional = text.match(/^(?:typing\.)?Optional\[(.*)\]$/);
+    if (optional) return [optional[1].trim(), 'None'];
+    const parts: string[] = [];
+    let depth = 0;
+    let current = '';
+    for (const ch of text) {
+        if ('<[({'.includes(ch)) depth++;
+        else if ('>])}'.includes(ch)) depth--;
+        if (ch === '|' && depth === 0) {
+            parts.push(current.trim());
+            current = '';
+        } else {
+            current += ch;
+        }
+    }
+    parts.push(current.trim());
+    return parts.filter(Boolean);
+}
+
+function splitTypeArguments(text: string): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let current = '';
+    for (const ch of text) {
+        if ('<[({'.includes(ch)) depth++;
+        else if ('>])}'.includes(ch)) depth--;
+        if (ch === ',' && depth === 0) {
+            parts.push(current.trim());
+            current = '';
+        } else {
+            current += ch;
+        }
+    }
+    if (current.trim()) parts.push(current.trim());
+    return parts;
+}
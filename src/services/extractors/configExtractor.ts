@@ -0,0 +1,97 @@
+import * as path from 'path';
+import { ExtractedSymbol } from './typescriptExtractor';
+
+const CONFIG_FILE_NAMES = [
+    'tsconfig.json', 'jsconfig.json', '.eslintrc', '.eslintrc.json', '.prettierrc', '.prettierrc.json',
+    '.babelrc', 'babel.config.json', 'docker-compose.yml', 'docker-compose.yaml', 'Dockerfile'
+];
+
+/**
+ * True for files that describe how the project is configured or run: the
+ * package manifest, `.env` templates and tool config files.
+ */
+export function isConfigFile(filePath: string): boolean {
+    const baseName = path.basename(filePath);
+    return baseName === 'package.json' ||
+        /^\.env\.(example|sample|template|defaults)$/.test(baseName) ||
+        /\.config\.(js|cjs|mjs|ts|json)$/.test(baseName) ||
+        CONFIG_FILE_NAMES.includes(baseName);
+}
+
+export function extractConfigSymbols(text: string, filePath: string): ExtractedSymbol[] {
+    const baseName = path.basename(filePath);
+    if (baseName === 'package.json') {
+        return extractPackageScripts(text);
+    }
+    if (baseName.startsWith('.env.')) {
+        return extractEnvTemplate(text);
+    }
+    return [describeConfigFile(text, baseName)];
+}
+
+/** One symbol per config file, listing its top-level keys when it is JSON. */
+export function describeConfigFile(text: string, baseName: string): ExtractedSymbol {
+    let keys: string[] = [];
+    try {
+        const parsed = JSON.parse(text);
+        if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) keys = Object.keys(parsed);
+    } catch {
+        // Not JSON (JS/TS/YAML config) - the file name alone identifies it
+    }
+    return {
+        kind: 'configFile',
+        name: baseName,
+        lineNumber: 1,
+        signature: keys.length > 0 ? `${baseName} { ${keys.join(', ')} }` : baseName,
+        parameters: [],
+        visibility: 'public',
+        exported: true,
+        hasDocumentation: false
+    };
+}
+
+function extractPackageScripts(text: string): ExtractedSymbol[] {
+    let scripts: Record<string, string> = {};
+    try {
+        scripts = JSON.parse(text).scripts || {};
+    } catch {
+        return [];
+    }
+    const lines = text.split('\n');
+    return Object.entries(scripts).map(([name, command]) => {
+        const lineIndex = lines.findIndex(line => line.includes(`"${name}"`) && line.includes(':'));
+        return {
+            kind: 'script' as const,
+            name: `npm run ${name}`,
+            lineNumber: lineIndex + 1 || 1,
+            signature: `"${name}": "${command}"`,
+            parameters: [],
+            visibility: 'public' as const,
+            exported: true,
+            hasDocumentation: false
+        };
+    });
+}
+
+function extractEnvTemplate(text: string): ExtractedSymbol[] {
+    const symbols: ExtractedSymbol[] = [];
+    const lines = text.split('\n');
+    for (let i = 0; i < lines.length; i++) {
+        const match = lines[i].match(/^\s*(?:export\s+)?([A-Za-z_][A-Za-z0-9_]*)\s*=/);
+        if (!match) continue;
+        const previous = i > 0 ? lines[i - 1].trim() : '';
+        const documentation = previous.startsWith('#') ? previous.replace(/^#\s*/, '') : undefined;
+        symbols.push({
+            kind: 'env',
+            name: match[1],
+            lineNumber: i + 1,
+            signature: `${match[1]}=`,
+            parameters: [],
+            visibility: 'public',
+            exported: true,
+            documentation,
+            hasDocumentation: documentation !== undefined
+        });
+    }
+    return symbols;
+}
@@ -0,0 +1,118 @@
+import { ExtractedSymbol } from './typescriptExtractor';
+import { callsInBody, countBraces, createScanState, docCommentAbove, parenthesized, readDeclaration, splitTopLevel, stripLine } from './sourceScanner';
+
+const GO_DOC = { linePrefix: '//', blockOpener: '/*' };
+
+/**
+ * Extracts top-level funcs, methods and types from a Go file. Exported means
+ * capitalized; the doc comment is the `//` block directly above, as `go doc`
+ * reads it.
+ */
+export function extractGoSymbols(text: string, fileName: string): ExtractedSymbol[] {
+    const lines = text.split('\n');
+    const state = createScanState();
+    const code = lines.map(line => stripLine(line, state, { backtickStrings: true }));
+    const symbols: ExtractedSymbol[] = [];
+
+    let depth = 0;
+    let inTypeGroup = false;
+    for (let i = 0; i < lines.length; i++) {
+        const line = code[i];
+        if (depth === 0) {
+            if (/^func\b/.test(line)) {
+                const symbol = describeFunc(lines, code, i);
+                if (symbol) symbols.push(symbol);
+            } else if (/^type\s*\(\s*$/.test(line)) {
+                inTypeGroup = true;
+            } else if (/^type\s+\w/.test(line)) {
+                const symbol = describeType(lines, i, line.replace(/^type\s+/, ''));
+                if (symbol) symbols.push(symbol);
+            } else if (inTypeGroup && /^\)/.test(line)) {
+                inTypeGroup = false;
+            } else if (inTypeGroup && /^\s+\w/.test(line)) {
+                const symbol = describeType(lines, i, line.trim());
+                if (symbol) symbols.push(symbol);
+            }
+        }
+        depth += countBraces(line);
+    }
+    return symbols;
+}
+
+function describeFunc(lines: string[], code: string[], index: number): ExtractedSymbol | null {
+    const { text } = readDeclaration(lines, code, index);
+    // func (r *Receiver[T]) Name[T any](params) results
+    const header = text.match(/^func\s*(\(([^)]*)\))?\s*(\w+)\s*(\[[^\]]*\])?\s*\(/);
+    if (!header) return null;
+
+    const name = header[3];
+    const receiverType = header[2] ? header[2].trim().split(/\s+/).pop()!.replace(/^\*/, '').replace(/\[.*$/, '') : undefined;
+    const params = parenthesized(text, header[0].length - 1);
+    const results = params ? text.slice(params.close + 1).trim() : '';
+    const exported = isExported(name) && (!receiverType || isExported(receiverType));
+    const documentation = docCommentAbove(lines, index, GO_DOC);
+
+    return {
+        kind: receiverType ? 'method' : 'function',
+        name: receiverType ? `${receiverType}.${name}` : name,
+        lineNumber: index + 1,
+        signature: text,
+        parameters: params ? parseGoParameters(params.inner) : [],
+        returnType: results ? results.replace(/^\((.*)\)$/, '$1') : undefined,
+        visibility: exported ? 'public' : 'private',
+        exported,
+        documentation,
+        hasDocumentation: documentation !== undefined,
+        calls: callsInBody(code, index)
+    };
+}
+
+function describeType(lines: string[], index: number, spec: string): ExtractedSymbol | null {
+    const match = spec.match(/^(\w+)\s*(\[[^\]]*\])?\s*(=\s*)?(.*)$/);
+    if (!match) return null;
+    const name = match[1];
+    const underlying = match[4].trim();
+    const kind = /^struct\b/.test(underlying) ? 'class' : /^interface\b/.test(underlying) ? 'interface' : 'type';
+    const exported = isExported(name);
+    const documentation = docCommentAbove(lines, index, GO_DOC);
+    return {
+        kind,
+        name,
+        lineNumber: index + 1,
+        signature: `type ${lines[index].trim().replace(/^type\s+/, '').replace(/\s*\{.*$/, '')}`,
+        parameters: [],
+        visibility: exported ? 'public' : 'private',
+        exported,
+        documentation,
+        hasDocumentation: documentation !== undefined
+    };
+}
+
+/** Go lets consecutive names share a type: `a, b int, c string`. */
+function parseGoParameters(list: string): Array<{name: string, type: string}> {
+    const parts = splitTopLevel(list);
+    if (parts.length === 0) return [];
+    // Unnamed parameters (`func(int, string)`) are all single tokens
+    const named = parts.some(part => /^\w+\s+\S/.test(part));
+    if (!named) {
+        return parts.map((type, i) => ({ name: `_${i}`, type }));
+    }
+
+    const params: Array<{name: string, type: string}> = [];
+    let pending: string[] = [];
+    for (const part of parts) {
+        const match = part.match(/^(\w+)\s+(.+)$/);
+        if (!match) {
+            pending.push(part);
+            continue;
+        }
+        for (const name of pending) params.push({ name, type: match[2] });
+        pending = [];
+        params.push({ name: match[1], type: match[2] });
+    }
+    return params;
+}
+
+function isExported(name: string): boolean {
+    return /^[A-Z]/.test(name);
+}
@@ -0,0 +1,438 @@
+import type { ExtractedSymbol } from './typescriptExtractor';
+
+export interface GraphqlArgument {
+    name: string;
+    /** As written in SDL, e.g. `[ID!]!`. */
+    type: string;
+    description?: string;
+    defaultValue?: string;
+}
+
+export interface GraphqlField {
+    name: string;
+    /** Field or input value type; empty for enum values and union members. */
+    type: string;
+    description?: string;
+    arguments: GraphqlArgument[];
+    /** Default of an input field. */
+    defaultValue?: string;
+    deprecated?: string;
+}
+
+/** A root operation field or a named type of a GraphQL schema. */
+export interface GraphqlDefinition {
+    kind: 'query' | 'mutation' | 'subscription' | 'type' | 'input' | 'interface' | 'enum' | 'union' | 'scalar';
+    /** Field name for operations, type name otherwise. */
+    name: string;
+    /** Arguments of an operation. */
+    arguments: GraphqlArgument[];
+    /** Return type of an operation. */
+    returnType?: string;
+    /** Fields of object, input and interface types, values of enums, members of unions. */
+    fields: GraphqlField[];
+    deprecated?: string;
+}
+
+const ROOT_KINDS: Record<string, 'query' | 'mutation' | 'subscription'> = { query: 'query', mutation: 'mutation', subscription: 'subscription' };
+const TYPE_KEYWORDS = ['type', 'input', 'interface', 'enum', 'union', 'scalar'];
+
+/** Whether a GraphQL definition is a query, mutation or subscription rather than a type. */
+export function isGraphqlOperation(definition: GraphqlDefinition): boolean {
+    return definition.kind === 'query' || definition.kind === 'mutation' || definition.kind === 'subscription';
+}
+
+/** `Query.users`, `type User`: the item name a definition is listed under. */
+export function graphqlItemName(definition: GraphqlDefinition, rootType: string): string {
+    return isGraphqlOperation(definition) ? `${rootType}.${definition.name}` : `${definition.kind} ${definition.name}`;
+}
+
+/**
+ * Extracts a GraphQL SDL document: every field of the root operation types
+ * (`Query`, `Mutation`, `Subscription` or those a `schema {}` block names)
+ * becomes an API route, and every other named type an API item of its own.
+ * Descriptions are the SDL description strings, or `#` comments directly
+ * above a definition. Executable documents (client queries, fragments) are
+ * skipped. `lineOffset` places SDL embedded in another file.
+ */
+export function extractGraphqlSymbols(text: string, lineOffset = 0): ExtractedSymbol[] {
+    const parser = new SdlParser(tokenize(text));
+    const parsed: ParsedType[] = [];
+    for (const type of parser.parseDocument()) {
+        // `extend type User { ... }` adds to the type rather than declaring another one
+        const existing = parsed.find(other => other.keyword === type.keyword && other.name === type.name);
+        if (existing) existing.fields.push(...type.fields);
+        else parsed.push(type);
+    }
+    const roots = { Query: 'query', Mutation: 'mutation', Subscription: 'subscription', ...parser.schemaRoots } as Record<string, string>;
+    const symbols: ExtractedSymbol[] = [];
+
+    for (const type of parsed) {
+        const rootKind = roots[type.name] as 'query' | 'mutation' | 'subscription' | undefined;
+        if (rootKind && type.keyword === 'type') {
+            for (const field of type.fields) {
+                const definition: GraphqlDefinition = {
+                    kind: rootKind,
+                    name: field.name,
+                    arguments: field.arguments,
+                    returnType: field.type,
+                    fields: [],
+                    ...(field.deprecated !== undefined ? { deprecated: field.deprecated } : {})
+                };
+                symbols.push(graphqlSymbol(definition, type.name, field.description, field.line + lineOffset, fieldSignature(field)));
+            }
+            continue;
+        }
+        if (rootKind) continue;
+        const definition: GraphqlDefinition = {
+            kind: type.keyword as GraphqlDefinition['kind'],
+            name: type.name,
+            arguments: [],
+            fields: type.fields.map(({ line, ...field }) => field)
+        };
+        symbols.push(graphqlSymbol(definition, type.name, type.description, type.line + lineOffset, type.header));
+    }
+    return symbols;
+}
+
+/** The API item for a definition; shared with code-first schemas so both read the same. */
+export function graphqlSymbol(definition: GraphqlDefinition, rootType: string, description: string | undefined, lineNumber: number, signature: string): ExtractedSymbol {
+    return {
+        kind: 'route',
+        name: graphqlItemName(definition, rootType),
+        lineNumber,
+        signature,
+        parameters: definition.arguments.map(arg => ({ name: arg.name, type: arg.type, ...(arg.description ? { description: arg.description } : {}) })),
+        returnType: definition.returnType,
+        visibility: 'public',
+        exported: true,
+        documentation: description,
+        hasDocumentation: description !== undefined,
+        graphql: definition
+    };
+}
+
+/** `users(first: Int = 10): [User!]!` */
+export function fieldSignature(field: { name: string; type: string; arguments: GraphqlArgument[] }): string {
+    const args = field.arguments.map(arg => `${arg.name}: ${arg.type}${arg.defaultValue !== undefined ? ` = ${arg.defaultValue}` : ''}`);
+    return `${field.name}${args.length > 0 ? `(${args.join(', ')})` : ''}: ${field.type}`;
+}
+
+interface Token {
+    kind: 'name' | 'punct' | 'string' | 'number' | 'comment';
+    value: string;
+    line: number;
+}
+
+interface ParsedType {
+    keyword: string;
+    name: string;
+    header: string;
+    description?: string;
+    line: number;
+    fields: Array<GraphqlField & { line: number }>;
+}
+
+class SdlParser {
+    private position = 0;
+    public readonly schemaRoots: Record<string, string> = {};
+
+    constructor(private readonly tokens: Token[]) {}
+
+    public parseDocument(): ParsedType[] {
+        const types: ParsedType[] = [];
+        while (this.position < this.tokens.length) {
+            const description = this.description();
+            const token = this.peek();
+            if (!token) break;
+            if (token.kind === 'punct' && token.value === '{') {
+                // Anonymous query shorthand
+                this.skipBlock();
+            } else if (token.kind === 'name' && token.value === 'extend') {
+                this.next();
+            } else if (token.kind === 'name' && token.value === 'schema') {
+                this.parseSchema();
+            } else if (token.kind === 'name' && TYPE_KEYWORDS.includes(token.value)) {
+                const parsed = this.parseType(description);
+                if (parsed) types.push(parsed);
+            } else if (token.kind === 'name' && ['query', 'mutation', 'subscription', 'fragment'].includes(token.value)) {
+                this.skipUntilBlock();
+            } else if (token.kind === 'name' && token.value === 'directive') {
+                this.skipDirectiveDefinition();
+            } else {
+                this.next();
+            }
+        }
+        return types;
+    }
+
+    private parseSchema(): void {
+        this.next();
+        this.directives();
+        if (!this.accept('{')) return;
+        while (this.peek() && !this.accept('}')) {
+            const operation = this.next();
+            this.accept(':');
+            const type = this.next();
+            if (operation && type && ROOT_KINDS[operation.value]) this.schemaRoots[type.value] = ROOT_KINDS[operation.value];
+        }
+    }
+
+    private parseType(description: string | undefined): ParsedType | undefined {
+        const keywordToken = this.next()!;
+        const nameToken = this.next();
+        if (!nameToken || nameToken.kind !== 'name') return undefined;
+        const keyword = keywordToken.value;
+        let header = `${keyword} ${nameToken.value}`;
+        const fields: ParsedType['fields'] = [];
+
+        if (this.peek()?.value === 'implements') {
+            this.next();
+            const interfaces: string[] = [];
+            while (this.peek()?.kind === 'name' || this.peek()?.value === '&') {
+                const token = this.next()!;
+                if (token.value !== '&') interfaces.push(token.value);
+            }
+            header += ` implements ${interfaces.join(' & ')}`;
+        }
+        this.directives();
+
+        if (keyword === 'union') {
+            if (this.accept('=')) {
+                this.accept('|');
+                const members = [this.next()?.value || ''];
+                while (this.accept('|')) members.push(this.next()?.value || '');
+                header += ` = ${members.join(' | ')}`;
+                fields.push(...members.map(member => ({ name: member, type: '', arguments: [], line: nameToken.line })));
+            }
+        } else if (this.accept('{')) {
+            while (this.peek() && !this.accept('}')) {
+                const fieldDescription = this.description();
+                const name = this.next();
+                if (!name || name.kind !== 'name') continue;
+                if (keyword === 'enum') {
+                    const deprecated = this.directives();
+                    fields.push({ name: name.value, type: '', description: fieldDescription, arguments: [], line: name.line, ...(deprecated !== undefined ? { deprecated } : {}) });
+                    continue;
+                }
+                const args = this.peek()?.value === '(' ? this.argumentsDefinition() : [];
+                this.accept(':');
+                const type = this.typeReference();
+                const defaultValue = this.accept('=') ? this.value() : undefined;
+                const deprecated = this.directives();
+                fields.push({
+                    name: name.value,
+                    type,
+                    ...(fieldDescription !== undefined ? { description: fieldDescription } : {}),
+                    arguments: args,
+                    line: name.line,
+                    ...(defaultValue !== undefined ? { defaultValue } : {}),
+                    ...(deprecated !== undefined ? { deprecated } : {})
+                });
+            }
+        }
+        return { keyword, name: nameToken.value, header, description, line: keywordToken.line, fields };
+    }
+
+    private argumentsDefinition(): GraphqlArgument[] {
+        const args: GraphqlArgument[] = [];
+        this.accept('(');
+        while (this.peek() && !this.accept(')')) {
+            const description = this.description();
+            const name = this.next();
+            if (!name || name.kind !== 'name') continue;
+            this.accept(':');
+            const type = this.typeReference();
+            const defaultValue = this.accept('=') ? this.value() : undefined;
+            this.directives();
+            args.push({ name: name.value, type, ...(description !== undefined ? { description } : {}), ...(defaultValue !== undefined ? { defaultValue } : {}) });
+        }
+        return args;
+    }
+
+    /** `[User!]!` */
+    private typeReference(): string {
+        if (this.accept('[')) {
+            const inner = this.typeReference();
+            this.accept(']');
+            return `[${inner}]${this.accept('!') ? '!' : ''}`;
+        }
+        const name = this.next();
+        return `${name?.value || ''}${this.accept('!') ? '!' : ''}`;
+    }
+
+    /** A default value as written: scalars, enum values, lists and input objects. */
+    private value(): string {
+        const token = this.next();
+        if (!token) return '';
+        if (token.value === '[') {
+            const items: string[] = [];
+            while (this.peek() && !this.accept(']')) items.push(this.value());
+            return `[${items.join(', ')}]`;
+        }
+        if (token.value === '{') {
+            const entries: string[] = [];
+            while (this.peek() && !this.accept('}')) {
+                const key = this.next()!.value;
+                this.accept(':');
+                entries.push(`${key}: ${this.value()}`);
+            }
+            return `{${entries.join(', ')}}`;
+        }
+        return token.kind === 'string' ? JSON.stringify(token.value) : token.value;
+    }
+
+    /** Skips directives, returning the `@deprecated` reason when there is one. */
+    private directives(): string | undefined {
+        let deprecated: string | undefined;
+        while (this.peek()?.value === '@') {
+            this.next();
+            const name = this.next();
+            let reason: string | undefined;
+            if (this.peek()?.value === '(') {
+                this.next();
+                while (this.peek() && !this.accept(')')) {
+                    const token = this.next()!;
+                    if (token.value === 'reason' && this.accept(':')) reason = this.next()?.value;
+                }
+            }
+            if (name?.value === 'deprecated') deprecated = reason || 'No longer supported';
+        }
+        return deprecated;
+    }
+
+    /** A description string, or the `#` comment lines directly above the next definition. */
+    private description(): string | undefined {
+        const comments: Token[] = [];
+        while (this.tokens[this.position]?.kind === 'comment') comments.push(this.tokens[this.position++]);
+        const token = this.peek();
+        if (token?.kind === 'string') {
+            this.next();
+            return token.value.trim() || undefined;
+        }
+        const last = comments[comments.length - 1];
+        // Comments separated from the definition by a blank line describe something else
+        if (!last || !token || token.line - last.line > 1) return undefined;
+        const block: string[] = [];
+        for (let i = comments.length - 1; i >= 0 && comments[i].line === last.line - (comments.length - 1 - i); i--) {
+            block.unshift(comments[i].value);
+        }
+        return block.join('\n').trim() || undefined;
+    }
+
+    private skipBlock(): void {
+        let depth = 0;
+        while (this.position < this.tokens.length) {
+            const token = this.tokens[this.position++];
+            if (token.kind !== 'punct') continue;
+            if (token.value === '{') depth++;
+            if (token.value === '}' && --depth <= 0) return;
+        }
+    }
+
+    private skipUntilBlock(): void {
+        while (this.peek() && this.peek()!.value !== '{') this.next();
+        this.skipBlock();
+    }
+
+    private skipDirectiveDefinition(): void {
+        // directive @name(args) repeatable on LOCATION | LOCATION
+        this.next();
+        this.accept('@');
+        this.next();
+        if (this.peek()?.value === '(') this.argumentsDefinition();
+        while (this.peek() && (this.peek()!.kind === 'name' || this.peek()!.value === '|')) {
+            const next = this.peek()!;
+            if (next.kind === 'name' && /^[a-z]/.test(next.value) && !['on', 'repeatable'].includes(next.value)) return;
+            this.next();
+        }
+    }
+
+    /** Index of the next token that is not a comment; comments stay put for `description()`. */
+    private significant(): number {
+        let index = this.position;
+        while (this.tokens[index]?.kind === 'comment') index++;
+        return index;
+    }
+
+    private peek(): Token | undefined {
+        return this.tokens[this.significant()];
+    }
+
+    private next(): Token | undefined {
+        const index = this.significant();
+        const token = this.tokens[index];
+        if (token) this.position = index + 1;
+        return token;
+    }
+
+    private accept(punct: string): boolean {
+        const index = this.significant();
+        const token = this.tokens[index];
+        if (token?.kind === 'punct' && token.value === punct) {
+            this.position = index + 1;
+            return true;
+        }
+        return false;
+    }
+}
+
+function tokenize(text: string): Token[] {
+    const tokens: Token[] = [];
+    let line = 1;
+    let i = 0;
+    while (i < text.length) {
+        const ch = text[i];
+        if (ch === '\n') {
+            line++;
+            i++;
+        } else if (/[\s,\uFEFF]/.test(ch)) {
+            i++;
+        } else if (ch === '#') {
+            const end = text.indexOf('\n', i);
+            const stop = end === -1 ? text.length : end;
+            tokens.push({ kind: 'comment', value: text.slice(i + 1, stop).trim(), line });
+            i = stop;
+        } else if (text.startsWith('"""', i)) {
+            const end = text.indexOf('"""', i + 3);
+            const stop = end === -1 ? text.length : end;
+            const raw = text.slice(i + 3, stop);
+            tokens.push({ kind: 'string', value: dedent(raw.replace(/\\"""/g, '"""')), line });
+            line += raw.split('\n').length - 1;
+            i = stop + 3;
+        } else if (ch === '"') {
+            let j = i + 1;
+            while (j < text.length && text[j] !== '"' && text[j] !== '\n') j += text[j] === '\\' ? 2 : 1;
+            let value = text.slice(i + 1, j);
+            try {
+                value = JSON.parse(`"${value}"`);
+            } catch {
+                // Invalid escapes: keep the raw text
+            }
+            tokens.push({ kind: 'string', value, line });
+            i = j + 1;
+        } else if (text.startsWith('...', i)) {
+            tokens.push({ kind: 'punct', value: '...', line });
+            i += 3;
+        } else if ('!$&()[]{}:=@|'.includes(ch)) {
+            tokens.push({ kind: 'punct', value: ch, line });
+            i++;
+        } else {
+            const match = text.slice(i).match(/^(-?\d[\w.+-]*|[_A-Za-z]\w*)/);
+            if (!match) {
+                i++;
+                continue;
+            }
+            tokens.push({ kind: /^[-\d]/.test(match[0]) ? 'number' : 'name', value: match[0], line });
+            i += match[0].length;
+        }
+    }
+    return tokens;
+}
+
+/** Block string value: common indentation and surrounding blank lines removed. */
+function dedent(raw: string): string {
+    const lines = raw.split('\n');
+    const indents = lines.slice(1).filter(l => l.trim()).map(l => l.length - l.trimStart().length);
+    const common = indents.length > 0 ? Math.min(...indents) : 0;
+    return lines.map((l, index) => index === 0 ? l : l.slice(common)).join('\n').trim();
+}
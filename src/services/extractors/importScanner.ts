@@ -0,0 +1,72 @@
+import * as path from 'path';
+import * as ts from 'typescript';
+
+/**
+ * Module specifiers a source file imports, as written: `react`, `./util`,
+ * `fastapi.routing`, `github.com/gin-gonic/gin`, `org.springframework.web`,
+ * `actix_web::web`. Relative specifiers are left for the caller to resolve.
+ */
+export function scanImports(text: string, fileName: string): string[] {
+    const ext = path.extname(fileName).toLowerCase();
+    let imports: string[];
+    switch (ext) {
+        case '.ts': case '.tsx': case '.js': case '.jsx': case '.mjs': case '.cjs':
+            imports = scanScriptImports(text);
+            break;
+        case '.vue':
+            imports = Array.from(text.matchAll(/<script\b[^>]*>([\s\S]*?)<\/script>/g), match => scanScriptImports(match[1])).flat();
+            break;
+        case '.py':
+            imports = scanPythonImports(text);
+            break;
+        case '.go':
+            imports = scanGoImports(text);
+            break;
+        case '.java': case '.kt':
+            imports = Array.from(text.matchAll(/^\s*import\s+(?:static\s+)?([\w.]+)(?:\.\*)?\s*;?\s*$/gm), match => match[1]);
+            break;
+        case '.rs':
+            imports = [
+                ...Array.from(text.matchAll(/^\s*(?:pub(?:\([^)]*\))?\s+)?use\s+(?:::)?([\w:]+)/gm), match => match[1].replace(/::$/, '')),
+                ...Array.from(text.matchAll(/^\s*extern\s+crate\s+(\w+)/gm), match => match[1]),
+                ...Array.from(text.matchAll(/^\s*(?:pub(?:\([^)]*\))?\s+)?mod\s+(\w+)\s*;/gm), match => `self::${match[1]}`)
+            ];
+            break;
+        default:
+            imports = [];
+    }
+    return Array.from(new Set(imports));
+}
+
+function scanScriptImports(text: string): string[] {
+    // preProcessFile only tokenizes, so it is cheap and copes with syntax errors
+    const info = ts.preProcessFile(text, true, true);
+    return info.importedFiles.map(file => file.fileName);
+}
+
+function scanPythonImports(text: string): string[] {
+    const imports: string[] = [];
+    for (const match of text.matchAll(/^[ \t]*from\s+(\.*[\w.]*)\s+import\b/gm)) {
+        imports.push(match[1]);
+    }
+    for (const match of text.matchAll(/^[ \t]*import\s+([\w., \t]+)/gm)) {
+        for (const part of match[1].split(',')) {
+            const name = part.trim().split(/\s+as\s+/)[0].trim();
+            if (name) imports.push(name);
+        }
+    }
+    return imports;
+}
+
+function scanGoImports(text: string): string[] {
+    const imports: string[] = [];
+    for (const block of text.matchAll(/^import\s*\(([\s\S]*?)\)/gm)) {
+        for (const spec of block[1].matchAll(/^\s*(?:[\w.]+\s+)?"([^"]+)"/gm)) {
+            imports.push(spec[1]);
+        }
+    }
+    for (const single of text.matchAll(/^import\s+(?:[\w.]+\s+)?"([^"]+)"/gm)) {
+        imports.push(single[1]);
+    }
+    return imports;
+}
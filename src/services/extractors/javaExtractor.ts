@@ -0,0 +1,164 @@
+import { ExtractedSymbol } from './typescriptExtractor';
+import { callsInBody, countBraces, createScanState, docCommentAbove, parenthesized, readDeclaration, splitTopLevel, stripLine } from './sourceScanner';
+
+const JAVADOC = { blockOpener: '/**', skip: /^@\w+(\.\w+)*(\(.*\))?$/ };
+const MAPPING_METHODS: Record<string, string> = { Get: 'GET', Post: 'POST', Put: 'PUT', Delete: 'DELETE', Patch: 'PATCH' };
+const NOT_METHODS = new Set(['if', 'for', 'while', 'switch', 'catch', 'synchronized', 'return', 'new', 'throw', 'else', 'try', 'do']);
+const MODIFIER = /^(public|protected|private|static|final|abstract|default|synchronized|native|sealed|non-sealed|strictfp)\s+/;
+
+interface TypeScope {
+    name: string;
+    isInterface: boolean;
+    /** Brace depth of the type's body. */
+    depth: number;
+    routePrefix: string;
+}
+
+/**
+ * Extracts types, methods and constructors from a Java file, with Javadoc as
+ * documentation. Spring `@GetMapping`-style handlers also yield route symbols,
+ * prefixed by the class-level `@RequestMapping`.
+ */
+export function extractJavaSymbols(text: string, fileName: string): ExtractedSymbol[] {
+    const lines = text.split('\n');
+    const state = createScanState();
+    const code = lines.map(line => stripLine(line, state));
+    const symbols: ExtractedSymbol[] = [];
+    const types: TypeScope[] = [];
+
+    let depth = 0;
+    for (let i = 0; i < lines.length; i++) {
+        const line = code[i];
+        const trimmed = line.trim();
+        while (types.length > 0 && depth < types[types.length - 1].depth) types.pop();
+        const owner = types[types.length - 1];
+
+        const typeMatch = trimmed.match(/^(?:@\w+(?:\([^)]*\))?\s+)*((?:[\w-]+\s+)*)(class|interface|enum|record|@interface)\s+(\w+)/);
+        if (typeMatch && !NOT_METHODS.has(trimmed.split(/\s/)[0]) && (!owner || depth === owner.depth)) {
+            const name = owner ? `${owner.name}.${typeMatch[3]}` : typeMatch[3];
+            const kind = typeMatch[2] === 'class' || typeMatch[2] === 'record' ? 'class' : typeMatch[2] === 'enum' ? 'enum' : 'interface';
+            const visibility = owner?.isInterface ? 'public' : visibilityOf(typeMatch[1]);
+            const documentation = docCommentAbove(lines, i, JAVADOC);
+            const declaration = readDeclaration(lines, code, i);
+            symbols.push({
+                kind,
+                name,
+                lineNumber: i + 1,
+                signature: declaration.text,
+                parameters: [],
+                visibility,
+                exported: visibility === 'public' && (!owner || isExported(symbols, owner.name)),
+                documentation,
+                hasDocumentation: documentation !== undefined
+            });
+            types.push({
+                name,
+                isInterface: kind === 'interface',
+                depth: depth + 1,
+                routePrefix: requestMappingAbove(lines, i) || ''
+            });
+        } else if (owner && depth === owner.depth && /^[\w<@]/.test(trimmed) && trimmed.includes('(') && !JAVADOC.skip.test(trimmed)) {
+            const method = describeMethod(lines, code, i, owner, symbols);
+            if (method) {
+                symbols.push(method);
+                const route = routeOf(lines, i, owner.routePrefix);
+                if (route) {
+                    symbols.push({ ...method, kind: 'route', name: route, visibility: 'public', exported: true, handler: method.name });
+                }
+            }
+        }
+        depth += countBraces(line);
+    }
+    return symbols;
+}
+
+function describeMethod(lines: string[], code: string[], index: number, owner: TypeScope, symbols: ExtractedSymbol[]): ExtractedSymbol | null {
+    const { text } = readDeclaration(lines, code, index);
+    let rest = text.replace(/@\w+(\.\w+)*(\([^)]*\))?\s*/g, '');
+    let modifiers = '';
+    let modifier: RegExpMatchArray | null;
+    while ((modifier = rest.match(MODIFIER))) {
+        modifiers += modifier[0];
+        rest = rest.slice(modifier[0].length);
+    }
+    // [<T>] ReturnType name(params) [throws ...]; a constructor has no return type
+    const match = rest.match(/^(?:<[^(]*?>\s*)?(?:([\w.$<>\[\],? ]+?)\s+)?(\w+)\s*\(/);
+    if (!match || NOT_METHODS.has(match[2]) || (match[1] && NOT_METHODS.has(match[1]))) return null;
+    const isConstructor = !match[1];
+    if (isConstructor && match[2] !== owner.name.split('.').pop()) return null;
+
+    const visibility = owner.isInterface && !/\bprivate\b/.test(modifiers) ? 'public' : visibilityOf(modifiers);
+    const params = parenthesized(rest, match[0].length - 1);
+    const documentation = docCommentAbove(lines, index, JAVADOC);
+    const paramDocs = documentation ? readParamTags(documentation) : {};
+
+    return {
+        kind: 'method',
+        name: `${owner.name}.${match[2]}`,
+        lineNumber: index + 1,
+        signature: text,
+        parameters: params ? splitTopLevel(params.inner).map(part => {
+            const param = part.replace(/@\w+(\([^)]*\))?\s*/g, '').replace(/\bfinal\s+/, '').trim();
+            const name = param.split(/\s+/).pop() || param;
+            return { name, type: param.slice(0, param.length - name.length).trim(), description: paramDocs[name] };
+        }) : [],
+        returnType: match[1]?.trim(),
+        visibility,
+        exported: visibility === 'public' && isExported(symbols, owner.name),
+        documentation,
+        hasDocumentation: documentation !== undefined,
+        calls: callsInBody(code, index)
+    };
+}
+
+/** Package-private members are not part of the public API, so they count as private. */
+function visibilityOf(modifiers: string): ExtractedSymbol['visibility'] {
+    if (/\bpublic\b/.test(modifiers)) return 'public';
+    if (/\bprotected\b/.test(modifiers)) return 'protected';
+    return 'private';
+}
+
+function isExported(symbols: ExtractedSymbol[], typeName: string): boolean {
+    return symbols.some(symbol => symbol.name === typeName && symbol.exported);
+}
+
+function readParamTags(documentation: string): Record<string, string> {
+    const params: Record<string, string> = {};
+    for (const match of documentation.matchAll(/@param\s+(\w+)\s+([^\n]+)/g)) {
+        params[match[1]] = match[2].trim();
+    }
+    return params;
+}
+
+/** The annotations stacked directly above a declaration. */
+function annotationsAbove(lines: string[], index: number): string[] {
+    const annotations: string[] = [];
+    for (let i = index - 1; i >= 0 && lines[i].trim().startsWith('@'); i--) {
+        annotations.unshift(lines[i].trim());
+    }
+    // Annotations may also sit on the declaration line itself
+    annotations.push(...(lines[index].match(/@\w+(\([^)]*\))?/g) || []));
+    return annotations;
+}
+
+function requestMappingAbove(lines: string[], index: number): string | undefined {
+    for (const annotation of annotationsAbove(lines, index)) {
+        const mapping = annotation.match(/^@RequestMapping\(\s*(?:(?:value|path)\s*=\s*)?"([^"]*)"/);
+        if (mapping) return mapping[1].replace(/\/$/, '');
+    }
+    return undefined;
+}
+
+function routeOf(lines: string[], index: number, prefix: string): string | undefined {
+    for (const annotation of annotationsAbove(lines, index)) {
+        const mapping = annotation.match(/^@(Get|Post|Put|Delete|Patch|Request)Mapping\b(?:\(\s*(?:(?:value|path)\s*=\s*)?"([^"]*)")?/);
+        if (!mapping) continue;
+        const method = mapping[1] === 'Request'
+            ? annotation.match(/RequestMethod\.(\w+)/)?.[1]
+            : MAPPING_METHODS[mapping[1]];
+        if (!method) continue;
+        const path = `${prefix}/${(mapping[2] || '').replace(/^\//, '')}`.replace(/\/$/, '') || '/';
+        return `${method.toUpperCase()} ${path}`;
+    }
+    return undefined;
+}
@@ -0,0 +1,134 @@
+import { HttpOperation, HttpParameter, pathConverterSchema, pathParameterNames, SchemaDefinition, SchemaObject, schemaForType, toOpenApiPath } from './apiShapes';
+import { parenthesized, splitTopLevel } from './sourceScanner';
+
+const MODEL_BASES = ['BaseModel', 'SQLModel', 'Schema', 'TypedDict', 'BaseSettings'];
+// Injected by the framework rather than sent by the client
+const FRAMEWORK_TYPES = ['Request', 'Response', 'WebSocket', 'BackgroundTasks', 'Session', 'AsyncSession', 'HTTPConnection', 'SecurityScopes'];
+const STATUS_NAMES: Record<string, number> = { OK: 200, CREATED: 201, ACCEPTED: 202, NO_CONTENT: 204 };
+
+/**
+ * Parameters, body and response of a FastAPI/Flask handler from its
+ * signature: path names become path parameters, `Query()`/`Header()`/`Body()`
+ * defaults say where the rest come from, other scalars are query parameters
+ * and model-typed parameters form the body. `response_model=` and
+ * `status_code=` in the decorator win over the return annotation.
+ */
+export function describePythonOperation(method: string, routePath: string, decorator: string, header: string): HttpOperation {
+    const openApiPath = toOpenApiPath(routePath);
+    const pathNames = pathParameterNames(openApiPath);
+    const parameters: HttpParameter[] = [];
+    const bodies: Array<{ name: string; schema: SchemaObject }> = [];
+
+    const open = header.indexOf('(');
+    const list = open === -1 ? undefined : parenthesized(header, open);
+    for (const part of list ? splitTopLevel(list.inner) : []) {
+        const match = part.match(/^(\w+)\s*(?::\s*([^=]+?))?\s*(?:=\s*(.+))?$/);
+        if (!match || ['self', 'cls'].includes(match[1])) continue;
+        const [, name, annotation, defaultValue] = match;
+        const { type, marker } = unwrapAnnotated(annotation?.trim(), defaultValue?.trim());
+        if (marker === 'Depends' || marker === 'Security' || FRAMEWORK_TYPES.includes((type || '').split('.').pop()!)) continue;
+
+        const schema = schemaForType(type);
+        const required = !defaultValue || /^(Query|Path|Header|Body|Form)\(\s*(\.\.\.|\))/.test(defaultValue);
+        if (pathNames.includes(name) || marker === 'Path') {
+            parameters.push({ name, in: 'path', required: true, schema: type ? schema : pathConverterSchema(routePath, name) || { type: 'string' } });
+        } else if (marker === 'Header') {
+            parameters.push({ name: name.replace(/_/g, '-'), in: 'header', required, schema });
+        } else if (marker === 'Query' || (!marker && !schema.$ref && schema.items?.$ref === undefined && schema.type !== 'object')) {
+            parameters.push({ name, in: 'query', required, schema });
+        } else {
+            bodies.push({ name, schema });
+        }
+    }
+    for (const name of pathNames) {
+        if (!parameters.some(p => p.in === 'path' && p.name === name)) {
+            parameters.push({ name, in: 'path', required: true, schema: pathConverterSchema(routePath, name) || { type: 'string' } });
+        }
+    }
+
+    // Several body parameters are embedded under their names, as FastAPI does
+    const requestBody = bodies.length === 1 ? bodies[0].schema
+        : bodies.length > 1 ? { type: 'object' as const, properties: Object.fromEntries(bodies.map(b => [b.name, b.schema])), required: bodies.map(b => b.name) }
+        : undefined;
+
+    const responseModel = keywordArgument(decorator, 'response_model');
+    const returnType = header.match(/->\s*(.+?)\s*$/)?.[1];
+    const status = statusCode(keywordArgument(decorator, 'status_code')) || 200;
+    const response = responseModel ? schemaForType(responseModel) : returnType ? schemaForType(returnType) : undefined;
+    return {
+        parameters,
+        requestBody: method === 'get' || method === 'delete' ? undefined : requestBody,
+        responses: [{ status, schema: status === 204 ? undefined : response }]
+    };
+}
+
+/**
+ * Pydantic/SQLModel models, TypedDicts and dataclasses declared in a Python
+ * file, with fields inherited from models declared earlier in the same file.
+ */
+export function pythonSchemas(lines: string[], code: string[]): SchemaDefinition[] {
+    const schemas: SchemaDefinition[] = [];
+    const byName = new Map<string, SchemaObject>();
+
+    for (let i = 0; i < code.length; i++) {
+        const match = code[i].match(/^class\s+(\w+)\s*(?:\(([^)]*)\))?\s*:/);
+        if (!match) continue;
+        const bases = (match[2] || '').split(',').map(base => base.trim().split('.').pop()!).filter(Boolean);
+        const isDataclass = /^@(dataclasses\.)?dataclass\b/.test(lines[i - 1]?.trim() || '');
+        const parent = bases.map(base => byName.get(base)).find(Boolean);
+        if (!isDataclass && !parent && !bases.some(base => MODEL_BASES.includes(base))) continue;
+
+        const properties: Record<string, SchemaObject> = { ...(parent?.properties || {}) };
+        const required = new Set(parent?.required || []);
+        for (let k = i + 1; k < code.length; k++) {
+            const line = code[k];
+            if (line.trim() && !/^\s/.test(line)) break;
+            const field = line.match(/^\s{1,8}(\w+)\s*:\s*([^=]+?)\s*(?:=\s*(.+))?$/);
+            if (!field || field[1].startsWith('_') || /^(ClassVar|Final)\b/.test(field[2])) continue;
+            const [, name, type, defaultValue] = field;
+            let schema = schemaForType(type);
+            const fieldCall = defaultValue?.match(/^Field\((.*)\)?$/)?.[1] || '';
+            const description = fieldCall.match(/description\s*=\s*['"]([^'"]*)['"]/)?.[1];
+            const minimum = fieldCall.match(/\bge\s*=\s*(-?[\d.]+)/)?.[1];
+            const maximum = fieldCall.match(/\ble\s*=\s*(-?[\d.]+)/)?.[1];
+            if (description) schema = { ...schema, description };
+            if (minimum) schema = { ...schema, minimum: Number(minimum) };
+            if (maximum) schema = { ...schema, maximum: Number(maximum) };
+            properties[name] = schema;
+            const optionalType = /Optional\[|\|\s*None|None\s*\|/.test(type);
+            if ((!defaultValue || /^Field\(\s*\.\.\./.test(defaultValue)) && !optionalType) required.add(name);
+            else required.delete(name);
+        }
+        const schema: SchemaObject = { type: 'object', properties, ...(required.size > 0 ? { required: Array.from(required) } : {}) };
+        byName.set(match[1], schema);
+        schemas.push({ name: match[1], schema, lineNumber: i + 1 });
+    }
+    return schemas;
+}
+
+/** The type and FastAPI marker (`Query`, `Depends`...) of a parameter, including `Annotated[T, Query()]`. */
+function unwrapAnnotated(annotation: string | undefined, defaultValue: string | undefined): { type?: string; marker?: string } {
+    const annotated = annotation?.match(/^Annotated\[(.*)\]$/);
+    if (annotated) {
+        const [type, ...extras] = splitTopLevel(annotated[1]);
+        const marker = extras.map(extra => extra.match(/^(\w+)\(/)?.[1]).find(Boolean);
+        return { type, marker };
+    }
+    return { type: annotation, marker: defaultValue?.match(/^(\w+)\(/)?.[1] };
+}
+
+function keywordArgument(decorator: string, name: string): string | undefined {
+    const open = decorator.indexOf('(');
+    const list = open === -1 ? undefined : parenthesized(decorator, open);
+    if (!list) return undefined;
+    const argument = splitTopLevel(list.inner).find(part => part.startsWith(name));
+    return argument?.match(new RegExp(`^${name}\\s*=\\s*(.+)$`))?.[1].trim();
+}
+
+/** `201`, `status.HTTP_201_CREATED` or `HTTPStatus.CREATED`. */
+function statusCode(value: string | undefined): number | undefined {
+    if (!value) return undefined;
+    const digits = value.match(/\d{3}/)?.[0];
+    if (digits) return Number(digits);
+    return STATUS_NAMES[value.split('.').pop() || ''];
+}
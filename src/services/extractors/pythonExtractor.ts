@@ -0,0 +1,280 @@
+import { ExtractedSymbol } from './typescriptExtractor';
+import type { SchemaDefinition } from './apiShapes';
+import { describePythonOperation, pythonSchemas } from './pythonApi';
+import { collapseWhitespace, parenthesized, scanCalls, splitTopLevel } from './sourceScanner';
+
+const HTTP_METHODS = ['get', 'post', 'put', 'delete', 'patch'];
+
+interface Scope {
+    indent: number;
+    kind: 'class' | 'function';
+    name: string;
+}
+
+/**
+ * Extracts module-level functions, classes and their methods from a Python
+ * file, with the docstring as documentation. Nested functions are skipped;
+ * names starting with an underscore are private unless listed in `__all__`.
+ */
+export function extractPythonSymbols(text: string, fileName: string): ExtractedSymbol[] {
+    const lines = text.split('\n');
+    const code = maskStrings(lines);
+    const bare = maskStrings(lines, true);
+    const publicNames = readDunderAll(text);
+    const symbols: ExtractedSymbol[] = [];
+    const scopes: Scope[] = [];
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = code[i];
+        if (!line.trim() || line.trim().startsWith('#')) continue;
+        const indent = line.length - line.trimStart().length;
+        while (scopes.length > 0 && scopes[scopes.length - 1].indent >= indent) scopes.pop();
+
+        const match = line.match(/^\s*(async\s+def|def|class)\s+(\w+)/);
+        if (!match) continue;
+        const header = readHeader(lines, code, i);
+        const isClass = match[1] === 'class';
+        const name = match[2];
+        const parent = scopes[scopes.length - 1];
+        scopes.push({ indent, kind: isClass ? 'class' : 'function', name });
+
+        // Only module-level declarations and members of module-level classes
+        if (scopes.length > 2 || (parent && parent.kind !== 'class')) continue;
+        const inClass = parent !== undefined;
+        if (isDunder(name) && !(name === '__init__' && inClass)) continue;
+
+        const documentation = readDocstring(lines, header.endLine + 1);
+        const routes = inClass ? [] : readRouteDecorators(lines, i);
+        const parameters = isClass ? [] : parseParameters(header.text, inClass, documentation);
+        const returnType = isClass ? undefined : header.text.match(/->\s*(.+?)\s*:?\s*$/)?.[1];
+        const privateName = name.startsWith('_') && !isDunder(name);
+        const exported = inClass
+            ? !privateName && !parent.name.startsWith('_')
+            : publicNames ? publicNames.includes(name) : !privateName;
+
+        const symbol: ExtractedSymbol = {
+            kind: isClass ? 'class' : inClass ? 'method' : 'function',
+            name: inClass ? `${parent.name}.${name}` : name,
+            lineNumber: i + 1,
+            signature: header.text,
+            parameters,
+            returnType,
+            visibility: privateName ? 'private' : 'public',
+            exported,
+            documentation,
+            hasDocumentation: documentation !== undefined,
+            calls: isClass ? undefined : scanCalls(blockBody(bare, header.endLine, indent))
+        };
+        symbols.push(symbol);
+        for (const route of routes) {
+            symbols.push({
+                ...symbol,
+                kind: 'route',
+                name: `${route.method.toUpperCase()} ${route.path}`,
+                visibility: 'public',
+                exported: true,
+                http: describePythonOperation(route.method, route.path, route.decorator, header.text),
+                handler: symbol.name
+            });
+        }
+    }
+    return symbols;
+}
+
+/** Pydantic models, TypedDicts and dataclasses declared in a Python file, for the OpenAPI components. */
+export function extractPythonSchemas(text: string): SchemaDefinition[] {
+    const lines = text.split('\n');
+    return pythonSchemas(lines, maskStrings(lines));
+}
+
+/**
+ * Blanks the contents of triple-quoted strings so docstrings and embedded
+ * code samples are not mistaken for declarations, and of other string
+ * literals too with `blankQuoted`, for scanning calls. A `#` inside a literal
+ * does not start a comment. Line lengths are kept.
+ */
+function maskStrings(lines: string[], blankQuoted = false): string[] {
+    let open: string | null = null;
+    return lines.map(line => {
+        let out = '';
+        let i = 0;
+        while (i < line.length) {
+            if (open) {
+                const end = line.indexOf(open, i);
+                if (end === -1) {
+                    out += ' '.repeat(line.length - i);
+                    return out;
+                }
+                out += ' '.repeat(end - i) + open;
+                i = end + 3;
+                open = null;
+                continue;
+            }
+            const triple = line.slice(i, i + 3);
+            if (triple === '"""' || triple === '\'\'\'') {
+                open = triple;
+                out += triple;
+                i += 3;
+            } else if (line[i] === '"' || line[i] === '\'') {
+                let end = i + 1;
+                while (end < line.length && line[end] !== line[i]) end += line[end] === '\\' ? 2 : 1;
+                const literal = line.slice(i, end + 1);
+                out += blankQuoted ? literal[0] + ' '.repeat(literal.length - 1) : literal;
+                i += literal.length;
+            } else if (line[i] === '#') {
+                out += ' '.repeat(line.length - i);
+                break;
+            } else {
+                out += line[i++];
+            }
+        }
+        return out;
+    });
+}
+
+/** A `def`/`class` header, which may span lines until the closing `:`. */
+function readHeader(lines: string[], code: string[], start: number): { text: string; endLine: number } {
+    let depth = 0;
+    const parts: string[] = [];
+    for (let i = start; i < lines.length; i++) {
+        parts.push(code[i]);
+        for (const ch of code[i]) {
+            if ('([{'.includes(ch)) depth++;
+            else if (')]}'.includes(ch)) depth--;
+        }
+        if (depth <= 0 && /:\s*$/.test(code[i])) {
+            return { text: collapseWhitespace(parts.join(' ')).replace(/\s*:$/, ''), endLine: i };
+        }
+    }
+    return { text: collapseWhitespace(lines[start]), endLine: start };
+}
+
+/** Code of the indented block after a header ending on `headerEnd`. */
+function blockBody(code: string[], headerEnd: number, indent: number): string {
+    const body: string[] = [];
+    for (let i = headerEnd + 1; i < code.length; i++) {
+        if (code[i].trim() && code[i].length - code[i].trimStart().length <= indent) break;
+        body.push(code[i]);
+    }
+    return body.join('\n');
+}
+
+/** The string literal that opens a body, if the first statement is one. */
+function readDocstring(lines: string[], start: number): string | undefined {
+    let i = start;
+    while (i < lines.length && (!lines[i].trim() || lines[i].trim().startsWith('#'))) i++;
+    if (i >= lines.length) return undefined;
+
+    const opening = lines[i].trim().match(/^[rRuUbBfF]{0,2}("""|'''|"|')/);
+    if (!opening) return undefined;
+    const quote = opening[1];
+    const first = lines[i].trim().slice(opening[0].length);
+
+    const body: string[] = [];
+    let rest = first;
+    for (let k = i; k < lines.length; k++) {
+        const end = rest.indexOf(quote);
+        if (end !== -1) {
+            body.push(rest.slice(0, end));
+            break;
+        }
+        // Single-quoted strings cannot span lines
+        if (quote.length === 1) return undefined;
+        body.push(rest);
+        rest = lines[k + 1] ?? '';
+    }
+    const docstring = dedent(body).trim();
+    return docstring || undefined;
+}
+
+function dedent(lines: string[]): string {
+    const indents = lines.slice(1).filter(line => line.trim()).map(line => line.length - line.trimStart().length);
+    const common = indents.length > 0 ? Math.min(...indents) : 0;
+    return [lines[0], ...lines.slice(1).map(line => line.slice(common))].join('\n');
+}
+
+function parseParameters(header: string, isMethod: boolean, docstring: string | undefined): Array<{name: string, type: string, description?: string}> {
+    const open = header.indexOf('(');
+    const list = open === -1 ? undefined : parenthesized(header, open);
+    if (!list) return [];
+    const descriptions = docstring ? readParameterDocs(docstring) : {};
+
+    const params = splitTopLevel(list.inner)
+        .filter(part => part !== '*' && part !== '/')
+        .map(part => {
+            const match = part.match(/^(\*{0,2}\w+)\s*(?::\s*([^=]+?))?\s*(?:=.*)?$/);
+            const name = match ? match[1] : part;
+            return {
+                name,
+                type: match?.[2]?.trim() || 'Any',
+                description: descriptions[name.replace(/^\*+/, '')]
+            };
+        });
+    if (isMethod && params.length > 0 && (params[0].name === 'self' || params[0].name === 'cls')) {
+        params.shift();
+    }
+    return params;
+}
+
+/** Parameter descriptions from Google style `Args:` sections or Sphinx `:param x:` fields. */
+function readParameterDocs(docstring: string): Record<string, string> {
+    const descriptions: Record<string, string> = {};
+    for (const match of docstring.matchAll(/:param\s+(?:[\w\[\], ]+\s+)?(\w+):\s*(.+)/g)) {
+        descriptions[match[1]] = match[2].trim();
+    }
+
+    const lines = docstring.split('\n');
+    const start = lines.findIndex(line => /^\s*(Args|Arguments|Parameters):\s*$/.test(line));
+    if (start !== -1) {
+        for (const line of lines.slice(start + 1)) {
+            if (line.trim() && !/^\s/.test(line)) break;
+            const entry = line.match(/^\s+\*{0,2}(\w+)(?:\s*\([^)]*\))?:\s*(.+)/);
+            if (entry) descriptions[entry[1]] = entry[2].trim();
+        }
+    }
+    return descriptions;
+}
+
+/** Flask/FastAPI style route decorators directly above a function, with arguments that may wrap onto several lines. */
+function readRouteDecorators(lines: string[], index: number): Array<{ method: string; path: string; decorator: string }> {
+    let start = index;
+    while (start > 0 && lines[start - 1].trim() && !/^\s*(async\s+def|def|class)\b/.test(lines[start - 1])) start--;
+
+    const decorators: string[] = [];
+    let depth = 0;
+    for (let i = start; i < index; i++) {
+        const line = lines[i].trim();
+        if (depth === 0 && line.startsWith('@')) decorators.push(line);
+        else if (depth > 0 && decorators.length > 0) decorators[decorators.length - 1] += ' ' + line;
+        else continue;
+        for (const ch of line) {
+            if (ch === '(' || ch === '[') depth++;
+            else if (ch === ')' || ch === ']') depth--;
+        }
+    }
+
+    const routes: Array<{ method: string; path: string; decorator: string }> = [];
+    for (const decorator of decorators) {
+        const verb = decorator.match(/^@\w+(?:\.\w+)*\.(\w+)\(\s*['"]([^'"]*)['"]/);
+        if (!verb) continue;
+        const method = verb[1].toLowerCase();
+        if (HTTP_METHODS.includes(method)) {
+            routes.push({ method, path: verb[2], decorator });
+        } else if (method === 'route') {
+            const methods = decorator.match(/methods\s*=\s*\[([^\]]*)\]/)?.[1]
+                .split(',').map(m => m.trim().replace(/['"]/g, '').toLowerCase()).filter(Boolean) || ['get'];
+            routes.push(...methods.map(m => ({ method: m, path: verb[2], decorator })));
+        }
+    }
+    return routes;
+}
+
+function readDunderAll(text: string): string[] | undefined {
+    const match = text.match(/^__all__\s*(?::[^=]*)?=\s*[\[(]([^\])]*)[\])]/m);
+    if (!match) return undefined;
+    return Array.from(match[1].matchAll(/['"](\w+)['"]/g), m => m[1]);
+}
+
+function isDunder(name: string): boolean {
+    return name.startsWith('__') && name.endsWith('__');
+}
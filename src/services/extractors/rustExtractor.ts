@@ -0,0 +1,160 @@
+import { ExtractedSymbol } from './typescriptExtractor';
+import { callsInBody, countBraces, createScanState, docCommentAbove, parenthesized, readDeclaration, splitTopLevel, stripLine } from './sourceScanner';
+
+const RUSTDOC = { linePrefix: '///', blockOpener: '/**', skip: /^#\[.*\]$/ };
+const HTTP_METHODS = ['get', 'post', 'put', 'delete', 'patch'];
+const VISIBILITY = /^(pub(?:\s*\([^)]*\))?\s+)?/;
+
+interface Container {
+    kind: 'impl' | 'trait' | 'mod';
+    /** Self type of an impl, or the trait name. */
+    name: string;
+    /** Brace depth of the block's body. */
+    depth: number;
+    /** Visibility of the methods when set: trait items and `impl Trait for Type` have no modifiers of their own. */
+    inherited?: ExtractedSymbol['visibility'];
+}
+
+/**
+ * Extracts fns, structs, enums, traits and type aliases from a Rust file, plus
+ * the methods of `impl` and `trait` blocks, with `///` rustdoc as documentation.
+ * actix/rocket `#[get("/path")]` handlers also yield route symbols.
+ */
+export function extractRustSymbols(text: string, fileName: string): ExtractedSymbol[] {
+    const lines = text.split('\n');
+    const state = createScanState();
+    const code = lines.map(line => stripLine(line, state));
+    const symbols: ExtractedSymbol[] = [];
+    const containers: Container[] = [];
+
+    let depth = 0;
+    for (let i = 0; i < lines.length; i++) {
+        const line = code[i];
+        const trimmed = line.trim();
+        while (containers.length > 0 && depth < containers[containers.length - 1].depth) containers.pop();
+        const container = containers[containers.length - 1];
+        const itemLevel = container ? depth === container.depth : depth === 0;
+
+        if (itemLevel) {
+            const visibilityPrefix = trimmed.match(VISIBILITY)![0];
+            const rest = trimmed.slice(visibilityPrefix.length);
+            const block = rest.match(/^(?:unsafe\s+)?(impl|trait|mod)\b/);
+
+            if (block && block[1] === 'impl') {
+                const header = readDeclaration(lines, code, i).text;
+                const target = header.match(/^(?:unsafe\s+)?impl\s*(?:<.*?>\s*)?(?:(.+?)\s+for\s+)?(?:&\s*)?([\w:]+)/);
+                containers.push({ kind: 'impl', name: target ? target[2].split('::').pop()! : '', depth: depth + 1, inherited: target?.[1] ? 'public' : undefined });
+            } else if (block && block[1] === 'mod') {
+                if (/\{/.test(line)) containers.push({ kind: 'mod', name: '', depth: depth + 1 });
+            } else if (/^(?:(?:const|async|unsafe|extern(?:\s+"\w+")?)\s+)*fn\s+\w+/.test(rest)) {
+                const symbol = describeFn(lines, code, i, visibilityPrefix, container);
+                symbols.push(symbol);
+                if (!container || container.kind === 'mod') {
+                    for (const route of routesAbove(lines, i)) {
+                        symbols.push({ ...symbol, kind: 'route', name: route, visibility: 'public', exported: true, handler: symbol.name });
+                    }
+                }
+            } else if (!container || container.kind === 'mod') {
+                const item = rest.match(/^(?:unsafe\s+)?(struct|enum|trait|type|union)\s+(\w+)/);
+                if (item) {
+                    const visibility = visibilityOf(visibilityPrefix);
+                    const documentation = docCommentAbove(lines, i, RUSTDOC);
+                    const kinds: Record<string, ExtractedSymbol['kind']> = { struct: 'class', union: 'class', enum: 'enum', trait: 'interface', type: 'type' };
+                    symbols.push({
+                        kind: kinds[item[1]],
+                        name: item[2],
+                        lineNumber: i + 1,
+                        signature: readDeclaration(lines, code, i).text,
+                        parameters: [],
+                        visibility,
+                        exported: visibility === 'public',
+                        documentation,
+                        hasDocumentation: documentation !== undefined
+                    });
+                    if (item[1] === 'trait') {
+                        containers.push({ kind: 'trait', name: item[2], depth: depth + 1, inherited: visibility });
+                    }
+                }
+            }
+        }
+        depth += countBraces(line);
+    }
+    return symbols;
+}
+
+function describeFn(lines: string[], code: string[], index: number, visibilityPrefix: string, container: Container | undefined): ExtractedSymbol {
+    const { text } = readDeclaration(lines, code, index);
+    const header = text.match(/\bfn\s+(\w+)/)!;
+    const name = header[1];
+    const open = openingParen(text, header.index! + header[0].length);
+    const params = open === -1 ? undefined : parenthesized(text, open);
+    const after = params ? text.slice(params.close + 1) : '';
+    const returnType = after.match(/->\s*(.+?)(?:\s+where\b.*)?$/)?.[1];
+
+    const visibility = container?.inherited ?? visibilityOf(visibilityPrefix);
+    const exported = visibility === 'public';
+    const documentation = docCommentAbove(lines, index, RUSTDOC);
+    const argumentDocs = documentation ? readArgumentDocs(documentation) : {};
+    const isMethod = container !== undefined && container.kind !== 'mod';
+
+    return {
+        kind: isMethod ? 'method' : 'function',
+        name: isMethod ? `${container!.name}.${name}` : name,
+        lineNumber: index + 1,
+        signature: text,
+        parameters: params ? splitTopLevel(params.inner)
+            .filter(part => !/^(&\s*('\w+\s+)?)?(mut\s+)?self\b/.test(part))
+            .map(part => {
+                const colon = part.indexOf(':');
+                const pattern = colon === -1 ? part : part.slice(0, colon).trim();
+                const paramName = pattern.replace(/^mut\s+/, '');
+                return { name: paramName, type: colon === -1 ? '' : part.slice(colon + 1).trim(), description: argumentDocs[paramName] };
+            }) : [],
+        returnType,
+        visibility,
+        exported,
+        documentation,
+        hasDocumentation: documentation !== undefined,
+        calls: callsInBody(code, index)
+    };
+}
+
+/** `pub` is public API; `pub(crate)` and friends are visible only inside the crate. */
+function visibilityOf(prefix: string): ExtractedSymbol['visibility'] {
+    if (!prefix.trim()) return 'private';
+    return /\(/.test(prefix) ? 'protected' : 'public';
+}
+
+/** Position of the parameter list, skipping generics such as `<F: Fn(u8)>`. */
+function openingParen(text: string, from: number): number {
+    let angle = 0;
+    for (let i = from; i < text.length; i++) {
+        if (text[i] === '<') angle++;
+        else if (text[i] === '>' && text[i - 1] !== '-') angle--;
+        else if (text[i] === '(' && angle === 0) return i;
+    }
+    return -1;
+}
+
+/** Entries of the conventional `# Arguments` section: `` * `name` - description ``. */
+function readArgumentDocs(documentation: string): Record<string, string> {
+    const descriptions: Record<string, string> = {};
+    const section = documentation.split(/^#\s+Arguments\s*$/m)[1];
+    if (!section) return descriptions;
+    for (const line of section.split(/^#\s/m)[0].split('\n')) {
+        const entry = line.match(/^\s*[*-]\s*`(\w+)`\s*[-:]?\s*(.+)/);
+        if (entry) descriptions[entry[1]] = entry[2].trim();
+    }
+    return descriptions;
+}
+
+function routesAbove(lines: string[], index: number): string[] {
+    const routes: string[] = [];
+    for (let i = index - 1; i >= 0 && lines[i].trim().startsWith('#['); i--) {
+        const attribute = lines[i].trim().match(/^#\[(\w+)\(\s*"([^"]*)"/);
+        if (attribute && HTTP_METHODS.includes(attribute[1])) {
+            routes.unshift(`${attribute[1].toUpperCase()} ${attribute[2]}`);
+        }
+    }
+    return routes;
+}
@@ -0,0 +1,263 @@
+/**
+ * Line-oriented helpers shared by the extractors of brace languages (Go, Java,
+ * Rust), which are parsed without a real grammar.
+ */
+
+export interface ScanState {
+    inBlockComment: boolean;
+    inRawString: boolean;
+}
+
+export interface ScanOptions {
+    /** Go raw strings: backtick-quoted, may span lines. */
+    backtickStrings?: boolean;
+}
+
+export function createScanState(): ScanState {
+    return { inBlockComment: false, inRawString: false };
+}
+
+/**
+ * Blanks out comments and the contents of string and char literals, keeping
+ * the line length so offsets still match the original text.
+ */
+export function stripLine(line: string, state: ScanState, options: ScanOptions = {}): string {
+    const out = line.split('');
+    const blank = (from: number, to: number) => {
+        for (let k = from; k < to && k < out.length; k++) out[k] = ' ';
+    };
+
+    let i = 0;
+    while (i < line.length) {
+        if (state.inBlockComment) {
+            const end = line.indexOf('*/', i);
+            if (end === -1) {
+                blank(i, line.length);
+                return out.join('');
+            }
+            blank(i, end + 2);
+            i = end + 2;
+            state.inBlockComment = false;
+            continue;
+        }
+        if (state.inRawString) {
+            const end = line.indexOf('`', i);
+            if (end === -1) {
+                blank(i, line.length);
+                return out.join('');
+            }
+            blank(i, end);
+            i = end + 1;
+            state.inRawString = false;
+            continue;
+        }
+
+        const ch = line[i];
+        const next = line[i + 1];
+        if (ch === '/' && next === '/') {
+            blank(i, line.length);
+            return out.join('');
+        }
+        if (ch === '/' && next === '*') {
+            state.inBlockComment = true;
+            blank(i, i + 2);
+            i += 2;
+        } else if (ch === '"') {
+            let j = i + 1;
+            while (j < line.length && line[j] !== '"') {
+                j += line[j] === '\\' ? 2 : 1;
+            }
+            blank(i + 1, j);
+            i = j + 1;
+        } else if (ch === '`' && options.backtickStrings) {
+            state.inRawString = true;
+            i++;
+        } else if (ch === '\'') {
+            // Char literal; a lone quote is a Rust lifetime and is left alone
+            const literal = line.slice(i).match(/^'(\\u\{?[0-9a-fA-F]+\}?|\\.|[^\\'])'/);
+            if (literal) {
+                blank(i + 1, i + literal[0].length - 1);
+                i += literal[0].length;
+            } else {
+                i++;
+            }
+        } else {
+            i++;
+        }
+    }
+    return out.join('');
+}
+
+export function countBraces(code: string): number {
+    let depth = 0;
+    for (const ch of code) {
+        if (ch === '{') depth++;
+        else if (ch === '}') depth--;
+    }
+    return depth;
+}
+
+/**
+ * Joins the lines of a declaration that may span several lines, up to (not
+ * including) the first `{` or `;` outside parentheses. Works on stripped lines
+ * to find the end and returns the matching original text.
+ */
+export function readDeclaration(lines: string[], code: string[], start: number): { text: string; endLine: number } {
+    let parens = 0;
+    const parts: string[] = [];
+    for (let i = start; i < lines.length; i++) {
+        const line = code[i];
+        for (let c = 0; c < line.length; c++) {
+            const ch = line[c];
+            if (ch === '(' || ch === '[') parens++;
+            else if (ch === ')' || ch === ']') parens--;
+            else if (parens <= 0 && (ch === '{' || ch === ';')) {
+                parts.push(lines[i].slice(0, c));
+                return { text: collapseWhitespace(parts.join(' ')), endLine: i };
+            }
+        }
+        parts.push(lines[i]);
+    }
+    return { text: collapseWhitespace(parts.join(' ')), endLine: lines.length - 1 };
+}
+
+/** Splits on commas that are not nested in brackets, generics or strings. */
+export function splitTopLevel(text: string): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let current = '';
+    let quote: string | null = null;
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i];
+        if (quote) {
+            current += ch;
+            if (ch === '\\') current += text[++i] ?? '';
+            else if (ch === quote) quote = null;
+            continue;
+        }
+        if (ch === '"' || ch === '\'' && /^'(\\.|[^\\'])'/.test(text.slice(i))) {
+            quote = ch;
+        } else if ('([{<'.includes(ch)) {
+            depth++;
+        } else if (')]}'.includes(ch) || (ch === '>' && text[i - 1] !== '-' && text[i - 1] !== '=')) {
+            depth--;
+        } else if (ch === ',' && depth === 0) {
+            parts.push(current.trim());
+            current = '';
+            continue;
+        }
+        current += ch;
+    }
+    if (current.trim()) parts.push(current.trim());
+    return parts;
+}
+
+/** Text between the parentheses opening at `open`, or undefined when unbalanced. */
+export function parenthesized(text: string, open: number): { inner: string; close: number } | undefined {
+    let depth = 0;
+    for (let i = open; i < text.length; i++) {
+        if (text[i] === '(') depth++;
+        else if (text[i] === ')' && --depth === 0) {
+            return { inner: text.slice(open + 1, i), close: i };
+        }
+    }
+    return undefined;
+}
+
+export interface DocCommentStyle {
+    /** Line comments that count as documentation, e.g. `///`. */
+    linePrefix?: string;
+    /** Opener of block comments that count as documentation, e.g. `/**`. */
+    blockOpener?: string;
+    /** Lines allowed between the comment and the declaration (annotations, attributes). */
+    skip?: RegExp;
+}
+
+/**
+ * The doc comment directly above `index`, with comment markers removed.
+ * A blank line between comment and declaration detaches the comment.
+ */
+export function docCommentAbove(lines: string[], index: number, style: DocCommentStyle): string | undefined {
+    let i = index - 1;
+    while (i >= 0 && style.skip && style.skip.test(lines[i].trim())) i--;
+    if (i < 0) return undefined;
+
+    const last = lines[i].trim();
+    if (style.blockOpener && last.endsWith('*/')) {
+        const end = i;
+        while (i >= 0 && !lines[i].includes('/*')) i--;
+        if (i < 0 || !lines[i].trim().startsWith(style.blockOpener)) return undefined;
+        const body = lines.slice(i, end + 1).join('\n')
+            .replace(/^\s*\/\*+/, '')
+            .replace(/\*+\/\s*$/, '')
+            .split('\n')
+            .map(line => line.replace(/^\s*\*( ?)/, ''))
+            .join('\n');
+        return body.trim() || undefined;
+    }
+
+    if (style.linePrefix) {
+        const collected: string[] = [];
+        const prefix = style.linePrefix;
+        // `///` also matches `////`, which rustdoc treats as a plain comment
+        const isDocLine = (line: string) => line.startsWith(prefix) && line[prefix.length] !== '/';
+        while (i >= 0 && isDocLine(lines[i].trim())) {
+            collected.unshift(lines[i].trim().slice(prefix.length).replace(/^ /, ''));
+            i--;
+        }
+        const text = collected.join('\n').trim();
+        return text || undefined;
+    }
+    return undefined;
+}
+
+// Control-flow keywords and builtins that look like calls when followed by `(`
+const NOT_CALLS = new Set([
+    'if', 'for', 'while', 'switch', 'catch', 'return', 'match', 'elif', 'and', 'or', 'not', 'in', 'assert',
+    'sizeof', 'typeof', 'synchronized', 'super', 'this', 'self', 'fn', 'func', 'def', 'lambda', 'print', 'len'
+]);
+
+/**
+ * Callees named in a stretch of stripped code, as written (`save`,
+ * `repo.find`, `db::query`) and in order of first appearance.
+ */
+export function scanCalls(code: string): string[] {
+    const calls = new Set<string>();
+    for (const match of code.matchAll(/(?<![\w.:>$])([A-Za-z_$][\w$]*(?:\s*(?:\.|::|->)\s*[A-Za-z_$][\w$]*)*)\s*\(/g)) {
+        const callee = match[1].replace(/\s+/g, '');
+        if (!NOT_CALLS.has(callee)) calls.add(callee);
+    }
+    return Array.from(calls);
+}
+
+/**
+ * Callees of the brace-delimited body of the declaration starting at `start`;
+ * empty when the declaration ends in `;` before any body opens.
+ */
+export function callsInBody(code: string[], start: number): string[] {
+    let parens = 0;
+    let depth = 0;
+    let body = '';
+    for (let i = start; i < code.length; i++) {
+        const line = code[i];
+        for (let c = 0; c < line.length; c++) {
+            const ch = line[c];
+            if (depth === 0) {
+                if (ch === '(' || ch === '[') parens++;
+                else if (ch === ')' || ch === ']') parens--;
+                else if (parens <= 0 && ch === ';') return [];
+                else if (parens <= 0 && ch === '{') depth = 1;
+                continue;
+            }
+            if (ch === '{') depth++;
+            else if (ch === '}' && --depth === 0) return scanCalls(body);
+            body += ch;
+        }
+        body += '\n';
+    }
+    return scanCalls(body);
+}
+
+export function collapseWhitespace(text: string): string {
+    return text.replace(/\s+/g, ' ').trim();
+}
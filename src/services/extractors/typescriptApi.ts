@@ -0,0 +1,568 @@
+import * as ts from 'typescript';
+import { HttpOperation, HttpParameter, HttpResponse, pathParameterNames, SchemaDefinition, SchemaObject, schemaForType, toOpenApiPath } from './apiShapes';
+
+const NEST_METHODS: Record<string, string> = { Get: 'GET', Post: 'POST', Put: 'PUT', Delete: 'DELETE', Patch: 'PATCH' };
+const BODY_METHODS = ['post', 'put', 'patch'];
+const PARSE_METHODS = ['parse', 'parseAsync', 'safeParse', 'safeParseAsync', 'validate', 'validateSync', 'validateAsync', 'cast'];
+
+export interface NestRoute {
+    member: ts.MethodDeclaration;
+    method: string;
+    path: string;
+    operation: HttpOperation;
+}
+
+/**
+ * What an Express handler reads from the request and sends back: `req.params`,
+ * `req.query` and `req.body` accesses, zod/joi/yup `Schema.parse(req.body)`
+ * validation, `validate(schema)` middleware, `Request<P, Res, Body, Query>`
+ * type arguments and `res.status(...).json(...)` calls. A response's schema is
+ * the declared response body type, else the type of the value sent, else the
+ * handler's declared return type; `checker` helps with values that have no
+ * written type.
+ */
+export function describeExpressOperation(method: string, routePath: string, handlers: ts.Expression[], sourceFile: ts.SourceFile, checker?: ts.TypeChecker): HttpOperation {
+    const parameters = new Map<string, HttpParameter>();
+    for (const name of pathParameterNames(toOpenApiPath(routePath))) {
+        parameters.set(`path:${name}`, { name, in: 'path', required: true, schema: { type: 'string' } });
+    }
+    const bodyProperties: Record<string, SchemaObject> = {};
+    // Status of each response sent, with the schema of what was sent when known
+    const statuses = new Map<number, SchemaObject | undefined>();
+    let returnSchema: SchemaObject | undefined;
+    let requestBody: SchemaObject | undefined;
+    let queryObject: SchemaObject | undefined;
+    let responseSchema: SchemaObject | undefined;
+    let usesBody = false;
+
+    const addQuery = (name: string) => {
+        if (!parameters.has(`query:${name}`)) parameters.set(`query:${name}`, { name, in: 'query', required: false, schema: { type: 'string' } });
+    };
+    // `validate(createUserSchema)` style middleware names the schema the body must match
+    const validated = (schemaName: string) => {
+        if (BODY_METHODS.includes(method)) requestBody = requestBody || { $ref: schemaName };
+        else queryObject = queryObject || { $ref: schemaName };
+    };
+
+    for (const handler of handlers) {
+        if (!ts.isFunctionLike(handler)) {
+            if (ts.isCallExpression(handler)) {
+                handler.arguments.filter(ts.isIdentifier).filter(arg => /(schema|dto|validator)$/i.test(arg.text)).forEach(arg => validated(arg.text));
+            }
+            continue;
+        }
+        const [reqParam, resParam] = handler.parameters;
+        const req = reqParam && ts.isIdentifier(reqParam.name) ? reqParam.name.text : undefined;
+        const res = resParam && ts.isIdentifier(resParam.name) ? resParam.name.text : undefined;
+        if (!req) continue;
+
+        // Request<Params, ResBody, ReqBody, Query>
+        const typeArgs = reqParam.type && ts.isTypeReferenceNode(reqParam.type) ? reqParam.type.typeArguments : undefined;
+        if (typeArgs) {
+            const [paramsType, resBodyType, reqBodyType, queryType] = typeArgs;
+            if (paramsType && ts.isTypeLiteralNode(paramsType)) {
+                for (const [name, schema] of Object.entries(schemaForTypeNode(paramsType, sourceFile).properties || {})) {
+                    parameters.set(`path:${name}`, { name, in: 'path', required: true, schema });
+                }
+            }
+            if (resBodyType && !isEmptyType(resBodyType)) responseSchema = schemaForTypeNode(resBodyType, sourceFile);
+            if (reqBodyType && !isEmptyType(reqBodyType)) requestBody = schemaForTypeNode(reqBodyType, sourceFile);
+            if (queryType && !isEmptyType(queryType)) queryObject = schemaForTypeNode(queryType, sourceFile);
+        }
+        // Response<ResBody>
+        const resTypeArgs = resParam?.type && ts.isTypeReferenceNode(resParam.type) ? resParam.type.typeArguments : undefined;
+        if (resTypeArgs?.[0] && !isEmptyType(resTypeArgs[0])) responseSchema = schemaForTypeNode(resTypeArgs[0], sourceFile);
+        // `Promise<void>` and friends give an empty schema
+        const returns = handler.type && !isEmptyType(handler.type) ? schemaForTypeNode(handler.type, sourceFile) : undefined;
+        if (returns && Object.keys(returns).length > 0) returnSchema = returns;
+
+        const visit = (node: ts.Node) => {
+            if (ts.isPropertyAccessExpression(node) && ts.isPropertyAccessExpression(node.expression) && isIdentifier(node.expression.expression, req)) {
+                const part = node.expression.name.text;
+                if (part === 'query') addQuery(node.name.text);
+                else if (part === 'body') bodyProperties[node.name.text] = bodyProperties[node.name.text] || {};
+            } else if (ts.isPropertyAccessExpression(node) && isIdentifier(node.expression, req) && node.name.text === 'body') {
+                usesBody = true;
+            } else if (ts.isVariableDeclaration(node) && ts.isObjectBindingPattern(node.name) && node.initializer && ts.isPropertyAccessExpression(node.initializer) && isIdentifier(node.initializer.expression, req)) {
+                // const { page, limit = 10 } = req.query
+                const part = node.initializer.name.text;
+                for (const element of node.name.elements) {
+                    const name = (element.propertyName || element.name).getText(sourceFile);
+                    if (part === 'query') addQuery(name);
+                    else if (part === 'body') bodyProperties[name] = bodyProperties[name] || {};
+                }
+            } else if (ts.isCallExpression(node) && ts.isPropertyAccessExpression(node.expression)) {
+                const callee = node.expression;
+                const argument = node.arguments[0];
+                if (PARSE_METHODS.includes(callee.name.text) && ts.isIdentifier(callee.expression) && argument && ts.isPropertyAccessExpression(argument) && isIdentifier(argument.expression, req)) {
+                    // createUserSchema.parse(req.body)
+                    if (argument.name.text === 'body') requestBody = { $ref: callee.expression.text };
+                    else if (argument.name.text === 'query') queryObject = { $ref: callee.expression.text };
+                } else if (res && isResponseChain(callee, res)) {
+                    const status = statusOf(node, callee, res);
+                    const sent = argument && ['json', 'send'].includes(callee.name.text) ? sentSchema(argument, sourceFile, checker) : undefined;
+                    if (status) statuses.set(status, statuses.get(status) || sent);
+                }
+            }
+            ts.forEachChild(node, visit);
+        };
+        if ('body' in handler && handler.body) visit(handler.body);
+    }
+
+    if (!requestBody && Object.keys(bodyProperties).length > 0) {
+        requestBody = { type: 'object', properties: bodyProperties };
+    } else if (!requestBody && usesBody) {
+        requestBody = { type: 'object' };
+    }
+    const responses: HttpResponse[] = Array.from(statuses.keys()).sort((a, b) => a - b).map(status => {
+        if (status === 204) return { status };
+        const success = status < 300;
+        return { status, schema: (success ? responseSchema : undefined) || statuses.get(status) || (success ? returnSchema : undefined) };
+    });
+    return {
+        parameters: Array.from(parameters.values()),
+        queryObject,
+        requestBody,
+        responses: responses.length > 0 ? responses : [{ status: 200, schema: responseSchema || returnSchema }]
+    };
+}
+
+/**
+ * Routes of a NestJS `@Controller`: `@Get(':id')`-style methods with `@Param`,
+ * `@Query`, `@Body` and `@Headers` parameters, `@HttpCode` and the declared
+ * return type.
+ */
+export function nestRoutes(node: ts.ClassDeclaration, sourceFile: ts.SourceFile): NestRoute[] {
+    const controller = findDecorator(node, 'Controller');
+    if (!controller) return [];
+    const prefix = decoratorPath(controller);
+    const routes: NestRoute[] = [];
+
+    for (const member of node.members) {
+        if (!ts.isMethodDeclaration(member)) continue;
+        for (const [name, httpMethod] of Object.entries(NEST_METHODS)) {
+            const decorator = findDecorator(member, name);
+            if (!decorator) continue;
+            const routePath = joinPaths(prefix, decoratorPath(decorator));
+            routes.push({ member, method: httpMethod, path: routePath, operation: describeNestOperation(member, httpMethod, routePath, sourceFile) });
+        }
+    }
+    return routes;
+}
+
+function describeNestOperation(member: ts.MethodDeclaration, method: string, routePath: string, sourceFile: ts.SourceFile): HttpOperation {
+    const parameters = new Map<string, HttpParameter>();
+    for (const name of pathParameterNames(toOpenApiPath(routePath))) {
+        parameters.set(`path:${name}`, { name, in: 'path', required: true, schema: { type: 'string' } });
+    }
+    let requestBody: SchemaObject | undefined;
+    let queryObject: SchemaObject | undefined;
+
+    for (const param of member.parameters) {
+        const schema = param.type ? schemaForTypeNode(param.type, sourceFile) : {};
+        const optional = !!param.questionToken || !!param.initializer;
+        for (const decorator of decoratorsOf(param)) {
+            const name = decoratorName(decorator);
+            const key = decoratorString(decorator);
+            if (name === 'Param' && key) {
+                parameters.set(`path:${key}`, { name: key, in: 'path', required: true, schema });
+            } else if (name === 'Query') {
+                if (key) parameters.set(`query:${key}`, { name: key, in: 'query', required: !optional, schema });
+                else queryObject = schema;
+            } else if (name === 'Headers' && key) {
+                parameters.set(`header:${key}`, { name: key, in: 'header', required: !optional, schema });
+            } else if (name === 'Body') {
+                if (key) {
+                    requestBody = requestBody && requestBody.properties ? requestBody : { type: 'object', properties: {} };
+                    requestBody.properties![key] = schema;
+                } else {
+                    requestBody = schema;
+                }
+            }
+        }
+    }
+
+    const httpCode = findDecorator(member, 'HttpCode');
+    const codeArgument = httpCode && ts.isCallExpression(httpCode.expression) ? httpCode.expression.arguments[0] : undefined;
+    const declaredStatus = codeArgument && ts.isNumericLiteral(codeArgument) ? Number(codeArgument.text) : undefined;
+    const status = declaredStatus || (method === 'POST' ? 201 : 200);
+    const returns = member.type ? schemaForTypeNode(member.type, sourceFile) : undefined;
+    return {
+        parameters: Array.from(parameters.values()),
+        queryObject,
+        requestBody,
+        responses: [{ status, schema: status === 204 ? undefined : returns }]
+    };
+}
+
+/**
+ * Data shapes declared in a TS/JS file: interfaces, object type aliases, enums,
+ * DTO classes (refined by class-validator decorators) and zod object schemas.
+ */
+export function schemasIn(sourceFile: ts.SourceFile): SchemaDefinition[] {
+    const schemas: SchemaDefinition[] = [];
+    const add = (node: ts.Node, name: string, schema: SchemaObject | undefined) => {
+        if (schema) schemas.push({ name, schema, lineNumber: sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line + 1 });
+    };
+
+    for (const statement of sourceFile.statements) {
+        if (ts.isInterfaceDeclaration(statement)) {
+            add(statement, statement.name.text, objectSchema(statement.members, sourceFile));
+        } else if (ts.isTypeAliasDeclaration(statement)) {
+            const inferred = zodInferTarget(statement.type);
+            const schema = inferred ? { $ref: inferred } : schemaForTypeNode(statement.type, sourceFile);
+            if (schema.$ref || schema.properties || schema.enum) add(statement, statement.name.text, schema);
+        } else if (ts.isEnumDeclaration(statement)) {
+            const values = statement.members.map((member, index) => {
+                const initializer = member.initializer;
+                if (initializer && ts.isStringLiteralLike(initializer)) return initializer.text;
+                if (initializer && ts.isNumericLiteral(initializer)) return Number(initializer.text);
+                return index;
+            });
+            add(statement, statement.name.text, { type: values.every(v => typeof v === 'string') ? 'string' : 'integer', enum: values });
+        } else if (ts.isClassDeclaration(statement) && statement.name && isDataClass(statement)) {
+            add(statement, statement.name.text, dtoSchema(statement, sourceFile));
+        } else if (ts.isVariableStatement(statement)) {
+            for (const declaration of statement.declarationList.declarations) {
+                if (!ts.isIdentifier(declaration.name) || !declaration.initializer || !isZodExpression(declaration.initializer)) continue;
+                add(declaration, declaration.name.text, zodSchema(declaration.initializer, sourceFile).schema);
+            }
+        }
+    }
+    return schemas;
+}
+
+/** Schema for a written type, keeping the structure of inline object types. */
+function schemaForTypeNode(node: ts.TypeNode, sourceFile: ts.SourceFile): SchemaObject {
+    if (ts.isTypeLiteralNode(node)) return objectSchema(node.members, sourceFile);
+    if (ts.isArrayTypeNode(node)) return { type: 'array', items: schemaForTypeNode(node.elementType, sourceFile) };
+    if (ts.isParenthesizedTypeNode(node)) return schemaForTypeNode(node.type, sourceFile);
+    if (ts.isTypeReferenceNode(node) && node.typeArguments?.length === 1 && ['Promise', 'Observable', 'Array'].includes(node.typeName.getText(sourceFile))) {
+        const inner = schemaForTypeNode(node.typeArguments[0], sourceFile);
+        return node.typeName.getText(sourceFile) === 'Array' ? { type: 'array', items: inner } : inner;
+    }
+    return schemaForType(node.getText(sourceFile).replace(/\s+/g, ' '));
+}
+
+function objectSchema(members: ts.NodeArray<ts.TypeElement>, sourceFile: ts.SourceFile): SchemaObject {
+    const properties: Record<string, SchemaObject> = {};
+    const required: string[] = [];
+    for (const member of members) {
+        if (!ts.isPropertySignature(member) || !member.name) continue;
+        const name = member.name.getText(sourceFile).replace(/^['"]|['"]$/g, '');
+        properties[name] = withDescription(member.type ? schemaForTypeNode(member.type, sourceFile) : {}, member);
+        if (!member.questionToken && !(member.type && allowsUndefined(member.type))) required.push(name);
+    }
+    return { type: 'object', properties, ...(required.length > 0 ? { required } : {}) };
+}
+
+/** Classes that only hold data: no methods, or properties decorated for validation or docs. */
+function isDataClass(node: ts.ClassDeclaration): boolean {
+    const properties = node.members.filter(ts.isPropertyDeclaration);
+    if (properties.length === 0) return false;
+    const methods = node.members.filter(member => ts.isMethodDeclaration(member) || ts.isGetAccessorDeclaration(member));
+    return methods.length === 0 || properties.some(property => decoratorsOf(property).length > 0);
+}
+
+function dtoSchema(node: ts.ClassDeclaration, sourceFile: ts.SourceFile): SchemaObject {
+    const properties: Record<string, SchemaObject> = {};
+    const required: string[] = [];
+    for (const member of node.members) {
+        if (!ts.isPropertyDeclaration(member) || !ts.isIdentifier(member.name)) continue;
+        const modifiers = ts.getModifiers(member) || [];
+        if (modifiers.some(m => m.kind === ts.SyntaxKind.PrivateKeyword || m.kind === ts.SyntaxKind.StaticKeyword)) continue;
+
+        let schema: SchemaObject = withDescription(member.type ? schemaForTypeNode(member.type, sourceFile) : {}, member);
+        let optional = !!member.questionToken;
+        for (const decorator of decoratorsOf(member)) {
+            const refined = applyValidator(schema, decorator, sourceFile);
+            schema = refined.schema;
+            optional = optional || refined.optional;
+        }
+        properties[member.name.text] = schema;
+        if (!optional) required.push(member.name.text);
+    }
+    return { type: 'object', properties, ...(required.length > 0 ? { required } : {}) };
+}
+
+/** class-validator and @nestjs/swagger property decorators. */
+function applyValidator(schema: SchemaObject, decorator: ts.Decorator, sourceFile: ts.SourceFile): { schema: SchemaObject; optional: boolean } {
+    const name = decoratorName(decorator);
+    const args = ts.isCallExpression(decorator.expression) ? decorator.expression.arguments : ts.factory.createNodeArray<ts.Expression>();
+    const number = (index: number) => {
+        const arg = args[index];
+        return arg && ts.isNumericLiteral(arg) ? Number(arg.text) : undefined;
+    };
+    switch (name) {
+        case 'IsOptional':
+        case 'ApiPropertyOptional':
+            return { schema, optional: true };
+        case 'IsEmail': return { schema: { ...schema, type: 'string', format: 'email' }, optional: false };
+        case 'IsUUID': return { schema: { ...schema, type: 'string', format: 'uuid' }, optional: false };
+        case 'IsUrl': return { schema: { ...schema, type: 'string', format: 'uri' }, optional: false };
+        case 'IsDate':
+        case 'IsDateString': return { schema: { ...schema, type: 'string', format: 'date-time' }, optional: false };
+        case 'IsInt': return { schema: { ...schema, type: 'integer' }, optional: false };
+        case 'IsNumber': return { schema: { ...schema, type: 'number' }, optional: false };
+        case 'IsBoolean': return { schema: { ...schema, type: 'boolean' }, optional: false };
+        case 'IsString': return { schema: { ...schema, type: schema.type || 'string' }, optional: false };
+        case 'Min': return { schema: { ...schema, minimum: number(0) }, optional: false };
+        case 'Max': return { schema: { ...schema, maximum: number(0) }, optional: false };
+        case 'MinLength': return { schema: { ...schema, minLength: number(0) }, optional: false };
+        case 'MaxLength': return { schema: { ...schema, maxLength: number(0) }, optional: false };
+        case 'Length': return { schema: { ...schema, minLength: number(0), maxLength: number(1) }, optional: false };
+        case 'IsEnum': {
+            const target = args[0];
+            return { schema: target && ts.isIdentifier(target) ? { $ref: target.text } : schema, optional: false };
+        }
+        case 'IsIn': {
+            const values = args[0] && ts.isArrayLiteralExpression(args[0])
+                ? args[0].elements.filter(ts.isStringLiteralLike).map(element => element.text)
+                : [];
+            return { schema: values.length > 0 ? { type: 'string', enum: values } : schema, optional: false };
+        }
+        case 'ApiProperty': {
+            const options = args[0] && ts.isObjectLiteralExpression(args[0]) ? args[0] : undefined;
+            const requiredFalse = options?.properties.some(p => ts.isPropertyAssignment(p) && p.name.getText(sourceFile) === 'required' && p.initializer.kind === ts.SyntaxKind.FalseKeyword);
+            return { schema, optional: !!requiredFalse };
+        }
+        default:
+            return { schema, optional: false };
+    }
+}
+
+function isZodExpression(expression: ts.Expression): boolean {
+    let current: ts.Expression = expression;
+    while (ts.isCallExpression(current) || ts.isPropertyAccessExpression(current)) {
+        current = current.expression;
+    }
+    return ts.isIdentifier(current) && current.text === 'z';
+}
+
+/** Schema of a zod builder chain such as `z.string().email().optional()`. */
+function zodSchema(expression: ts.Expression, sourceFile: ts.SourceFile): { schema: SchemaObject; optional: boolean } {
+    if (ts.isIdentifier(expression)) return { schema: { $ref: expression.text }, optional: false };
+    if (!ts.isCallExpression(expression) || !ts.isPropertyAccessExpression(expression.expression)) return { schema: {}, optional: false };
+
+    const callee = expression.expression;
+    const method = callee.name.text;
+    const args = expression.arguments;
+
+    if (ts.isIdentifier(callee.expression) && callee.expression.text === 'z') {
+        switch (method) {
+            case 'string': return { schema: { type: 'string' }, optional: false };
+            case 'number': return { schema: { type: 'number' }, optional: false };
+            case 'bigint': return { schema: { type: 'integer', format: 'int64' }, optional: false };
+            case 'boolean': return { schema: { type: 'boolean' }, optional: false };
+            case 'date': return { schema: { type: 'string', format: 'date-time' }, optional: false };
+            case 'array': return { schema: { type: 'array', items: args[0] ? zodSchema(args[0], sourceFile).schema : {} }, optional: false };
+            case 'enum': {
+                const values = args[0] && ts.isArrayLiteralExpression(args[0]) ? args[0].elements.filter(ts.isStringLiteralLike).map(e => e.text) : [];
+                return { schema: { type: 'string', enum: values }, optional: false };
+            }
+            case 'nativeEnum': return { schema: args[0] && ts.isIdentifier(args[0]) ? { $ref: args[0].text } : {}, optional: false };
+            case 'literal': {
+                const value = args[0];
+                if (value && ts.isStringLiteralLike(value)) return { schema: { type: 'string', enum: [value.text] }, optional: false };
+                if (value && ts.isNumericLiteral(value)) return { schema: { type: 'number', enum: [Number(value.text)] }, optional: false };
+                return { schema: {}, optional: false };
+            }
+            case 'object': return { schema: zodObject(args[0], sourceFile), optional: false };
+            default: return { schema: {}, optional: false };
+        }
+    }
+
+    const inner = zodSchema(callee.expression, sourceFile);
+    const schema = { ...inner.schema };
+    const number = args[0] && ts.isNumericLiteral(args[0]) ? Number(args[0].text) : undefined;
+    switch (method) {
+        case 'optional':
+        case 'nullish':
+        case 'default':
+            return { schema, optional: true };
+        case 'nullable': return { schema: { ...schema, nullable: true }, optional: inner.optional };
+        case 'email': schema.format = 'email'; break;
+        case 'uuid': schema.format = 'uuid'; break;
+        case 'url': schema.format = 'uri'; break;
+        case 'datetime': schema.format = 'date-time'; break;
+        case 'int': schema.type = 'integer'; break;
+        case 'positive': schema.minimum = schema.minimum ?? 1; break;
+        case 'nonnegative': schema.minimum = schema.minimum ?? 0; break;
+        case 'array': return { schema: { type: 'array', items: schema }, optional: inner.optional };
+        case 'describe':
+            if (args[0] && ts.isStringLiteralLike(args[0])) schema.description = args[0].text;
+            break;
+        case 'min':
+        case 'max':
+        case 'length': {
+            if (number === undefined) break;
+            const isString = schema.type === 'string';
+            if (method !== 'max') schema[isString ? 'minLength' : 'minimum'] = number;
+            if (method !== 'min') schema[isString ? 'maxLength' : 'maximum'] = number;
+            break;
+        }
+        case 'extend':
+            return { schema: { type: 'object', properties: { ...(schema.properties || {}), ...(zodObject(args[0], sourceFile).properties || {}) } }, optional: inner.optional };
+    }
+    return { schema, optional: inner.optional };
+}
+
+function zodObject(shape: ts.Expression | undefined, sourceFile: ts.SourceFile): SchemaObject {
+    if (!shape || !ts.isObjectLiteralExpression(shape)) return { type: 'object' };
+    const properties: Record<string, SchemaObject> = {};
+    const required: string[] = [];
+    for (const property of shape.properties) {
+        if (!ts.isPropertyAssignment(property)) continue;
+        const name = property.name.getText(sourceFile).replace(/^['"]|['"]$/g, '');
+        const field = zodSchema(property.initializer, sourceFile);
+        properties[name] = field.schema;
+        if (!field.optional) required.push(name);
+    }
+    return { type: 'object', properties, ...(required.length > 0 ? { required } : {}) };
+}
+
+/** `X` for `z.infer<typeof X>`. */
+function zodInferTarget(node: ts.TypeNode): string | undefined {
+    if (!ts.isTypeReferenceNode(node) || !/^z\.(infer|input|output)$/.test(node.typeName.getText())) return undefined;
+    const argument = node.typeArguments?.[0];
+    return argument && ts.isTypeQueryNode(argument) ? argument.exprName.getText() : undefined;
+}
+
+function withDescription(schema: SchemaObject, node: ts.Node): SchemaObject {
+    const docs = ts.getJSDocCommentsAndTags(node).filter(ts.isJSDoc);
+    const text = docs.map(doc => ts.getTextOfJSDocComment(doc.comment) || '').join('\n').trim();
+    return text && !schema.$ref ? { ...schema, description: text } : schema;
+}
+
+function allowsUndefined(node: ts.TypeNode): boolean {
+    return ts.isUnionTypeNode(node) && node.types.some(type => type.kind === ts.SyntaxKind.UndefinedKeyword);
+}
+
+function isEmptyType(node: ts.TypeNode): boolean {
+    return node.kind === ts.SyntaxKind.AnyKeyword || node.kind === ts.SyntaxKind.UnknownKeyword || node.kind === ts.SyntaxKind.NeverKeyword ||
+        (ts.isTypeLiteralNode(node) && node.members.length === 0) ||
+        (ts.isTypeReferenceNode(node) && node.typeName.getText() === 'ParamsDictionary');
+}
+
+/**
+ * Schema of a value passed to `res.json()`/`res.send()`: from a written type
+ * (`as User`, `const user: User`), the shape of an object or array literal, a
+ * `new` expression, a zod `parse` call, or else the checker's type. Undefined
+ * when nothing is known.
+ */
+function sentSchema(value: ts.Expression, sourceFile: ts.SourceFile, checker: ts.TypeChecker | undefined, depth = 0): SchemaObject | undefined {
+    while (ts.isParenthesizedExpression(value) || ts.isAwaitExpression(value) || ts.isNonNullExpression(value)) value = value.expression;
+    if (depth > 3) return undefined;
+
+    if (ts.isAsExpression(value) || ts.isTypeAssertionExpression(value) || ts.isSatisfiesExpression(value)) {
+        return schemaForTypeNode(value.type, sourceFile);
+    }
+    if (ts.isObjectLiteralExpression(value)) {
+        const properties: Record<string, SchemaObject> = {};
+        for (const property of value.properties) {
+            if (ts.isShorthandPropertyAssignment(property)) {
+                properties[property.name.text] = sentSchema(property.name, sourceFile, checker, depth + 1) || {};
+            } else if (ts.isPropertyAssignment(property)) {
+                properties[property.name.getText(sourceFile).replace(/^['"]|['"]$/g, '')] = sentSchema(property.initializer, sourceFile, checker, depth + 1) || {};
+            }
+        }
+        return { type: 'object', properties };
+    }
+    if (ts.isArrayLiteralExpression(value)) {
+        const first = value.elements[0];
+        return { type: 'array', items: (first && sentSchema(first, sourceFile, checker, depth + 1)) || {} };
+    }
+    if (ts.isNewExpression(value) && ts.isIdentifier(value.expression)) {
+        const schema = schemaForType(value.expression.text);
+        if (Object.keys(schema).length > 0) return schema;
+    }
+    // zod's `UserSchema.parse(data)` gives back data of the schema's shape
+    if (ts.isCallExpression(value) && ts.isPropertyAccessExpression(value.expression) && ['parse', 'parseAsync'].includes(value.expression.name.text)) {
+        const parser = value.expression.expression;
+        if (isZodExpression(parser)) return zodSchema(parser, sourceFile).schema;
+        if (ts.isIdentifier(parser) && /schema$/i.test(parser.text)) return { $ref: parser.text };
+    }
+    if (ts.isIdentifier(value) && checker) {
+        // Types imported from other modules are unknown to the isolated checker; their annotation still names them
+        const declaration = checker.getSymbolAtLocation(value)?.valueDeclaration;
+        if (declaration && (ts.isVariableDeclaration(declaration) || ts.isParameter(declaration))) {
+            if (declaration.type) return schemaForTypeNode(declaration.type, sourceFile);
+            if (ts.isVariableDeclaration(declaration) && declaration.initializer && declaration.initializer.pos !== value.pos) {
+                const schema = sentSchema(declaration.initializer, sourceFile, checker, depth + 1);
+                if (schema) return schema;
+            }
+        }
+    }
+    if (!checker) return undefined;
+    try {
+        const type = checker.getBaseTypeOfLiteralType(checker.getTypeAtLocation(value));
+        if (type.flags & (ts.TypeFlags.Any | ts.TypeFlags.Unknown)) return undefined;
+        const schema = schemaForType(checker.typeToString(type, undefined, ts.TypeFormatFlags.NoTruncation));
+        return Object.keys(schema).length > 0 ? schema : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+function isIdentifier(node: ts.Node, name: string | undefined): boolean {
+    return !!name && ts.isIdentifier(node) && node.text === name;
+}
+
+function isResponseChain(callee: ts.PropertyAccessExpression, res: string): boolean {
+    let current: ts.Expression = callee;
+    while (ts.isPropertyAccessExpression(current) || ts.isCallExpression(current)) current = current.expression;
+    return isIdentifier(current, res) && ['json', 'send', 'end', 'sendStatus', 'status'].includes(callee.name.text);
+}
+
+/** Status of a `res.json()`, `res.status(201).json()` or `res.sendStatus(204)` call; undefined for a bare `res.status(n)`. */
+function statusOf(call: ts.CallExpression, callee: ts.PropertyAccessExpression, res: string): number | undefined {
+    const literal = (node: ts.Expression | undefined) => node && ts.isNumericLiteral(node) ? Number(node.text) : undefined;
+    if (callee.name.text === 'sendStatus') return literal(call.arguments[0]);
+    if (callee.name.text === 'status') return undefined;
+    const target = callee.expression;
+    if (isIdentifier(target, res)) return 200;
+    if (ts.isCallExpression(target) && ts.isPropertyAccessExpression(target.expression) && target.expression.name.text === 'status') {
+        return literal(target.arguments[0]);
+    }
+    return undefined;
+}
+
+function decoratorsOf(node: ts.Node): readonly ts.Decorator[] {
+    return (ts.canHaveDecorators(node) ? ts.getDecorators(node) : undefined) || [];
+}
+
+function decoratorName(decorator: ts.Decorator): string {
+    const expression = ts.isCallExpression(decorator.expression) ? decorator.expression.expression : decorator.expression;
+    return ts.isIdentifier(expression) ? expression.text : ts.isPropertyAccessExpression(expression) ? expression.name.text : '';
+}
+
+function findDecorator(node: ts.Node, name: string): ts.Decorator | undefined {
+    return decoratorsOf(node).find(decorator => decoratorName(decorator) === name);
+}
+
+/** First string argument of a decorator call, e.g. `'id'` in `@Param('id')`. */
+function decoratorString(decorator: ts.Decorator): string | undefined {
+    if (!ts.isCallExpression(decorator.expression)) return undefined;
+    const first = decorator.expression.arguments[0];
+    return first && ts.isStringLiteralLike(first) ? first.text : undefined;
+}
+
+/** Path of `@Controller('users')`, `@Get(':id')` or `@Controller({ path: 'users' })`. */
+function decoratorPath(decorator: ts.Decorator): string {
+    const text = decoratorString(decorator);
+    if (text !== undefined) return text;
+    const first = ts.isCallExpression(decorator.expression) ? decorator.expression.arguments[0] : undefined;
+    if (first && ts.isObjectLiteralExpression(first)) {
+        for (const property of first.properties) {
+            if (ts.isPropertyAssignment(property) && property.name.getText() === 'path' && ts.isStringLiteralLike(property.initializer)) {
+                return property.initializer.text;
+            }
+        }
+    }
+    return '';
+}
+
+function joinPaths(...parts: string[]): string {
+    const joined = parts.map(part => part.replace(/^\/+|\/+$/g, '')).filter(Boolean).join('/');
+    return '/' + joined;
+}
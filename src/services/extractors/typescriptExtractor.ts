@@ -0,0 +1,541 @@
+import * as path from 'path';
+import * as ts from 'typescript';
+import type { HttpOperation, SchemaDefinition } from './apiShapes';
+import { extractGraphqlSymbols, fieldSignature, GraphqlDefinition, graphqlSymbol } from './graphqlExtractor';
+import { describeExpressOperation, nestRoutes, schemasIn } from './typescriptApi';
+import { graphqlObjectType, registeredEnums, resolverOperations } from './typescriptGraphql';
+
+export interface ExtractedSymbol {
+    kind: 'function' | 'method' | 'class' | 'interface' | 'type' | 'enum' | 'route' | 'component' | 'env' | 'script' | 'configFile';
+    name: string;
+    lineNumber: number;
+    signature: string;
+    parameters: Array<{name: string, type: string, description?: string}>;
+    returnType?: string;
+    visibility: 'public' | 'protected' | 'private';
+    exported: boolean;
+    documentation?: string;
+    hasDocumentation: boolean;
+    /** Callees named in the body of a function, method or route handler, as written (`userService.create`). */
+    calls?: string[];
+    /** Class of each receiver in `calls` the file declares it with: `svc` for `const svc = new UserService()`. */
+    receivers?: Record<string, string>;
+    /** Parameters, body and responses of a route. */
+    http?: HttpOperation;
+    /** The operation or type of a GraphQL schema, SDL or code-first. */
+    graphql?: GraphqlDefinition;
+    /** Name of the function or method in the same file that handles a route; the route stands for it in coverage. */
+    handler?: string;
+}
+
+const HTTP_METHODS = ['get', 'post', 'put', 'delete', 'patch'];
+const COMPONENT_BASE_CLASSES = ['Component', 'PureComponent', 'React.Component', 'React.PureComponent'];
+const COMPONENT_WRAPPERS = ['memo', 'forwardRef', 'React.memo', 'React.forwardRef', 'observer'];
+
+// Just enough of lib.d.ts for the checker to name inferred types (async returns, arrays).
+const LIB_FILE_NAME = '__documind_lib.d.ts';
+const LIB_SOURCE = `
+interface Array<T> { length: number; [n: number]: T; }
+interface Boolean {}
+interface Function {}
+interface IArguments {}
+interface Number {}
+interface Object {}
+interface RegExp {}
+interface String { length: number; }
+interface Promise<T> { then<R>(onfulfilled: (value: T) => R): Promise<R>; }
+interface PromiseLike<T> {}
+interface PromiseConstructor {}
+declare var Promise: PromiseConstructor;
+`;
+let libSourceFile: ts.SourceFile | undefined;
+
+/**
+ * Parses a TS/JS file with the compiler API and returns its declarations and
+ * Express-style and NestJS routes, plus GraphQL resolvers, types and `gql`
+ * schemas. The file is checked in isolation against a stub lib,
+ * so inferred types referring to other modules degrade to `any`.
+ */
+export function extractTypeScriptSymbols(text: string, fileName: string): ExtractedSymbol[] {
+    const sourceFile = ts.createSourceFile(fileName, text, ts.ScriptTarget.Latest, true, getScriptKind(fileName));
+    const checker = createIsolatedChecker(sourceFile);
+    const exportedNames = collectExportedNames(sourceFile);
+    const symbols: ExtractedSymbol[] = [];
+
+    const lineOf = (node: ts.Node): number => sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line + 1;
+    const describe = (node: ts.Node, kind: ExtractedSymbol['kind'], name: string, exported: boolean, visibility: ExtractedSymbol['visibility'], signatureNode: ts.SignatureDeclaration | undefined): ExtractedSymbol => {
+        const documentation = getDocumentation(node);
+        return {
+            kind,
+            name,
+            lineNumber: sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line + 1,
+            signature: getSignatureText(node, sourceFile),
+            parameters: signatureNode ? signatureNode.parameters.map(p => describeParameter(p, sourceFile, checker)) : [],
+            returnType: signatureNode ? getReturnType(signatureNode, sourceFile, checker) : undefined,
+            visibility,
+            exported,
+            documentation,
+            hasDocumentation: documentation !== undefined,
+            calls: signatureNode ? collectCalls(signatureNode, sourceFile) : undefined,
+            receivers: signatureNode ? collectReceiverTypes([signatureNode], sourceFile, checker) : undefined
+        };
+    };
+
+    for (const statement of sourceFile.statements) {
+        const exported = hasExportModifier(statement);
+
+        if (ts.isFunctionDeclaration(statement) && (statement.name || exported)) {
+            // `export default function () {}` has no name of its own
+            const name = statement.name?.text || 'default';
+            const isExported = exported || exportedNames.has(name);
+            const kind = isFunctionComponent(name, statement) ? 'component' : 'function';
+            symbols.push(describe(statement, kind, name, isExported, isExported ? 'public' : 'private', statement));
+        } else if (ts.isClassDeclaration(statement) && (statement.name || exported)) {
+            const className = statement.name?.text || 'default';
+            const isExported = exported || exportedNames.has(className);
+            const kind = isClassComponent(statement, sourceFile) ? 'component' : 'class';
+            symbols.push(describe(statement, kind, className, isExported, isExported ? 'public' : 'private', undefined));
+            for (const member of statement.members) {
+                const method = describeMember(member, className, isExported, describe);
+                if (method) symbols.push(method);
+            }
+            for (const route of nestRoutes(statement, sourceFile)) {
+                symbols.push({
+                    ...describe(route.member, 'route', `${route.method} ${route.path}`, true, 'public', route.member),
+                    http: route.operation,
+                    handler: `${className}.${route.member.name.getText(sourceFile)}`
+                });
+            }
+            for (const operation of resolverOperations(statement, sourceFile)) {
+                const method = describe(operation.member, 'route', '', true, 'public', operation.member);
+                const signature = fieldSignature({ ...operation.definition, type: operation.definition.returnType || '' });
+                symbols.push({
+                    ...graphqlSymbol(operation.definition, operation.rootType, operation.description ?? method.documentation, method.lineNumber, signature),
+                    calls: method.calls,
+                    receivers: method.receivers,
+                    handler: `${className}.${operation.member.name.getText(sourceFile)}`
+                });
+            }
+            const objectType = graphqlObjectType(statement, sourceFile);
+            if (objectType) {
+                symbols.push(graphqlSymbol(objectType.definition, '', objectType.description ?? getDocumentation(statement), lineOf(statement), objectType.header));
+            }
+        } else if (ts.isInterfaceDeclaration(statement)) {
+            const isExported = exported || exportedNames.has(statement.name.text);
+            symbols.push(describe(statement, 'interface', statement.name.text, isExported, isExported ? 'public' : 'private', undefined));
+        } else if (ts.isTypeAliasDeclaration(statement)) {
+            const isExported = exported || exportedNames.has(statement.name.text);
+            symbols.push(describe(statement, 'type', statement.name.text, isExported, isExported ? 'public' : 'private', undefined));
+        } else if (ts.isEnumDeclaration(statement)) {
+            const isExported = exported || exportedNames.has(statement.name.text);
+            symbols.push(describe(statement, 'enum', statement.name.text, isExported, isExported ? 'public' : 'private', undefined));
+        } else if (ts.isVariableStatement(statement)) {
+            for (const declaration of statement.declarationList.declarations) {
+                if (!ts.isIdentifier(declaration.name) || !declaration.initializer) continue;
+                const initializer = unwrapComponentWrapper(unwrapExpression(declaration.initializer), sourceFile);
+                if (!ts.isArrowFunction(initializer) && !ts.isFunctionExpression(initializer)) continue;
+                const isExported = exported || exportedNames.has(declaration.name.text);
+                const kind = isFunctionComponent(declaration.name.text, initializer) ? 'component' : 'function';
+                symbols.push(describe(declaration, kind, declaration.name.text, isExported, isExported ? 'public' : 'private', initializer));
+            }
+        }
+    }
+
+    for (const registered of registeredEnums(sourceFile)) {
+        symbols.push(graphqlSymbol(registered.definition, '', registered.description ?? getDocumentation(registered.node), lineOf(registered.node), registered.header));
+    }
+
+    const envReads = new Set<string>();
+    const visit = (node: ts.Node) => {
+        const envName = matchEnvRead(node, sourceFile);
+        if (envName && !envReads.has(envName)) {
+            envReads.add(envName);
+            const statement = findEnclosingStatement(node);
+            const comment = getLeadingCommentText(statement, sourceFile);
+            symbols.push({
+                kind: 'env',
+                name: envName,
+                lineNumber: sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line + 1,
+                signature: node.getText(sourceFile),
+                parameters: [],
+                visibility: 'public',
+                exported: true,
+                documentation: comment,
+                hasDocumentation: comment !== undefined
+            });
+        }
+
+        const route = matchRoute(node);
+        if (route) {
+            const statement = findEnclosingStatement(node);
+            const documentation = getDocumentation(statement);
+            symbols.push({
+                kind: 'route',
+                name: `${route.method.toUpperCase()} ${route.path}`,
+                lineNumber: sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line + 1,
+                signature: collapseWhitespace(node.getText(sourceFile).split('\n')[0]),
+                parameters: [],
+                visibility: 'public',
+                exported: true,
+                documentation,
+                hasDocumentation: documentation !== undefined,
+                calls: handlerCalls(route.handlers, sourceFile),
+                receivers: collectReceiverTypes(route.handlers, sourceFile, checker),
+                http: describeExpressOperation(route.method, route.path, route.handlers, sourceFile, checker),
+                handler: namedHandler(route.handlers)
+            });
+        }
+        if (ts.isTaggedTemplateExpression(node) && ['gql', 'graphql'].includes(node.tag.getText(sourceFile))) {
+            // Schema-first servers keep their SDL in `gql` templates; client queries yield nothing
+            const template = node.template;
+            const text = ts.isNoSubstitutionTemplateLiteral(template)
+                ? template.text
+                : [template.head.text, ...template.templateSpans.map(span => span.literal.text)].join('\n');
+            symbols.push(...extractGraphqlSymbols(text, lineOf(template) - 1));
+        }
+        ts.forEachChild(node, visit);
+    };
+    visit(sourceFile);
+
+    return symbols;
+}
+
+/** Interfaces, DTO classes, enums and zod schemas declared in a TS/JS file, for the OpenAPI components. */
+export function extractTypeScriptSchemas(text: string, fileName: string): SchemaDefinition[] {
+    return schemasIn(ts.createSourceFile(fileName, text, ts.ScriptTarget.Latest, true, getScriptKind(fileName)));
+}
+
+function describeMember(
+    member: ts.ClassElement,
+    className: string,
+    classExported: boolean,
+    describe: (node: ts.Node, kind: ExtractedSymbol['kind'], name: string, exported: boolean, visibility: ExtractedSymbol['visibility'], signatureNode: ts.SignatureDeclaration | undefined) => ExtractedSymbol
+): ExtractedSymbol | null {
+    let signatureNode: ts.SignatureDeclaration | undefined;
+    if (ts.isMethodDeclaration(member) || ts.isGetAccessorDeclaration(member) || ts.isSetAccessorDeclaration(member)) {
+        signatureNode = member;
+    } else if (ts.isPropertyDeclaration(member) && member.initializer) {
+        const initializer = unwrapExpression(member.initializer);
+        if (ts.isArrowFunction(initializer) || ts.isFunctionExpression(initializer)) {
+            signatureNode = initializer;
+        }
+    } else if (ts.isConstructorDeclaration(member) && member.parameters.length > 0) {
+        return describe(member, 'method', `${className}.constructor`, classExported, 'public', member);
+    }
+    if (!signatureNode || !member.name) return null;
+
+    const memberName = ts.isPrivateIdentifier(member.name) ? member.name.text : member.name.getText();
+    const visibility = getMemberVisibility(member);
+    return describe(member, 'method', `${className}.${memberName}`, classExported && visibility === 'public', visibility, signatureNode);
+}
+
+function getScriptKind(fileName: string): ts.ScriptKind {
+    switch (path.extname(fileName).toLowerCase()) {
+        case '.tsx': return ts.ScriptKind.TSX;
+        case '.jsx': return ts.ScriptKind.JSX;
+        case '.js':
+        case '.mjs':
+        case '.cjs': return ts.ScriptKind.JS;
+        default: return ts.ScriptKind.TS;
+    }
+}
+
+function createIsolatedChecker(sourceFile: ts.SourceFile): ts.TypeChecker {
+    libSourceFile = libSourceFile || ts.createSourceFile(LIB_FILE_NAME, LIB_SOURCE, ts.ScriptTarget.Latest);
+    const options: ts.CompilerOptions = { noResolve: true, allowJs: true, checkJs: false, types: [], target: ts.ScriptTarget.ES2020 };
+    const host: ts.CompilerHost = {
+        getSourceFile: fileName => fileName === sourceFile.fileName ? sourceFile : fileName === LIB_FILE_NAME ? libSourceFile : undefined,
+        getDefaultLibFileName: () => LIB_FILE_NAME,
+        writeFile: () => undefined,
+        getCurrentDirectory: () => '',
+        getCanonicalFileName: fileName => fileName,
+        useCaseSensitiveFileNames: () => true,
+        getNewLine: () => '\n',
+        fileExists: fileName => fileName === sourceFile.fileName || fileName === LIB_FILE_NAME,
+        readFile: () => undefined
+    };
+    return ts.createProgram([sourceFile.fileName], options, host).getTypeChecker();
+}
+
+/** Local names exported apart from their declaration: `export { foo }`, `export default foo` and CommonJS assignments. */
+function collectExportedNames(sourceFile: ts.SourceFile): Set<string> {
+    const names = new Set<string>();
+    for (const statement of sourceFile.statements) {
+        if (ts.isExportDeclaration(statement) && !statement.moduleSpecifier
+            && statement.exportClause && ts.isNamedExports(statement.exportClause)) {
+            for (const element of statement.exportClause.elements) {
+                names.add((element.propertyName || element.name).text);
+            }
+            continue;
+        }
+        if (ts.isExportAssignment(statement) && ts.isIdentifier(statement.expression)) {
+            names.add(statement.expression.text);
+            continue;
+        }
+        if (!ts.isExpressionStatement(statement) || !ts.isBinaryExpression(statement.expression)) continue;
+        const { left, right, operatorToken } = statement.expression;
+        if (operatorToken.kind !== ts.SyntaxKind.EqualsToken || !ts.isPropertyAccessExpression(left)) continue;
+
+        const target = left.getText(sourceFile);
+        if (target === 'module.exports') {
+            if (ts.isIdentifier(right)) {
+                names.add(right.text);
+            } else if (ts.isObjectLiteralExpression(right)) {
+                for (const property of right.properties) {
+                    if (ts.isShorthandPropertyAssignment(property)) names.add(property.name.text);
+                    else if (ts.isPropertyAssignment(property) && ts.isIdentifier(property.initializer)) names.add(property.initializer.text);
+                }
+            }
+        } else if (/^(module\.)?exports\.\w+$/.test(target) && ts.isIdentifier(right)) {
+            names.add(right.text);
+        }
+    }
+    return names;
+}
+
+function hasExportModifier(node: ts.Node): boolean {
+    const modifiers = ts.canHaveModifiers(node) ? ts.getModifiers(node) : undefined;
+    return !!modifiers?.some(m => m.kind === ts.SyntaxKind.ExportKeyword);
+}
+
+function getMemberVisibility(member: ts.ClassElement): ExtractedSymbol['visibility'] {
+    if (member.name && ts.isPrivateIdentifier(member.name)) return 'private';
+    const modifiers = ts.canHaveModifiers(member) ? ts.getModifiers(member) : undefined;
+    if (modifiers?.some(m => m.kind === ts.SyntaxKind.PrivateKeyword)) return 'private';
+    if (modifiers?.some(m => m.kind === ts.SyntaxKind.ProtectedKeyword)) return 'protected';
+    return 'public';
+}
+
+function getDocumentation(node: ts.Node): string | undefined {
+    const docs = ts.getJSDocCommentsAndTags(node).filter(ts.isJSDoc);
+    if (docs.length === 0) return undefined;
+    const text = docs.map(doc => ts.getTextOfJSDocComment(doc.comment) || '').join('\n').trim();
+    // An empty `/** */` block documents nothing
+    return text || docs.some(doc => doc.tags?.length) ? text : undefined;
+}
+
+function describeParameter(param: ts.ParameterDeclaration, sourceFile: ts.SourceFile, checker: ts.TypeChecker): {name: string, type: string, description?: string} {
+    const name = (param.dotDotDotToken ? '...' : '') + param.name.getText(sourceFile) + (param.questionToken || param.initializer ? '?' : '');
+    const typeNode = param.type || ts.getJSDocType(param);
+    let type = typeNode ? collapseWhitespace(typeNode.getText(sourceFile)) : 'any';
+    if (!typeNode && param.initializer) {
+        type = safeTypeToString(checker, () => checker.getTypeAtLocation(param));
+    }
+    const tag = ts.getJSDocParameterTags(param)[0];
+    const description = tag ? ts.getTextOfJSDocComment(tag.comment)?.replace(/^-\s*/, '').trim() : undefined;
+    return { name, type, description: description || undefined };
+}
+
+function getReturnType(node: ts.SignatureDeclaration, sourceFile: ts.SourceFile, checker: ts.TypeChecker): string | undefined {
+    if (ts.isConstructorDeclaration(node) || ts.isSetAccessorDeclaration(node)) return undefined;
+    const typeNode = node.type || ts.getJSDocReturnType(node);
+    if (typeNode) return collapseWhitespace(typeNode.getText(sourceFile));
+
+    return safeTypeToString(checker, () => {
+        const signature = checker.getSignatureFromDeclaration(node);
+        return signature ? checker.getReturnTypeOfSignature(signature) : undefined;
+    });
+}
+
+function safeTypeToString(checker: ts.TypeChecker, getType: () => ts.Type | undefined): string {
+    try {
+        const type = getType();
+        return type ? checker.typeToString(type, undefined, ts.TypeFormatFlags.NoTruncation) : 'any';
+    } catch {
+        return 'any';
+    }
+}
+
+function getSignatureText(node: ts.Node, sourceFile: ts.SourceFile): string {
+    let start = node.getStart(sourceFile);
+    if (ts.isVariableDeclaration(node) && ts.isVariableDeclarationList(node.parent) && node.parent.declarations.length === 1 && ts.isVariableStatement(node.parent.parent)) {
+        start = node.parent.parent.getStart(sourceFile);
+    }
+    let end = node.getEnd();
+    const body = getBody(node);
+    if (body) {
+        end = body.getStart(sourceFile);
+    } else if (ts.isClassDeclaration(node) || ts.isInterfaceDeclaration(node) || ts.isEnumDeclaration(node)) {
+        end = node.members.pos;
+        const text = sourceFile.text.slice(start, end);
+        end = start + (text.lastIndexOf('{') >= 0 ? text.lastIndexOf('{') : text.length);
+    }
+    const text = collapseWhitespace(sourceFile.text.slice(start, end)).replace(/\s*(=>|;)?\s*$/, '');
+    return text.length > 300 ? text.slice(0, 297) + '...' : text;
+}
+
+function getBody(node: ts.Node): ts.Node | undefined {
+    if (ts.isFunctionLike(node) && 'body' in node) {
+        return (node as ts.FunctionLikeDeclaration).body;
+    }
+    if (ts.isVariableDeclaration(node) && node.initializer) {
+        const initializer = unwrapExpression(node.initializer);
+        if (ts.isArrowFunction(initializer) || ts.isFunctionExpression(initializer)) return initializer.body;
+    }
+    if (ts.isPropertyDeclaration(node) && node.initializer) {
+        const initializer = unwrapExpression(node.initializer);
+        if (ts.isArrowFunction(initializer) || ts.isFunctionExpression(initializer)) return initializer.body;
+    }
+    return undefined;
+}
+
+function unwrapExpression(expression: ts.Expression): ts.Expression {
+    while (ts.isParenthesizedExpression(expression) || ts.isAsExpression(expression) || ts.isSatisfiesExpression(expression)) {
+        expression = expression.expression;
+    }
+    return expression;
+}
+
+function isFunctionComponent(name: string, node: ts.FunctionLikeDeclaration): boolean {
+    return /^[A-Z]/.test(name) && !!node.body && containsJsx(node.body);
+}
+
+function isClassComponent(node: ts.ClassDeclaration, sourceFile: ts.SourceFile): boolean {
+    const heritage = node.heritageClauses?.find(clause => clause.token === ts.SyntaxKind.ExtendsKeyword);
+    const base = heritage?.types[0]?.expression.getText(sourceFile);
+    return !!base && COMPONENT_BASE_CLASSES.includes(base);
+}
+
+function containsJsx(node: ts.Node): boolean {
+    if (ts.isJsxElement(node) || ts.isJsxSelfClosingElement(node) || ts.isJsxFragment(node)) return true;
+    // Nested function bodies belong to callbacks, not to the component itself.
+    if (ts.isFunctionDeclaration(node) || ts.isClassDeclaration(node)) return false;
+    return !!ts.forEachChild(node, child => containsJsx(child) || undefined);
+}
+
+function unwrapComponentWrapper(expression: ts.Expression, sourceFile: ts.SourceFile): ts.Expression {
+    if (ts.isCallExpression(expression) && COMPONENT_WRAPPERS.includes(expression.expression.getText(sourceFile)) && expression.arguments[0]) {
+        return unwrapExpression(expression.arguments[0]);
+    }
+    return expression;
+}
+
+function matchEnvRead(node: ts.Node, sourceFile: ts.SourceFile): string | null {
+    if (ts.isPropertyAccessExpression(node)) {
+        const target = node.expression.getText(sourceFile);
+        if (target === 'process.env' || target === 'import.meta.env') return node.name.text;
+    } else if (ts.isElementAccessExpression(node) && ts.isStringLiteralLike(node.argumentExpression)) {
+        const target = node.expression.getText(sourceFile);
+        if (target === 'process.env' || target === 'import.meta.env') return node.argumentExpression.text;
+    }
+    return null;
+}
+
+function getLeadingCommentText(node: ts.Node, sourceFile: ts.SourceFile): string | undefined {
+    const ranges = ts.getLeadingCommentRanges(sourceFile.text, node.getFullStart());
+    if (!ranges || ranges.length === 0) return undefined;
+    return ranges
+        .map(range => sourceFile.text.slice(range.pos, range.end).replace(/^\/\/\s?|^\/\*+\s?|\s*\*+\/$/g, '').replace(/^\s*\*\s?/gm, ''))
+        .join('\n')
+        .trim();
+}
+
+function matchRoute(node: ts.Node): { method: string, path: string, handlers: ts.Expression[] } | null {
+    if (!ts.isCallExpression(node) || !ts.isPropertyAccessExpression(node.expression)) return null;
+    const method = node.expression.name.text.toLowerCase();
+    if (!HTTP_METHODS.includes(method)) return null;
+    const first = node.arguments[0];
+    if (!first || !ts.isStringLiteralLike(first) || !first.text.startsWith('/')) return null;
+    // Express handlers always take a callback after the path; Map#get and friends do not.
+    if (node.arguments.length < 2) return null;
+    return { method, path: first.text, handlers: node.arguments.slice(1) };
+}
+
+/** The function a route hands the request to last, when passed by name (`router.get('/', listUsers)`). */
+function namedHandler(handlers: ts.Expression[]): string | undefined {
+    const last = handlers[handlers.length - 1];
+    return last && ts.isIdentifier(last) ? last.text : undefined;
+}
+
+/** Calls made by a route's handlers; a handler passed by name (`users.create`) counts as a call to it. */
+function handlerCalls(handlers: ts.Expression[], sourceFile: ts.SourceFile): string[] {
+    const calls = new Set<string>();
+    for (const handler of handlers) {
+        const name = ts.isFunctionLike(handler) ? undefined : calleeName(handler, sourceFile);
+        if (name) calls.add(name);
+        collectCalls(handler, sourceFile).forEach(call => calls.add(call));
+    }
+    return Array.from(calls);
+}
+
+/** Callees of every call in `node`, including `node` itself, in source order. */
+function collectCalls(node: ts.Node, sourceFile: ts.SourceFile): string[] {
+    const calls = new Set<string>();
+    const visit = (child: ts.Node) => {
+        if (ts.isCallExpression(child)) {
+            const name = calleeName(child.expression, sourceFile);
+            if (name) calls.add(name);
+        }
+        ts.forEachChild(child, visit);
+    };
+    visit(node);
+    return Array.from(calls);
+}
+
+/**
+ * Classes of the call receivers in `nodes` whose declaration names one: a
+ * variable, parameter or property typed `UserService` or initialized with
+ * `new UserService()`, keyed by the receiver as `calls` has it (`svc`, `this.users`).
+ */
+function collectReceiverTypes(nodes: ts.Node[], sourceFile: ts.SourceFile, checker: ts.TypeChecker): Record<string, string> | undefined {
+    const receivers: Record<string, string> = {};
+    const visit = (child: ts.Node) => {
+        if (ts.isCallExpression(child) && ts.isPropertyAccessExpression(child.expression)) {
+            const receiver = child.expression.expression;
+            const name = calleeName(receiver, sourceFile);
+            const type = name && receiver.kind !== ts.SyntaxKind.ThisKeyword ? declaredClass(checker.getSymbolAtLocation(receiver)) : undefined;
+            if (name && type) receivers[name] = type;
+        }
+        ts.forEachChild(child, visit);
+    };
+    nodes.forEach(visit);
+    return Object.keys(receivers).length > 0 ? receivers : undefined;
+}
+
+function declaredClass(symbol: ts.Symbol | undefined): string | undefined {
+    const declaration = symbol?.valueDeclaration;
+    if (!declaration) return undefined;
+    let typeNode: ts.TypeNode | undefined;
+    let initializer: ts.Expression | undefined;
+    if (ts.isVariableDeclaration(declaration) || ts.isParameter(declaration) || ts.isPropertyDeclaration(declaration)) {
+        typeNode = declaration.type;
+        initializer = declaration.initializer;
+    } else if (ts.isBinaryExpression(declaration)) {
+        // `this.users = new UserRepository()` in a JavaScript constructor
+        initializer = declaration.right;
+    }
+    if (typeNode) {
+        return ts.isTypeReferenceNode(typeNode) ? lastName(typeNode.typeName) : undefined;
+    }
+    while (initializer && (ts.isAwaitExpression(initializer) || ts.isParenthesizedExpression(initializer))) {
+        initializer = initializer.expression;
+    }
+    return initializer && ts.isNewExpression(initializer) ? lastName(initializer.expression) : undefined;
+}
+
+function lastName(name: ts.Node): string | undefined {
+    if (ts.isIdentifier(name)) return name.text;
+    if (ts.isQualifiedName(name)) return name.right.text;
+    if (ts.isPropertyAccessExpression(name)) return name.name.text;
+    return undefined;
+}
+
+/** `a.b.c` for identifier chains (including `this.x`); undefined for computed callees. */
+function calleeName(expression: ts.Expression, sourceFile: ts.SourceFile): string | undefined {
+    let current: ts.Expression = expression;
+    while (ts.isPropertyAccessExpression(current)) current = current.expression;
+    if (!ts.isIdentifier(current) && current.kind !== ts.SyntaxKind.ThisKeyword) return undefined;
+    return expression.getText(sourceFile).replace(/\s+/g, '').replace(/[?!]\./g, '.');
+}
+
+function findEnclosingStatement(node: ts.Node): ts.Node {
+    let current = node;
+    while (current.parent && !ts.isSourceFile(current.parent) && !ts.isBlock(current.parent)) {
+        current = current.parent;
+    }
+    return current;
+}
+
+function collapseWhitespace(text: string): string {
+    return text.replace(/\s+/g, ' ').trim();
+}
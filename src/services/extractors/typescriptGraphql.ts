@@ -0,0 +1,300 @@
+import * as ts from 'typescript';
+import { GraphqlArgument, GraphqlDefinition, GraphqlField } from './graphqlExtractor';
+
+export interface GraphqlOperation {
+    member: ts.MethodDeclaration;
+    definition: GraphqlDefinition;
+    /** `Query`, `Mutation` or `Subscription`. */
+    rootType: string;
+    /** From the decorator's `description` option; the doc comment applies otherwise. */
+    description?: string;
+}
+
+export interface GraphqlTypeDeclaration {
+    node: ts.Node;
+    definition: GraphqlDefinition;
+    header: string;
+    description?: string;
+}
+
+const OPERATION_DECORATORS: Record<string, { kind: 'query' | 'mutation' | 'subscription'; rootType: string }> = {
+    Query: { kind: 'query', rootType: 'Query' },
+    Mutation: { kind: 'mutation', rootType: 'Mutation' },
+    Subscription: { kind: 'subscription', rootType: 'Subscription' }
+};
+const TYPE_DECORATORS: Record<string, 'type' | 'input' | 'interface'> = { ObjectType: 'type', InputType: 'input', InterfaceType: 'interface' };
+const SCALAR_NAMES: Record<string, string> = {
+    string: 'String', String: 'String', number: 'Float', Number: 'Float', boolean: 'Boolean', Boolean: 'Boolean',
+    Date: 'DateTime', GraphQLISODateTime: 'DateTime', GraphQLTimestamp: 'Timestamp', GraphQLJSON: 'JSON', GraphQLUpload: 'Upload'
+};
+
+/**
+ * Queries, mutations and subscriptions of a type-graphql or NestJS GraphQL
+ * `@Resolver()` class. Types come from the decorator's type function
+ * (`@Query(() => [User])`) or else the method's TypeScript types; both
+ * libraries make fields non-null unless `nullable` says otherwise.
+ */
+export function resolverOperations(node: ts.ClassDeclaration, sourceFile: ts.SourceFile): GraphqlOperation[] {
+    if (!findDecorator(node, 'Resolver')) return [];
+    const operations: GraphqlOperation[] = [];
+    for (const member of node.members) {
+        if (!ts.isMethodDeclaration(member) || !member.name) continue;
+        for (const decorator of decoratorsOf(member)) {
+            const operation = OPERATION_DECORATORS[decoratorName(decorator)];
+            if (!operation) continue;
+            const options = decoratorOptions(decorator);
+            const returnType = graphqlType(typeFunctionOf(decorator), unwrapPromise(member.type), options.nullable);
+            const definition: GraphqlDefinition = {
+                kind: operation.kind,
+                name: options.name || member.name.getText(sourceFile),
+                arguments: resolverArguments(member, sourceFile),
+                returnType,
+                fields: [],
+                ...(options.deprecationReason ? { deprecated: options.deprecationReason } : {})
+            };
+            operations.push({ member, definition, rootType: operation.rootType, ...(options.description ? { description: options.description } : {}) });
+        }
+    }
+    return operations;
+}
+
+/** An `@ObjectType()`, `@InputType()` or `@InterfaceType()` class as a GraphQL type with its `@Field()`s. */
+export function graphqlObjectType(node: ts.ClassDeclaration, sourceFile: ts.SourceFile): GraphqlTypeDeclaration | undefined {
+    const decorator = decoratorsOf(node).find(d => TYPE_DECORATORS[decoratorName(d)]);
+    if (!decorator || !node.name) return undefined;
+    const kind = TYPE_DECORATORS[decoratorName(decorator)];
+    const options = decoratorOptions(decorator);
+    const name = decoratorString(decorator) || node.name.text;
+    const fields = fieldsOf(node, sourceFile);
+    const implemented = node.heritageClauses?.flatMap(clause => clause.types.map(type => type.expression.getText(sourceFile))) || [];
+    return {
+        node,
+        definition: { kind, name, arguments: [], fields },
+        header: `${kind} ${name}${implemented.length > 0 && kind === 'type' ? ` implements ${implemented.join(' & ')}` : ''}`,
+        ...(options.description ? { description: options.description } : {})
+    };
+}
+
+/** Enums exposed with `registerEnumType(Role, { name: 'Role' })`. */
+export function registeredEnums(sourceFile: ts.SourceFile): GraphqlTypeDeclaration[] {
+    const enums = new Map<string, ts.EnumDeclaration>();
+    for (const statement of sourceFile.statements) {
+        if (ts.isEnumDeclaration(statement)) enums.set(statement.name.text, statement);
+    }
+    const declarations: GraphqlTypeDeclaration[] = [];
+    for (const statement of sourceFile.statements) {
+        if (!ts.isExpressionStatement(statement) || !ts.isCallExpression(statement.expression)) continue;
+        const call = statement.expression;
+        if (!ts.isIdentifier(call.expression) || call.expression.text !== 'registerEnumType') continue;
+        const [target, optionsArgument] = call.arguments;
+        const declaration = target && ts.isIdentifier(target) ? enums.get(target.text) : undefined;
+        if (!declaration) continue;
+        const options = objectOptions(optionsArgument);
+        const name = options.name || declaration.name.text;
+        declarations.push({
+            node: declaration,
+            definition: {
+                kind: 'enum',
+                name,
+                arguments: [],
+                fields: declaration.members.map(member => ({ name: member.name.getText(sourceFile), type: '', arguments: [], ...docOf(member) }))
+            },
+            header: `enum ${name}`,
+            ...(options.description ? { description: options.description } : {})
+        });
+    }
+    return declarations;
+}
+
+function fieldsOf(node: ts.ClassDeclaration, sourceFile: ts.SourceFile): GraphqlField[] {
+    const fields: GraphqlField[] = [];
+    for (const member of node.members) {
+        const decorator = findDecorator(member, 'Field');
+        if (!decorator || !member.name) continue;
+        const options = decoratorOptions(decorator);
+        const optional = ts.isPropertyDeclaration(member) && !!member.questionToken;
+        const typeNode = ts.isPropertyDeclaration(member) || ts.isGetAccessorDeclaration(member) || ts.isMethodDeclaration(member) ? member.type : undefined;
+        fields.push({
+            name: options.name || member.name.getText(sourceFile),
+            type: graphqlType(typeFunctionOf(decorator), unwrapPromise(typeNode), options.nullable ?? (optional || undefined)),
+            arguments: ts.isMethodDeclaration(member) ? resolverArguments(member, sourceFile) : [],
+            ...(options.description ? { description: options.description } : docOf(member)),
+            ...(options.defaultValue !== undefined ? { defaultValue: options.defaultValue } : {}),
+            ...(options.deprecationReason ? { deprecated: options.deprecationReason } : {})
+        });
+    }
+    return fields;
+}
+
+/**
+ * `@Arg('id', () => ID)` (type-graphql), `@Args('id')`/`@Args({ name, type })`
+ * (Nest) and `@Args()` bound to an `@ArgsType()` class, which is expanded into
+ * its fields when it is declared in the same file.
+ */
+function resolverArguments(member: ts.MethodDeclaration, sourceFile: ts.SourceFile): GraphqlArgument[] {
+    const args: GraphqlArgument[] = [];
+    for (const param of member.parameters) {
+        const decorator = decoratorsOf(param).find(d => ['Arg', 'Args'].includes(decoratorName(d)));
+        if (!decorator) continue;
+        const options = decoratorOptions(decorator);
+        const name = decoratorString(decorator) || options.name;
+        const optional = !!param.questionToken || !!param.initializer;
+        if (!name) {
+            const className = param.type && ts.isTypeReferenceNode(param.type) ? param.type.typeName.getText(sourceFile) : undefined;
+            const argsClass = className ? sourceFile.statements.find((s): s is ts.ClassDeclaration => ts.isClassDeclaration(s) && s.name?.text === className) : undefined;
+            if (argsClass) {
+                args.push(...fieldsOf(argsClass, sourceFile).map(field => ({
+                    name: field.name,
+                    type: field.type,
+                    ...(field.description ? { description: field.description } : {}),
+                    ...(field.defaultValue !== undefined ? { defaultValue: field.defaultValue } : {})
+                })));
+            } else if (className) {
+                args.push({ name: '...', type: className });
+            }
+            continue;
+        }
+        const defaultValue = options.defaultValue ?? param.initializer?.getText(sourceFile);
+        args.push({
+            name,
+            type: graphqlType(typeFunctionOf(decorator) || options.type, param.type, options.nullable ?? (optional || undefined)),
+            ...(options.description ? { description: options.description } : {}),
+            ...(defaultValue !== undefined ? { defaultValue } : {})
+        });
+    }
+    return args;
+}
+
+/**
+ * SDL type from a type function (`() => [Int]`) or the TypeScript type,
+ * non-null unless `nullable` is true (`'items'`/`'itemsAndList'` for lists).
+ */
+function graphqlType(typeFunction: ts.Expression | undefined, typeNode: ts.TypeNode | undefined, nullable: boolean | string | undefined): string {
+    let base: string | undefined;
+    let list = false;
+    let nullableFromType = false;
+    const body = typeFunction && (ts.isArrowFunction(typeFunction) || ts.isFunctionExpression(typeFunction)) ? returnedExpression(typeFunction) : undefined;
+    if (body && ts.isArrayLiteralExpression(body)) {
+        list = true;
+        base = body.elements[0] ? scalarName(body.elements[0].getText()) : undefined;
+    } else if (body) {
+        base = scalarName(body.getText());
+    }
+    if (!base && typeNode) {
+        let node = typeNode;
+        if (ts.isUnionTypeNode(node)) {
+            const rest = node.types.filter(t => !isNullish(t));
+            nullableFromType = rest.length < node.types.length;
+            node = rest[0] || node;
+        }
+        if (ts.isArrayTypeNode(node)) {
+            list = true;
+            node = node.elementType;
+        } else if (ts.isTypeReferenceNode(node) && ['Array', 'ReadonlyArray'].includes(node.typeName.getText()) && node.typeArguments?.[0]) {
+            list = true;
+            node = node.typeArguments[0];
+        }
+        base = scalarName(node.getText());
+    }
+    const name = base || 'String';
+    const isNullable = nullable === true || nullable === 'itemsAndList' || (nullable === undefined && nullableFromType);
+    const itemsNullable = nullable === 'items' || nullable === 'itemsAndList';
+    if (list) return `[${name}${itemsNullable ? '' : '!'}]${isNullable ? '' : '!'}`;
+    return `${name}${isNullable ? '' : '!'}`;
+}
+
+function scalarName(text: string): string {
+    const name = text.replace(/^.*\./, '');
+    return SCALAR_NAMES[name] || name;
+}
+
+function returnedExpression(fn: ts.ArrowFunction | ts.FunctionExpression): ts.Expression | undefined {
+    if (ts.isArrowFunction(fn) && !ts.isBlock(fn.body)) {
+        let body: ts.Expression = fn.body;
+        while (ts.isParenthesizedExpression(body)) body = body.expression;
+        return body;
+    }
+    const block = fn.body as ts.Block;
+    const statement = block.statements.find(ts.isReturnStatement);
+    return statement?.expression;
+}
+
+function unwrapPromise(node: ts.TypeNode | undefined): ts.TypeNode | undefined {
+    if (node && ts.isTypeReferenceNode(node) && ['Promise', 'Observable', 'AsyncIterator', 'AsyncIterable'].includes(node.typeName.getText()) && node.typeArguments?.[0]) {
+        return node.typeArguments[0];
+    }
+    return node;
+}
+
+function isNullish(node: ts.TypeNode): boolean {
+    return node.kind === ts.SyntaxKind.UndefinedKeyword || (ts.isLiteralTypeNode(node) && node.literal.kind === ts.SyntaxKind.NullKeyword);
+}
+
+interface DecoratorOptions {
+    name?: string;
+    description?: string;
+    nullable?: boolean | string;
+    defaultValue?: string;
+    deprecationReason?: string;
+    /** Nest `@Args('id', { type: () => ID })`. */
+    type?: ts.Expression;
+}
+
+/** The options object of `@Query(() => User, { nullable: true })` and the like. */
+function decoratorOptions(decorator: ts.Decorator): DecoratorOptions {
+    if (!ts.isCallExpression(decorator.expression)) return {};
+    return objectOptions(decorator.expression.arguments.find(ts.isObjectLiteralExpression));
+}
+
+function objectOptions(node: ts.Expression | undefined): DecoratorOptions {
+    const options: DecoratorOptions = {};
+    if (!node || !ts.isObjectLiteralExpression(node)) return options;
+    for (const property of node.properties) {
+        if (!ts.isPropertyAssignment(property)) continue;
+        const key = property.name.getText();
+        const value = property.initializer;
+        if (key === 'name' && ts.isStringLiteralLike(value)) options.name = value.text;
+        else if (key === 'description' && ts.isStringLiteralLike(value)) options.description = value.text;
+        else if (key === 'deprecationReason' && ts.isStringLiteralLike(value)) options.deprecationReason = value.text;
+        else if (key === 'defaultValue') options.defaultValue = value.getText();
+        else if (key === 'type') options.type = value;
+        else if (key === 'nullable') {
+            options.nullable = value.kind === ts.SyntaxKind.TrueKeyword ? true : ts.isStringLiteralLike(value) ? value.text : false;
+        }
+    }
+    return options;
+}
+
+/** The `() => Type` argument of a decorator, if it has one. */
+function typeFunctionOf(decorator: ts.Decorator): ts.Expression | undefined {
+    if (!ts.isCallExpression(decorator.expression)) return undefined;
+    return decorator.expression.arguments.find(arg => ts.isArrowFunction(arg) || ts.isFunctionExpression(arg));
+}
+
+function docOf(node: ts.Node): { description?: string } {
+    const text = ts.getJSDocCommentsAndTags(node)
+        .filter(ts.isJSDoc)
+        .map(doc => ts.getTextOfJSDocComment(doc.comment) || '')
+        .join('\n')
+        .trim();
+    return text ? { description: text } : {};
+}
+
+function decoratorsOf(node: ts.Node): readonly ts.Decorator[] {
+    return (ts.canHaveDecorators(node) ? ts.getDecorators(node) : undefined) || [];
+}
+
+function decoratorName(decorator: ts.Decorator): string {
+    const expression = ts.isCallExpression(decorator.expression) ? decorator.expression.expression : decorator.expression;
+    return ts.isIdentifier(expression) ? expression.text : ts.isPropertyAccessExpression(expression) ? expression.name.text : '';
+}
+
+function findDecorator(node: ts.Node, name: string): ts.Decorator | undefined {
+    return decoratorsOf(node).find(decorator => decoratorName(decorator) === name);
+}
+
+function decoratorString(decorator: ts.Decorator): string | undefined {
+    if (!ts.isCallExpression(decorator.expression)) return undefined;
+    const first = decorator.expression.arguments[0];
+    return first && ts.isStringLiteralLike(first) ? first.text : undefined;
+}
@@ -0,0 +1,71 @@
+import * as path from 'path';
+import { ExtractedSymbol, extractTypeScriptSymbols } from './typescriptExtractor';
+
+/**
+ * Extracts the component itself plus the env reads and exported declarations
+ * of its `<script>` blocks from a Vue single-file component.
+ */
+export function extractVueSymbols(text: string, fileName: string): ExtractedSymbol[] {
+    const symbols: ExtractedSymbol[] = [];
+    const scriptPattern = /<script\b([^>]*)>([\s\S]*?)<\/script>/g;
+    let componentName: string | undefined;
+    let componentDoc: string | undefined;
+
+    const leadingComment = text.match(/^\s*<!--([\s\S]*?)-->/);
+    if (leadingComment) {
+        componentDoc = leadingComment[1].trim();
+    }
+
+    let match: RegExpExecArray | null;
+    while ((match = scriptPattern.exec(text)) !== null) {
+        const attributes = match[1];
+        const script = match[2];
+        const lineOffset = text.slice(0, match.index + match[0].indexOf('>') + 1).split('\n').length - 1;
+        const scriptFile = fileName + (/lang=["']ts["']/.test(attributes) ? '.ts' : '.js');
+
+        componentName = componentName || script.match(/\bname\s*:\s*['"`]([\w-]+)['"`]/)?.[1];
+        for (const symbol of extractTypeScriptSymbols(script, scriptFile)) {
+            if (symbol.kind !== 'env' && !symbol.exported) continue;
+            symbols.push({ ...symbol, lineNumber: symbol.lineNumber + lineOffset });
+        }
+    }
+
+    const name = componentName || toPascalCase(path.basename(fileName, path.extname(fileName)));
+    symbols.unshift({
+        kind: 'component',
+        name,
+        lineNumber: 1,
+        signature: `<${name}>`,
+        parameters: extractVueProps(text),
+        visibility: 'public',
+        exported: true,
+        documentation: componentDoc,
+        hasDocumentation: componentDoc !== undefined
+    });
+
+    return symbols;
+}
+
+function extractVueProps(text: string): Array<{name: string, type: string}> {
+    const props: Array<{name: string, type: string}> = [];
+    const typed = text.match(/defineProps<\s*\{([\s\S]*?)\}\s*>/);
+    if (typed) {
+        for (const line of typed[1].split(/[;\n]/)) {
+            const prop = line.trim().match(/^(\w+\??)\s*:\s*(.+)$/);
+            if (prop) props.push({ name: prop[1], type: prop[2].trim().replace(/,$/, '') });
+        }
+        return props;
+    }
+    const listed = text.match(/props\s*:\s*\[([^\]]*)\]|defineProps\(\s*\[([^\]]*)\]/);
+    if (listed) {
+        for (const name of (listed[1] || listed[2]).split(',')) {
+            const cleaned = name.trim().replace(/['"`]/g, '');
+            if (cleaned) props.push({ name: cleaned, type: 'any' });
+        }
+    }
+    return props;
+}
+
+function toPascalCase(name: string): string {
+    return name.split(/[-_.\s]+/).filter(Boolean).map(part => part.charAt(0).toUpperCase() + part.slice(1)).join('');
+}
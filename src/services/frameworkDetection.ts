@@ -0,0 +1,255 @@
+import * as path from 'path';
+import type { ProjectSource } from './ProjectAnalyzer';
+
+export type Ecosystem = 'node' | 'python' | 'go' | 'jvm' | 'rust';
+
+export interface DetectedFramework {
+    name: string;
+    category: 'frontend' | 'backend' | 'fullstack' | 'mobile' | 'desktop';
+    ecosystem: Ecosystem;
+    /** 0-1: a manifest dependency alone is about half, imports and marker files add the rest. */
+    confidence: number;
+    /** Human-readable reasons, e.g. `package.json dependency`, `imported in 4 files`. */
+    evidence: string[];
+}
+
+interface FrameworkRule {
+    name: string;
+    category: DetectedFramework['category'];
+    ecosystem: Ecosystem;
+    /** Dependency names as declared in the ecosystem's manifest (Maven/Gradle: group ids). */
+    packages: string[];
+    /** Import specifiers that belong to the framework, matched as prefixes on module boundaries. */
+    imports: string[];
+    /** Files whose presence hints at the framework. */
+    markers?: RegExp[];
+}
+
+const RULES: FrameworkRule[] = [
+    { name: 'React', category: 'frontend', ecosystem: 'node', packages: ['react'], imports: ['react', 'react-dom'], markers: [/\.(jsx|tsx)$/] },
+    { name: 'Next.js', category: 'fullstack', ecosystem: 'node', packages: ['next'], imports: ['next'], markers: [/(^|\/)next\.config\.(js|mjs|ts)$/] },
+    { name: 'Vue', category: 'frontend', ecosystem: 'node', packages: ['vue'], imports: ['vue'], markers: [/\.vue$/] },
+    { name: 'Nuxt', category: 'fullstack', ecosystem: 'node', packages: ['nuxt'], imports: ['nuxt', '#app'], markers: [/(^|\/)nuxt\.config\.(js|ts)$/] },
+    { name: 'Angular', category: 'frontend', ecosystem: 'node', packages: ['@angular/core'], imports: ['@angular/core'], markers: [/(^|\/)angular\.json$/, /\.component\.ts$/] },
+    { name: 'Svelte', category: 'frontend', ecosystem: 'node', packages: ['svelte'], imports: ['svelte'], markers: [/\.svelte$/] },
+    { name: 'React Native', category: 'mobile', ecosystem: 'node', packages: ['react-native'], imports: ['react-native'] },
+    { name: 'Electron', category: 'desktop', ecosystem: 'node', packages: ['electron'], imports: ['electron'] },
+    { name: 'VS Code Extension', category: 'desktop', ecosystem: 'node', packages: ['@types/vscode'], imports: ['vscode'] },
+    { name: 'Express', category: 'backend', ecosystem: 'node', packages: ['express'], imports: ['express'] },
+    { name: 'NestJS', category: 'backend', ecosystem: 'node', packages: ['@nestjs/core'], imports: ['@nestjs/core', '@nestjs/common'], markers: [/\.(controller|module)\.ts$/] },
+    { name: 'Fastify', category: 'backend', ecosystem: 'node', packages: ['fastify'], imports: ['fastify'] },
+    { name: 'Koa', category: 'backend', ecosystem: 'node', packages: ['koa'], imports: ['koa'] },
+    { name: 'FastAPI', category: 'backend', ecosystem: 'python', packages: ['fastapi'], imports: ['fastapi'] },
+    { name: 'Flask', category: 'backend', ecosystem: 'python', packages: ['flask'], imports: ['flask'] },
+    { name: 'Django', category: 'fullstack', ecosystem: 'python', packages: ['django'], imports: ['django'], markers: [/(^|\/)manage\.py$/] },
+    { name: 'Gin', category: 'backend', ecosystem: 'go', packages: ['github.com/gin-gonic/gin'], imports: ['github.com/gin-gonic/gin'] },
+    { name: 'Echo', category: 'backend', ecosystem: 'go', packages: ['github.com/labstack/echo'], imports: ['github.com/labstack/echo'] },
+    { name: 'Fiber', category: 'backend', ecosystem: 'go', packages: ['github.com/gofiber/fiber'], imports: ['github.com/gofiber/fiber'] },
+    { name: 'Chi', category: 'backend', ecosystem: 'go', packages: ['github.com/go-chi/chi'], imports: ['github.com/go-chi/chi'] },
+    { name: 'Spring Boot', category: 'backend', ecosystem: 'jvm', packages: ['org.springframework.boot'], imports: ['org.springframework'] },
+    { name: 'Quarkus', category: 'backend', ecosystem: 'jvm', packages: ['io.quarkus'], imports: ['io.quarkus'] },
+    { name: 'Actix Web', category: 'backend', ecosystem: 'rust', packages: ['actix-web'], imports: ['actix_web'] },
+    { name: 'Axum', category: 'backend', ecosystem: 'rust', packages: ['axum'], imports: ['axum'] },
+    { name: 'Rocket', category: 'backend', ecosystem: 'rust', packages: ['rocket'], imports: ['rocket'] }
+];
+
+// Below this a framework is more likely a stray import or a transitive tool than the project's stack
+const MIN_CONFIDENCE = 0.25;
+
+interface Dependency {
+    ecosystem: Ecosystem;
+    name: string;
+    manifest: string;
+    dev: boolean;
+}
+
+/**
+ * Detects the frameworks a project is built on from its dependency manifests,
+ * what its source files import, and tell-tale files. Sorted by confidence.
+ */
+export async function detectFrameworks(source: ProjectSource): Promise<DetectedFramework[]> {
+    const dependencies = await readDependencies(source);
+    const importsByFile = externalImports(source);
+
+    const detected: DetectedFramework[] = [];
+    for (const rule of RULES) {
+        let confidence = 0;
+        const evidence: string[] = [];
+
+        const declared = dependencies.filter(dep => dep.ecosystem === rule.ecosystem && rule.packages.some(pkg => matchesPackage(dep, pkg)));
+        if (declared.length > 0) {
+            // Dev-only dependencies are usually typings or tooling, a weaker signal
+            confidence += declared.some(dep => !dep.dev) ? 0.5 : 0.3;
+            evidence.push(...Array.from(new Set(declared.map(dep => `${dep.manifest} ${dep.dev ? 'dev dependency' : 'dependency'}`))));
+        }
+
+        const importingFiles = new Set<string>();
+        for (const [file, specifiers] of importsByFile) {
+            if (specifiers.some(spec => rule.imports.some(prefix => isImportOf(spec, prefix, rule.ecosystem)))) {
+                importingFiles.add(file);
+            }
+        }
+        if (importingFiles.size > 0) {
+            confidence += Math.min(0.4, 0.2 + 0.05 * importingFiles.size);
+            evidence.push(`imported in ${importingFiles.size} file${importingFiles.size === 1 ? '' : 's'}`);
+        }
+
+        const markers = (rule.markers || []).filter(marker => source.files.some(file => marker.test(file)));
+        if (markers.length > 0) {
+            confidence += Math.min(0.2, 0.1 * markers.length);
+            evidence.push(...markers.map(marker => source.files.find(file => marker.test(file))!));
+        }
+
+        if (confidence >= MIN_CONFIDENCE) {
+            detected.push({
+                name: rule.name,
+                category: rule.category,
+                ecosystem: rule.ecosystem,
+                confidence: Math.round(Math.min(1, confidence) * 100) / 100,
+                evidence
+            });
+        }
+    }
+    return detected.sort((a, b) => b.confidence - a.confidence || a.name.localeCompare(b.name));
+}
+
+/** One-line label for the stack, e.g. `React + Express`, or `Unknown`. */
+export function describeFrameworks(frameworks: DetectedFramework[]): string {
+    if (frameworks.length === 0) return 'Unknown';
+    const confident = frameworks.filter(framework => framework.confidence >= 0.5).slice(0, 3);
+    return (confident.length > 0 ? confident : frameworks.slice(0, 1)).map(framework => framework.name).join(' + ');
+}
+
+/** Ecosystems present in the project, judged by manifests; used for setup instructions. */
+export function detectEcosystems(files: string[]): Ecosystem[] {
+    const ecosystems = new Set<Ecosystem>();
+    for (const file of files) {
+        const ecosystem = manifestEcosystem(path.posix.basename(file));
+        if (ecosystem) ecosystems.add(ecosystem);
+    }
+    return Array.from(ecosystems);
+}
+
+function manifestEcosystem(baseName: string): Ecosystem | undefined {
+    if (baseName === 'package.json') return 'node';
+    if (/^requirements.*\.txt$/.test(baseName) || baseName === 'pyproject.toml' || baseName === 'Pipfile' || baseName === 'setup.py') return 'python';
+    if (baseName === 'go.mod') return 'go';
+    if (baseName === 'pom.xml' || /^build\.gradle(\.kts)?$/.test(baseName)) return 'jvm';
+    if (baseName === 'Cargo.toml') return 'rust';
+    return undefined;
+}
+
+async function readDependencies(source: ProjectSource): Promise<Dependency[]> {
+    const dependencies: Dependency[] = [];
+    for (const file of source.files) {
+        const baseName = path.posix.basename(file);
+        const ecosystem = manifestEcosystem(baseName);
+        if (!ecosystem || baseName === 'setup.py') continue;
+        const content = await source.readFile(file);
+        if (!content) continue;
+        const text = Buffer.from(content).toString('utf-8');
+        const add = (name: string, dev = false) => dependencies.push({ ecosystem, name: normalizeName(name, ecosystem), manifest: file, dev });
+
+        try {
+            if (baseName === 'package.json') {
+                const manifest = JSON.parse(text);
+                for (const field of ['dependencies', 'peerDependencies', 'optionalDependencies']) {
+                    Object.keys(manifest[field] || {}).forEach(name => add(name));
+                }
+                Object.keys(manifest.devDependencies || {}).forEach(name => add(name, true));
+            } else if (baseName.endsWith('.txt')) {
+                parseRequirements(text).forEach(name => add(name));
+            } else if (baseName.endsWith('.toml') || baseName === 'Pipfile') {
+                parseTomlDependencies(text).forEach(dep => add(dep.name, dep.dev));
+            } else if (baseName === 'go.mod') {
+                for (const match of text.matchAll(/^\s*(?:require\s+)?([\w.-]+\.[\w.-]+\/[^\s]+)\s+v[\w.+-]+/gm)) add(match[1]);
+            } else if (baseName === 'pom.xml') {
+                for (const match of text.matchAll(/<dependency>[\s\S]*?<groupId>\s*([^<\s]+)\s*<\/groupId>/g)) add(match[1]);
+                for (const match of text.matchAll(/<parent>[\s\S]*?<groupId>\s*([^<\s]+)\s*<\/groupId>/g)) add(match[1]);
+            } else if (baseName.startsWith('build.gradle')) {
+                for (const match of text.matchAll(/["']([\w.-]+):[\w.-]+(?::[^"']*)?["']/g)) add(match[1]);
+                for (const match of text.matchAll(/id\s*\(?\s*["']([\w.-]+)["']/g)) add(match[1]);
+            }
+        } catch (error) {
+            // A malformed manifest only costs that manifest's evidence
+            console.error(`Error reading manifest ${file}:`, error);
+        }
+    }
+    return dependencies;
+}
+
+function parseRequirements(text: string): string[] {
+    return text.split('\n')
+        .map(line => line.replace(/#.*$/, '').trim())
+        .filter(line => line && !line.startsWith('-'))
+        .map(line => line.match(/^[A-Za-z0-9][\w.-]*/)?.[0])
+        .filter((name): name is string => Boolean(name));
+}
+
+/**
+ * Dependencies from pyproject.toml (PEP 621 and Poetry), Pipfile and Cargo.toml:
+ * keys of `*dependencies*`/`packages` tables and strings of `dependencies` arrays.
+ */
+function parseTomlDependencies(text: string): Array<{name: string, dev: boolean}> {
+    const dependencies: Array<{name: string, dev: boolean}> = [];
+    let table = '';
+    let inArray = false;
+    let arrayDev = false;
+    for (const rawLine of text.split('\n')) {
+        const line = rawLine.replace(/\s#.*$/, '').trim();
+        const header = line.match(/^\[\[?([^\]]+)\]\]?$/);
+        if (header) {
+            table = header[1].trim();
+            inArray = false;
+            continue;
+        }
+        const dev = /dev|test/i.test(table);
+        if (inArray) {
+            for (const match of line.matchAll(/["']([A-Za-z0-9][\w.-]*)/g)) dependencies.push({ name: match[1], dev: arrayDev });
+            if (line.includes(']')) inArray = false;
+            continue;
+        }
+        const arrayStart = line.match(/^([\w-]*dependencies|requires)\s*=\s*\[(.*)$/);
+        if (arrayStart) {
+            arrayDev = dev || /dev|test/i.test(arrayStart[1]);
+            for (const match of arrayStart[2].matchAll(/["']([A-Za-z0-9][\w.-]*)/g)) dependencies.push({ name: match[1], dev: arrayDev });
+            inArray = !arrayStart[2].includes(']');
+            continue;
+        }
+        const key = line.match(/^([A-Za-z0-9][\w.-]*)\s*=/);
+        if (key && (/dependencies$/.test(table) || table === 'packages' || table === 'dev-packages')) {
+            dependencies.push({ name: key[1], dev: dev || table === 'dev-packages' });
+        }
+    }
+    return dependencies.filter(dep => dep.name !== 'python');
+}
+
+function normalizeName(name: string, ecosystem: Ecosystem): string {
+    // PyPI and crates.io treat `-` and `_` as the same character, and PyPI ignores case
+    if (ecosystem === 'python') return name.toLowerCase().replace(/_/g, '-');
+    if (ecosystem === 'rust') return name.replace(/_/g, '-');
+    return name;
+}
+
+function matchesPackage(dep: Dependency, pkg: string): boolean {
+    // Go modules carry major versions in the path (`/v2`); Maven group ids have subgroups
+    if (dep.ecosystem === 'go') return dep.name === pkg || dep.name.startsWith(pkg + '/');
+    if (dep.ecosystem === 'jvm') return dep.name === pkg || dep.name.startsWith(pkg + '.');
+    return dep.name === normalizeName(pkg, dep.ecosystem);
+}
+
+function isImportOf(specifier: string, prefix: string, ecosystem: Ecosystem): boolean {
+    if (specifier === prefix) return true;
+    const separator = ecosystem === 'python' || ecosystem === 'jvm' ? '.' : ecosystem === 'rust' ? '::' : '/';
+    return specifier.startsWith(prefix + separator);
+}
+
+/** Non-relative import specifiers per code file. */
+function externalImports(source: ProjectSource): Map<string, string[]> {
+    const imports = new Map<string, string[]>();
+    for (const file of source.files) {
+        const specifiers = source.importsFor(file).filter(spec => !spec.startsWith('.'));
+        if (specifiers.length > 0) imports.set(file, specifiers);
+    }
+    return imports;
+}
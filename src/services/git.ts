@@ -0,0 +1,60 @@
+import { spawn } from 'child_process';
+
+export function runGit(args: string[], cwd: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const child = spawn('git', args, { cwd });
+        let out = '';
+        let err = '';
+        child.stdout.on('data', d => out += d.toString());
+        child.stderr.on('data', d => err += d.toString());
+        child.on('error', reject);
+        child.on('close', code => {
+            if (code === 0) resolve(out.trim());
+            else reject(new Error(err || `git ${args.join(' ')} failed with code ${code}`));
+        });
+    });
+}
+
+export interface CommitInfo {
+    hash: string;
+    /** Committer date, ISO 8601. */
+    date: string;
+}
+
+/** Resolves a revision to its commit, or undefined outside a git repository. */
+export async function readCommit(cwd: string, rev = 'HEAD'): Promise<CommitInfo | undefined> {
+    try {
+        const [hash, date] = (await runGit(['log', '-1', '--format=%H%x09%cI', rev], cwd)).split('\t');
+        return hash ? { hash, date } : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * The branch others merge into: the remote's default branch when one is
+ * known locally, else the first of `main`, `master`, `trunk` and `develop`
+ * that exists. Undefined outside a git repository or when none exists.
+ */
+export async function findMainBranch(cwd: string): Promise<string | undefined> {
+    try {
+        const remoteHead = await runGit(['symbolic-ref', '--quiet', '--short', 'refs/remotes/origin/HEAD'], cwd);
+        const local = remoteHead.replace(/^origin\//, '');
+        return await refExists(cwd, `refs/heads/${local}`) ? local : remoteHead;
+    } catch {
+        // No remote default branch; fall back to the usual names
+    }
+    for (const name of ['main', 'master', 'trunk', 'develop']) {
+        if (await refExists(cwd, `refs/heads/${name}`)) return name;
+    }
+    return undefined;
+}
+
+async function refExists(cwd: string, ref: string): Promise<boolean> {
+    try {
+        await runGit(['show-ref', '--verify', '--quiet', ref], cwd);
+        return true;
+    } catch {
+        return false;
+    }
+}
@@ -1,41 +1,58 @@
-import { spawn } from 'child_process';
 import * as vscode from 'vscode';
+import { findLastTag, parseConventionalCommit, PlainCommit, readCommits } from './changelog';
 
-function runGit(args: string[], cwd: string): Promise<string> {
-    return new Promise((resolve, reject) => {
-        const child = spawn('git', args, { cwd });
-        let out = '';
-        let err = '';
-        child.stdout.on('data', d => out += d.toString());
-        child.stderr.on('data', d => err += d.toString());
-        child.on('close', code => {
-            if (code === 0) resolve(out.trim());
-            else reject(new Error(err || `git ${args.join(' ')} failed with code ${code}`));
-        });
-    });
+/** The draft's groups, in order; subjects matching none of the others land in `other`. */
+export const DRAFT_GROUPS = ['feat', 'fix', 'docs', 'refactor', 'test', 'chore', 'other'] as const;
+export type DraftGroup = typeof DRAFT_GROUPS[number];
+
+/** A commit whose subject lands in the draft's `other` group, and why. */
+export interface OtherCommit extends PlainCommit {
+    reason: string;
+}
+
+export function draftGroupOf(subject: string, body = ''): DraftGroup {
+    // Types without a group of their own (perf, ci, build, ...) and non-conventional subjects land in other
+    const type = parseConventionalCommit(subject, body)?.type;
+    return (DRAFT_GROUPS as readonly string[]).includes(type || '') ? type as DraftGroup : 'other';
+}
+
+/** The last `count` commits whose subjects the changelog draft cannot group, newest first. */
+export async function findOtherCommits(cwd: string, count = 50): Promise<OtherCommit[]> {
+    const commits = (await readCommits(cwd, undefined, 'HEAD', count)).reverse();
+    return commits
+        .filter(commit => draftGroupOf(commit.subject, commit.body) === 'other')
+        .map(({ body, ...commit }) => ({ ...commit, reason: otherReason(commit.subject) }));
+}
+
+function otherReason(subject: string): string {
+    const prefix = subject.match(/^\s*([A-Za-z]+)(\([^)]*\))?!?\s*:/);
+    if (!prefix) return 'No `type:` prefix';
+    const type = prefix[1];
+    const known = DRAFT_GROUPS.filter(group => group !== 'other');
+    if ((known as string[]).includes(type.toLowerCase())) {
+        return type !== type.toLowerCase() ? `Type \`${type}\` should be lowercase` : 'Missing space after the colon, or an empty description';
+    }
+    const close = known.find(group => type.toLowerCase().startsWith(group) || group.startsWith(type.toLowerCase()));
+    return close ? `Unknown type \`${type}\`; did you mean \`${close}\`?` : `Type \`${type}\` has no group of its own (${known.join(', ')})`;
 }
 
-export async function draftChangelogSinceLastTag(): Promise<string> {
-    const folders = vscode.workspace.workspaceFolders;
-    if (!folders || folders.length === 0) return 'No workspace open.';
-    const cwd = folders[0].uri.fsPath;
+export async function draftChangelogSinceLastTag(folder?: vscode.WorkspaceFolder): Promise<string> {
+    const workspaceFolder = folder || vscode.workspace.workspaceFolders?.[0];
+    if (!workspaceFolder) return 'No workspace open.';
+    const cwd = workspaceFolder.uri.fsPath;
 
     try {
-        const lastTag = await runGit(['describe', '--tags', '--abbrev=0'], cwd).catch(()=>'');
-        const range = lastTag ? `${lastTag}..HEAD` : 'HEAD';
-        const log = await runGit(['log', '--pretty=%s||%h||%an||%ad', '--date=short', range], cwd);
-        const lines = log.split('\n').filter(Boolean);
+        const lastTag = await findLastTag(cwd);
+        const commits = (await readCommits(cwd, lastTag)).reverse();
 
-        const groups: Record<string, Array<{ s: string; h: string; a: string; d: string }>> = {
+        const groups: Record<DraftGroup, Array<{ s: string; h: string; a: string; d: string }>> = {
             feat: [], fix: [], chore: [], refactor: [], docs: [], test: [], other: []
         };
-        for (const line of lines) {
-            const [s, h, a, d] = line.split('||');
-            const key = s.startsWith('feat') ? 'feat' : s.startsWith('fix') ? 'fix' : s.startsWith('chore') ? 'chore' : s.startsWith('refactor') ? 'refactor' : s.startsWith('docs') ? 'docs' : s.startsWith('test') ? 'test' : 'other';
-            groups[key].push({ s, h, a, d });
+        for (const commit of commits) {
+            groups[draftGroupOf(commit.subject, commit.body)].push({ s: commit.subject, h: commit.shortHash, a: commit.author, d: commit.date });
         }
 
-        const order = ['feat','fix','docs','refactor','test','chore','other'];
+        const order = DRAFT_GROUPS;
         let md = `# Changelog Draft\n\n`;
         md += lastTag ? `Changes since ${lastTag}:\n\n` : `Changes in this repository:\n\n`;
         for (const k of order) {
@@ -51,12 +68,3 @@ export async function draftChangelogSinceLastTag(): Promise<string> {
         return `Failed to draft changelog: ${(err as Error).message}`;
     }
 }
-
-export async function draftApiDocsBasic(): Promise<string> {
-    // Simple, fast scan: list TS/JS files and show placeholder routes.
-    const files = await vscode.workspace.findFiles('**/*.{ts,tsx,js,jsx}', '**/node_modules/**');
-    const list = files.slice(0, 50).map(u => '- ' + vscode.workspace.asRelativePath(u)).join('\n');
-    return `# API Docs Draft (placeholder)\n\nScanned files (subset):\n${list}\n\nDetected routes (placeholder):\n- GET /api/health\n- POST /api/users\n- PUT /api/users/{id}\n`;
-}
-
-
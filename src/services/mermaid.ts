@@ -0,0 +1,32 @@
+/**
+ * Small helpers for emitting Mermaid diagrams into generated Markdown.
+ */
+
+/** Fenced Mermaid block, ready to append to Markdown. */
+export function mermaidBlock(lines: string[]): string {
+    return '```mermaid\n' + lines.join('\n') + '\n```\n\n';
+}
+
+/** Node label text; quotes and angle brackets would end the label or be read as HTML. */
+export function mermaidLabel(text: string): string {
+    return text.replace(/"/g, '#quot;').replace(/</g, '#lt;').replace(/>/g, '#gt;');
+}
+
+/**
+ * Returns a function mapping arbitrary names (paths, qualified names) to
+ * stable, unique Mermaid identifiers.
+ */
+export function createIdFactory(prefix: string): (name: string) => string {
+    const ids = new Map<string, string>();
+    const used = new Set<string>();
+    return (name: string) => {
+        let id = ids.get(name);
+        if (id) return id;
+        const base = `${prefix}_${name.replace(/[^A-Za-z0-9_]/g, '_')}`;
+        id = base;
+        for (let n = 2; used.has(id); n++) id = `${base}_${n}`;
+        ids.set(name, id);
+        used.add(id);
+        return id;
+    };
+}
@@ -0,0 +1,102 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as ts from 'typescript';
+import { DEFAULT_EXCLUDE, DEFAULT_INCLUDE, FileFilter, IGNORE_FILE_NAMES } from './FileFilter';
+import { DEFAULT_DOCS_FOLDER, FileAnalysis, normalizeDocsFolder, ProjectAnalyzer, ProjectSource, WorkspaceAnalysis } from './ProjectAnalyzer';
+
+/** The `documind.*` settings the CLI honors, read from `.vscode/settings.json`. */
+export interface ProjectSettings {
+    include: string[];
+    exclude: string[];
+    coverageThreshold?: number;
+    issueUrlTemplate?: string;
+    docsFolder: string;
+}
+
+/**
+ * Reads the workspace settings of a directory the way VS Code would see them.
+ * The file is JSON with comments, so it goes through the TypeScript parser.
+ */
+export function loadProjectSettings(root: string): ProjectSettings {
+    let settings: Record<string, unknown> = {};
+    const settingsPath = path.join(root, '.vscode', 'settings.json');
+    if (fs.existsSync(settingsPath)) {
+        const parsed = ts.parseConfigFileTextToJson(settingsPath, fs.readFileSync(settingsPath, 'utf-8'));
+        if (parsed.config && typeof parsed.config === 'object') {
+            settings = parsed.config;
+        }
+    }
+    const threshold = settings['documind.coverage.threshold'];
+    const issueUrlTemplate = settings['documind.releaseNotes.issueUrlTemplate'];
+    const docsFolder = settings['documind.docsFolder'];
+    return {
+        include: Array.isArray(settings['documind.analysis.include']) ? settings['documind.analysis.include'] as string[] : DEFAULT_INCLUDE,
+        exclude: Array.isArray(settings['documind.analysis.exclude']) ? settings['documind.analysis.exclude'] as string[] : DEFAULT_EXCLUDE,
+        coverageThreshold: typeof threshold === 'number' ? threshold : undefined,
+        issueUrlTemplate: typeof issueUrlTemplate === 'string' && issueUrlTemplate ? issueUrlTemplate : undefined,
+        docsFolder: normalizeDocsFolder(typeof docsFolder === 'string' ? docsFolder : undefined) ?? DEFAULT_DOCS_FOLDER
+    };
+}
+
+/**
+ * Lists the files of a directory that pass the analysis filter, as relative
+ * POSIX paths. Ignore files are picked up on the way down, so ignored
+ * directories are never descended into.
+ */
+export function listProjectFiles(root: string, settings: ProjectSettings): string[] {
+    const filter = new FileFilter({ include: settings.include, exclude: settings.exclude });
+    const files: string[] = [];
+    const walk = (relativeDir: string) => {
+        const absoluteDir = path.join(root, relativeDir);
+        for (const name of IGNORE_FILE_NAMES) {
+            const ignoreFile = path.join(absoluteDir, name);
+            if (fs.existsSync(ignoreFile)) {
+                filter.addIgnoreFile(path.posix.join(relativeDir || '.', name), fs.readFileSync(ignoreFile, 'utf-8'));
+            }
+        }
+        const entries = fs.readdirSync(absoluteDir, { withFileTypes: true }).sort((a, b) => a.name.localeCompare(b.name));
+        for (const entry of entries) {
+            const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+            if (entry.isDirectory()) {
+                if (!filter.excludesDirectory(relativePath)) walk(relativePath);
+            } else if (entry.isFile() && filter.matches(relativePath)) {
+                files.push(relativePath);
+            }
+        }
+    };
+    walk('');
+    return files;
+}
+
+/** Runs the full project analysis over a directory on disk, without VS Code. */
+export async function analyzeDirectory(root: string, settings: ProjectSettings = loadProjectSettings(root)): Promise<WorkspaceAnalysis> {
+    const analyzer = new ProjectAnalyzer();
+    const rootPath = path.resolve(root).split(path.sep).join('/');
+    const files = listProjectFiles(root, settings);
+    const resultsByFile = new Map<string, FileAnalysis>();
+    for (const file of files) {
+        if (!analyzer.isAnalyzable(file)) continue;
+        try {
+            resultsByFile.set(file, analyzer.analyzeFile(path.posix.join(rootPath, file), fs.readFileSync(path.join(root, file))));
+        } catch (error) {
+            console.error(`Error analyzing file ${file}:`, error);
+        }
+    }
+
+    const source: ProjectSource = {
+        root: rootPath,
+        files,
+        readFile: async relativePath => {
+            try {
+                return fs.readFileSync(path.join(root, relativePath));
+            } catch {
+                return undefined;
+            }
+        },
+        itemsFor: relativePath => resultsByFile.get(relativePath)?.items || [],
+        importsFor: relativePath => resultsByFile.get(relativePath)?.imports || [],
+        schemasFor: relativePath => resultsByFile.get(relativePath)?.schemas || [],
+        docsFolder: settings.docsFolder
+    };
+    return analyzer.analyze(source);
+}
@@ -0,0 +1,270 @@
+import * as path from 'path';
+import type { HttpOperation, HttpParameter, SchemaDefinition, SchemaObject } from './extractors/apiShapes';
+import { pathParameterNames, toOpenApiPath } from './extractors/apiShapes';
+import type { DependencyGraph } from './dependencyGraph';
+import type { CodeItem, ProjectSource } from './ProjectAnalyzer';
+
+/** A JSON Schema as written into the spec: `$ref` is a full `#/components/schemas/...` pointer. */
+export type OpenApiSchema = Omit<SchemaObject, 'properties' | 'items' | 'additionalProperties'> & {
+    properties?: Record<string, OpenApiSchema>;
+    items?: OpenApiSchema;
+    additionalProperties?: boolean | OpenApiSchema;
+};
+
+export interface OpenApiOperation {
+    operationId: string;
+    summary?: string;
+    description?: string;
+    tags?: string[];
+    parameters?: Array<Omit<HttpParameter, 'schema'> & { schema: OpenApiSchema }>;
+    requestBody?: { required: boolean; content: Record<string, { schema: OpenApiSchema }> };
+    responses: Record<string, { description: string; content?: Record<string, { schema: OpenApiSchema }> }>;
+    /** Where the handler lives, so the spec can be traced back to code. */
+    'x-source': string;
+}
+
+export interface OpenApiDocument {
+    openapi: '3.0.3';
+    info: { title: string; version: string; description?: string };
+    paths: Record<string, Record<string, OpenApiOperation>>;
+    components: { schemas: Record<string, OpenApiSchema> };
+}
+
+const STATUS_TEXT: Record<number, string> = {
+    200: 'OK', 201: 'Created', 202: 'Accepted', 204: 'No Content', 301: 'Moved Permanently', 302: 'Found', 304: 'Not Modified',
+    400: 'Bad Request', 401: 'Unauthorized', 403: 'Forbidden', 404: 'Not Found', 409: 'Conflict', 422: 'Unprocessable Entity', 500: 'Internal Server Error'
+};
+const HTTP_ROUTE = /^(GET|POST|PUT|DELETE|PATCH|HEAD|OPTIONS) (\S+)$/;
+// Path prefixes that say nothing about the resource, skipped when picking tags
+const UNTAGGED_SEGMENTS = /^(api|rest|v\d+)$/i;
+
+/**
+ * OpenAPI 3 document for the project's HTTP routes. Operations come from the
+ * route items (with the parameters, bodies and responses the extractors found
+ * in their handlers); schemas they reference by name are looked up among the
+ * data shapes declared anywhere in the project, preferring files the route's
+ * file imports. Undefined when the project has no HTTP routes.
+ */
+export async function buildOpenApiDocument(source: ProjectSource, graph: DependencyGraph): Promise<OpenApiDocument | undefined> {
+    const routes: Array<{ item: CodeItem; file: string; method: string; routePath: string }> = [];
+    const declared = new Map<string, Array<SchemaDefinition & { file: string }>>();
+    for (const file of source.files) {
+        for (const item of source.itemsFor(file)) {
+            const route = httpRouteOf(item);
+            if (route) routes.push({ item, file, method: route.method.toLowerCase(), routePath: route.path });
+        }
+        for (const schema of source.schemasFor(file)) {
+            const list = declared.get(schema.name) || [];
+            list.push({ ...schema, file });
+            declared.set(schema.name, list);
+        }
+    }
+    if (routes.length === 0) return undefined;
+
+    const document: OpenApiDocument = { openapi: '3.0.3', info: await readInfo(source), paths: {}, components: { schemas: {} } };
+    const operationIds = new Set<string>();
+
+    for (const { item, file, method, routePath } of routes) {
+        const openApiPath = toOpenApiPath(routePath);
+        const operations = document.paths[openApiPath] = document.paths[openApiPath] || {};
+        // The same handler can be registered twice (e.g. `@app.route` with several methods); keep the first
+        if (operations[method]) continue;
+
+        const resolver = new SchemaResolver(declared, document.components.schemas, file, graph);
+        const http: HttpOperation = item.http || { parameters: [], responses: [] };
+        const [summary, ...rest] = (item.description || '').split('\n');
+        const description = rest.join('\n').trim();
+        const tag = tagFor(openApiPath);
+
+        const parameters = [...http.parameters];
+        for (const name of pathParameterNames(openApiPath)) {
+            if (!parameters.some(p => p.in === 'path' && p.name === name)) {
+                parameters.push({ name, in: 'path', required: true, schema: { type: 'string' } });
+            }
+        }
+        // A DTO bound to the whole query string becomes one parameter per property
+        if (http.queryObject) {
+            const expanded = resolver.expand(http.queryObject);
+            for (const [name, schema] of Object.entries(expanded.properties || {})) {
+                if (!parameters.some(p => p.in === 'query' && p.name === name)) {
+                    parameters.push({ name, in: 'query', required: (expanded.required || []).includes(name), schema });
+                }
+            }
+        }
+        const responses: OpenApiOperation['responses'] = {};
+        for (const response of http.responses.length > 0 ? http.responses : [{ status: method === 'post' ? 201 : 200 }]) {
+            responses[String(response.status)] = {
+                description: STATUS_TEXT[response.status] || 'Response',
+                ...(response.schema && Object.keys(response.schema).length > 0
+                    ? { content: { 'application/json': { schema: resolver.resolve(response.schema) } } }
+                    : {})
+            };
+        }
+
+        operations[method] = {
+            operationId: uniqueId(operationIdFor(method, openApiPath), operationIds),
+            ...(summary.trim() ? { summary: summary.trim() } : {}),
+            ...(description ? { description } : {}),
+            ...(tag ? { tags: [tag] } : {}),
+            ...(parameters.length > 0 ? { parameters: parameters.map(p => ({ ...p, schema: resolver.resolve(p.schema) })) } : {}),
+            ...(http.requestBody
+                ? { requestBody: { required: true, content: { 'application/json': { schema: resolver.resolve(http.requestBody) } } } }
+                : {}),
+            responses,
+            'x-source': `${file}:${item.lineNumber}`
+        };
+    }
+    return document;
+}
+
+/** Method and path of an HTTP route item (`GET /users/:id`); undefined for other items and non-HTTP routes. */
+export function httpRouteOf(item: CodeItem): { method: string; path: string } | undefined {
+    const match = item.type === 'api' ? item.name.match(HTTP_ROUTE) : null;
+    return match ? { method: match[1], path: match[2] } : undefined;
+}
+
+/** Resolves `$ref: 'Name'` against the project's declared schemas, adding each one used to the components. */
+class SchemaResolver {
+    constructor(
+        private readonly declared: Map<string, Array<SchemaDefinition & { file: string }>>,
+        private readonly components: Record<string, OpenApiSchema>,
+        private readonly file: string,
+        private readonly graph: DependencyGraph
+    ) {}
+
+    public resolve(schema: SchemaObject, seen: Set<string> = new Set()): OpenApiSchema {
+        if (schema.$ref) {
+            const definition = this.lookup(schema.$ref);
+            // Types from libraries or not found: say what was declared rather than guess a shape
+            if (!definition) return { type: 'object', description: schema.$ref };
+            if (!this.components[definition.name] && !seen.has(definition.name)) {
+                seen.add(definition.name);
+                this.components[definition.name] = {};
+                this.components[definition.name] = this.resolve(definition.schema, seen);
+            }
+            return { $ref: `#/components/schemas/${definition.name}` };
+        }
+        const { properties, items, additionalProperties, ...rest } = schema;
+        const resolved: OpenApiSchema = { ...rest };
+        if (properties) {
+            resolved.properties = Object.fromEntries(Object.entries(properties).map(([name, value]) => [name, this.resolve(value, seen)]));
+        }
+        if (items) resolved.items = this.resolve(items, seen);
+        if (additionalProperties !== undefined) {
+            resolved.additionalProperties = typeof additionalProperties === 'boolean' ? additionalProperties : this.resolve(additionalProperties, seen);
+        }
+        return resolved;
+    }
+
+    /** The object behind a schema, following aliases, with its properties resolved. */
+    public expand(schema: SchemaObject): OpenApiSchema {
+        let current: SchemaObject | undefined = schema;
+        for (let depth = 0; current?.$ref && depth < 5; depth++) {
+            current = this.lookup(current.$ref)?.schema;
+        }
+        return current ? this.resolve(current) : {};
+    }
+
+    private lookup(name: string): (SchemaDefinition & { file: string }) | undefined {
+        const candidates = this.declared.get(name);
+        if (!candidates) return undefined;
+        const imported = new Set(this.graph.files[this.file] || []);
+        return candidates.find(c => c.file === this.file) || candidates.find(c => imported.has(c.file)) || candidates[0];
+    }
+}
+
+/** Title, version and description from the first manifest that has them. */
+async function readInfo(source: ProjectSource): Promise<OpenApiDocument['info']> {
+    const text = async (file: string) => {
+        const content = await source.readFile(file);
+        return content ? Buffer.from(content).toString('utf-8') : undefined;
+    };
+    const fallback = { title: path.posix.basename(source.root) || 'API', version: '1.0.0' };
+
+    const packageJson = await text('package.json');
+    if (packageJson) {
+        try {
+            const manifest = JSON.parse(packageJson);
+            return {
+                title: manifest.displayName || manifest.name || fallback.title,
+                version: manifest.version || fallback.version,
+                ...(manifest.description ? { description: manifest.description } : {})
+            };
+        } catch {
+            // Unparseable manifest - fall through to the others
+        }
+    }
+    const pyproject = await text('pyproject.toml');
+    if (pyproject) {
+        const field = (name: string) => pyproject.match(new RegExp(`^${name}\\s*=\\s*["']([^"']*)["']`, 'm'))?.[1];
+        return {
+            title: field('name') || fallback.title,
+            version: field('version') || fallback.version,
+            ...(field('description') ? { description: field('description') } : {})
+        };
+    }
+    return fallback;
+}
+
+/** `getUsersById` for `GET /users/{id}`. */
+function operationIdFor(method: string, openApiPath: string): string {
+    const words = openApiPath.split('/').filter(Boolean).map(segment => {
+        const param = segment.match(/^\{(\w+)\}$/);
+        return param ? `By ${param[1]}` : segment;
+    });
+    const camel = words.join(' ').split(/[^A-Za-z0-9]+/).filter(Boolean)
+        .map(word => word[0].toUpperCase() + word.slice(1)).join('');
+    return method + (camel || 'Root');
+}
+
+function uniqueId(id: string, used: Set<string>): string {
+    let candidate = id;
+    for (let n = 2; used.has(candidate); n++) candidate = `${id}${n}`;
+    used.add(candidate);
+    return candidate;
+}
+
+function tagFor(openApiPath: string): string | undefined {
+    return openApiPath.split('/').find(segment => segment && !UNTAGGED_SEGMENTS.test(segment) && !segment.startsWith('{'));
+}
+
+/**
+ * YAML for a JSON-compatible value. Strings that YAML would read as something
+ * else (numbers, booleans, `key: value`, leading indicators) are double-quoted,
+ * which is the JSON string syntax YAML also accepts.
+ */
+export function formatOpenApiYaml(document: OpenApiDocument): string {
+    return `# Generated by Documind from the project's route handlers; regenerate instead of editing by hand.\n${toYaml(document, 0)}\n`;
+}
+
+function toYaml(value: unknown, indent: number): string {
+    const pad = ' '.repeat(indent);
+    if (Array.isArray(value)) {
+        if (value.length === 0) return '[]';
+        return value.map(entry => {
+            const rendered = toYaml(entry, indent + 2);
+            // `- name: id` with the rest of the mapping aligned under its first key
+            return isBlock(entry) ? `${pad}- ${rendered.slice(indent + 2)}` : `${pad}- ${rendered}`;
+        }).join('\n');
+    }
+    if (value !== null && typeof value === 'object') {
+        const entries = Object.entries(value as Record<string, unknown>).filter(([, v]) => v !== undefined);
+        if (entries.length === 0) return '{}';
+        return entries.map(([key, entry]) => {
+            const rendered = toYaml(entry, indent + 2);
+            return isBlock(entry) ? `${pad}${scalar(key)}:\n${rendered}` : `${pad}${scalar(key)}: ${rendered}`;
+        }).join('\n');
+    }
+    if (typeof value === 'string') return scalar(value);
+    return String(value);
+}
+
+function isBlock(value: unknown): boolean {
+    if (Array.isArray(value)) return value.length > 0;
+    return value !== null && typeof value === 'object' && Object.keys(value as object).length > 0;
+}
+
+function scalar(text: string): string {
+    const plain = /^[A-Za-z_/$.][\w/{}.$ \-()]*$/.test(text) && !/ $/.test(text) && !/^(true|false|null|yes|no|on|off|~)$/i.test(text);
+    return plain ? text : JSON.stringify(text);
+}
@@ -0,0 +1,305 @@
+import { parseConventionalCommit } from './changelog';
+import { parseRemote } from './codeHosts/codeHost';
+import { readCommit, runGit } from './git';
+
+/** An issue or pull request number found in a commit. */
+export interface IssueReference {
+    id: number;
+    /** `closes` after Fixes/Closes/Resolves, `pull` for the pull request that brought the commit in. */
+    kind: 'closes' | 'mentions' | 'pull';
+    url?: string;
+}
+
+export interface ReleaseNoteEntry {
+    hash: string;
+    shortHash: string;
+    author: string;
+    /** Author date, `YYYY-MM-DD`. */
+    date: string;
+    subject: string;
+    /** Conventional Commit type; undefined for other subjects. */
+    type?: string;
+    scope?: string;
+    /** The subject without type, scope and pull request suffix. */
+    description: string;
+    breaking: boolean;
+    breakingNotes: string[];
+    pullRequest?: number;
+    references: IssueReference[];
+}
+
+export interface ReleaseNoteGroup {
+    /** Conventional Commit type, or `other`. */
+    type: string;
+    title: string;
+    /** Entries without a scope come first. */
+    scopes: Array<{ scope?: string; entries: ReleaseNoteEntry[] }>;
+}
+
+export interface Contributor {
+    name: string;
+    email: string;
+    commits: number;
+}
+
+/** Release notes for a revision range; serializes as the JSON form. */
+export interface ReleaseNotes {
+    /** Start of the range (exclusive); undefined from the first commit. */
+    from?: string;
+    to: string;
+    /** Committer date of `to`, `YYYY-MM-DD`. */
+    date: string;
+    /** Entries after de-duplication. */
+    commitCount: number;
+    breaking: ReleaseNoteEntry[];
+    groups: ReleaseNoteGroup[];
+    /** Every issue and pull request referenced, once each. */
+    references: IssueReference[];
+    contributors: Contributor[];
+}
+
+export interface ReleaseNotesOptions {
+    /** Defaults to the tag before `to`. */
+    from?: string;
+    to?: string;
+    /** Link for `#123` references, with `{id}` for the number, e.g. `https://github.com/acme/shop/issues/{id}`. */
+    issueUrlTemplate?: string;
+}
+
+const GROUPS: Array<[string, string]> = [
+    ['feat', 'Features'],
+    ['fix', 'Bug Fixes'],
+    ['perf', 'Performance'],
+    ['refactor', 'Refactoring'],
+    ['revert', 'Reverts'],
+    ['docs', 'Documentation'],
+    ['test', 'Tests'],
+    ['build', 'Build'],
+    ['ci', 'Continuous Integration'],
+    ['style', 'Style'],
+    ['chore', 'Chores'],
+    ['other', 'Other Changes']
+];
+// `Merge pull request #12 from …` (GitHub), `… (#12) from …` (Gitea), `See merge request group/repo!12` (GitLab)
+const MERGE_PULL = /^Merge pull request (?:#(\d+)|'.*' \(#(\d+)\))|See merge request \S*!(\d+)/m;
+// Squash merges end the subject with the pull request: `feat: thing (#123)`
+const SQUASH_PULL = /\s*\(#(\d+)\)\s*$/;
+// `#12` on its own, not `owner/repo#12`, `&#12;` or part of a word
+const REFERENCE = /(^|[^\w&/#])(?:(close[sd]?|fix(?:e[sd])?|resolve[sd]?)\s*:?\s+)?#(\d+)\b/gi;
+const RECORD = '\x1e';
+const FIELD = '\x1f';
+
+/** Tags reachable from `to`, newest first. */
+export async function listTags(cwd: string, to = 'HEAD'): Promise<string[]> {
+    try {
+        return (await runGit(['tag', '--sort=-creatordate', '--merged', to], cwd)).split('\n').filter(Boolean);
+    } catch {
+        return [];
+    }
+}
+
+/**
+ * The issue page of the repository behind a git remote, with `{id}` for the
+ * number; undefined when the remote is not on a recognized code host.
+ */
+export async function remoteIssueUrlTemplate(cwd: string, remoteName = 'origin'): Promise<string | undefined> {
+    const url = await runGit(['remote', 'get-url', remoteName], cwd).catch(() => '');
+    const remote = url ? parseRemote(url) : undefined;
+    if (!remote) return undefined;
+    const repository = `https://${remote.host}/${remote.owner}/${remote.repo}`;
+    return remote.kind === 'gitlab' ? `${repository}/-/issues/{id}` : `${repository}/issues/{id}`;
+}
+
+/**
+ * Release notes for the commits in `from..to`. Commits are grouped by type
+ * and then scope. A commit that reached the range more than once (merged,
+ * then squashed or cherry-picked) is listed once, with the pull request
+ * that brought it in; merge commits themselves only lend their pull request
+ * number to the commits they merged. Contributors come from `git shortlog`.
+ */
+export async function draftReleaseNotes(cwd: string, options: ReleaseNotesOptions = {}): Promise<ReleaseNotes> {
+    const to = options.to || 'HEAD';
+    const from = options.from ?? await previousTag(cwd, to);
+    const range = from ? `${from}..${to}` : to;
+    const link = (id: number) => options.issueUrlTemplate ? options.issueUrlTemplate.replace(/\{id\}/g, String(id)) : undefined;
+
+    const format = ['%H', '%h', '%an', '%ad', '%P', '%s', '%b'].join('%x1f') + '%x1e';
+    const output = await runGit(['log', '--reverse', '--date=short', `--format=${format}`, range], cwd);
+    const records = output.split(RECORD).map(record => record.replace(/^\n/, '')).filter(Boolean).map(record => {
+        const [hash, shortHash, author, date, parents, subject, body = ''] = record.split(FIELD);
+        return { hash, shortHash, author, date, parents: parents.split(' ').filter(Boolean), subject, body };
+    });
+
+    // Pull request numbers of merge commits, handed down to the commits they merged
+    const mergedBy = new Map<string, number>();
+    for (const record of records.filter(record => record.parents.length > 1)) {
+        const match = `${record.subject}\n${record.body}`.match(MERGE_PULL);
+        const number = match && Number(match[1] || match[2] || match[3]);
+        if (!number) continue;
+        const merged = await runGit(['rev-list', '--no-merges', `${record.parents[0]}..${record.parents[1]}`], cwd).catch(() => '');
+        for (const hash of merged.split('\n').filter(Boolean)) mergedBy.set(hash, number);
+    }
+
+    const entries: ReleaseNoteEntry[] = [];
+    const bySubject = new Map<string, ReleaseNoteEntry>();
+    for (const record of records.filter(record => record.parents.length <= 1)) {
+        const squashed = record.subject.match(SQUASH_PULL);
+        const subject = record.subject.replace(SQUASH_PULL, '');
+        const parsed = parseConventionalCommit(subject, record.body);
+        const pullRequest = squashed ? Number(squashed[1]) : mergedBy.get(record.hash);
+        const references = findReferences(`${subject}\n${record.body}`, pullRequest, link);
+        const key = subject.trim().toLowerCase().replace(/\s+/g, ' ');
+        const duplicate = bySubject.get(key);
+        if (duplicate) {
+            duplicate.pullRequest = duplicate.pullRequest ?? pullRequest;
+            for (const reference of references) {
+                if (!duplicate.references.some(existing => existing.id === reference.id)) duplicate.references.push(reference);
+            }
+            continue;
+        }
+        const entry: ReleaseNoteEntry = {
+            hash: record.hash,
+            shortHash: record.shortHash,
+            author: record.author,
+            date: record.date,
+            subject: record.subject,
+            type: parsed?.type,
+            scope: parsed?.scope,
+            description: parsed?.description ?? subject.trim(),
+            breaking: parsed?.breaking ?? false,
+            breakingNotes: parsed?.breakingNotes ?? [],
+            pullRequest,
+            references
+        };
+        bySubject.set(key, entry);
+        entries.push(entry);
+    }
+
+    const references = new Map<number, IssueReference>();
+    for (const reference of entries.flatMap(entry => entry.references)) {
+        const known = references.get(reference.id);
+        // The strongest kind wins: a pull request, then a closed issue, then a mention
+        if (!known || rank(reference) > rank(known)) references.set(reference.id, reference);
+    }
+
+    const toCommit = await readCommit(cwd, to);
+    return {
+        from: from || undefined,
+        to,
+        date: (toCommit?.date || new Date().toISOString()).split('T')[0],
+        commitCount: entries.length,
+        breaking: entries.filter(entry => entry.breaking),
+        groups: groupEntries(entries),
+        references: Array.from(references.values()).sort((a, b) => a.id - b.id),
+        contributors: await shortlog(cwd, range)
+    };
+}
+
+export function formatReleaseNotesMarkdown(notes: ReleaseNotes): string {
+    const title = notes.to === 'HEAD' ? 'Unreleased' : notes.to;
+    const contributors = notes.contributors.length;
+    const lines = [
+        `# ${title}`,
+        '',
+        `${notes.from ? `Changes since ${notes.from}` : 'All changes'} · ${notes.date} · ${notes.commitCount} commit(s) · ${contributors} contributor(s)`,
+        ''
+    ];
+    if (notes.breaking.length > 0) {
+        lines.push('## Breaking Changes', '');
+        for (const entry of notes.breaking) {
+            lines.push(`- ${entry.scope ? `**${entry.scope}:** ` : ''}${entry.breakingNotes.join(' ') || entry.description} (${entry.shortHash})`);
+        }
+        lines.push('');
+    }
+    for (const group of notes.groups) {
+        lines.push(`## ${group.title}`, '');
+        for (const { scope, entries } of group.scopes) {
+            if (scope) lines.push(`### ${scope}`, '');
+            lines.push(...entries.map(entry => `- ${formatEntry(entry)}`), '');
+        }
+    }
+    if (notes.contributors.length > 0) {
+        lines.push('## Contributors', '');
+        lines.push(...notes.contributors.map(contributor => `- ${contributor.name} (${contributor.commits} commit${contributor.commits === 1 ? '' : 's'})`), '');
+    }
+    return lines.join('\n').replace(/\n+$/, '\n');
+}
+
+export function formatReleaseNotesJson(notes: ReleaseNotes): string {
+    return JSON.stringify(notes, null, 2);
+}
+
+async function previousTag(cwd: string, to: string): Promise<string | undefined> {
+    try {
+        // From the parent, so a `to` that is itself a tag gets the one before it
+        return await runGit(['describe', '--tags', '--abbrev=0', `${to}^`], cwd) || undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+function findReferences(text: string, pullRequest: number | undefined, link: (id: number) => string | undefined): IssueReference[] {
+    const references: IssueReference[] = pullRequest ? [{ id: pullRequest, kind: 'pull', url: link(pullRequest) }] : [];
+    for (const match of text.matchAll(REFERENCE)) {
+        const id = Number(match[3]);
+        const kind = match[2] ? 'closes' : 'mentions';
+        const known = references.find(reference => reference.id === id);
+        if (known) {
+            if (known.kind === 'mentions' && kind === 'closes') known.kind = kind;
+            continue;
+        }
+        references.push({ id, kind, url: link(id) });
+    }
+    return references;
+}
+
+function rank(reference: IssueReference): number {
+    return reference.kind === 'pull' ? 2 : reference.kind === 'closes' ? 1 : 0;
+}
+
+function groupEntries(entries: ReleaseNoteEntry[]): ReleaseNoteGroup[] {
+    const known = new Set(GROUPS.map(([type]) => type));
+    const groups: ReleaseNoteGroup[] = [];
+    for (const [type, title] of GROUPS) {
+        const members = entries.filter(entry => (entry.type && known.has(entry.type) ? entry.type : 'other') === type);
+        if (members.length === 0) continue;
+        const scopes = new Map<string | undefined, ReleaseNoteEntry[]>();
+        for (const entry of members) scopes.set(entry.scope, [...(scopes.get(entry.scope) || []), entry]);
+        groups.push({
+            type,
+            title,
+            scopes: Array.from(scopes, ([scope, scoped]) => ({ scope, entries: scoped }))
+                .sort((a, b) => a.scope === undefined ? -1 : b.scope === undefined ? 1 : a.scope.localeCompare(b.scope))
+        });
+    }
+    return groups;
+}
+
+/** The description with `#n` linked, then the pull request and closed issues it does not mention. */
+function formatEntry(entry: ReleaseNoteEntry): string {
+    const linkTo = (reference: IssueReference) => reference.url ? `[#${reference.id}](${reference.url})` : `#${reference.id}`;
+    const description = entry.description.replace(REFERENCE, (match, lead: string, keyword: string | undefined, id: string) => {
+        const reference = entry.references.find(candidate => candidate.id === Number(id));
+        return reference ? `${lead}${keyword ? `${keyword} ` : ''}${linkTo(reference)}` : match;
+    });
+    const mentioned = new Set(Array.from(entry.description.matchAll(REFERENCE), match => Number(match[3])));
+    const extra = entry.references.filter(reference => reference.kind !== 'mentions' && !mentioned.has(reference.id));
+    const pull = extra.filter(reference => reference.kind === 'pull').map(linkTo);
+    const closes = extra.filter(reference => reference.kind === 'closes').map(linkTo);
+    return `${description}${pull.length ? ` (${pull.join(', ')})` : ''}${closes.length ? `, closes ${closes.join(', ')}` : ''} (${entry.shortHash})`;
+}
+
+async function shortlog(cwd: string, range: string): Promise<Contributor[]> {
+    let output: string;
+    try {
+        output = await runGit(['shortlog', '-sne', '--no-merges', range], cwd);
+    } catch {
+        return [];
+    }
+    const contributors: Contributor[] = [];
+    for (const line of output.split('\n')) {
+        const match = line.match(/^\s*(\d+)\t(.+?)\s*<([^>]*)>\s*$/);
+        if (match) contributors.push({ name: match[2], email: match[3], commits: Number(match[1]) });
+    }
+    return contributors;
+}
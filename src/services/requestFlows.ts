@@ -0,0 +1,220 @@
+import * as path from 'path';
+import type { DependencyGraph } from './dependencyGraph';
+import { isGraphqlOperation } from './extractors/graphqlExtractor';
+import type { CodeItem, ProjectSource } from './ProjectAnalyzer';
+
+/** Where a participant sits on the way from the route to the data. */
+export type FlowLayer = 'handler' | 'service' | 'data' | 'module' | 'database';
+
+export interface FlowParticipant {
+    /** Class name for methods, file stem for free functions, `Database` for data stores. */
+    name: string;
+    layer: FlowLayer;
+    /** Folder-relative file, absent for the database. */
+    file?: string;
+}
+
+export interface FlowCall {
+    from: string;
+    to: string;
+    /** The callee as named in the caller, e.g. `userService.create`. */
+    call: string;
+    /** Return type of the callee when the extractor knows it. */
+    returns?: string;
+    calls: FlowCall[];
+}
+
+/** What happens when an endpoint is called, traced from its handler through project code. */
+export interface RequestFlow {
+    route: string;
+    file: string;
+    line: number;
+    participants: FlowParticipant[];
+    calls: FlowCall[];
+}
+
+// Deep traces stop explaining anything; utilities are reached well before this
+const MAX_DEPTH = 4;
+const MAX_CALLS = 30;
+const DATA_LAYER = /(^|[\/_.-])(repositor(y|ies)|repos?|dao|models?|entit(y|ies)|db|database|stores?|persistence|prisma|schemas?|migrations)([\/_.-]|$)|(Repository|Repo|Dao|DAO|Model|Store|Entity)$/;
+const SERVICE_LAYER = /(^|[\/_.-])(services?|usecases?|use_cases?|domain|logic|managers?|providers?)([\/_.-]|$)|(Service|UseCase|Manager|Provider)$/;
+const HANDLER_LAYER = /(^|[\/_.-])(routes?|routers?|controllers?|handlers?|api|views?|endpoints?|resources?)([\/_.-]|$)|(Controller|Handler|Resource|View|Router)$/;
+// Receivers that are data stores even when the library behind them is not part of the project
+const DATA_RECEIVERS = /^(db|database|prisma|knex|pool|conn|connection|cursor|session|tx|trx|em|entityManager|manager|repo|repository|collection|objects|query|sql|redis|mongoose|sequelize|jdbcTemplate|supabase|firestore)$/i;
+const DATA_METHODS = new Set(['query', 'execute', 'exec', 'raw', 'findOne', 'findMany', 'findUnique', 'findFirst', 'findById', 'findAll', 'findByPk',
+    'insert', 'insertOne', 'insertMany', 'updateOne', 'updateMany', 'deleteOne', 'deleteMany', 'upsert', 'aggregate', 'commit', 'QueryRow', 'QueryContext', 'ExecContext']);
+const SELF_RECEIVERS = new Set(['this', 'self', 'cls']);
+
+/**
+ * Follows every route handler through the calls it makes into project
+ * functions and methods, resolving callees by name against the files the
+ * caller imports. Calls that leave the project are kept only when they look
+ * like data access, so the traces end at the database rather than in
+ * framework or standard library code.
+ */
+export function traceRequestFlows(source: ProjectSource, graph: DependencyGraph): RequestFlow[] {
+    const functions: Array<CodeItem & { file: string }> = [];
+    const routes: Array<CodeItem & { file: string }> = [];
+    for (const file of source.files) {
+        for (const item of source.itemsFor(file)) {
+            if (item.type === 'function') functions.push({ ...item, file });
+            // GraphQL types are API items too, but nothing calls them
+            else if (item.type === 'api' && (!item.graphql || isGraphqlOperation(item.graphql))) routes.push({ ...item, file });
+        }
+    }
+    const resolver = new CallResolver(functions, graph);
+
+    return routes.map(route => {
+        const participants = new Map<string, FlowParticipant>();
+        const handlerFunction = functions.find(fn => fn.file === route.file && fn.lineNumber === route.lineNumber);
+        const handler = participantOf(handlerFunction || route, route.file, 'handler');
+        participants.set(handler.name, handler);
+
+        let budget = MAX_CALLS;
+        const trace = (caller: CodeItem & { file: string }, callerParticipant: FlowParticipant, calls: string[], stack: Set<CodeItem>, depth: number): FlowCall[] => {
+            const steps: FlowCall[] = [];
+            for (const call of calls) {
+                if (budget <= 0) break;
+                const target = resolver.resolve(caller, call);
+                if (target) {
+                    if (stack.has(target)) continue;
+                    budget--;
+                    const candidate = participantOf(target, target.file);
+                    const participant = participants.get(candidate.name) || candidate;
+                    participants.set(participant.name, participant);
+                    const nested = depth < MAX_DEPTH && target.calls
+                        ? trace(target, participant, target.calls, new Set([...stack, target]), depth + 1)
+                        : [];
+                    steps.push({ from: callerParticipant.name, to: participant.name, call, returns: target.returnType, calls: nested });
+                } else if (isDataAccess(call)) {
+                    budget--;
+                    participants.set('Database', { name: 'Database', layer: 'database' });
+                    steps.push({ from: callerParticipant.name, to: 'Database', call, calls: [] });
+                }
+            }
+            return steps;
+        };
+
+        const calls = trace(handlerFunction || route, handler, route.calls || [], new Set(handlerFunction ? [handlerFunction] : []), 1);
+        return {
+            route: route.name,
+            file: route.file,
+            line: route.lineNumber,
+            participants: Array.from(participants.values()),
+            calls
+        };
+    });
+}
+
+class CallResolver {
+    private readonly byName = new Map<string, Array<CodeItem & { file: string }>>();
+    /** Constructor parameter types per class, so `this.users.save` can be resolved through `users: UserRepository`. */
+    private readonly injected = new Map<string, Map<string, string>>();
+
+    constructor(functions: Array<CodeItem & { file: string }>, private readonly graph: DependencyGraph) {
+        for (const fn of functions) {
+            const name = memberName(fn.name);
+            const list = this.byName.get(name) || [];
+            list.push(fn);
+            this.byName.set(name, list);
+
+            const owner = ownerOf(fn.name);
+            if (owner && (name === 'constructor' || name === '__init__' || name === memberName(owner))) {
+                const types = new Map<string, string>();
+                for (const param of fn.parameters || []) {
+                    const type = param.type.match(/^[\w.]+/)?.[0];
+                    if (type) types.set(param.name, memberName(type));
+                }
+                this.injected.set(owner, types);
+            }
+        }
+    }
+
+    /**
+     * The project function a call names, preferring the caller's own class and
+     * file, then files it imports; a receiver (`userService.create`) has to
+     * match the callee's class, file or directory. A receiver whose class the
+     * caller's file declares (`const svc = new UserService()`) stands for that class.
+     */
+    public resolve(caller: CodeItem & { file: string }, call: string): (CodeItem & { file: string }) | undefined {
+        const segments = call.split(/\.|::|->/);
+        const name = segments[segments.length - 1];
+        const candidates = this.byName.get(name);
+        if (!candidates) return undefined;
+
+        const receivers = segments.slice(0, -1).filter(segment => !SELF_RECEIVERS.has(segment));
+        const callerClass = ownerOf(caller.name);
+        const field = receivers[receivers.length - 1];
+        const declared = caller.receivers?.[segments.slice(0, -1).join('.')];
+        const receiver = declared || (field && callerClass ? this.injected.get(callerClass)?.get(field) || field : field);
+        const imported = new Set(this.graph.files[caller.file] || []);
+        const rank = (fn: CodeItem & { file: string }): number => {
+            const owner = ownerOf(fn.name);
+            if (receiver === undefined) {
+                if (owner && owner === callerClass) return 0;
+                if (!owner && fn.file === caller.file) return 1;
+                if (!owner && imported.has(fn.file)) return 2;
+                return -1;
+            }
+            if (!matchesReceiver(receiver, fn)) return owner && owner === callerClass ? 5 : -1;
+            if (fn.file === caller.file) return 1;
+            if (imported.has(fn.file)) return 2;
+            // Injected dependencies are typed by interface and modules are imported by package, not file
+            return 3;
+        };
+
+        let best: (CodeItem & { file: string }) | undefined;
+        let bestRank = Infinity;
+        for (const fn of candidates) {
+            const r = rank(fn);
+            if (r >= 0 && r < bestRank && fn !== caller) {
+                best = fn;
+                bestRank = r;
+            }
+        }
+        return best;
+    }
+}
+
+function matchesReceiver(receiver: string, fn: CodeItem & { file: string }): boolean {
+    const wanted = normalize(receiver);
+    if (wanted.length === 0) return false;
+    const names = [ownerOf(fn.name), path.posix.basename(fn.file, path.posix.extname(fn.file)), path.posix.basename(path.posix.dirname(fn.file))]
+        .filter((name): name is string => !!name)
+        .map(normalize);
+    // `userService` → UserService, `users` → users.controller.ts, `repo` → UserRepo
+    const singular = wanted.replace(/s$/, '');
+    return names.some(name => name === wanted || (singular.length >= 3 && (name.startsWith(singular) || name.endsWith(singular))));
+}
+
+function isDataAccess(call: string): boolean {
+    const segments = call.split(/\.|::|->/);
+    if (segments.length < 2) return false;
+    const receivers = segments.slice(0, -1);
+    return receivers.some(segment => DATA_RECEIVERS.test(segment)) || DATA_METHODS.has(segments[segments.length - 1]);
+}
+
+function participantOf(item: CodeItem, file: string, fallback?: FlowLayer): FlowParticipant {
+    const owner = ownerOf(item.name);
+    const name = owner || path.posix.basename(file, path.posix.extname(file));
+    const layer = DATA_LAYER.test(file) || (owner && DATA_LAYER.test(owner)) ? 'data'
+        : SERVICE_LAYER.test(file) || (owner && SERVICE_LAYER.test(owner)) ? 'service'
+        : HANDLER_LAYER.test(file) || (owner && HANDLER_LAYER.test(owner)) ? 'handler'
+        : fallback || 'module';
+    return { name, layer, file };
+}
+
+/** `UserService` for `UserService.create`; undefined for free functions and routes. */
+function ownerOf(name: string): string | undefined {
+    if (/^[A-Z]+ \//.test(name)) return undefined;
+    const dot = name.lastIndexOf('.');
+    return dot === -1 ? undefined : name.slice(0, dot);
+}
+
+function memberName(name: string): string {
+    return name.slice(name.lastIndexOf('.') + 1);
+}
+
+function normalize(name: string): string {
+    return name.replace(/[^A-Za-z0-9]/g, '').toLowerCase();
+}
@@ -0,0 +1,31 @@
+import { defaultFetch, FetchLike } from './codeHosts/http';
+import type { MaintenanceNotification } from './MaintenanceService';
+
+const PRIORITY_MARK: Record<MaintenanceNotification['priority'], string> = { high: '🔴', medium: '🟠', low: '⚪' };
+
+/**
+ * Posts notifications to an incoming webhook as one message. The payload is
+ * `{ text }`, which Slack, Mattermost, Rocket.Chat and Teams' Slack-compatible
+ * endpoints all accept.
+ */
+export async function postNotifications(url: string, notifications: MaintenanceNotification[], folderName: string, fetch: FetchLike = defaultFetch()): Promise<void> {
+    if (notifications.length === 0) return;
+    const lines = [
+        `Documind: ${notifications.length} new notification(s) in ${folderName}`,
+        ...notifications.map(notification => `${PRIORITY_MARK[notification.priority]} *${notification.title}*: ${notification.description}`)
+    ];
+    let response: Awaited<ReturnType<FetchLike>>;
+    try {
+        response = await fetch(url, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ text: lines.join('\n') })
+        });
+    } catch (error) {
+        throw new Error(`Posting to the webhook failed: ${error instanceof Error ? error.message : error}`);
+    }
+    if (!response.ok) {
+        const detail = (await response.text().catch(() => '')).slice(0, 200);
+        throw new Error(`The webhook returned ${response.status} ${response.statusText}${detail ? `: ${detail}` : ''}`);
+    }
+}
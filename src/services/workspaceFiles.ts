@@ -0,0 +1,48 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { DEFAULT_EXCLUDE, DEFAULT_INCLUDE, FileFilter, IGNORE_FILE_NAMES } from './FileFilter';
+
+/**
+ * Builds the analysis filter for a workspace folder from the
+ * `documind.analysis.include` / `exclude` settings and every `.gitignore` and
+ * `.documindignore` in the folder.
+ */
+export async function loadFileFilter(folder: vscode.WorkspaceFolder): Promise<FileFilter> {
+    const config = vscode.workspace.getConfiguration('documind.analysis', folder.uri);
+    const include = config.get<string[]>('include', DEFAULT_INCLUDE);
+    const exclude = config.get<string[]>('exclude', DEFAULT_EXCLUDE);
+
+    const ignoreFiles: Record<string, string> = {};
+    const ignoreUris = await vscode.workspace.findFiles(
+        new vscode.RelativePattern(folder, `**/{${IGNORE_FILE_NAMES.join(',')}}`),
+        new vscode.RelativePattern(folder, '**/node_modules/**')
+    );
+    for (const uri of ignoreUris) {
+        try {
+            const content = await vscode.workspace.fs.readFile(uri);
+            ignoreFiles[toRelativePath(folder, uri)] = Buffer.from(content).toString('utf-8');
+        } catch {
+            // Unreadable ignore file - analyze as if it were absent
+        }
+    }
+
+    return new FileFilter({ include, exclude, ignoreFiles });
+}
+
+/** Lists the files of a workspace folder that pass its analysis filter. */
+export async function findWorkspaceFiles(folder: vscode.WorkspaceFolder, filter?: FileFilter): Promise<vscode.Uri[]> {
+    const activeFilter = filter || await loadFileFilter(folder);
+    const files = await vscode.workspace.findFiles(
+        new vscode.RelativePattern(folder, FileFilter.toGlob(activeFilter.include)),
+        activeFilter.exclude.length > 0 ? new vscode.RelativePattern(folder, FileFilter.toGlob(activeFilter.exclude)) : undefined
+    );
+    return files.filter(file => activeFilter.matches(toRelativePath(folder, file)));
+}
+
+export function toRelativePath(folder: vscode.WorkspaceFolder, file: vscode.Uri): string {
+    return path.posix.relative(folder.uri.path, file.path);
+}
+
+export function isIgnoreFile(file: vscode.Uri): boolean {
+    return IGNORE_FILE_NAMES.includes(path.posix.basename(file.path));
+}
@@ -0,0 +1,311 @@
+/**
+ * Reader for the YAML that API specs are written in: block mappings and
+ * sequences, plain/quoted/block scalars and single-line flow collections.
+ * Tags and anchors are dropped, aliases are read as plain strings, and only
+ * the first document of a stream is read.
+ */
+export function parseYaml(text: string): unknown {
+    return new YamlReader(text.replace(/\r\n?/g, '\n').split('\n')).readDocument();
+}
+
+class YamlReader {
+    private index = 0;
+
+    constructor(private readonly lines: string[]) {}
+
+    public readDocument(): unknown {
+        this.skipBlank();
+        if (this.index < this.lines.length && /^---(\s|$)/.test(this.lines[this.index])) this.index++;
+        this.skipBlank();
+        if (this.atEnd()) return null;
+        return this.readBlock(indentOf(this.lines[this.index]));
+    }
+
+    private readBlock(indent: number): unknown {
+        const content = this.lines[this.index].slice(indent);
+        if (isSequenceEntry(content)) return this.readSequence(indent);
+        if (splitKey(content)) return this.readMapping(indent);
+        this.index++;
+        return this.readValue(content, indent - 1);
+    }
+
+    private readSequence(indent: number): unknown[] {
+        const result: unknown[] = [];
+        while (this.skipBlank(), !this.atEnd()) {
+            const line = this.lines[this.index];
+            const content = line.slice(indent);
+            if (indentOf(line) !== indent || !isSequenceEntry(content)) break;
+            const rest = stripComment(content.slice(1)).trim();
+            const restColumn = indent + content.length - content.slice(1).trimStart().length;
+            if (!rest) {
+                this.index++;
+                result.push(this.readNested(indent, false));
+            } else if (isSequenceEntry(rest) || splitKey(rest)) {
+                // `- key: value` opens a mapping whose other keys line up under `key`
+                this.lines[this.index] = ' '.repeat(restColumn) + content.slice(restColumn - indent);
+                result.push(this.readBlock(restColumn));
+            } else {
+                this.index++;
+                result.push(this.readValue(content.slice(1).trim(), indent));
+            }
+        }
+        return result;
+    }
+
+    private readMapping(indent: number): Record<string, unknown> {
+        const result: Record<string, unknown> = {};
+        while (this.skipBlank(), !this.atEnd()) {
+            const line = this.lines[this.index];
+            const content = line.slice(indent);
+            if (indentOf(line) !== indent || /^(---|\.\.\.)(\s|$)/.test(content)) break;
+            const entry = splitKey(content);
+            if (!entry) break;
+            this.index++;
+            result[entry.key] = entry.rest ? this.readValue(entry.rest, indent) : this.readNested(indent, true);
+        }
+        return result;
+    }
+
+    /** The block under a `key:` or `-` with nothing after it; a mapping value may be a sequence at the same indent. */
+    private readNested(parentIndent: number, allowSameIndentSequence: boolean): unknown {
+        this.skipBlank();
+        if (this.atEnd()) return null;
+        const line = this.lines[this.index];
+        const indent = indentOf(line);
+        if (indent > parentIndent) return this.readBlock(indent);
+        if (allowSameIndentSequence && indent === parentIndent && isSequenceEntry(line.slice(indent))) return this.readSequence(indent);
+        return null;
+    }
+
+    private readValue(raw: string, indent: number): unknown {
+        let text = raw.trim();
+        // Tags and anchors say nothing the reader needs
+        text = text.replace(/^(!\S*|&\S+)\s*/, '').replace(/^(!\S*|&\S+)\s*/, '');
+        if (!text) return this.readNested(indent, false);
+        if (/^[|>]/.test(text)) return this.readBlockScalar(text, indent);
+        if (text.startsWith('"') || text.startsWith("'")) return this.readQuoted(text);
+        if (text.startsWith('[') || text.startsWith('{')) {
+            let flow = stripComment(text);
+            while (!balanced(flow) && !this.atEnd()) flow += ' ' + stripComment(this.lines[this.index++]).trim();
+            return new FlowReader(flow).read();
+        }
+
+        // Plain scalars continue on more-indented lines, joined by spaces
+        let value = stripComment(text).trim();
+        while (!this.atEnd()) {
+            const next = this.lines[this.index];
+            if (!next.trim()) break;
+            if (indentOf(next) <= indent || next.trim().startsWith('#')) break;
+            value += ' ' + stripComment(next).trim();
+            this.index++;
+        }
+        return plainScalar(value);
+    }
+
+    private readQuoted(text: string): string {
+        const quote = text[0];
+        let value = text;
+        // A quoted scalar may be folded across lines
+        while (closingQuote(value, quote) === -1 && !this.atEnd()) {
+            value += ' ' + this.lines[this.index++].trim();
+        }
+        const end = closingQuote(value, quote);
+        const body = value.slice(1, end === -1 ? undefined : end);
+        return quote === "'" ? body.replace(/''/g, "'") : unescapeDoubleQuoted(body);
+    }
+
+    private readBlockScalar(header: string, indent: number): string {
+        const folded = header.startsWith('>');
+        const chomping = header.includes('-') ? 'strip' : header.includes('+') ? 'keep' : 'clip';
+        const explicit = header.match(/\d/);
+        const lines: string[] = [];
+        let contentIndent = explicit ? indent + Number(explicit[0]) : -1;
+        while (!this.atEnd()) {
+            const line = this.lines[this.index];
+            if (line.trim()) {
+                const lineIndent = indentOf(line);
+                if (contentIndent === -1) contentIndent = lineIndent;
+                if (lineIndent < contentIndent || lineIndent <= indent) break;
+                lines.push(line.slice(contentIndent));
+            } else {
+                lines.push('');
+            }
+            this.index++;
+        }
+
+        let trailing = 0;
+        while (lines.length > 0 && lines[lines.length - 1] === '') {
+            lines.pop();
+            trailing++;
+        }
+        let value = folded
+            ? lines.reduce((joined, line, i) => {
+                if (i === 0) return line;
+                // A blank line is a line break; more-indented lines keep theirs
+                if (line === '') return joined + '\n';
+                if (lines[i - 1] === '') return joined + line;
+                if (/^\s/.test(line) || /^\s/.test(lines[i - 1])) return joined + '\n' + line;
+                return joined + ' ' + line;
+            }, '')
+            : lines.join('\n');
+        if (chomping === 'clip' && lines.length > 0) value += '\n';
+        if (chomping === 'keep') value += '\n'.repeat(trailing + 1);
+        return value;
+    }
+
+    private skipBlank(): void {
+        while (!this.atEnd() && (!this.lines[this.index].trim() || this.lines[this.index].trim().startsWith('#'))) this.index++;
+    }
+
+    private atEnd(): boolean {
+        return this.index >= this.lines.length || /^\.\.\.(\s|$)/.test(this.lines[this.index]);
+    }
+}
+
+/** `[a, b]` and `{a: 1, b: [2]}` on one logical line. */
+class FlowReader {
+    private position = 0;
+
+    constructor(private readonly text: string) {}
+
+    public read(): unknown {
+        this.space();
+        const ch = this.text[this.position];
+        if (ch === '[') {
+            this.position++;
+            const items: unknown[] = [];
+            while (this.space(), this.position < this.text.length && this.text[this.position] !== ']') {
+                items.push(this.read());
+                this.space();
+                if (this.text[this.position] === ',') this.position++;
+            }
+            this.position++;
+            return items;
+        }
+        if (ch === '{') {
+            this.position++;
+            const entries: Record<string, unknown> = {};
+            while (this.space(), this.position < this.text.length && this.text[this.position] !== '}') {
+                const key = String(this.scalar(true));
+                this.space();
+                let value: unknown = null;
+                if (this.text[this.position] === ':') {
+                    this.position++;
+                    value = this.read();
+                }
+                entries[key] = value;
+                this.space();
+                if (this.text[this.position] === ',') this.position++;
+            }
+            this.position++;
+            return entries;
+        }
+        return this.scalar(false);
+    }
+
+    private scalar(isKey: boolean): unknown {
+        const ch = this.text[this.position];
+        if (ch === '"' || ch === "'") {
+            const end = closingQuote(this.text.slice(this.position), ch);
+            const body = this.text.slice(this.position + 1, end === -1 ? undefined : this.position + end);
+            this.position = end === -1 ? this.text.length : this.position + end + 1;
+            return ch === "'" ? body.replace(/''/g, "'") : unescapeDoubleQuoted(body);
+        }
+        const start = this.position;
+        while (this.position < this.text.length && !',]}'.includes(this.text[this.position])
+            && !(this.text[this.position] === ':' && (isKey || /[\s,\]}]/.test(this.text[this.position + 1] || ' ')))) {
+            this.position++;
+        }
+        const raw = this.text.slice(start, this.position).trim();
+        return isKey ? raw : plainScalar(raw);
+    }
+
+    private space(): void {
+        while (this.position < this.text.length && /\s/.test(this.text[this.position])) this.position++;
+    }
+}
+
+function indentOf(line: string): number {
+    return line.length - line.trimStart().length;
+}
+
+function isSequenceEntry(content: string): boolean {
+    return content === '-' || content.startsWith('- ');
+}
+
+/** `key: rest` with a plain or quoted key; undefined when the line is not a mapping entry. */
+function splitKey(content: string): { key: string; rest: string } | undefined {
+    const quoted = content.match(/^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*')\s*:(?:\s+(.*))?$/);
+    if (quoted) {
+        const key = quoted[1].startsWith("'") ? quoted[1].slice(1, -1).replace(/''/g, "'") : unescapeDoubleQuoted(quoted[1].slice(1, -1));
+        return { key, rest: stripComment(quoted[2] || '').trim() };
+    }
+    if (/^[\[{#"'|>@`]/.test(content)) return undefined;
+    const colon = content.search(/:(\s|$)/);
+    if (colon <= 0) return undefined;
+    return { key: content.slice(0, colon).trim(), rest: stripComment(content.slice(colon + 1)).trim() };
+}
+
+/** Drops a trailing ` # comment` outside quotes. */
+function stripComment(text: string): string {
+    let quote = '';
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i];
+        if (quote) {
+            if (ch === quote) quote = '';
+        } else if (ch === '"' || ch === "'") {
+            if (i === 0 || /[\s\[{,:]/.test(text[i - 1])) quote = ch;
+        } else if (ch === '#' && (i === 0 || /\s/.test(text[i - 1]))) {
+            return text.slice(0, i).trimEnd();
+        }
+    }
+    return text;
+}
+
+function closingQuote(text: string, quote: string): number {
+    for (let i = 1; i < text.length; i++) {
+        if (quote === '"' && text[i] === '\\') {
+            i++;
+        } else if (text[i] === quote) {
+            if (quote === "'" && text[i + 1] === "'") {
+                i++;
+            } else {
+                return i;
+            }
+        }
+    }
+    return -1;
+}
+
+function unescapeDoubleQuoted(body: string): string {
+    try {
+        return JSON.parse(`"${body.replace(/\\\//g, '/').replace(/\t/g, '\\t')}"`);
+    } catch {
+        return body.replace(/\\(["\\])/g, '$1');
+    }
+}
+
+function balanced(text: string): boolean {
+    let depth = 0;
+    let quote = '';
+    for (const ch of text) {
+        if (quote) {
+            if (ch === quote) quote = '';
+        } else if (ch === '"' || ch === "'") {
+            quote = ch;
+        } else if (ch === '[' || ch === '{') {
+            depth++;
+        } else if (ch === ']' || ch === '}') {
+            depth--;
+        }
+    }
+    return depth <= 0;
+}
+
+function plainScalar(value: string): unknown {
+    if (value === '' || value === '~' || /^null$/i.test(value)) return null;
+    if (/^(true|false)$/i.test(value)) return value.toLowerCase() === 'true';
+    if (/^[-+]?(0|[1-9]\d*)$/.test(value)) return Number(value);
+    if (/^[-+]?(\d+\.\d*|\.\d+|\d+)([eE][-+]?\d+)?$/.test(value)) return Number(value);
+    return value;
+}
@@ -0,0 +1,94 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+
+/** One recorded request and the response to replay for it. */
+export interface RecordedExchange {
+    method: string;
+    /** Path with query string, e.g. `/repos/acme/shop/pulls?state=open`. */
+    path: string;
+    status?: number;
+    body?: unknown;
+}
+
+export interface ReceivedRequest {
+    method: string;
+    path: string;
+    headers: http.IncomingHttpHeaders;
+    body?: unknown;
+}
+
+export interface MockCodeHost {
+    /** Base URL to use as the code host's API URL. */
+    url: string;
+    /** Every request served so far, in order; lets tests check what was posted. */
+    received: ReceivedRequest[];
+    close(): Promise<void>;
+}
+
+/**
+ * A local stand-in for a code host API that replays recorded exchanges. A
+ * request is answered by the fixture with the same method and path; when
+ * the query string differs, by the one with the same method and path alone.
+ * Anything else gets a 404 naming the request, so a missing fixture is
+ * obvious. Listens on 127.0.0.1 only; port 0 picks a free port.
+ */
+export function startMockCodeHost(fixtures: RecordedExchange[], port = 0): Promise<MockCodeHost> {
+    const received: ReceivedRequest[] = [];
+    const server = http.createServer((req, res) => {
+        let raw = '';
+        req.on('data', chunk => raw += chunk);
+        req.on('end', () => {
+            const method = req.method || 'GET';
+            const path = req.url || '/';
+            let body: unknown;
+            try {
+                body = raw ? JSON.parse(raw) : undefined;
+            } catch {
+                body = raw;
+            }
+            received.push({ method, path, headers: req.headers, body });
+
+            const withoutQuery = (value: string) => value.split('?')[0];
+            const fixture = fixtures.find(candidate => candidate.method === method && candidate.path === path)
+                || fixtures.find(candidate => candidate.method === method && withoutQuery(candidate.path) === withoutQuery(path));
+            const status = fixture ? fixture.status ?? 200 : 404;
+            const payload = fixture ? fixture.body : { message: `No fixture for ${method} ${path}` };
+            res.writeHead(status, { 'Content-Type': 'application/json' });
+            res.end(payload === undefined ? '' : JSON.stringify(payload));
+        });
+    });
+    return new Promise((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(port, '127.0.0.1', () => {
+            const address = server.address() as AddressInfo;
+            resolve({
+                url: `http://127.0.0.1:${address.port}`,
+                received,
+                close: () => new Promise<void>(done => server.close(() => done()))
+            });
+        });
+    });
+}
+
+export function loadFixtures(file: string): RecordedExchange[] {
+    return JSON.parse(fs.readFileSync(file, 'utf-8'));
+}
+
+// `node out/test/mockCodeHost.js <fixtures.json>... [--port 8787]`
+if (require.main === module) {
+    const args = process.argv.slice(2);
+    const portIndex = args.indexOf('--port');
+    const port = portIndex >= 0 ? Number(args.splice(portIndex, 2)[1]) : 8787;
+    if (args.length === 0) {
+        console.error('Usage: mockCodeHost <fixtures.json>... [--port <port>]');
+        process.exit(2);
+    }
+    startMockCodeHost(args.flatMap(loadFixtures), port).then(host => {
+        console.log(`Replaying ${args.join(', ')} at ${host.url}`);
+        process.on('SIGINT', () => host.close().then(() => process.exit(0)));
+    }, error => {
+        console.error(`Could not start the mock code host: ${error.message}`);
+        process.exit(1);
+    });
+}
@@ -0,0 +1,54 @@
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+/** Writes `files` (relative path to content) under a fresh temporary directory and returns its path. */
+export function writeProject(files: Record<string, string>): string {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'documind-test-'));
+  writeFiles(root, files);
+  return root;
+}
+
+export function writeFiles(root: string, files: Record<string, string>): void {
+  for (const [file, content] of Object.entries(files)) {
+    fs.mkdirSync(path.dirname(path.join(root, file)), { recursive: true });
+    fs.writeFileSync(path.join(root, file), content);
+  }
+}
+
+export function removeProject(root: string): void {
+  fs.rmSync(root, { recursive: true, force: true });
+}
+
+/** Runs git in `cwd` and returns its trimmed output; commits are authored by `Test <test@example.com>` unless `env` says otherwise. */
+export function git(cwd: string, args: string[], env: Record<string, string> = {}): string {
+  return execFileSync('git', args, {
+    cwd,
+    encoding: 'utf-8',
+    env: {
+      ...process.env,
+      GIT_AUTHOR_NAME: 'Test',
+      GIT_AUTHOR_EMAIL: 'test@example.com',
+      GIT_COMMITTER_NAME: 'Test',
+      GIT_COMMITTER_EMAIL: 'test@example.com',
+      ...env
+    }
+  }).trim();
+}
+
+/** A git repository on `main` holding `files` in one commit. */
+export function gitProject(files: Record<string, string>): string {
+  const root = writeProject(files);
+  git(root, ['init', '-q', '-b', 'main']);
+  git(root, ['add', '-A']);
+  git(root, ['commit', '-q', '-m', 'chore: initial commit']);
+  return root;
+}
+
+/** Writes `files`, stages everything and commits it with `message`. */
+export function commitFiles(root: string, files: Record<string, string>, message: string, env: Record<string, string> = {}): void {
+  writeFiles(root, files);
+  git(root, ['add', '-A']);
+  git(root, ['commit', '-q', '-m', message], env);
+}
@@ -0,0 +1,102 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import type * as vscode from 'vscode';
+import { AnalysisCache } from '../../services/AnalysisCache';
+import type { FileAnalysis } from '../../services/ProjectAnalyzer';
+import { removeProject, writeFiles, writeProject } from '../projectFixture';
+
+/** The parts of `vscode.Uri` the cache uses, for a local path. */
+function fileUri(fsPath: string): vscode.Uri {
+  return {
+    path: fsPath,
+    fsPath,
+    with: (change: { path: string }) => fileUri(change.path),
+    toString: () => `file://${fsPath}`
+  } as unknown as vscode.Uri;
+}
+
+/** `vscode.workspace.fs` over the local disk. */
+const nodeFileSystem = {
+  stat: async (uri: vscode.Uri) => {
+    const stat = fs.statSync(uri.fsPath);
+    return { type: stat.isDirectory() ? 2 : 1, ctime: stat.ctimeMs, mtime: stat.mtimeMs, size: stat.size };
+  },
+  readFile: async (uri: vscode.Uri) => fs.readFileSync(uri.fsPath),
+  writeFile: async (uri: vscode.Uri, content: Uint8Array) => fs.writeFileSync(uri.fsPath, content),
+  createDirectory: async (uri: vscode.Uri) => { fs.mkdirSync(uri.fsPath, { recursive: true }); }
+} as unknown as vscode.FileSystem;
+
+suite('AnalysisCache', () => {
+  let root: string;
+  let computed: string[];
+
+  setup(() => {
+    root = writeProject({
+      'src/a.ts': 'export const a = 1;',
+      'src/lib/b.ts': 'export const b = 2;',
+      'src/lib/c.ts': 'export const c = 3;'
+    });
+    computed = [];
+  });
+
+  teardown(() => removeProject(root));
+
+  const uri = (file: string) => fileUri(path.join(root, file));
+  const storage = () => fileUri(path.join(root, '.storage'));
+
+  function analyze(cache: AnalysisCache, file: string): Promise<FileAnalysis> {
+    return cache.getOrCompute(uri(file), async content => {
+      computed.push(file);
+      return { items: [], imports: [Buffer.from(content).toString('utf-8')] };
+    });
+  }
+
+  function touch(file: string, content: string) {
+    writeFiles(root, { [file]: content });
+    const future = new Date(Date.now() + 60_000);
+    fs.utimesSync(path.join(root, file), future, future);
+  }
+
+  test('reuses results until a file changes', async () => {
+    const cache = new AnalysisCache(storage(), nodeFileSystem);
+    await analyze(cache, 'src/a.ts');
+    await analyze(cache, 'src/a.ts');
+    assert.deepStrictEqual(computed, ['src/a.ts']);
+
+    touch('src/a.ts', 'export const a = 1;');
+    await analyze(cache, 'src/a.ts');
+    assert.deepStrictEqual(computed, ['src/a.ts'], 'same content under a new mtime');
+
+    touch('src/a.ts', 'export const a = 10;');
+    assert.deepStrictEqual((await analyze(cache, 'src/a.ts')).imports, ['export const a = 10;']);
+    assert.deepStrictEqual(computed, ['src/a.ts', 'src/a.ts']);
+  });
+
+  test('persists entries in its storage folder', async () => {
+    const first = new AnalysisCache(storage(), nodeFileSystem);
+    await analyze(first, 'src/a.ts');
+    await first.save();
+    assert.ok(fs.existsSync(path.join(root, '.storage', 'analysis-cache.json')));
+
+    await analyze(new AnalysisCache(storage(), nodeFileSystem), 'src/a.ts');
+    assert.deepStrictEqual(computed, ['src/a.ts']);
+  });
+
+  test('drops every entry under a deleted directory', async () => {
+    const cache = new AnalysisCache(storage(), nodeFileSystem);
+    for (const file of ['src/a.ts', 'src/lib/b.ts', 'src/lib/c.ts']) await analyze(cache, file);
+    cache.delete(uri('src/lib'));
+    for (const file of ['src/a.ts', 'src/lib/b.ts', 'src/lib/c.ts']) await analyze(cache, file);
+    assert.deepStrictEqual(computed.slice(3), ['src/lib/b.ts', 'src/lib/c.ts']);
+  });
+
+  test('keeps only the listed files of a folder', async () => {
+    const cache = new AnalysisCache(storage(), nodeFileSystem);
+    for (const file of ['src/a.ts', 'src/lib/b.ts']) await analyze(cache, file);
+    cache.retainOnly([uri('src/lib/b.ts')], uri('src/lib'));
+    cache.retainOnly([uri('src/a.ts')], uri('src'));
+    for (const file of ['src/a.ts', 'src/lib/b.ts']) await analyze(cache, file);
+    assert.deepStrictEqual(computed.slice(2), ['src/lib/b.ts']);
+  });
+});
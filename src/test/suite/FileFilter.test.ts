@@ -0,0 +1,43 @@
+import * as assert from 'assert';
+import { FileFilter } from '../../services/FileFilter';
+
+suite('FileFilter', () => {
+  test('applies include and exclude globs', () => {
+    const filter = new FileFilter({ include: ['src/**'], exclude: ['**/*.test.ts'] });
+    assert.ok(filter.matches('src/app.ts'));
+    assert.ok(!filter.matches('lib/app.ts'));
+    assert.ok(!filter.matches('src/app.test.ts'));
+    assert.ok(!filter.matches('../outside.ts'));
+  });
+
+  test('excludes build output and dependencies by default', () => {
+    const filter = new FileFilter();
+    assert.ok(!filter.matches('node_modules/left-pad/index.js'));
+    assert.ok(!filter.matches('packages/a/dist/index.js'));
+    assert.ok(filter.matches('packages/a/src/index.ts'));
+  });
+
+  test('rebases the rules of a nested ignore file onto its directory', () => {
+    const filter = new FileFilter({
+      exclude: [],
+      ignoreFiles: { 'packages/a/.gitignore': 'generated/\n/local.ts\n*.log\n!keep.log\n# comment\n' }
+    });
+    // Unanchored patterns match at any depth below the ignore file's directory
+    assert.ok(!filter.matches('packages/a/src/generated/types.ts'));
+    assert.ok(!filter.matches('packages/a/deep/debug.log'));
+    assert.ok(filter.matches('packages/a/deep/keep.log'));
+    // Anchored patterns only match right in it
+    assert.ok(!filter.matches('packages/a/local.ts'));
+    assert.ok(filter.matches('packages/a/src/local.ts'));
+    // Nothing outside the directory is affected
+    assert.ok(filter.matches('packages/b/generated/types.ts'));
+    assert.ok(filter.matches('debug.log'));
+  });
+
+  test('treats root ignore files as written', () => {
+    const filter = new FileFilter({ exclude: [], ignoreFiles: { '.documindignore': 'scripts/\n' } });
+    assert.ok(!filter.matches('scripts/build.js'));
+    assert.ok(filter.excludesDirectory('scripts'));
+    assert.ok(!filter.excludesDirectory('src'));
+  });
+});
@@ -0,0 +1,83 @@
+import * as assert from 'assert';
+import { analyzeDirectory, loadProjectSettings } from '../../services/nodeWorkspace';
+import type { WorkspaceAnalysis } from '../../services/ProjectAnalyzer';
+import { removeProject, writeProject } from '../projectFixture';
+
+suite('ProjectAnalyzer', () => {
+  let root: string;
+
+  teardown(() => removeProject(root));
+
+  async function analyze(files: Record<string, string>): Promise<WorkspaceAnalysis> {
+    root = writeProject(files);
+    return analyzeDirectory(root, loadProjectSettings(root));
+  }
+
+  const names = (analysis: WorkspaceAnalysis) => analysis.missingDocs.map(item => `${item.type} ${item.name}`).sort();
+
+  test('counts a FastAPI route and its handler once', async () => {
+    const analysis = await analyze({
+      'app/main.py': [
+        'from fastapi import FastAPI',
+        'app = FastAPI()',
+        '',
+        '@app.get("/items/{item_id}")',
+        'def read_item(item_id: int):',
+        '    """Reads one item."""',
+        '    return {}',
+        '',
+        'def helper():',
+        '    return 1'
+      ].join('\n')
+    });
+    assert.deepStrictEqual(names(analysis), ['api GET /items/{item_id}', 'function helper']);
+    // The route (weight 3) is documented, the module function (weight 2) is not
+    assert.deepStrictEqual(analysis.coverageReport.overall, { coverage: 60, documented: 1, total: 2 });
+  });
+
+  test('counts NestJS routes and GraphQL resolvers once, documented by their methods', async () => {
+    const analysis = await analyze({
+      'src/users/users.controller.ts': [
+        "import { Controller, Get, Param } from '@nestjs/common';",
+        "@Controller('users')",
+        'export class UsersController {',
+        "  @Get(':id')",
+        "  findOne(@Param('id') id: string) { return id; }",
+        '}'
+      ].join('\n'),
+      'src/users/users.resolver.ts': [
+        "import { Query, Resolver } from '@nestjs/graphql';",
+        '@Resolver()',
+        'export class UsersResolver {',
+        '  /** Everyone. */',
+        '  @Query(() => [String])',
+        '  users() { return []; }',
+        '}'
+      ].join('\n')
+    });
+    assert.deepStrictEqual(names(analysis), [
+      'api GET /users/:id',
+      'api Query.users',
+      'class UsersController',
+      'class UsersResolver'
+    ]);
+    assert.strictEqual(analysis.missingDocs.find(item => item.name === 'Query.users')?.hasDocumentation, true);
+    const domain = analysis.projectStructure.domains.find(candidate => candidate.files.includes('src/users/users.controller.ts'));
+    assert.deepStrictEqual(domain?.functions.map(fn => fn.name), []);
+  });
+
+  test('counts an Express route with a named handler once', async () => {
+    const analysis = await analyze({
+      'src/routes/health.ts': [
+        "import { Router } from 'express';",
+        'const router = Router();',
+        '/** Reports liveness. */',
+        'function health(req, res) { res.json({ ok: true }); }',
+        "router.get('/health', health);",
+        'export default router;'
+      ].join('\n')
+    });
+    assert.deepStrictEqual(names(analysis), ['api GET /health']);
+    assert.strictEqual(analysis.missingDocs[0].hasDocumentation, true);
+  });
+});
@@ -0,0 +1,95 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { analyzeBranches } from '../../services/branchAnalysis';
+import type { CodeItem, ProjectDomain } from '../../services/ProjectAnalyzer';
+import { commitFiles, git, gitProject, removeProject, writeProject } from '../projectFixture';
+
+const at = (day: number, author: string) => ({ GIT_COMMITTER_DATE: `2030-01-0${day}T12:00:00Z`, GIT_AUTHOR_NAME: author });
+
+suite('branchAnalysis', () => {
+  let root: string;
+  let items: CodeItem[];
+  let domains: ProjectDomain[];
+
+  setup(() => {
+    root = gitProject({
+      'README.md': '# Shop\n\n## Orders\n`OrderService` takes orders.\n',
+      'CHANGELOG.md': '# Changelog\n',
+      'src/orders.ts': '/** Takes orders. */\nexport class OrderService {}\n',
+      'src/routes.ts': "router.get('/orders', list);\n"
+    });
+    const item = (type: CodeItem['type'], name: string, file: string, hasDocumentation: boolean): CodeItem => ({
+      type, name, filePath: path.join(root, file), lineNumber: 1, priority: 'medium', hasDocumentation, suggestedDocPath: '', exported: true
+    });
+    items = [
+      item('class', 'OrderService', 'src/orders.ts', true),
+      item('function', 'cancelOrder', 'src/orders.ts', false),
+      item('api', 'GET /orders', 'src/routes.ts', false)
+    ];
+    domains = [{ name: 'Orders', type: 'service', files: ['src/orders.ts'], endpoints: [], classes: [], functions: [], description: '', priority: 'high', coverage: 50 }];
+  });
+
+  teardown(() => removeProject(root));
+
+  test('describes each branch ahead of main like a pull request', async () => {
+    git(root, ['checkout', '-q', '-b', 'feature/cancel']);
+    commitFiles(root, { 'src/orders.ts': '/** Takes orders. */\nexport class OrderService {}\nexport function cancelOrder() {}\n' }, 'feat: cancel orders', at(1, 'Mara'));
+    commitFiles(root, { 'src/refunds.ts': 'export const refunds = [];\n' }, 'feat: track refunds', at(1, 'Mara'));
+    git(root, ['checkout', '-q', 'main']);
+    git(root, ['checkout', '-q', '-b', 'fix/routes']);
+    commitFiles(root, { 'src/routes.ts': "router.get('/orders', listAll);\n" }, 'fix: list every order', at(2, 'Tobi'));
+    git(root, ['checkout', '-q', 'main']);
+    git(root, ['branch', 'merged']);
+
+    const [routes, cancel, ...rest] = await analyzeBranches(root, items, domains);
+    assert.deepStrictEqual(rest, []);
+
+    assert.deepStrictEqual([routes.id, routes.title, routes.author, routes.branch, routes.baseBranch, routes.docImpact], [
+      'branch-fix-routes', 'fix: list every order', 'Tobi', 'fix/routes', 'main', 'high'
+    ]);
+    assert.deepStrictEqual(routes.suggestedActions, [
+      'Update API documentation for GET /orders (src/routes.ts)',
+      'Add doc comments to GET /orders in the changed files',
+      'Add a changelog entry'
+    ]);
+
+    assert.deepStrictEqual([cancel.title, cancel.description, cancel.commits, cancel.domains, cancel.docImpact], [
+      'feature/cancel',
+      '2 commit(s) ahead of main, 2 file(s) changed in Orders.',
+      ['feat: cancel orders', 'feat: track refunds'],
+      ['Orders'],
+      'high'
+    ]);
+    assert.deepStrictEqual(cancel.filesChanged, ['src/orders.ts', 'src/refunds.ts']);
+    assert.deepStrictEqual(cancel.suggestedActions, [
+      'Review README.md § Orders (line 3): describes src/orders.ts',
+      'Add doc comments to cancelOrder in the changed files',
+      'Document the new file src/refunds.ts',
+      'Add a changelog entry'
+    ]);
+  });
+
+  test('rates a branch that updates its docs lower', async () => {
+    git(root, ['checkout', '-q', '-b', 'docs/orders']);
+    commitFiles(root, {
+      'README.md': '# Shop\n\n## Orders\n`OrderService` takes and cancels orders.\n',
+      'CHANGELOG.md': '# Changelog\n\n- Orders can be cancelled\n',
+      'src/orders.ts': '/** Takes orders. */\nexport class OrderService { cancel() {} }\n'
+    }, 'feat: cancel orders', at(1, 'Mara'));
+    git(root, ['checkout', '-q', 'main']);
+
+    const [branch] = await analyzeBranches(root, items.filter(item => item.name !== 'cancelOrder'), domains);
+    assert.deepStrictEqual(branch.docsChanged, ['README.md']);
+    assert.deepStrictEqual(branch.suggestedActions, []);
+    assert.strictEqual(branch.docImpact, 'low');
+  });
+
+  test('finds nothing outside a git repository', async () => {
+    const plain = writeProject({ 'src/a.ts': 'export {};' });
+    try {
+      assert.deepStrictEqual(await analyzeBranches(plain, [], []), []);
+    } finally {
+      removeProject(plain);
+    }
+  });
+});
@@ -0,0 +1,103 @@
+import * as assert from 'assert';
+import { changelogEntries, ConventionalCommit, mergeChangelog, nextVersion, parseConventionalCommit, PendingRelease } from '../../services/changelog';
+
+function commit(subject: string, shortHash: string, body = ''): ConventionalCommit {
+  const parsed = parseConventionalCommit(subject, body)!;
+  return { hash: shortHash.padEnd(40, '0'), shortHash, author: 'Mara', date: '2026-10-01', subject, ...parsed };
+}
+
+function release(version: string, commits: ConventionalCommit[]): PendingRelease {
+  return { version, date: '2026-10-18', commits, unconventional: [], entries: changelogEntries(commits) };
+}
+
+suite('changelog', () => {
+  suite('parseConventionalCommit', () => {
+    test('reads type, scope and description', () => {
+      assert.deepStrictEqual(parseConventionalCommit('feat(users): add avatars'), {
+        type: 'feat', scope: 'users', description: 'add avatars', breaking: false, breakingNotes: []
+      });
+    });
+
+    test('marks breaking changes from `!` and from footers', () => {
+      assert.strictEqual(parseConventionalCommit('refactor!: drop v1 routes')?.breaking, true);
+      const footer = parseConventionalCommit('feat: new config', 'Body text.\n\nBREAKING CHANGE: `port` is now `server.port`\nRefs: #12');
+      assert.strictEqual(footer?.breaking, true);
+      assert.deepStrictEqual(footer?.breakingNotes, ['`port` is now `server.port`']);
+    });
+
+    test('rejects subjects without a type prefix', () => {
+      assert.strictEqual(parseConventionalCommit('Update stuff'), undefined);
+      assert.strictEqual(parseConventionalCommit('fix:no space'), undefined);
+    });
+  });
+
+  suite('nextVersion', () => {
+    test('bumps the matching part and resets the ones after it', () => {
+      assert.strictEqual(nextVersion('1.4.2', 'patch'), '1.4.3');
+      assert.strictEqual(nextVersion('1.4.2', 'minor'), '1.5.0');
+      assert.strictEqual(nextVersion('1.4.2', 'major'), '2.0.0');
+    });
+
+    test('keeps breaking changes on the minor version before 1.0.0', () => {
+      assert.strictEqual(nextVersion('0.3.1', 'major'), '0.4.0');
+    });
+
+    test('leaves versions it cannot read alone', () => {
+      assert.strictEqual(nextVersion('next', 'minor'), 'next');
+    });
+  });
+
+  suite('mergeChangelog', () => {
+    test('starts a Keep a Changelog file when there is none', () => {
+      const merged = mergeChangelog(undefined, release('1.0.0', [commit('feat: add export', 'aaa1111'), commit('fix: handle empty list', 'bbb2222')]));
+      assert.ok(merged.startsWith('# Changelog\n'));
+      assert.ok(merged.includes('## [1.0.0] - 2026-10-18\n\n### Added\n- add export (aaa1111)\n\n### Fixed\n- handle empty list (bbb2222)\n'));
+    });
+
+    test('moves Unreleased entries into the release and keeps older releases and links', () => {
+      const existing = [
+        '# Changelog',
+        '',
+        '## [Unreleased]',
+        '',
+        '### Fixed',
+        '- Hand-written fix',
+        '',
+        '## [0.9.0] - 2026-09-01',
+        '',
+        '### Added',
+        '- First release',
+        '',
+        '[0.9.0]: https://example.com/v0.9.0',
+        ''
+      ].join('\n');
+      const merged = mergeChangelog(existing, release('0.10.0', [commit('feat(api): add search', 'ccc3333')]));
+      assert.strictEqual(merged, [
+        '# Changelog',
+        '',
+        '## [Unreleased]',
+        '',
+        '## [0.10.0] - 2026-10-18',
+        '',
+        '### Added',
+        '- **api:** add search (ccc3333)',
+        '',
+        '### Fixed',
+        '- Hand-written fix',
+        '',
+        '## [0.9.0] - 2026-09-01',
+        '',
+        '### Added',
+        '- First release',
+        '',
+        '[0.9.0]: https://example.com/v0.9.0',
+        ''
+      ].join('\n'));
+    });
+
+    test('skips commits the file already mentions', () => {
+      const once = mergeChangelog(undefined, release('1.1.0', [commit('feat: add export', 'aaa1111')]));
+      assert.strictEqual(mergeChangelog(once, release('1.1.0', [commit('feat: add export', 'aaa1111')])), once);
+    });
+  });
+});
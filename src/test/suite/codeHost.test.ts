@@ -0,0 +1,87 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { createCodeHost, parseRemote } from '../../services/codeHosts/codeHost';
+import { CodeHostError } from '../../services/codeHosts/http';
+import { loadFixtures, MockCodeHost, startMockCodeHost } from '../mockCodeHost';
+
+const FIXTURES = path.resolve(__dirname, '../../../src/test/fixtures/codeHosts');
+
+suite('codeHost', () => {
+  suite('parseRemote', () => {
+    test('reads SSH and HTTPS remotes', () => {
+      assert.deepStrictEqual(parseRemote('git@github.com:acme/shop.git'), {
+        kind: 'github', host: 'github.com', owner: 'acme', repo: 'shop', apiUrl: 'https://api.github.com'
+      });
+      assert.deepStrictEqual(parseRemote('https://gitlab.example.com/acme/tools/shop'), {
+        kind: 'gitlab', host: 'gitlab.example.com', owner: 'acme/tools', repo: 'shop', apiUrl: 'https://gitlab.example.com/api/v4'
+      });
+      assert.strictEqual(parseRemote('ssh://git@codeberg.org:2222/acme/shop.git')?.apiUrl, 'https://codeberg.org/api/v1');
+    });
+
+    test('needs the kind for hosts it does not recognize', () => {
+      assert.strictEqual(parseRemote('git@git.acme.dev:acme/shop.git'), undefined);
+      assert.strictEqual(parseRemote('git@git.acme.dev:acme/shop.git', 'gitea')?.apiUrl, 'https://git.acme.dev/api/v1');
+      assert.strictEqual(parseRemote('https://github.com/acme'), undefined);
+    });
+
+    test('takes an explicit API URL, but only an http(s) one', () => {
+      assert.strictEqual(parseRemote('git@github.com:acme/shop.git', 'auto', 'http://127.0.0.1:8787/')?.apiUrl, 'http://127.0.0.1:8787');
+      assert.strictEqual(parseRemote('git@github.com:acme/shop.git', 'auto', 'file:///etc/passwd'), undefined);
+      assert.strictEqual(parseRemote('git@github.com:acme/shop.git', 'auto', 'not a url'), undefined);
+    });
+  });
+
+  suite('providers', () => {
+    let server: MockCodeHost | undefined;
+
+    teardown(async () => {
+      await server?.close();
+      server = undefined;
+    });
+
+    async function hostFor(fixture: string, remoteUrl: string, token?: string) {
+      server = await startMockCodeHost(loadFixtures(path.join(FIXTURES, `${fixture}.json`)));
+      const remote = parseRemote(remoteUrl, 'auto', server.url);
+      assert.ok(remote);
+      return createCodeHost(remote, token);
+    }
+
+    test('lists GitHub pull requests with their changed files', async () => {
+      const host = await hostFor('github', 'git@github.com:acme/shop.git', 'secret');
+      const pulls = await host.listOpenPullRequests();
+      assert.deepStrictEqual(pulls.map(pull => [pull.number, pull.author, pull.branch, pull.baseBranch]), [
+        [42, 'mara', 'feature/cancel-orders', 'main'],
+        [39, 'tobi', 'chore/utils', 'main']
+      ]);
+      assert.deepStrictEqual(pulls[0].changes.map(change => `${change.status} ${change.file}`), [
+        'modified src/routes/orders.ts',
+        'modified src/services/payments.ts',
+        'added test/orders.test.ts'
+      ]);
+      assert.ok(server?.received.every(request => request.headers.authorization === 'Bearer secret'));
+    });
+
+    test('lists GitLab merge requests and Gitea pull requests', async () => {
+      const gitlab = await hostFor('gitlab', 'git@gitlab.com:acme/shop.git');
+      assert.deepStrictEqual((await gitlab.listOpenPullRequests()).map(pull => pull.number), [17]);
+      await server?.close();
+      const gitea = await hostFor('gitea', 'git@codeberg.org:acme/shop.git');
+      const pulls = await gitea.listOpenPullRequests();
+      assert.deepStrictEqual(pulls.map(pull => pull.number), [8]);
+      assert.strictEqual(pulls[0].changes.length, 2);
+    });
+
+    test('posts review comments', async () => {
+      const host = await hostFor('github', 'git@github.com:acme/shop.git', 'secret');
+      await host.postReviewComment(42, 'Update the API docs');
+      const posted = server?.received.find(request => request.method === 'POST');
+      assert.strictEqual(posted?.path, '/repos/acme/shop/pulls/42/reviews');
+      assert.deepStrictEqual(posted?.body, { body: 'Update the API docs', event: 'COMMENT' });
+    });
+
+    test('reports failed requests with their status', async () => {
+      const host = await hostFor('github', 'git@github.com:acme/other.git');
+      await assert.rejects(host.listOpenPullRequests(), (error: unknown) => error instanceof CodeHostError && error.status === 404);
+    });
+  });
+});
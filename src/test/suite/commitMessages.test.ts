@@ -0,0 +1,74 @@
+import * as assert from 'assert';
+import type { AIPrompt, AIService } from '../../services/AIService';
+import { suggestCommitMessage } from '../../services/commitMessages';
+import type { ProjectDomain } from '../../services/ProjectAnalyzer';
+import { git, gitProject, removeProject, writeFiles } from '../projectFixture';
+
+function domain(name: string, files: string[]): ProjectDomain {
+  return { name, type: 'service', files, endpoints: [], classes: [], functions: [], description: '', priority: 'medium', coverage: 0 };
+}
+
+/** A provider that answers every prompt with `reply`, recording the prompts. */
+function replying(reply: string, prompts: AIPrompt[] = [], provider = 'openai'): AIService {
+  return {
+    getProvider: () => provider,
+    generateResponse: async (prompt: AIPrompt) => {
+      prompts.push(prompt);
+      return { content: reply, provider };
+    }
+  } as unknown as AIService;
+}
+
+suite('commitMessages', () => {
+  let root: string;
+
+  setup(() => {
+    root = gitProject({ 'src/orders/cancel.ts': 'export const cancel = 1;\n', 'README.md': '# Shop\n' });
+  });
+
+  teardown(() => removeProject(root));
+
+  function stage(files: Record<string, string>) {
+    writeFiles(root, files);
+    git(root, ['add', '-A']);
+  }
+
+  const ORDERS = [domain('Order Handling', ['src/orders/cancel.ts', 'src/orders/refund.ts'])];
+
+  test('derives type and scope from the staged files', async () => {
+    stage({ 'src/orders/refund.ts': 'export const refund = 1;\n' });
+    const suggestion = await suggestCommitMessage(root, ORDERS);
+    assert.strictEqual(suggestion.message, 'feat(order-handling): add refund');
+    assert.strictEqual(suggestion.source, 'heuristic');
+    assert.deepStrictEqual(suggestion.files, [{ status: 'added', file: 'src/orders/refund.ts' }]);
+
+    git(root, ['commit', '-q', '-m', 'feat: refund']);
+    stage({ 'README.md': '# Shop\n\nOrders.\n', 'docs/orders.md': '# Orders\n' });
+    assert.strictEqual((await suggestCommitMessage(root, ORDERS)).message, 'docs: update README and orders');
+  });
+
+  test('leaves the scope out when no domain holds half of the files', async () => {
+    stage({ 'src/orders/cancel.ts': 'export const cancel = 2;\n', 'src/util/a.ts': 'export {};\n', 'src/util/b.ts': 'export {};\n' });
+    assert.strictEqual((await suggestCommitMessage(root, ORDERS)).message, 'feat: update cancel, a and 1 more');
+  });
+
+  test('takes the first Conventional Commit subject of the provider reply', async () => {
+    stage({ 'src/orders/cancel.ts': 'export const cancel = 2;\n' });
+    const prompts: AIPrompt[] = [];
+    const suggestion = await suggestCommitMessage(root, ORDERS, replying('Here you go:\n1. "fix(order-handling): keep cancelled orders."', prompts));
+    assert.deepStrictEqual([suggestion.message, suggestion.type, suggestion.scope, suggestion.source],
+      ['fix(order-handling): keep cancelled orders', 'fix', 'order-handling', 'ai']);
+    assert.ok(prompts[0].query.includes('modified src/orders/cancel.ts'));
+    assert.ok(prompts[0].query.includes('-export const cancel = 1;'));
+  });
+
+  test('falls back to the staged files when the reply has no subject', async () => {
+    stage({ 'src/orders/cancel.ts': 'export const cancel = 2;\n' });
+    const suggestion = await suggestCommitMessage(root, ORDERS, replying('I changed some code.'));
+    assert.deepStrictEqual([suggestion.message, suggestion.source], ['refactor(order-handling): update cancel', 'heuristic']);
+  });
+
+  test('refuses when nothing is staged', async () => {
+    await assert.rejects(suggestCommitMessage(root, ORDERS), /Nothing is staged/);
+  });
+});
@@ -0,0 +1,88 @@
+import * as assert from 'assert';
+import { analyzeDirectory } from '../../services/nodeWorkspace';
+import type { ProjectStructure } from '../../services/ProjectAnalyzer';
+import { removeProject, writeProject } from '../projectFixture';
+
+suite('dependencyGraph', () => {
+  let root: string;
+
+  teardown(() => removeProject(root));
+
+  async function structureOf(files: Record<string, string>): Promise<ProjectStructure> {
+    root = writeProject(files);
+    return (await analyzeDirectory(root)).projectStructure;
+  }
+
+  test('resolves script imports and stacks the modules in layers', async () => {
+    const structure = await structureOf({
+      'package.json': JSON.stringify({ name: 'shop' }),
+      'src/index.ts': "import { router } from './routes/users';\nrouter.listen();",
+      'src/routes/users.ts': "import { findUser } from '../services/users.js';\nexport const router = { listen() { findUser(); } };",
+      'src/services/users.ts': "import { query } from '../data';\nexport function findUser() { return query(); }",
+      'src/data/index.ts': "import * as fs from 'fs';\nexport function query() { return fs.readFileSync('db'); }",
+      'src/data/users.test.ts': "import { query } from './index';"
+    });
+    const graph = structure.dependencyGraph;
+    assert.deepStrictEqual(graph.files, {
+      'src/data/index.ts': [],
+      'src/index.ts': ['src/routes/users.ts'],
+      'src/routes/users.ts': ['src/services/users.ts'],
+      'src/services/users.ts': ['src/data/index.ts']
+    });
+    assert.deepStrictEqual(graph.modules.map(module => `${module.name}:${module.layer}`), ['src:3', 'src/data:0', 'src/routes:2', 'src/services:1']);
+    assert.deepStrictEqual(graph.entryPoints, ['src/index.ts']);
+    assert.deepStrictEqual(graph.cycles, []);
+    assert.strictEqual(structure.architecture, 'Layered Architecture');
+  });
+
+  test('groups modules that import each other into a cycle on one layer', async () => {
+    const graph = (await structureOf({
+      'src/a/one.ts': "import { two } from '../b/two';\nexport const one = () => two();",
+      'src/b/two.ts': "import { one } from '../a/one';\nimport { util } from '../c/util';\nexport const two = () => one() + util;",
+      'src/c/util.ts': 'export const util = 1;'
+    })).dependencyGraph;
+    assert.deepStrictEqual(graph.cycles, [['src/a', 'src/b']]);
+    assert.deepStrictEqual(graph.modules.map(module => `${module.name}:${module.layer}`), ['src/a:1', 'src/b:1', 'src/c:0']);
+  });
+
+  test('resolves Python, Go and Rust imports', async () => {
+    const graph = (await structureOf({
+      'app/main.py': 'from app.services import users\nfrom .models import User',
+      'app/models.py': 'class User: pass',
+      'app/services/users.py': 'from ..models import User',
+      'go.mod': 'module example.com/shop\n\ngo 1.22',
+      'cmd/server/main.go': 'package main\n\nimport (\n\t"fmt"\n\t"example.com/shop/internal/store"\n)\n',
+      'internal/store/store.go': 'package store',
+      'internal/store/cache.go': 'package store',
+      'crate/Cargo.toml': '[package]\nname = "shop"',
+      'crate/src/main.rs': 'mod db;\nuse crate::db::pool::connect;',
+      'crate/src/db/pool.rs': 'pub fn connect() {}'
+    })).dependencyGraph;
+    assert.deepStrictEqual(graph.files['app/main.py'], ['app/models.py', 'app/services/users.py']);
+    assert.deepStrictEqual(graph.files['app/services/users.py'], ['app/models.py']);
+    assert.deepStrictEqual(graph.files['cmd/server/main.go'], ['internal/store/cache.go', 'internal/store/store.go']);
+    assert.deepStrictEqual(graph.files['crate/src/main.rs'], ['crate/src/db/pool.rs']);
+    assert.deepStrictEqual(graph.entryPoints, ['app/main.py', 'cmd/server/main.go', 'crate/src/main.rs']);
+    assert.deepStrictEqual(graph.packages.map(pkg => `${pkg.root} ${pkg.manifest}`), ['crate crate/Cargo.toml', '. go.mod']);
+  });
+
+  test('names MVC and microservice layouts', async () => {
+    assert.strictEqual((await structureOf({
+      'app/controllers/users.js': "const User = require('../models/user');\nmodule.exports = () => User;",
+      'app/models/user.js': 'module.exports = class User {};'
+    })).architecture, 'MVC');
+    removeProject(root);
+
+    const services = await structureOf({
+      'orders/package.json': JSON.stringify({ name: 'orders' }),
+      'orders/server.ts': 'export const port = 1;',
+      'billing/package.json': JSON.stringify({ name: 'billing' }),
+      'billing/main.py': 'print(1)'
+    });
+    assert.strictEqual(services.architecture, 'Microservices');
+    assert.deepStrictEqual(services.dependencyGraph.packages.map(pkg => [pkg.root, pkg.modules, pkg.dependsOn]), [
+      ['billing', ['billing'], []],
+      ['orders', ['orders'], []]
+    ]);
+  });
+});
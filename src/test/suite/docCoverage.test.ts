@@ -0,0 +1,91 @@
+import * as assert from 'assert';
+import { computeCoverage, symbolWeight } from '../../services/docCoverage';
+import { CodeItem, ProjectAnalyzer } from '../../services/ProjectAnalyzer';
+
+function item(overrides: Partial<CodeItem>): CodeItem {
+  return {
+    type: 'function',
+    name: 'run',
+    filePath: 'src/run.ts',
+    lineNumber: 1,
+    priority: 'medium',
+    hasDocumentation: false,
+    suggestedDocPath: 'docs/API.md',
+    ...overrides
+  };
+}
+
+suite('docCoverage', () => {
+  test('weighs public, high-priority symbols above private and internal ones', () => {
+    assert.strictEqual(symbolWeight({ priority: 'high', visibility: 'public', exported: true }), 3);
+    assert.strictEqual(symbolWeight({ priority: 'high', visibility: 'private', exported: true }), 0.75);
+    assert.strictEqual(symbolWeight({ priority: 'medium', visibility: 'protected', exported: true }), 1);
+    assert.strictEqual(symbolWeight({ priority: 'low', visibility: 'public', exported: false }), 0.5);
+    // Extractors that cannot tell exports apart leave `exported` unset
+    assert.strictEqual(symbolWeight({ priority: 'low', visibility: undefined, exported: undefined }), 1);
+  });
+
+  test('prioritizes symbols by their place in the code, not their names', () => {
+    const text = [
+      'export function mainDomain() {}',
+      'function coreScore() {}',
+      'export class UserAuth {',
+      '  private authorize() {}',
+      '  run() {}',
+      '}'
+    ].join('\n');
+    const priorities = Object.fromEntries(new ProjectAnalyzer().analyzeFile('/project/src/domain.ts', Buffer.from(text)).items
+      .map(found => [found.name, found.priority]));
+    assert.deepStrictEqual(priorities, {
+      mainDomain: 'medium',
+      coreScore: 'low',
+      UserAuth: 'medium',
+      'UserAuth.authorize': 'low',
+      'UserAuth.run': 'medium'
+    });
+  });
+
+  test('computes weighted coverage rather than a plain count', () => {
+    const report = computeCoverage([
+      item({ name: 'a', priority: 'high', exported: true, hasDocumentation: true }),
+      item({ name: 'b', priority: 'low', exported: false }),
+      item({ name: 'c', priority: 'low', exported: false })
+    ], { relativePath: i => i.filePath });
+
+    // 3 of 3 + 0.5 + 0.5 weight documented
+    assert.deepStrictEqual(report.overall, { coverage: 75, documented: 1, total: 3 });
+  });
+
+  test('breaks coverage down by directory and domain', () => {
+    const report = computeCoverage([
+      item({ filePath: 'src/users/service.ts', hasDocumentation: true }),
+      item({ filePath: 'src/users/routes.ts' }),
+      item({ filePath: 'index.ts', hasDocumentation: true })
+    ], {
+      relativePath: i => i.filePath,
+      domainOf: relativePath => relativePath.startsWith('src/users/') ? 'Users' : 'Core'
+    });
+
+    assert.deepStrictEqual(Object.keys(report.byDirectory), ['.', 'src/users']);
+    assert.strictEqual(report.byDirectory['src/users'].coverage, 50);
+    assert.strictEqual(report.byDirectory['.'].coverage, 100);
+    assert.deepStrictEqual(report.byDomain.Users, { coverage: 50, documented: 1, total: 2 });
+    assert.deepStrictEqual(report.byDomain.Core, { coverage: 100, documented: 1, total: 1 });
+  });
+
+  test('reports config items on their own', () => {
+    const report = computeCoverage([
+      item({ name: 'a', hasDocumentation: false }),
+      item({ type: 'config', name: 'DATABASE_URL', priority: 'medium', hasDocumentation: true }),
+      item({ type: 'config', name: 'npm run build', priority: 'low' })
+    ], { relativePath: i => i.filePath });
+
+    assert.deepStrictEqual(report.overall, { coverage: 0, documented: 0, total: 1 });
+    assert.deepStrictEqual(report.byDirectory.src, { coverage: 0, documented: 0, total: 1 });
+    assert.deepStrictEqual(report.configs, { coverage: 50, documented: 1, total: 2 });
+  });
+
+  test('reports zero coverage when there is nothing to document', () => {
+    assert.deepStrictEqual(computeCoverage([], { relativePath: i => i.filePath }).overall, { coverage: 0, documented: 0, total: 0 });
+  });
+});
@@ -0,0 +1,90 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { findDocDrift, findDocSections } from '../../services/docDrift';
+import type { CodeItem } from '../../services/ProjectAnalyzer';
+import { commitFiles, gitProject, removeProject, writeFiles, writeProject } from '../projectFixture';
+
+const GUIDE = [
+  '# Users',
+  'How accounts work.',
+  '',
+  '## Service',
+  '`UserService.create()` stores a user.',
+  '',
+  '## Setup',
+  'Edit [the config](../src/config.ts) first.',
+  '',
+  '## Support',
+  'Ask in the forum.'
+].join('\n');
+
+// Blame orders edits by committer time, which has a resolution of seconds
+const at = (day: number, env: Record<string, string> = {}) => ({ GIT_COMMITTER_DATE: `2030-01-0${day}T12:00:00Z`, ...env });
+const lines = (count: number, prefix: string) => Array.from({ length: count }, (_, i) => `export const ${prefix}${i} = ${i};`).join('\n');
+
+suite('docDrift', () => {
+  let root: string;
+  let items: CodeItem[];
+
+  setup(() => {
+    root = gitProject({
+      'docs/users.md': GUIDE,
+      'src/users.ts': 'export class UserService { create() {} }\n',
+      'src/config.ts': 'export const port = 1;\n'
+    });
+    items = [{
+      type: 'class',
+      name: 'UserService',
+      filePath: path.join(root, 'src/users.ts'),
+      lineNumber: 1,
+      priority: 'medium',
+      hasDocumentation: false,
+      suggestedDocPath: 'docs/users.md'
+    }];
+  });
+
+  teardown(() => removeProject(root));
+
+  test('maps sections to the files they link to and the symbols they name', async () => {
+    assert.deepStrictEqual(await findDocSections(root, items), [
+      { doc: 'docs/users.md', section: 'Service', line: 4, files: ['src/users.ts'] },
+      { doc: 'docs/users.md', section: 'Setup', line: 7, files: ['src/config.ts'] }
+    ]);
+  });
+
+  test('reports sections whose code changed significantly since they were edited', async () => {
+    commitFiles(root, { 'src/users.ts': `export class UserService { create() {} }\n${lines(30, 'limit')}\n` }, 'feat: add user limits', at(1, { GIT_AUTHOR_NAME: 'Mara' }));
+    commitFiles(root, { 'src/config.ts': 'export const port = 2;\n' }, 'chore: change port', at(2));
+
+    const [drift, ...rest] = await findDocDrift(root, items);
+    assert.deepStrictEqual(rest, []);
+    assert.deepStrictEqual([drift.doc, drift.section, drift.line, drift.files, drift.linesChanged], ['docs/users.md', 'Service', 4, ['src/users.ts'], 30]);
+    assert.deepStrictEqual(drift.commits.map(commit => [commit.author, commit.subject, commit.files, commit.added, commit.deleted]), [
+      ['Mara', 'feat: add user limits', ['src/users.ts'], 30, 0]
+    ]);
+
+    const small = await findDocDrift(root, items, { minChangedLines: 1 });
+    assert.deepStrictEqual(small.map(entry => `${entry.section} ${entry.linesChanged}`), ['Service 30', 'Setup 2']);
+  });
+
+  test('forgets drift once the section is edited, and skips sections being edited', async () => {
+    commitFiles(root, { 'src/users.ts': lines(30, 'limit') }, 'feat: add user limits', at(1));
+    commitFiles(root, { 'docs/users.md': GUIDE.replace('stores a user.', 'stores a user, up to a limit.') }, 'docs: describe limits', at(2));
+    assert.deepStrictEqual(await findDocDrift(root, items), []);
+
+    commitFiles(root, { 'src/users.ts': lines(30, 'quota') }, 'refactor: rename limits', at(3));
+    assert.strictEqual((await findDocDrift(root, items)).length, 1);
+    writeFiles(root, { 'docs/users.md': GUIDE.replace('stores a user.', 'stores a user, up to a quota.') });
+    assert.deepStrictEqual(await findDocDrift(root, items), []);
+  });
+
+  test('finds nothing outside a git repository', async () => {
+    const plain = writeProject({ 'README.md': '`src/a.ts`', 'src/a.ts': 'export {};' });
+    try {
+      assert.deepStrictEqual(await findDocDrift(plain, []), []);
+      assert.deepStrictEqual(await findDocSections(plain, []), []);
+    } finally {
+      removeProject(plain);
+    }
+  });
+});
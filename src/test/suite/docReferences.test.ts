@@ -0,0 +1,78 @@
+import * as assert from 'assert';
+import { isMaintainedDoc } from '../../services/docReferences';
+import { analyzeDirectory } from '../../services/nodeWorkspace';
+import { removeProject, writeProject } from '../projectFixture';
+
+const PROJECT = {
+  'package.json': JSON.stringify({ name: 'shop', scripts: { build: 'tsc' }, dependencies: { express: '^4.18.0' } }),
+  'Makefile': 'build:\n\tnpm run build\n',
+  'web/package.json': JSON.stringify({ name: 'web', scripts: { dev: 'vite' } }),
+  'src/index.ts': [
+    "import { Router } from 'express';",
+    'const router = Router();',
+    'export function createUser() { return 1; }',
+    "router.get('/api/users', (req, res) => res.json([]));"
+  ].join('\n'),
+  'CHANGELOG.md': '# Changelog\n\n- Removed `deleteUser()`\n'
+};
+
+suite('docReferences', () => {
+  let root: string;
+
+  teardown(() => removeProject(root));
+
+  /** `line: reason` of the stale references found in `doc`. */
+  async function staleIn(doc: string): Promise<string[]> {
+    root = writeProject({ ...PROJECT, 'README.md': doc });
+    const tasks = (await analyzeDirectory(root)).docTasks.filter(task => task.location);
+    assert.ok(tasks.every(task => task.location?.file === 'README.md' && task.type === 'outdated'));
+    return tasks.map(task => task.description.replace(/^README\.md:/, ''));
+  }
+
+  test('reports identifiers, files and links that no longer exist', async () => {
+    assert.deepStrictEqual(await staleIn([
+      'Call `createUser()` or `deleteUser()` from `src/index.ts`.',
+      'The old entry was `src/server.ts`; build output lands in `dist/index.js`.',
+      'See [the guide](docs/guide.md), [the index](src/index.ts) and [the site](https://example.com).',
+      '```ts',
+      'const user = makeUser();',
+      '```'
+    ].join('\n')), [
+      '1: `deleteUser` is not defined anywhere in the code',
+      '2: `src/server.ts` does not exist',
+      '3: links to `docs/guide.md`, which does not exist'
+    ]);
+  });
+
+  test('reports package scripts and make targets that are gone', async () => {
+    assert.deepStrictEqual(await staleIn([
+      '```bash',
+      'npm install',
+      'npm run build && npm run lint',
+      'make deploy',
+      'cd web && npm run dev',
+      'npm run build',
+      '```',
+      'Or run `yarn test`.'
+    ].join('\n')), [
+      '3: `npm run lint`: package.json has no `lint` script',
+      '4: `make deploy`: the Makefile has no `deploy` target',
+      '6: `npm run build`: package.json has no `build` script',
+      '8: `yarn test`: package.json has no `test` script'
+    ]);
+  });
+
+  test('reports routes the code does not serve', async () => {
+    assert.deepStrictEqual(await staleIn('`GET /users` lists users; `DELETE /api/users/:id` removes one.'), [
+      '1: `DELETE /api/users/:id` matches no route in the code'
+    ]);
+  });
+
+  test('checks current docs, not release history', () => {
+    assert.strictEqual(isMaintainedDoc('README.md'), true);
+    assert.strictEqual(isMaintainedDoc('docs/guide.mdx'), true);
+    assert.strictEqual(isMaintainedDoc('CHANGELOG.md'), false);
+    assert.strictEqual(isMaintainedDoc('docs/RELEASE_NOTES.md'), false);
+    assert.strictEqual(isMaintainedDoc('notes.txt'), false);
+  });
+});
@@ -0,0 +1,104 @@
+import * as assert from 'assert';
+import { formatArchitectureDiagrams } from '../../services/architectureDocs';
+import { planDocRefresh, replaceSection } from '../../services/docSections';
+import { CodeItem, emptyAnalysis, ProjectDomain, ProjectStructure } from '../../services/ProjectAnalyzer';
+
+function item(type: CodeItem['type'], name: string, filePath: string, signature = name): CodeItem {
+  return { type, name, filePath, signature, lineNumber: 1, priority: 'medium', hasDocumentation: false, suggestedDocPath: 'docs/API.md' };
+}
+
+function domain(name: string, overrides: Partial<ProjectDomain>): ProjectDomain {
+  return {
+    name,
+    type: 'service',
+    files: [],
+    endpoints: [],
+    classes: [],
+    functions: [],
+    description: `${name} description`,
+    priority: 'medium',
+    coverage: 0,
+    ...overrides
+  };
+}
+
+const users = domain('Users', {
+  files: ['src/users/service.ts'],
+  classes: [item('class', 'UserService', 'src/users/service.ts', 'class UserService')],
+  endpoints: [item('api', 'GET /users', 'src/users/service.ts', "router.get('/users', list)")]
+});
+const billing = domain('Billing', {
+  files: ['src/billing/charge.ts'],
+  functions: [item('function', 'charge', 'src/billing/charge.ts', 'function charge()')]
+});
+
+function structure(domains: ProjectDomain[]): ProjectStructure {
+  return { ...emptyAnalysis().projectStructure, domains };
+}
+
+function reader(docs: Record<string, string>) {
+  return async (relativePath: string) => docs[relativePath];
+}
+
+suite('docSections', () => {
+  test('replaceSection stops at the next heading outside code fences', () => {
+    const document = '# Doc\n\n## Classes\n\n```ts\n## not a heading\n```\n\n## Usage\n\nkept\n';
+    assert.strictEqual(replaceSection(document, 'Classes', '## Classes\n\nnew\n\n'), '# Doc\n\n## Classes\n\nnew\n\n## Usage\n\nkept\n');
+    assert.strictEqual(replaceSection(document, 'Missing', ''), undefined);
+  });
+
+  test('regenerates the generated sections of the saved file\'s domain doc only', async () => {
+    const docs = {
+      'docs/USERS.md': '# USERS\n\nIntro\n\n## Classes\n\n### OldService\n\n## Usage Examples\n\nhand-written\n\n## Files\n\n- `old.ts`\n',
+      'docs/BILLING.md': '# BILLING\n\n## Functions\n\n### stale\n'
+    };
+    const plan = await planDocRefresh(structure([users, billing]), ['src/users/service.ts'], 'docs', reader(docs));
+
+    assert.deepStrictEqual(plan.refreshes.map(refresh => [refresh.doc, refresh.sections]), [['docs/USERS.md', ['Classes', 'Files']]]);
+    const updated = plan.refreshes[0].updated;
+    assert.ok(updated.includes('### UserService'));
+    assert.ok(!updated.includes('OldService'));
+    assert.ok(updated.includes('## Usage Examples\n\nhand-written'));
+    assert.ok(updated.includes('- `src/users/service.ts`'));
+  });
+
+  test('also refreshes docs that mention a symbol of the saved file', async () => {
+    const docs = { 'docs/BILLING.md': '# BILLING\n\nCharges through UserService.\n\n## Functions\n\n### stale\n' };
+    const plan = await planDocRefresh(structure([users, billing]), ['src/users/service.ts'], 'docs', reader(docs));
+    assert.deepStrictEqual(plan.refreshes.map(refresh => refresh.doc), ['docs/BILLING.md']);
+  });
+
+  test('leaves hand-written docs and fixed API.md sections alone', async () => {
+    const docs = {
+      'docs/USERS.md': '# Users guide\n\n## Classes\n\nhand-written\n',
+      'docs/API.md': '# API Documentation\n\n## Users\n\nNot the domain description\n\n## Authentication\n\nToken\n'
+    };
+    const plan = await planDocRefresh(structure([users]), ['src/users/service.ts'], 'docs', reader(docs));
+    assert.deepStrictEqual(plan.refreshes, []);
+  });
+
+  test('regenerates the domain section of API.md', async () => {
+    const docs = { 'API.md': '# API Documentation\n\n## Users\n\nUsers description\n\nold\n\n---\n\n## Error Handling\n\nkept\n' };
+    const plan = await planDocRefresh(structure([users]), ['src/users/service.ts'], '', reader(docs));
+    assert.strictEqual(plan.refreshes.length, 1);
+    assert.ok(plan.refreshes[0].updated.includes('#### GET /users'));
+    assert.ok(plan.refreshes[0].updated.endsWith('## Error Handling\n\nkept\n'));
+  });
+
+  test('skips ARCHITECTURE.md when the diagrams come out the same', async () => {
+    const current = structure([users]);
+    const architecture = `# Architecture\n\n${formatArchitectureDiagrams(current)}## Decisions\n`;
+    const plan = await planDocRefresh(current, ['src/users/service.ts'], 'docs', reader({ 'docs/ARCHITECTURE.md': architecture }));
+    assert.deepStrictEqual(plan.refreshes, []);
+  });
+
+  test('caps the docs changed per save and names the rest', async () => {
+    const docs = {
+      'docs/USERS.md': '# USERS\n\n## Files\n\n- `old.ts`\n',
+      'docs/BILLING.md': '# BILLING\n\nSee UserService.\n\n## Files\n\n- `old.ts`\n'
+    };
+    const plan = await planDocRefresh(structure([users, billing]), ['src/users/service.ts'], 'docs', reader(docs), 1);
+    assert.deepStrictEqual(plan.refreshes.map(refresh => refresh.doc), ['docs/USERS.md']);
+    assert.deepStrictEqual(plan.skipped, ['docs/BILLING.md']);
+  });
+});
@@ -0,0 +1,70 @@
+import * as assert from 'assert';
+import { extractGoSymbols } from '../../services/extractors/goExtractor';
+
+const USERS = [
+  'package users',
+  '',
+  '// Service finds users.',
+  'type Service struct {',
+  '\trepo *Repo',
+  '}',
+  '',
+  'type (',
+  '\t// ID identifies a user.',
+  '\tID int64',
+  '\tstore interface{ Get(id ID) (*User, error) }',
+  ')',
+  '',
+  '// Find returns the user with the given id.',
+  'func (s *Service) Find(ctx context.Context, id ID) (*User, error) {',
+  '\treturn s.repo.Get(ctx, id)',
+  '}',
+  '',
+  'func newService(a, b string, repo *Repo) *Service {',
+  '\tsample := `func fake() {`',
+  '\treturn &Service{repo: repo}',
+  '}',
+  '',
+  'func (s *service) Hidden() {}'
+].join('\n');
+
+suite('goExtractor', () => {
+  const symbols = extractGoSymbols(USERS, 'users.go');
+  const find = (name: string) => {
+    const found = symbols.find(symbol => symbol.name === name);
+    assert.ok(found, `${name} was not extracted`);
+    return found;
+  };
+
+  test('extracts types, grouped types, funcs and methods', () => {
+    assert.deepStrictEqual(symbols.map(symbol => `${symbol.kind} ${symbol.name}`), [
+      'class Service',
+      'type ID',
+      'interface store',
+      'method Service.Find',
+      'function newService',
+      'method service.Hidden'
+    ]);
+  });
+
+  test('exports capitalized names of capitalized receivers', () => {
+    assert.deepStrictEqual(symbols.filter(symbol => symbol.exported).map(symbol => symbol.name), ['Service', 'ID', 'Service.Find']);
+  });
+
+  test('reads the comment block above as documentation', () => {
+    assert.strictEqual(find('Service').documentation, 'Service finds users.');
+    assert.strictEqual(find('ID').documentation, 'ID identifies a user.');
+    assert.strictEqual(find('newService').hasDocumentation, false);
+  });
+
+  test('reads shared parameter types, results and calls', () => {
+    assert.deepStrictEqual(find('newService').parameters, [
+      { name: 'a', type: 'string' },
+      { name: 'b', type: 'string' },
+      { name: 'repo', type: '*Repo' }
+    ]);
+    assert.strictEqual(find('Service.Find').returnType, '*User, error');
+    assert.deepStrictEqual(find('Service.Find').calls, ['s.repo.Get']);
+    assert.deepStrictEqual(find('newService').calls, []);
+  });
+});
@@ -0,0 +1,81 @@
+import * as assert from 'assert';
+import { extractJavaSymbols } from '../../services/extractors/javaExtractor';
+
+const CONTROLLER = [
+  'package shop;',
+  '',
+  '/** Serves users. */',
+  '@RestController',
+  '@RequestMapping("/users")',
+  'public class UserController {',
+  '    private final UserService service;',
+  '',
+  '    public UserController(UserService service) {',
+  '        this.service = service;',
+  '    }',
+  '',
+  '    /**',
+  '     * Finds one user.',
+  '     * @param id the user id',
+  '     */',
+  '    @GetMapping("/{id}")',
+  '    public User find(@PathVariable("id") final Long id) {',
+  '        if (id == null) { return null; }',
+  '        return service.find(id);',
+  '    }',
+  '',
+  '    List<User> all() { return service.all(); }',
+  '',
+  '    public static class Page {',
+  '        public int size() { return 0; }',
+  '    }',
+  '}',
+  '',
+  'interface Repo {',
+  '    User get(Long id);',
+  '}'
+].join('\n');
+
+suite('javaExtractor', () => {
+  const symbols = extractJavaSymbols(CONTROLLER, 'UserController.java');
+  const find = (name: string) => {
+    const found = symbols.find(symbol => symbol.name === name);
+    assert.ok(found, `${name} was not extracted`);
+    return found;
+  };
+
+  test('extracts types, constructors, methods and nested types, but not fields', () => {
+    assert.deepStrictEqual(symbols.map(symbol => `${symbol.kind} ${symbol.name}`), [
+      'class UserController',
+      'method UserController.UserController',
+      'method UserController.find',
+      'route GET /users/{id}',
+      'method UserController.all',
+      'class UserController.Page',
+      'method UserController.Page.size',
+      'interface Repo',
+      'method Repo.get'
+    ]);
+  });
+
+  test('treats package-private members as private and exports only public API of public types', () => {
+    assert.strictEqual(find('UserController.all').visibility, 'private');
+    assert.strictEqual(find('UserController.Page.size').exported, true);
+    assert.strictEqual(find('Repo.get').visibility, 'public');
+    assert.strictEqual(find('Repo.get').exported, false);
+  });
+
+  test('reads Javadoc, parameter tags and annotated parameters', () => {
+    const method = find('UserController.find');
+    assert.strictEqual(find('UserController').documentation, 'Serves users.');
+    assert.deepStrictEqual(method.parameters, [{ name: 'id', type: 'Long', description: 'the user id' }]);
+    assert.strictEqual(method.returnType, 'User');
+    assert.deepStrictEqual(method.calls, ['service.find']);
+  });
+
+  test('prefixes Spring mappings with the class mapping, handled by the method', () => {
+    const route = find('GET /users/{id}');
+    assert.strictEqual(route.handler, 'UserController.find');
+    assert.strictEqual(route.hasDocumentation, true);
+  });
+});
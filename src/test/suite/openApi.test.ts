@@ -0,0 +1,134 @@
+import * as assert from 'assert';
+import { analyzeDirectory, loadProjectSettings } from '../../services/nodeWorkspace';
+import { formatOpenApiYaml, OpenApiDocument } from '../../services/openApi';
+import { parseYaml } from '../../services/yaml';
+import { removeProject, writeProject } from '../projectFixture';
+
+const EXPRESS_PROJECT = {
+  'package.json': JSON.stringify({ name: 'shop', version: '1.2.0', dependencies: { express: '^4.18.0', zod: '^3.22.0' } }),
+  'src/schemas.ts': [
+    "import { z } from 'zod';",
+    'export const UserSchema = z.object({ id: z.string().uuid(), email: z.string().email(), age: z.number().int().optional() });',
+    'export const CreateUserSchema = z.object({ email: z.string().email() });'
+  ].join('\n'),
+  'src/routes/users.ts': [
+    "import { Router } from 'express';",
+    "import { CreateUserSchema, UserSchema } from '../schemas';",
+    'const router = Router();',
+    '/** Lists users. */',
+    "router.get('/users', (req, res) => {",
+    '  const { page } = req.query;',
+    '  res.json([]);',
+    '});',
+    "router.get('/users/:id', async (req, res) => {",
+    '  const user = UserSchema.parse(await load(req.params.id));',
+    '  res.json(user);',
+    '});',
+    "router.post('/users', (req, res) => {",
+    '  const input = CreateUserSchema.parse(req.body);',
+    "  res.status(201).json(UserSchema.parse({ id: '1', ...input }));",
+    '});',
+    'export default router;'
+  ].join('\n')
+};
+
+suite('openApi', () => {
+  let root: string;
+
+  teardown(() => removeProject(root));
+
+  async function openApiOf(files: Record<string, string>): Promise<OpenApiDocument> {
+    root = writeProject(files);
+    const document = (await analyzeDirectory(root, loadProjectSettings(root))).projectStructure.openApi;
+    assert.ok(document, 'no OpenAPI document');
+    return document;
+  }
+
+  test('describes Express routes with their parameters, bodies and zod-typed responses', async () => {
+    const document = await openApiOf(EXPRESS_PROJECT);
+    assert.deepStrictEqual(document.info, { title: 'shop', version: '1.2.0' });
+    assert.deepStrictEqual(Object.keys(document.paths), ['/users', '/users/{id}']);
+
+    const list = document.paths['/users'].get;
+    assert.strictEqual(list.summary, 'Lists users.');
+    assert.deepStrictEqual(list.parameters?.map(p => `${p.in}:${p.name}`), ['query:page']);
+
+    const create = document.paths['/users'].post;
+    assert.deepStrictEqual(create.requestBody?.content['application/json'].schema, { $ref: '#/components/schemas/CreateUserSchema' });
+    assert.deepStrictEqual(create.responses['201'].content?.['application/json'].schema, { $ref: '#/components/schemas/UserSchema' });
+
+    const get = document.paths['/users/{id}'].get;
+    assert.deepStrictEqual(get.parameters?.map(p => `${p.in}:${p.name}`), ['path:id']);
+    assert.deepStrictEqual(get.responses['200'].content?.['application/json'].schema, { $ref: '#/components/schemas/UserSchema' });
+
+    const user = document.components.schemas.UserSchema;
+    assert.deepStrictEqual(user.required, ['id', 'email']);
+    assert.strictEqual(user.properties?.email.format, 'email');
+    assert.strictEqual(user.properties?.age.type, 'integer');
+  });
+
+  test('describes FastAPI routes from their signatures and Pydantic models', async () => {
+    const document = await openApiOf({
+      'requirements.txt': 'fastapi==0.110.0\n',
+      'app/main.py': [
+        'from fastapi import FastAPI',
+        'from pydantic import BaseModel',
+        '',
+        'app = FastAPI()',
+        '',
+        'class Item(BaseModel):',
+        '    name: str',
+        '    price: float',
+        '',
+        '@app.get("/items/{item_id}", response_model=Item)',
+        'def read_item(item_id: int, q: str | None = None):',
+        '    """Reads one item."""',
+        '    return Item(name="x", price=1.0)'
+      ].join('\n')
+    });
+    const read = document.paths['/items/{item_id}'].get;
+    assert.strictEqual(read.summary, 'Reads one item.');
+    assert.deepStrictEqual(read.parameters?.map(p => [p.in, p.name, p.required, p.schema.type]), [
+      ['path', 'item_id', true, 'integer'],
+      ['query', 'q', false, 'string']
+    ]);
+    assert.deepStrictEqual(read.responses['200'].content?.['application/json'].schema, { $ref: '#/components/schemas/Item' });
+    assert.deepStrictEqual(document.components.schemas.Item.properties, { name: { type: 'string' }, price: { type: 'number' } });
+  });
+
+  test('writes YAML that reads back as the same document', async () => {
+    const document = await openApiOf(EXPRESS_PROJECT);
+    assert.deepStrictEqual(parseYaml(formatOpenApiYaml(document)), JSON.parse(JSON.stringify(document)));
+  });
+});
+
+suite('yaml', () => {
+  test('reads block mappings, sequences and scalars', () => {
+    const text = [
+      'openapi: 3.0.3',
+      'info:',
+      '  title: "Shop: API"',
+      '  version: 1.0.0',
+      'tags:',
+      '  - name: users',
+      '    description: >-',
+      '      Accounts and',
+      '      profiles',
+      '  - orders',
+      'enabled: true',
+      'count: 3',
+      'empty: null',
+      'flow: { a: 1, b: [x, y] }',
+      '# a comment'
+    ].join('\n');
+    assert.deepStrictEqual(parseYaml(text), {
+      openapi: '3.0.3',
+      info: { title: 'Shop: API', version: '1.0.0' },
+      tags: [{ name: 'users', description: 'Accounts and profiles' }, 'orders'],
+      enabled: true,
+      count: 3,
+      empty: null,
+      flow: { a: 1, b: ['x', 'y'] }
+    });
+  });
+});
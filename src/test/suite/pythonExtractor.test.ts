@@ -0,0 +1,88 @@
+import * as assert from 'assert';
+import { extractPythonSymbols } from '../../services/extractors/pythonExtractor';
+
+const SERVICE = [
+  '__all__ = ["UserService", "create_app"]',
+  '',
+  'class UserService:',
+  '    """Looks users up."""',
+  '',
+  '    def __init__(self, repo: UserRepo):',
+  '        self.repo = repo',
+  '',
+  '    def find(self, user_id: int) -> User:',
+  '        """Finds one user.',
+  '',
+  '        Args:',
+  '            user_id: The id to look up.',
+  '        """',
+  '        return self.repo.get(user_id)',
+  '',
+  '    def _cache(self):',
+  '        def inner():',
+  '            pass',
+  '        return inner',
+  '',
+  'def create_app(debug=False, color="#fff", **options):',
+  '    sample = "def not_a_function(): call()"',
+  '    return build(debug)',
+  '',
+  'def helper():',
+  '    pass'
+].join('\n');
+
+suite('pythonExtractor', () => {
+  const symbols = extractPythonSymbols(SERVICE, 'users.py');
+  const find = (name: string) => {
+    const found = symbols.find(symbol => symbol.name === name);
+    assert.ok(found, `${name} was not extracted`);
+    return found;
+  };
+
+  test('extracts classes, methods and module functions, but not nested functions', () => {
+    assert.deepStrictEqual(symbols.map(symbol => `${symbol.kind} ${symbol.name}`), [
+      'class UserService',
+      'method UserService.__init__',
+      'method UserService.find',
+      'method UserService._cache',
+      'function create_app',
+      'function helper'
+    ]);
+  });
+
+  test('reads docstrings and the parameters they describe', () => {
+    assert.strictEqual(find('UserService').documentation, 'Looks users up.');
+    const method = find('UserService.find');
+    assert.deepStrictEqual(method.parameters, [{ name: 'user_id', type: 'int', description: 'The id to look up.' }]);
+    assert.strictEqual(method.returnType, 'User');
+    assert.strictEqual(find('helper').hasDocumentation, false);
+  });
+
+  test('exports what `__all__` lists, or else names without an underscore', () => {
+    assert.deepStrictEqual(symbols.filter(symbol => symbol.exported).map(symbol => symbol.name), [
+      'UserService', 'UserService.__init__', 'UserService.find', 'create_app'
+    ]);
+    assert.strictEqual(find('UserService._cache').visibility, 'private');
+    assert.strictEqual(extractPythonSymbols('def helper():\n    pass', 'util.py')[0].exported, true);
+  });
+
+  test('records calls outside of string literals', () => {
+    assert.deepStrictEqual(find('UserService.find').calls, ['self.repo.get']);
+    assert.deepStrictEqual(find('create_app').calls, ['build']);
+    assert.deepStrictEqual(find('create_app').parameters.map(param => param.name), ['debug', 'color', '**options']);
+  });
+
+  test('adds a route for each FastAPI or Flask decorator, handled by the function', () => {
+    const [fn, ...routes] = extractPythonSymbols([
+      '@router.post("/users")',
+      '@app.route("/users/new", methods=["GET"])',
+      'async def create_user(body: UserIn) -> User:',
+      '    return await service.create(body)'
+    ].join('\n'), 'routes.py');
+    assert.strictEqual(fn.name, 'create_user');
+    assert.deepStrictEqual(routes.map(route => [route.kind, route.name, route.handler]), [
+      ['route', 'POST /users', 'create_user'],
+      ['route', 'GET /users/new', 'create_user']
+    ]);
+  });
+});
@@ -0,0 +1,102 @@
+import * as assert from 'assert';
+import { draftReleaseNotes, formatReleaseNotesMarkdown, listTags } from '../../services/releaseNotes';
+import { commitFiles, git, gitProject, removeProject } from '../projectFixture';
+
+const ISSUES = 'https://github.com/acme/shop/issues/{id}';
+
+/** Author and committer dates on `day` of January 2030, so history has a stable order. */
+const at = (day: number, author = 'Mara') => {
+  const date = `2030-01-${String(day).padStart(2, '0')}T12:00:00Z`;
+  return { GIT_AUTHOR_DATE: date, GIT_COMMITTER_DATE: date, GIT_AUTHOR_NAME: author };
+};
+
+suite('releaseNotes', () => {
+  let root: string;
+
+  setup(() => {
+    root = gitProject({ 'src/orders.ts': 'export const orders = [];\n' });
+    git(root, ['tag', 'v1.0.0']);
+    commitFiles(root, { 'src/orders.ts': 'export const orders = [1];\n' }, 'feat(orders): cancel orders\n\nCloses #12', at(1));
+    commitFiles(root, { 'src/totals.ts': 'export const round = Math.round;\n' }, 'fix: round totals (#15)', at(2, 'Tobi'));
+    git(root, ['checkout', '-q', '-b', 'feature/v2']);
+    commitFiles(root, { 'src/api.ts': 'export const version = 2;\n' }, 'feat(api)!: drop the v1 routes\n\nBREAKING CHANGE: /v1 is gone', at(3));
+    git(root, ['checkout', '-q', 'main']);
+    git(root, ['merge', '-q', '--no-ff', '-m', 'Merge pull request #20 from acme/feature/v2', 'feature/v2'], at(4));
+    commitFiles(root, { 'README.md': '# Shop\n' }, 'Update the readme, see #3', at(5));
+    commitFiles(root, { 'src/totals.ts': 'export const round = (n: number) => Math.round(n);\n' }, 'fix: round totals', at(6, 'Tobi'));
+  });
+
+  teardown(() => removeProject(root));
+
+  test('groups the commits since the last tag by type and scope', async () => {
+    const notes = await draftReleaseNotes(root, { issueUrlTemplate: ISSUES });
+    assert.deepStrictEqual([notes.from, notes.to, notes.date, notes.commitCount], ['v1.0.0', 'HEAD', '2030-01-06', 4]);
+    assert.deepStrictEqual(notes.groups.map(group => [group.title, group.scopes.map(scope => [scope.scope, scope.entries.map(entry => entry.description)])]), [
+      ['Features', [['api', ['drop the v1 routes']], ['orders', ['cancel orders']]]],
+      ['Bug Fixes', [[undefined, ['round totals']]]],
+      ['Other Changes', [[undefined, ['Update the readme, see #3']]]]
+    ]);
+    assert.deepStrictEqual(notes.breaking.map(entry => entry.breakingNotes), [['/v1 is gone']]);
+    assert.deepStrictEqual(notes.contributors.map(contributor => [contributor.name, contributor.commits]), [['Mara', 3], ['Tobi', 2]]);
+  });
+
+  test('links issues and the pull requests that brought commits in, once each', async () => {
+    const notes = await draftReleaseNotes(root, { issueUrlTemplate: ISSUES });
+    assert.deepStrictEqual(notes.references.map(reference => [reference.id, reference.kind, reference.url]), [
+      [3, 'mentions', 'https://github.com/acme/shop/issues/3'],
+      [12, 'closes', 'https://github.com/acme/shop/issues/12'],
+      [15, 'pull', 'https://github.com/acme/shop/issues/15'],
+      [20, 'pull', 'https://github.com/acme/shop/issues/20']
+    ]);
+    const entry = (description: string) => notes.groups.flatMap(group => group.scopes.flatMap(scope => scope.entries)).find(candidate => candidate.description === description);
+    assert.strictEqual(entry('drop the v1 routes')?.pullRequest, 20);
+    assert.strictEqual(entry('round totals')?.pullRequest, 15);
+  });
+
+  test('formats Markdown with breaking changes first', async () => {
+    const notes = await draftReleaseNotes(root, { issueUrlTemplate: ISSUES });
+    const hash = (description: string) => notes.groups.flatMap(group => group.scopes.flatMap(scope => scope.entries)).find(entry => entry.description === description)!.shortHash;
+    assert.strictEqual(formatReleaseNotesMarkdown(notes), [
+      '# Unreleased',
+      '',
+      'Changes since v1.0.0 · 2030-01-06 · 4 commit(s) · 2 contributor(s)',
+      '',
+      '## Breaking Changes',
+      '',
+      `- **api:** /v1 is gone (${hash('drop the v1 routes')})`,
+      '',
+      '## Features',
+      '',
+      '### api',
+      '',
+      `- drop the v1 routes ([#20](https://github.com/acme/shop/issues/20)) (${hash('drop the v1 routes')})`,
+      '',
+      '### orders',
+      '',
+      `- cancel orders, closes [#12](https://github.com/acme/shop/issues/12) (${hash('cancel orders')})`,
+      '',
+      '## Bug Fixes',
+      '',
+      `- round totals ([#15](https://github.com/acme/shop/issues/15)) (${hash('round totals')})`,
+      '',
+      '## Other Changes',
+      '',
+      `- Update the readme, see [#3](https://github.com/acme/shop/issues/3) (${hash('Update the readme, see #3')})`,
+      '',
+      '## Contributors',
+      '',
+      '- Mara (3 commits)',
+      '- Tobi (2 commits)',
+      ''
+    ].join('\n'));
+  });
+
+  test('drafts a tag against the tag before it', async () => {
+    git(root, ['tag', 'v1.1.0']);
+    assert.deepStrictEqual(await listTags(root), ['v1.1.0', 'v1.0.0']);
+    const notes = await draftReleaseNotes(root, { to: 'v1.1.0' });
+    assert.deepStrictEqual([notes.from, notes.to, notes.commitCount], ['v1.0.0', 'v1.1.0', 4]);
+    assert.ok(formatReleaseNotesMarkdown(notes).startsWith('# v1.1.0\n'));
+    assert.deepStrictEqual(await listTags(root, 'v1.0.0'), ['v1.0.0']);
+  });
+});
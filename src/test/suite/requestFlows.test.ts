@@ -0,0 +1,95 @@
+import * as assert from 'assert';
+import { analyzeDirectory, loadProjectSettings } from '../../services/nodeWorkspace';
+import type { FlowCall, RequestFlow } from '../../services/requestFlows';
+import { removeProject, writeProject } from '../projectFixture';
+
+const REPOSITORY = {
+  'src/data/userStore.ts': [
+    'export class UserStore {',
+    '  async load(id: string) { return db.query(id); }',
+    '}'
+  ].join('\n')
+};
+
+suite('requestFlows', () => {
+  let root: string;
+
+  teardown(() => removeProject(root));
+
+  async function flowsOf(files: Record<string, string>): Promise<RequestFlow[]> {
+    root = writeProject(files);
+    return (await analyzeDirectory(root, loadProjectSettings(root))).projectStructure.requestFlows;
+  }
+
+  const steps = (calls: FlowCall[]): string[] => calls.flatMap(call => [`${call.from} -> ${call.to}: ${call.call}`, ...steps(call.calls)]);
+
+  test('follows a receiver created with new in the handler', async () => {
+    const [flow] = await flowsOf({
+      ...REPOSITORY,
+      'src/services/accounts.ts': [
+        "import { UserStore } from '../data/userStore';",
+        'export class UserService {',
+        '  constructor(private readonly store: UserStore) {}',
+        '  find(id: string) { return this.store.load(id); }',
+        '}'
+      ].join('\n'),
+      'src/routes/users.ts': [
+        "import { Router } from 'express';",
+        "import { UserService } from '../services/accounts';",
+        "import { UserStore } from '../data/userStore';",
+        'const router = Router();',
+        "router.get('/users/:id', async (req, res) => {",
+        '  const svc = new UserService(new UserStore());',
+        '  res.json(await svc.find(req.params.id));',
+        '});'
+      ].join('\n')
+    });
+    assert.strictEqual(flow.route, 'GET /users/:id');
+    assert.deepStrictEqual(steps(flow.calls), [
+      'users -> UserService: svc.find',
+      'UserService -> UserStore: this.store.load',
+      'UserStore -> Database: db.query'
+    ]);
+    assert.deepStrictEqual(flow.participants.map(p => `${p.name}:${p.layer}`), [
+      'users:handler', 'UserService:service', 'UserStore:data', 'Database:database'
+    ]);
+  });
+
+  test('follows module-level instances and typed parameters', async () => {
+    const [flow] = await flowsOf({
+      ...REPOSITORY,
+      'src/services/accounts.ts': [
+        "import { UserStore } from '../data/userStore';",
+        'export class UserService {',
+        '  find(backend: UserStore, id: string) { return backend.load(id); }',
+        '}'
+      ].join('\n'),
+      'src/routes/users.ts': [
+        "import { Router } from 'express';",
+        "import { UserService } from '../services/accounts';",
+        "import { UserStore } from '../data/userStore';",
+        'const router = Router();',
+        'const api = new UserService();',
+        "router.get('/users/:id', (req, res) => res.json(api.find(new UserStore(), req.params.id)));"
+      ].join('\n')
+    });
+    assert.deepStrictEqual(steps(flow.calls), [
+      'users -> UserService: api.find',
+      'UserService -> UserStore: backend.load',
+      'UserStore -> Database: db.query'
+    ]);
+  });
+
+  test('does not guess a receiver that names no project class', async () => {
+    const [flow] = await flowsOf({
+      ...REPOSITORY,
+      'src/routes/users.ts': [
+        "import { Router } from 'express';",
+        'const router = Router();',
+        'const cache = new Map<string, string>();',
+        "router.get('/users/:id', (req, res) => res.json(cache.load(req.params.id)));"
+      ].join('\n')
+    });
+    assert.deepStrictEqual(steps(flow.calls), []);
+  });
+});
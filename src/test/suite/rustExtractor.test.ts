@@ -0,0 +1,86 @@
+import * as assert from 'assert';
+import { extractRustSymbols } from '../../services/extractors/rustExtractor';
+
+const LIB = [
+  '/// A user account.',
+  'pub struct User {',
+  '    pub id: u64,',
+  '}',
+  '',
+  'pub(crate) enum Role { Admin, Member }',
+  '',
+  'impl User {',
+  '    /// Creates a user.',
+  '    ///',
+  '    /// # Arguments',
+  '    ///',
+  '    /// * `id` - The account id',
+  '    pub fn new(id: u64) -> Self {',
+  '        User { id }',
+  '    }',
+  '',
+  '    fn secret(&self) -> String { self.id.to_string() }',
+  '}',
+  '',
+  'pub trait Store {',
+  '    fn get(&self, id: u64) -> Option<User>;',
+  '}',
+  '',
+  'impl Store for Db {',
+  '    fn get(&self, id: u64) -> Option<User> { self.pool.fetch(id) }',
+  '}',
+  '',
+  '#[get("/users/{id}")]',
+  'async fn get_user(path: web::Path<u64>) -> impl Responder {',
+  '    let sample = "fn fake() {";',
+  '    HttpResponse::Ok().json(load(path.into_inner()))',
+  '}',
+  '',
+  'pub fn parse<F: Fn(u8) -> u8>(f: F, mut buf: Vec<u8>) -> Result<u8, Error> where F: Copy { todo!() }'
+].join('\n');
+
+suite('rustExtractor', () => {
+  const symbols = extractRustSymbols(LIB, 'lib.rs');
+  const find = (name: string) => {
+    const found = symbols.find(symbol => symbol.name === name);
+    assert.ok(found, `${name} was not extracted`);
+    return found;
+  };
+
+  test('extracts items, impl and trait methods, and routes', () => {
+    assert.deepStrictEqual(symbols.map(symbol => `${symbol.kind} ${symbol.name}`), [
+      'class User',
+      'enum Role',
+      'method User.new',
+      'method User.secret',
+      'interface Store',
+      'method Store.get',
+      'method Db.get',
+      'function get_user',
+      'route GET /users/{id}',
+      'function parse'
+    ]);
+    assert.strictEqual(find('GET /users/{id}').handler, 'get_user');
+  });
+
+  test('exports `pub` items and trait methods, not crate-visible ones', () => {
+    assert.strictEqual(find('Role').visibility, 'protected');
+    assert.deepStrictEqual(symbols.filter(symbol => symbol.exported && symbol.kind !== 'route').map(symbol => symbol.name), [
+      'User', 'User.new', 'Store', 'Store.get', 'Db.get', 'parse'
+    ]);
+  });
+
+  test('reads rustdoc and its `# Arguments` section', () => {
+    assert.strictEqual(find('User').documentation, 'A user account.');
+    assert.deepStrictEqual(find('User.new').parameters, [{ name: 'id', type: 'u64', description: 'The account id' }]);
+    assert.strictEqual(find('User.secret').hasDocumentation, false);
+  });
+
+  test('reads generic signatures and calls', () => {
+    const parse = find('parse');
+    assert.deepStrictEqual(parse.parameters.map(param => `${param.name}: ${param.type}`), ['f: F', 'buf: Vec<u8>']);
+    assert.strictEqual(parse.returnType, 'Result<u8, Error>');
+    assert.deepStrictEqual(find('Db.get').calls, ['self.pool.fetch']);
+    assert.deepStrictEqual(find('get_user').calls, ['HttpResponse::Ok', 'load', 'path.into_inner']);
+  });
+});
@@ -0,0 +1,55 @@
+import * as assert from 'assert';
+import { extractTypeScriptSymbols } from '../../services/extractors/typescriptExtractor';
+
+function symbol(text: string, name: string, fileName = 'module.ts') {
+  const found = extractTypeScriptSymbols(text, fileName).find(candidate => candidate.name === name);
+  assert.ok(found, `${name} was not extracted`);
+  return found;
+}
+
+suite('typescriptExtractor', () => {
+  suite('exports', () => {
+    test('counts export modifiers', () => {
+      assert.strictEqual(symbol('export function run() {}', 'run').exported, true);
+      assert.strictEqual(symbol('function run() {}', 'run').exported, false);
+    });
+
+    test('counts names exported by an export clause', () => {
+      const text = 'function run() {}\nconst stop = () => {};\nclass Job {}\nexport { run, stop as halt };\nexport type { Job };';
+      assert.strictEqual(symbol(text, 'run').exported, true);
+      assert.strictEqual(symbol(text, 'stop').exported, true);
+      assert.strictEqual(symbol(text, 'Job').exported, true);
+    });
+
+    test('does not count re-exports from other modules', () => {
+      assert.strictEqual(symbol("function run() {}\nexport { run as start } from './other';", 'run').exported, false);
+    });
+
+    test('counts `export default name` and CommonJS assignments', () => {
+      assert.strictEqual(symbol('function run() {}\nexport default run;', 'run').exported, true);
+      assert.strictEqual(symbol('function run() {}\nmodule.exports = { run };', 'run', 'module.js').exported, true);
+    });
+
+    test('records anonymous default exports as `default`', () => {
+      const fn = symbol('export default function (a: number) { return a; }', 'default');
+      assert.strictEqual(fn.kind, 'function');
+      assert.strictEqual(fn.exported, true);
+      const cls = symbol('export default class { run() {} }', 'default');
+      assert.strictEqual(cls.kind, 'class');
+      assert.ok(symbol('export default class { run() {} }', 'default.run'));
+    });
+  });
+
+  suite('documentation', () => {
+    test('counts doc comments with text or tags', () => {
+      assert.strictEqual(symbol('/** Runs it. */\nexport function run() {}', 'run').hasDocumentation, true);
+      assert.strictEqual(symbol('/** @deprecated */\nexport function run() {}', 'run').hasDocumentation, true);
+    });
+
+    test('does not count empty doc blocks or plain comments', () => {
+      assert.strictEqual(symbol('/** */\nexport function run() {}', 'run').hasDocumentation, false);
+      assert.strictEqual(symbol('/**\n *\n */\nexport function run() {}', 'run').hasDocumentation, false);
+      assert.strictEqual(symbol('// Runs it.\nexport function run() {}', 'run').hasDocumentation, false);
+    });
+  });
+});